@@ -0,0 +1,52 @@
+// Simple script to validate multi-slot series ordering logic against the shared
+// series engine used by the editor.
+// Usage: npx vite-node scripts/checkSeriesOrder.ts
+
+import { generateSeries, type SeriesFormat } from '../src/utils/seriesEngine';
+import { ticketIndexAt, type NumberingOrder } from '../src/utils/numberingOrder';
+
+function generateSeriesForSlot(startingSeries: string, pages: number, format: SeriesFormat = {}) {
+  return generateSeries(startingSeries, pages * 4, format);
+}
+
+function assertEqual(actual: string, expected: string, msg: string) {
+  if (actual !== expected) {
+    throw new Error(`${msg}: expected ${expected}, got ${actual}`);
+  }
+}
+
+function main() {
+  const pages = 3;
+  const slotA = generateSeriesForSlot('A001', pages);
+  const slotB = generateSeriesForSlot('v08', pages);
+
+  // Page/ticket index helpers (4-up A4, one column)
+  const grid = { rows: 4, columns: 1, sheetCount: pages };
+  const idx = (pageIdx: number, ticketIdx: number, order: NumberingOrder = 'row-major') => ticketIndexAt(order, grid, pageIdx, ticketIdx);
+
+  // Page1 top ticket
+  assertEqual(slotA[idx(0, 0)], 'A001', 'SlotA page1 ticket1');
+  assertEqual(slotB[idx(0, 0)], 'v08', 'SlotB page1 ticket1');
+
+  // Page2 top ticket (globalIdx = 4)
+  assertEqual(slotA[idx(1, 0)], 'A005', 'SlotA page2 ticket1');
+  assertEqual(slotB[idx(1, 0)], 'v12', 'SlotB page2 ticket1');
+
+  // Last ticket of page3 (globalIdx = 11)
+  assertEqual(slotA[idx(2, 3)], 'A012', 'SlotA page3 ticket4');
+  assertEqual(slotB[idx(2, 3)], 'v19', 'SlotB page3 ticket4');
+
+  // Overflow carries into the prefix instead of truncating
+  const slotC = generateSeriesForSlot('A995', pages, { rollover: 'carry' });
+  assertEqual(slotC[idx(1, 0)], 'A999', 'SlotC page2 ticket1');
+  assertEqual(slotC[idx(1, 1)], 'B000', 'SlotC page2 ticket2');
+
+  // Cut and stack: each position holds a run of `pages` consecutive numbers
+  assertEqual(slotA[idx(1, 0, 'cut-and-stack')], 'A002', 'SlotA cut-and-stack page2 ticket1');
+  assertEqual(slotA[idx(0, 1, 'cut-and-stack')], 'A004', 'SlotA cut-and-stack page1 ticket2');
+  assertEqual(slotA[idx(2, 3, 'cut-and-stack')], 'A012', 'SlotA cut-and-stack page3 ticket4');
+
+  console.log('checkSeriesOrder: OK');
+}
+
+main();
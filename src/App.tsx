@@ -9,6 +9,8 @@ import Upload from "./pages/Upload";
 import Viewer from "./pages/Viewer";
 import PdfViewer from "./pages/PdfViewer";
 import OutputPreview from "./pages/OutputPreview";
+import RenderJobs from "./pages/RenderJobs";
+import SeriesRegister from "./pages/SeriesRegister";
 import Demo from "./pages/Demo";
 import EditorPage from "./pages/EditorPage";
 import Auth from "./pages/Auth";
@@ -79,6 +81,21 @@ const App = () => (
                 <OutputPreview />
               </ProtectedRoute>
             } />
+            <Route path="/jobs" element={
+              <ProtectedRoute adminOnly>
+                <RenderJobs />
+              </ProtectedRoute>
+            } />
+            <Route path="/jobs/:jobId" element={
+              <ProtectedRoute adminOnly>
+                <RenderJobs />
+              </ProtectedRoute>
+            } />
+            <Route path="/series-register" element={
+              <ProtectedRoute adminOnly>
+                <SeriesRegister />
+              </ProtectedRoute>
+            } />
             <Route path="/demo" element={<Demo />} />
             <Route path="/editor-shell" element={
               <ProtectedRoute adminOnly>
@@ -1,4 +1,4 @@
-import { Shield, LogOut, UserPlus } from 'lucide-react';
+import { Shield, LogOut, UserPlus, ListChecks, Hash } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
@@ -32,6 +32,18 @@ const Navbar = () => {
                     Create User
                   </Button>
                 </Link>
+                <Link to="/jobs">
+                  <Button variant="ghost" className="gap-2">
+                    <ListChecks className="h-4 w-4" />
+                    Render Jobs
+                  </Button>
+                </Link>
+                <Link to="/series-register">
+                  <Button variant="ghost" className="gap-2">
+                    <Hash className="h-4 w-4" />
+                    Series Register
+                  </Button>
+                </Link>
                 <Link to="/admin/users">
                   <Button
                     variant="outline"
@@ -0,0 +1,88 @@
+import React from 'react';
+import {
+  AlignCenterHorizontal,
+  AlignCenterVertical,
+  AlignEndHorizontal,
+  AlignEndVertical,
+  AlignHorizontalDistributeCenter,
+  AlignStartHorizontal,
+  AlignStartVertical,
+  AlignVerticalDistributeCenter,
+  Group,
+  Ungroup,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import type { AlignMode } from '@/utils/selection';
+
+interface ArrangePanelProps {
+  selectedCount: number;
+  // Lone items plus locked groups in the selection
+  unitCount: number;
+  canGroup: boolean;
+  canUngroup: boolean;
+  onAlign: (mode: AlignMode) => void;
+  onDistribute: (axis: 'x' | 'y') => void;
+  onGroup: () => void;
+  onUngroup: () => void;
+}
+
+const ALIGN_BUTTONS: { mode: AlignMode; title: string; Icon: React.ComponentType<{ className?: string }> }[] = [
+  { mode: 'left', title: 'Align left', Icon: AlignStartVertical },
+  { mode: 'center', title: 'Align centre', Icon: AlignCenterVertical },
+  { mode: 'right', title: 'Align right', Icon: AlignEndVertical },
+  { mode: 'top', title: 'Align top', Icon: AlignStartHorizontal },
+  { mode: 'middle', title: 'Align middle', Icon: AlignCenterHorizontal },
+  { mode: 'bottom', title: 'Align bottom', Icon: AlignEndHorizontal },
+];
+
+export const ArrangePanel: React.FC<ArrangePanelProps> = ({
+  selectedCount,
+  unitCount,
+  canGroup,
+  canUngroup,
+  onAlign,
+  onDistribute,
+  onGroup,
+  onUngroup,
+}) => {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs text-muted-foreground uppercase tracking-wide">Arrange</Label>
+        <span className="text-[10px] text-muted-foreground">
+          {selectedCount} selected{unitCount === 1 ? ' · aligns to crop box' : ''}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-6 gap-1">
+        {ALIGN_BUTTONS.map(({ mode, title, Icon }) => (
+          <Button key={mode} onClick={() => onAlign(mode)} disabled={!unitCount} variant="outline" size="icon" className="h-7 w-7" title={title}>
+            <Icon className="h-3 w-3" />
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-1">
+        <Button onClick={() => onDistribute('x')} disabled={unitCount < 3} variant="outline" size="sm" className="h-7 gap-1 text-[10px]">
+          <AlignHorizontalDistributeCenter className="h-3 w-3" />
+          Distribute H
+        </Button>
+        <Button onClick={() => onDistribute('y')} disabled={unitCount < 3} variant="outline" size="sm" className="h-7 gap-1 text-[10px]">
+          <AlignVerticalDistributeCenter className="h-3 w-3" />
+          Distribute V
+        </Button>
+        <Button onClick={onGroup} disabled={!canGroup} variant="outline" size="sm" className="h-7 gap-1 text-[10px]">
+          <Group className="h-3 w-3" />
+          Group
+        </Button>
+        <Button onClick={onUngroup} disabled={!canUngroup} variant="outline" size="sm" className="h-7 gap-1 text-[10px]">
+          <Ungroup className="h-3 w-3" />
+          Ungroup
+        </Button>
+      </div>
+
+      <p className="text-[10px] text-muted-foreground">Shift-click or drag a marquee on the artwork to select several items.</p>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React, { useMemo } from 'react';
+import { isLinearSymbology, renderBarcodeSvg, resolveBarcodeConfig, type BarcodeSlotConfig } from '@/utils/barcodeSvg';
+
+interface BarcodeSlotPreviewProps {
+  value: string;
+  config?: Partial<BarcodeSlotConfig> | null;
+  color?: string;
+  mmToPxX: (mm: number) => number;
+  mmToPxY: (mm: number) => number;
+}
+
+// Renders a barcode slot at its true size in mm. Drawn from the top-left corner
+// of the symbol (quiet zone included), which is the slot's x_mm/y_mm anchor.
+export const BarcodeSlotPreview: React.FC<BarcodeSlotPreviewProps> = React.memo(({ value, config, color, mmToPxX, mmToPxY }) => {
+  const resolved = useMemo(() => resolveBarcodeConfig(config), [config]);
+
+  const rendered = useMemo(() => {
+    try {
+      return { ok: true as const, ...renderBarcodeSvg(value, resolved, color) };
+    } catch (e) {
+      return { ok: false as const, error: e instanceof Error ? e.message : 'Unable to render barcode' };
+    }
+  }, [color, resolved, value]);
+
+  if (!rendered.ok) {
+    return (
+      <div
+        className="rounded border border-destructive bg-destructive/10 px-1 text-[10px] text-destructive"
+        style={{ whiteSpace: 'nowrap', pointerEvents: 'none' }}
+      >
+        {rendered.error}
+      </div>
+    );
+  }
+
+  const widthPx = mmToPxX(rendered.widthMm);
+  const heightPx = mmToPxY(rendered.heightMm);
+  const caption = resolved.showText && !isLinearSymbology(resolved.symbology);
+
+  return (
+    <div style={{ width: widthPx, pointerEvents: 'none', userSelect: 'none' }}>
+      <div
+        style={{ width: widthPx, height: heightPx }}
+        dangerouslySetInnerHTML={{
+          __html: rendered.svg.replace(/width="[^"]+mm" height="[^"]+mm"/, 'width="100%" height="100%"'),
+        }}
+      />
+      {caption ? (
+        <div className="text-center font-mono" style={{ fontSize: Math.max(6, mmToPxY(2.5)), lineHeight: 1, color: color || '#000000' }}>
+          {value}
+        </div>
+      ) : null}
+    </div>
+  );
+});
+
+BarcodeSlotPreview.displayName = 'BarcodeSlotPreview';
@@ -0,0 +1,114 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  BATCH_OUTPUTS,
+  BATCH_SUBMITS,
+  MAX_PAGES_PER_REQUEST,
+  type BatchOutput,
+  type BatchRun,
+  type BatchSettings,
+  type BatchSubmit,
+} from '@/utils/jobBatches';
+
+interface BatchSettingsPanelProps {
+  settings: BatchSettings;
+  totalPages: number;
+  run?: BatchRun | null;
+  isGenerating: boolean;
+  onChange: (updates: Partial<BatchSettings>) => void;
+  onRetryFailed: () => void;
+}
+
+export const BatchSettingsPanel: React.FC<BatchSettingsPanelProps> = ({ settings, totalPages, run, isGenerating, onChange, onRetryFailed }) => {
+  const batchCount = Math.ceil(totalPages / settings.pagesPerBatch);
+  const done = run?.parts.filter((p) => p.status === 'done').length ?? 0;
+  const failed = run?.parts.filter((p) => p.status === 'failed') ?? [];
+  // Every part has settled but the run has no merged output yet
+  const resumable = Boolean(run && !run.resultS3Key && run.parts.every((p) => p.status === 'done' || p.status === 'failed'));
+  return (
+    <div className="space-y-3">
+      <Label className="text-xs text-muted-foreground uppercase tracking-wide">Batches</Label>
+
+      <label className="flex items-center gap-2 text-xs text-foreground">
+        <input type="checkbox" checked={settings.enabled} onChange={(e) => onChange({ enabled: e.target.checked })} />
+        Split the run into batches
+      </label>
+
+      {settings.enabled ? (
+        <>
+          <div className="space-y-1.5">
+            <Label className="text-xs text-foreground">Pages per Batch</Label>
+            <Input
+              type="number"
+              value={settings.pagesPerBatch}
+              onChange={(e) => onChange({ pagesPerBatch: parseInt(e.target.value) || 1 })}
+              min={1}
+              max={MAX_PAGES_PER_REQUEST}
+              className="h-8 text-sm bg-background"
+            />
+            <p className="text-[10px] text-muted-foreground">
+              {batchCount} batch{batchCount === 1 ? '' : 'es'}; each continues the series where the last stopped
+            </p>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs text-foreground">Submit</Label>
+            <select
+              value={settings.submit}
+              onChange={(e) => onChange({ submit: e.target.value as BatchSubmit })}
+              className="w-full h-8 px-2 rounded border border-input bg-background text-sm"
+            >
+              {BATCH_SUBMITS.map((s) => (
+                <option key={s.value} value={s.value}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs text-foreground">Output</Label>
+            <select
+              value={settings.output}
+              onChange={(e) => onChange({ output: e.target.value as BatchOutput })}
+              className="w-full h-8 px-2 rounded border border-input bg-background text-sm"
+            >
+              {BATCH_OUTPUTS.map((o) => (
+                <option key={o.value} value={o.value}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </>
+      ) : (
+        <p className="text-[10px] text-muted-foreground">Runs over {MAX_PAGES_PER_REQUEST} pages need batches.</p>
+      )}
+
+      {run ? (
+        <div className="space-y-1.5 p-2 bg-muted/50 rounded border border-border">
+          <p className="text-[10px] text-muted-foreground">
+            {run.resultS3Key ? 'Run complete' : `${done} of ${run.parts.length} batches rendered`}
+            {failed.length ? `, ${failed.length} failed` : ''}
+          </p>
+          <Progress value={(done / Math.max(1, run.parts.length)) * 100} className="h-1.5" />
+          {failed.slice(0, 3).map((p) => (
+            <p key={p.batch.index} className="text-[10px] text-destructive truncate" title={p.error ?? undefined}>
+              Batch {p.batch.index + 1}: {p.error ?? 'failed'}
+            </p>
+          ))}
+          {resumable && !isGenerating ? (
+            <Button onClick={onRetryFailed} variant="outline" size="sm" className="w-full gap-2">
+              <RotateCcw className="h-4 w-4" />
+              {failed.length ? 'Retry Failed Batches' : 'Retry Merge'}
+            </Button>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useRef } from 'react';
+import type { Guide, SnapResult } from '@/utils/snapping';
+
+interface CanvasGuidesProps {
+  guides: Guide[];
+  // Smart-guide lines the dragged slot is currently aligned to
+  activeLines: SnapResult['lines'];
+  objectMm: { widthMm: number; heightMm: number };
+  mmToPxX: (mm: number) => number;
+  mmToPxY: (mm: number) => number;
+  pxToMmX: (px: number) => number;
+  pxToMmY: (px: number) => number;
+  onMoveGuide: (id: string, mm: number) => void;
+  onRemoveGuide: (id: string) => void;
+}
+
+const GUIDE_COLOR = 'rgba(6, 182, 212, 0.9)';
+const SMART_COLOR = 'rgba(236, 72, 153, 0.9)';
+
+// User guides (draggable; double-click or drag off the object to remove) and
+// the smart-guide lines shown while a slot snaps.
+export const CanvasGuides: React.FC<CanvasGuidesProps> = ({
+  guides,
+  activeLines,
+  objectMm,
+  mmToPxX,
+  mmToPxY,
+  pxToMmX,
+  pxToMmY,
+  onMoveGuide,
+  onRemoveGuide,
+}) => {
+  const layerRef = useRef<HTMLDivElement | null>(null);
+  const draggingRef = useRef<string | null>(null);
+
+  const pointerMm = (e: React.PointerEvent, axis: Guide['axis']) => {
+    const rect = layerRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    const mm = axis === 'x' ? pxToMmX(e.clientX - rect.left) : pxToMmY(e.clientY - rect.top);
+    return Number.isFinite(mm) ? Math.round(mm * 10) / 10 : null;
+  };
+
+  const outside = (axis: Guide['axis'], mm: number) => mm < 0 || mm > (axis === 'x' ? objectMm.widthMm : objectMm.heightMm);
+
+  return (
+    <div ref={layerRef} className="absolute inset-0 z-30" style={{ pointerEvents: 'none' }}>
+      {guides.map((g) => (
+        <div
+          key={g.id}
+          title={`${g.mm} mm · double-click to remove`}
+          onPointerDown={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            e.currentTarget.setPointerCapture(e.pointerId);
+            draggingRef.current = g.id;
+          }}
+          onPointerMove={(e) => {
+            if (draggingRef.current !== g.id) return;
+            const mm = pointerMm(e, g.axis);
+            if (mm !== null) onMoveGuide(g.id, mm);
+          }}
+          onPointerUp={(e) => {
+            if (draggingRef.current !== g.id) return;
+            draggingRef.current = null;
+            const mm = pointerMm(e, g.axis);
+            if (mm !== null && outside(g.axis, mm)) onRemoveGuide(g.id);
+          }}
+          onClick={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => {
+            e.stopPropagation();
+            onRemoveGuide(g.id);
+          }}
+          style={{
+            position: 'absolute',
+            pointerEvents: 'auto',
+            ...(g.axis === 'x'
+              ? { left: mmToPxX(g.mm) - 2, top: 0, width: 5, height: '100%', cursor: 'col-resize' }
+              : { top: mmToPxY(g.mm) - 2, left: 0, height: 5, width: '100%', cursor: 'row-resize' }),
+          }}
+        >
+          <div
+            style={{
+              position: 'absolute',
+              background: GUIDE_COLOR,
+              ...(g.axis === 'x' ? { left: 2, top: 0, width: 1, height: '100%' } : { top: 2, left: 0, height: 1, width: '100%' }),
+            }}
+          />
+        </div>
+      ))}
+
+      {activeLines.map((l, i) => (
+        <div
+          key={`${l.axis}:${l.mm}:${i}`}
+          style={{
+            position: 'absolute',
+            background: SMART_COLOR,
+            ...(l.axis === 'x'
+              ? { left: mmToPxX(l.mm), top: 0, width: 1, height: '100%' }
+              : { top: mmToPxY(l.mm), left: 0, height: 1, width: '100%' }),
+          }}
+        />
+      ))}
+    </div>
+  );
+};
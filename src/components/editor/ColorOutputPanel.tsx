@@ -0,0 +1,48 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { OUTPUT_PROFILES, type ColorOutputSettings, type OutputProfileId } from '@/utils/printColor';
+
+interface ColorOutputPanelProps {
+  settings: ColorOutputSettings;
+  softProof: boolean;
+  onChange: (updates: Partial<ColorOutputSettings>) => void;
+  onSoftProofChange: (softProof: boolean) => void;
+}
+
+export const ColorOutputPanel: React.FC<ColorOutputPanelProps> = ({ settings, softProof, onChange, onSoftProofChange }) => {
+  const cmyk = settings.mode === 'cmyk';
+  return (
+    <div className="space-y-3">
+      <Label className="text-xs text-muted-foreground uppercase tracking-wide">Color Output</Label>
+
+      <label className="flex items-center gap-2 text-xs text-foreground">
+        <input type="checkbox" checked={cmyk} onChange={(e) => onChange({ mode: e.target.checked ? 'cmyk' : 'rgb' })} />
+        Output as CMYK
+      </label>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs text-foreground">Output Profile</Label>
+        <select
+          value={settings.profile}
+          disabled={!cmyk}
+          onChange={(e) => onChange({ profile: e.target.value as OutputProfileId })}
+          className="w-full h-8 px-2 rounded border border-input bg-background text-sm"
+        >
+          {OUTPUT_PROFILES.map((p) => (
+            <option key={p.value} value={p.value}>
+              {p.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-foreground">
+        <input type="checkbox" checked={softProof} disabled={!cmyk} onChange={(e) => onSoftProofChange(e.target.checked)} />
+        Soft proof on the canvas
+      </label>
+      {cmyk && softProof ? (
+        <p className="text-[10px] text-muted-foreground">Slot and inked artwork colours are approximated for this profile.</p>
+      ) : null}
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DUPLEX_FLIPS, type DuplexFlip, type DuplexSettings, type DuplexSide } from '@/utils/duplex';
+
+interface DuplexPanelProps {
+  settings: DuplexSettings;
+  error?: string | null;
+  activeSide: DuplexSide;
+  backArtworkName?: string | null;
+  onChange: (updates: Partial<DuplexSettings>) => void;
+  onActiveSideChange: (side: DuplexSide) => void;
+  onUploadBackArtwork: (file: File) => void;
+  onClearBackArtwork: () => void;
+}
+
+export const DuplexPanel: React.FC<DuplexPanelProps> = ({
+  settings,
+  error,
+  activeSide,
+  backArtworkName,
+  onChange,
+  onActiveSideChange,
+  onUploadBackArtwork,
+  onClearBackArtwork,
+}) => {
+  const offsetField = (label: string, key: 'offsetXMm' | 'offsetYMm') => (
+    <div className="space-y-1">
+      <Label className="text-[10px] text-muted-foreground">{label}</Label>
+      <Input
+        type="number"
+        value={settings[key]}
+        step={0.1}
+        disabled={!settings.enabled}
+        onChange={(e) => onChange({ [key]: parseFloat(e.target.value) || 0 })}
+        className="h-7 text-xs"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-xs text-muted-foreground uppercase tracking-wide">Duplex</Label>
+
+      <label className="flex items-center gap-2 text-xs text-foreground">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => {
+            onChange({ enabled: e.target.checked });
+            if (!e.target.checked) onActiveSideChange('front');
+          }}
+        />
+        Print a back side
+      </label>
+
+      {settings.enabled ? (
+        <>
+          <div className="flex gap-1">
+            {(['front', 'back'] as const).map((side) => (
+              <button
+                key={side}
+                onClick={() => onActiveSideChange(side)}
+                className={`flex-1 h-7 rounded border text-xs capitalize transition-colors ${
+                  activeSide === side ? 'bg-primary text-primary-foreground border-primary' : 'bg-background border-input hover:bg-muted'
+                }`}
+              >
+                Edit {side}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs text-foreground">Back Artwork</Label>
+            {backArtworkName ? (
+              <div className="flex items-center justify-between gap-2 rounded border border-input px-2 py-1">
+                <span className="truncate text-[10px] text-foreground">{backArtworkName}</span>
+                <button onClick={onClearBackArtwork} className="text-muted-foreground hover:text-foreground" title="Remove back artwork">
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ) : (
+              <input
+                type="file"
+                accept=".svg,image/svg+xml"
+                className="block w-full text-[10px] text-muted-foreground file:mr-2 file:py-1 file:px-2 file:text-[10px] file:rounded file:border-0 file:bg-primary/10 file:text-primary cursor-pointer"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) {
+                    onUploadBackArtwork(file);
+                    e.target.value = '';
+                  }
+                }}
+              />
+            )}
+            <p className="text-[10px] text-muted-foreground">Optional SVG; slots added while editing the back print on the back.</p>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs text-foreground">Mirror Mode</Label>
+            <select
+              value={settings.flip}
+              onChange={(e) => onChange({ flip: e.target.value as DuplexFlip })}
+              className="w-full h-8 px-2 rounded border border-input bg-background text-sm"
+            >
+              {DUPLEX_FLIPS.map((f) => (
+                <option key={f.value} value={f.value}>
+                  {f.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {offsetField('Back offset X (mm)', 'offsetXMm')}
+            {offsetField('Back offset Y (mm)', 'offsetYMm')}
+          </div>
+        </>
+      ) : null}
+
+      {error ? <p className="text-[10px] text-destructive">{error}</p> : null}
+    </div>
+  );
+};
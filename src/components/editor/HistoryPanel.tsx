@@ -0,0 +1,53 @@
+import React from 'react';
+import { Redo2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+
+interface HistoryPanelProps {
+  entries: { label: string; at: number }[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, index, canUndo, canRedo, onUndo, onRedo, onJump }) => {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs text-muted-foreground uppercase tracking-wide">History</Label>
+        <div className="flex gap-1">
+          <Button onClick={onUndo} disabled={!canUndo} variant="ghost" size="icon" className="h-6 w-6" title="Undo (Ctrl+Z)">
+            <Undo2 className="h-3 w-3" />
+          </Button>
+          <Button onClick={onRedo} disabled={!canRedo} variant="ghost" size="icon" className="h-6 w-6" title="Redo (Ctrl+Shift+Z)">
+            <Redo2 className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Newest first; entries after the cursor are the redo branch */}
+      <div className="max-h-48 overflow-y-auto rounded border border-border">
+        {entries
+          .map((entry, idx) => ({ entry, idx }))
+          .reverse()
+          .map(({ entry, idx }) => (
+            <button
+              key={`${idx}-${entry.at}`}
+              onClick={() => onJump(idx)}
+              className={`flex w-full items-center justify-between gap-2 px-2 py-1 text-left text-[11px] transition-colors ${
+                idx === index ? 'bg-primary text-primary-foreground' : idx > index ? 'text-muted-foreground/60 hover:bg-muted' : 'text-foreground hover:bg-muted'
+              }`}
+            >
+              <span className="truncate">{entry.label}</span>
+              <span className="shrink-0 tabular-nums opacity-70">{formatTime(entry.at)}</span>
+            </button>
+          ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { objectRectInCell, type ImpositionLayout, type ObjectAlignment } from '@/utils/imposition';
+
+interface ImpositionPreviewProps {
+  layout: ImpositionLayout;
+  objectMm?: { widthMm: number; heightMm: number } | null;
+  alignment?: ObjectAlignment | null;
+  // Optional text per cell (e.g. the series value printed there)
+  cellLabels?: string[];
+  widthPx?: number;
+  children?: React.ReactNode;
+}
+
+// Full-sheet grid drawn in mm: margins, cells and the object placed in every
+// cell. `children` are drawn on top in the same mm coordinate space.
+export const ImpositionPreview: React.FC<ImpositionPreviewProps> = ({ layout, objectMm, alignment, cellLabels, widthPx = 240, children }) => {
+  const { sheetWidthMm, sheetHeightMm, cellWidthMm, cellHeightMm } = layout;
+  const heightPx = (widthPx * sheetHeightMm) / sheetWidthMm;
+  const labelSize = Math.max(2, Math.min(cellWidthMm, cellHeightMm) / 6);
+
+  return (
+    <svg
+      width={widthPx}
+      height={heightPx}
+      viewBox={`0 0 ${sheetWidthMm} ${sheetHeightMm}`}
+      className="bg-white shadow-sm"
+      style={{ border: '1px solid rgba(0,0,0,0.15)' }}
+    >
+      {layout.cells.map((cell) => {
+        const obj = objectRectInCell(layout, cell, objectMm, alignment);
+        return (
+          <g key={cell.index}>
+            <rect
+              x={cell.xMm}
+              y={cell.yMm}
+              width={cellWidthMm}
+              height={cellHeightMm}
+              fill="rgba(16,185,129,0.06)"
+              stroke="rgba(16,185,129,0.6)"
+              strokeWidth={0.3}
+              strokeDasharray="1.5 1"
+            />
+            {objectMm ? (
+              <rect x={obj.xMm} y={obj.yMm} width={obj.widthMm} height={obj.heightMm} fill="rgba(59,130,246,0.12)" stroke="rgba(59,130,246,0.8)" strokeWidth={0.3} />
+            ) : null}
+            <text
+              x={cell.xMm + cellWidthMm / 2}
+              y={cell.yMm + cellHeightMm / 2}
+              fontSize={labelSize}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              fill="rgba(0,0,0,0.55)"
+              style={{ fontFamily: 'monospace' }}
+            >
+              {cellLabels?.[cell.index] ?? cell.index + 1}
+            </text>
+          </g>
+        );
+      })}
+      {children}
+    </svg>
+  );
+};
@@ -0,0 +1,114 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PAPER_SIZES, type ImpositionLayout, type ImpositionSettings, type PaperSizeId } from '@/utils/imposition';
+import { NUMBERING_ORDERS, type NumberingOrder } from '@/utils/numberingOrder';
+
+interface ImpositionSettingsPanelProps {
+  settings: ImpositionSettings;
+  layout: ImpositionLayout | null;
+  error?: string | null;
+  onChange: (updates: Partial<ImpositionSettings>) => void;
+}
+
+const NumberField: React.FC<{ label: string; value: number; min?: number; step?: number; onChange: (v: number) => void }> = ({
+  label,
+  value,
+  min = 0,
+  step = 1,
+  onChange,
+}) => (
+  <div className="space-y-1">
+    <Label className="text-[10px] text-muted-foreground">{label}</Label>
+    <Input
+      type="number"
+      value={value}
+      min={min}
+      step={step}
+      onChange={(e) => onChange(Math.max(min, parseFloat(e.target.value) || 0))}
+      className="h-7 text-xs"
+    />
+  </div>
+);
+
+export const ImpositionSettingsPanel: React.FC<ImpositionSettingsPanelProps> = ({ settings, layout, error, onChange }) => {
+  return (
+    <div className="space-y-3">
+      <Label className="text-xs text-muted-foreground uppercase tracking-wide">Sheet Layout</Label>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs text-foreground">Paper</Label>
+        <select
+          value={settings.paper}
+          onChange={(e) => onChange({ paper: e.target.value as PaperSizeId })}
+          className="w-full h-8 px-2 rounded border border-input bg-background text-sm"
+        >
+          {PAPER_SIZES.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.label}
+            </option>
+          ))}
+          <option value="custom">Custom press sheet</option>
+        </select>
+      </div>
+
+      {settings.paper === 'custom' ? (
+        <div className="grid grid-cols-2 gap-2">
+          <NumberField label="Width (mm)" value={settings.customWidthMm} min={1} onChange={(v) => onChange({ customWidthMm: v })} />
+          <NumberField label="Height (mm)" value={settings.customHeightMm} min={1} onChange={(v) => onChange({ customHeightMm: v })} />
+        </div>
+      ) : null}
+
+      <div className="flex gap-1">
+        {(['portrait', 'landscape'] as const).map((o) => (
+          <button
+            key={o}
+            onClick={() => onChange({ orientation: o })}
+            className={`flex-1 h-7 rounded border text-xs capitalize transition-colors ${
+              settings.orientation === o ? 'bg-primary text-primary-foreground border-primary' : 'bg-background border-input hover:bg-muted'
+            }`}
+          >
+            {o}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField label="Rows" value={settings.rows} min={1} onChange={(v) => onChange({ rows: Math.round(v) || 1 })} />
+        <NumberField label="Columns" value={settings.columns} min={1} onChange={(v) => onChange({ columns: Math.round(v) || 1 })} />
+        <NumberField label="Gutter X (mm)" value={settings.gutterXMm} step={0.5} onChange={(v) => onChange({ gutterXMm: v })} />
+        <NumberField label="Gutter Y (mm)" value={settings.gutterYMm} step={0.5} onChange={(v) => onChange({ gutterYMm: v })} />
+        <NumberField label="Margin Top" value={settings.marginTopMm} step={0.5} onChange={(v) => onChange({ marginTopMm: v })} />
+        <NumberField label="Margin Bottom" value={settings.marginBottomMm} step={0.5} onChange={(v) => onChange({ marginBottomMm: v })} />
+        <NumberField label="Margin Left" value={settings.marginLeftMm} step={0.5} onChange={(v) => onChange({ marginLeftMm: v })} />
+        <NumberField label="Margin Right" value={settings.marginRightMm} step={0.5} onChange={(v) => onChange({ marginRightMm: v })} />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs text-foreground">Numbering Order</Label>
+        <select
+          value={settings.numberingOrder}
+          onChange={(e) => onChange({ numberingOrder: e.target.value as NumberingOrder })}
+          className="w-full h-8 px-2 rounded border border-input bg-background text-sm"
+        >
+          {NUMBERING_ORDERS.map((o) => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+        {settings.numberingOrder === 'cut-and-stack' ? (
+          <p className="text-[10px] text-muted-foreground">Each position gets a run of consecutive numbers; stack the cut piles in order.</p>
+        ) : null}
+      </div>
+
+      {error ? (
+        <p className="text-[10px] text-destructive">{error}</p>
+      ) : layout ? (
+        <p className="text-[10px] text-muted-foreground">
+          {layout.perSheet} per sheet · max ticket {layout.cellWidthMm.toFixed(2)} × {layout.cellHeightMm.toFixed(2)} mm
+        </p>
+      ) : null}
+    </div>
+  );
+};
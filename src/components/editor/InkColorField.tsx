@@ -0,0 +1,112 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { cmykToHex, resolveCmyk, rgbToCmyk, type Cmyk, type InkColor } from '@/utils/printColor';
+
+type InkMode = 'rgb' | 'cmyk' | 'spot';
+
+interface InkColorFieldProps {
+  label: string;
+  // CSS colour of the item; omitted for artwork that keeps its own colours
+  color?: string;
+  ink: InkColor | null | undefined;
+  // color is the CSS preview of the ink, or the colour typed in RGB mode
+  onChange: (next: { color?: string; ink: InkColor | null }) => void;
+}
+
+const CMYK_KEYS: (keyof Cmyk)[] = ['c', 'm', 'y', 'k'];
+
+// An RGB colour, CMYK percentages or a named spot ink with its CMYK alternate
+export const InkColorField: React.FC<InkColorFieldProps> = ({ label, color, ink, onChange }) => {
+  const mode: InkMode = ink ? ink.kind : 'rgb';
+  const cmyk = ink?.cmyk ?? rgbToCmyk(color ?? '#000000');
+
+  const emit = (next: InkColor | null) => {
+    if (!next) onChange({ ink: null });
+    else onChange({ ink: next, ...(color !== undefined ? { color: cmykToHex(next.cmyk) } : {}) });
+  };
+
+  const setMode = (next: InkMode) => {
+    if (next === mode) return;
+    if (next === 'rgb') emit(null);
+    else if (next === 'cmyk') emit({ kind: 'cmyk', cmyk });
+    // A spot without a name is not an ink yet; keep it so the name can be typed
+    else onChange({ ink: { kind: 'spot', name: '', cmyk } });
+  };
+
+  const setChannel = (key: keyof Cmyk, raw: string) => {
+    if (!ink) return;
+    const next = resolveCmyk({ ...ink.cmyk, [key]: parseFloat(raw) || 0 });
+    emit({ ...ink, cmyk: next });
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <Label className="text-xs text-foreground">{label}</Label>
+      <div className="flex gap-1">
+        {(['rgb', 'cmyk', 'spot'] as const).map((m) => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            className={`flex-1 h-7 rounded border text-[11px] transition-colors ${
+              mode === m ? 'bg-primary text-primary-foreground border-primary' : 'bg-background border-input hover:bg-muted'
+            }`}
+          >
+            {m === 'rgb' ? (color === undefined ? 'As drawn' : 'RGB') : m === 'cmyk' ? 'CMYK' : 'Spot'}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'rgb' ? (
+        color !== undefined ? (
+          <div className="flex gap-2">
+            <Input
+              type="color"
+              value={color}
+              onChange={(e) => onChange({ color: e.target.value, ink: null })}
+              className="w-10 h-8 p-0.5 cursor-pointer"
+            />
+            <Input
+              type="text"
+              value={color}
+              onChange={(e) => onChange({ color: e.target.value, ink: null })}
+              className="flex-1 h-8 text-xs font-mono"
+            />
+          </div>
+        ) : null
+      ) : (
+        <>
+          {ink?.kind === 'spot' ? (
+            <Input
+              value={ink.name}
+              placeholder="e.g. PANTONE 186 C"
+              onChange={(e) => onChange({ ink: { ...ink, name: e.target.value } })}
+              className="h-8 text-xs"
+            />
+          ) : null}
+          <div className="flex items-end gap-1">
+            {CMYK_KEYS.map((key) => (
+              <div key={key} className="flex-1 space-y-0.5">
+                <Label className="text-[10px] text-muted-foreground uppercase">{key}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={cmyk[key]}
+                  onChange={(e) => setChannel(key, e.target.value)}
+                  className="h-7 px-1 text-xs"
+                />
+              </div>
+            ))}
+            <div className="h-7 w-7 shrink-0 rounded border border-input" style={{ backgroundColor: cmykToHex(cmyk) }} />
+          </div>
+          {ink?.kind === 'spot' ? (
+            <p className="text-[10px] text-muted-foreground">
+              {ink.name.trim() ? 'CMYK values are the alternate for devices without the spot ink.' : 'Name the spot ink to use it.'}
+            </p>
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Barcode, Eye, EyeOff, GripVertical, Image, Lock, LockOpen, Shapes, Type } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+
+export type LayerItem = {
+  id: string;
+  kind: 'text' | 'barcode' | 'image' | 'svg';
+  label: string;
+};
+
+interface LayerPanelProps {
+  // Bottom to top, as stacked on the canvas
+  items: LayerItem[];
+  hidden: string[];
+  locked: string[];
+  selectedIds: string[];
+  onSelect: (id: string, additive: boolean) => void;
+  onToggleHidden: (id: string) => void;
+  onToggleLocked: (id: string) => void;
+  // Puts `id` where `targetId` is in the stack
+  onMove: (id: string, targetId: string) => void;
+}
+
+const KIND_ICONS: Record<LayerItem['kind'], React.ComponentType<{ className?: string }>> = {
+  text: Type,
+  barcode: Barcode,
+  image: Image,
+  svg: Shapes,
+};
+
+// Every slot and overlay on the current side, top layer first; drag rows to restack
+export const LayerPanel: React.FC<LayerPanelProps> = ({ items, hidden, locked, selectedIds, onSelect, onToggleHidden, onToggleLocked, onMove }) => {
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [overId, setOverId] = useState<string | null>(null);
+
+  const endDrag = () => {
+    setDragId(null);
+    setOverId(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs text-muted-foreground uppercase tracking-wide">Layers</Label>
+        <span className="text-[10px] text-muted-foreground">top first</span>
+      </div>
+
+      {items.length ? (
+        <div className="max-h-56 overflow-y-auto rounded border border-border">
+          {[...items].reverse().map((item) => {
+            const Icon = KIND_ICONS[item.kind];
+            const isHidden = hidden.includes(item.id);
+            const isLocked = locked.includes(item.id);
+            const isSelected = selectedIds.includes(item.id);
+            return (
+              <div
+                key={item.id}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDragId(item.id);
+                }}
+                onDragOver={(e) => {
+                  if (!dragId) return;
+                  e.preventDefault();
+                  setOverId(item.id);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  if (dragId && dragId !== item.id) onMove(dragId, item.id);
+                  endDrag();
+                }}
+                onDragEnd={endDrag}
+                onClick={(e) => {
+                  if (!isLocked && !isHidden) onSelect(item.id, e.shiftKey);
+                }}
+                className={`flex items-center gap-1 px-1 py-0.5 text-[11px] transition-colors ${
+                  isSelected ? 'bg-primary/15 text-foreground' : 'text-foreground hover:bg-muted'
+                } ${overId === item.id && dragId !== item.id ? 'border-t-2 border-primary' : ''} ${isHidden ? 'opacity-50' : ''}`}
+              >
+                <GripVertical className="h-3 w-3 shrink-0 cursor-grab text-muted-foreground" />
+                <Icon className="h-3 w-3 shrink-0 text-muted-foreground" />
+                <span className="min-w-0 flex-1 truncate">{item.label}</span>
+                <Button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleHidden(item.id);
+                  }}
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5"
+                  title={isHidden ? 'Show (hidden in the editor only; it still prints)' : 'Hide in the editor'}
+                >
+                  {isHidden ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                </Button>
+                <Button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleLocked(item.id);
+                  }}
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5"
+                  title={isLocked ? 'Unlock' : 'Lock on the canvas'}
+                >
+                  {isLocked ? <Lock className="h-3 w-3" /> : <LockOpen className="h-3 w-3 opacity-50" />}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-[10px] text-muted-foreground">No slots or overlays on this side yet.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Copy, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { api } from '@/config/api';
+import { parseLayoutTemplateList, type LayoutTemplate, type LayoutTemplateRecord, type TemplateScope } from '@/utils/layoutTemplate';
+
+interface LayoutTemplatesPanelProps {
+  documentId: string;
+  token: string | null;
+  // Current editor layout, or null when it cannot be saved yet (e.g. no object size)
+  onCapture: () => LayoutTemplate | null;
+  onApply: (record: LayoutTemplateRecord) => void;
+}
+
+const errorMessage = (e: unknown, fallback: string) => {
+  const err = e as { message?: string; response?: { data?: { message?: string } } } | null;
+  return String(err?.response?.data?.message || err?.message || '').trim() || fallback;
+};
+
+export const LayoutTemplatesPanel: React.FC<LayoutTemplatesPanelProps> = ({ documentId, token, onCapture, onApply }) => {
+  const [templates, setTemplates] = useState<LayoutTemplateRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<TemplateScope>('document');
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!token) return;
+    setLoading(true);
+    try {
+      const headers = { Authorization: `Bearer ${token}` };
+      const [docRes, libraryRes] = await Promise.all([
+        api.get(`/api/docs/${encodeURIComponent(documentId)}/templates`, { headers }),
+        api.get('/api/templates', { headers }),
+      ]);
+      setTemplates([
+        ...parseLayoutTemplateList(docRes.data).map((t) => ({ ...t, scope: 'document' as const })),
+        ...parseLayoutTemplateList(libraryRes.data).map((t) => ({ ...t, scope: 'library' as const })),
+      ]);
+    } catch (e) {
+      console.error('Failed to load layout templates', e);
+      toast.error('Failed to load layout templates');
+    } finally {
+      setLoading(false);
+    }
+  }, [documentId, token]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleSave = useCallback(async () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      toast.error('Name the layout before saving');
+      return;
+    }
+    const template = onCapture();
+    if (!template) {
+      toast.error('Set the object size before saving a layout');
+      return;
+    }
+    if (!token) {
+      toast.error('Not authenticated');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const url = scope === 'library' ? '/api/templates' : `/api/docs/${encodeURIComponent(documentId)}/templates`;
+      await api.post(url, { name: trimmed, template }, { headers: { Authorization: `Bearer ${token}` } });
+      setName('');
+      toast.success(`Layout "${trimmed}" saved`);
+      await load();
+    } catch (e) {
+      toast.error(errorMessage(e, 'Failed to save layout'));
+    } finally {
+      setSaving(false);
+    }
+  }, [documentId, load, name, onCapture, scope, token]);
+
+  const handleDuplicate = useCallback(
+    async (record: LayoutTemplateRecord) => {
+      if (!token) return;
+      try {
+        await api.post(
+          `/api/templates/${encodeURIComponent(record.id)}/duplicate`,
+          { name: `${record.name} (copy)`, scope: record.scope, document_id: record.scope === 'document' ? documentId : null },
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+        toast.success(`Duplicated "${record.name}"`);
+        await load();
+      } catch (e) {
+        toast.error(errorMessage(e, 'Failed to duplicate layout'));
+      }
+    },
+    [documentId, load, token]
+  );
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs text-muted-foreground uppercase tracking-wide">Layout Templates</Label>
+
+      <div className="flex gap-1">
+        <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Layout name" className="h-7 text-xs" />
+        <Button onClick={() => void handleSave()} disabled={saving} variant="outline" size="icon" className="h-7 w-7 shrink-0" title="Save layout">
+          <Save className="h-3 w-3" />
+        </Button>
+      </div>
+      <select
+        value={scope}
+        onChange={(e) => setScope(e.target.value as TemplateScope)}
+        className="w-full h-7 px-2 rounded border border-input bg-background text-xs"
+      >
+        <option value="document">Save for this document</option>
+        <option value="library">Save to shared library</option>
+      </select>
+
+      {loading ? (
+        <p className="text-[10px] text-muted-foreground">Loading layouts…</p>
+      ) : templates.length ? (
+        <div className="max-h-48 overflow-y-auto rounded border border-border">
+          {templates.map((record) => (
+            <div key={`${record.scope}:${record.id}`} className="flex items-center gap-1 px-2 py-1 hover:bg-muted">
+              <button onClick={() => onApply(record)} className="min-w-0 flex-1 text-left" title="Apply layout">
+                <p className="truncate text-[11px] text-foreground">{record.name}</p>
+                <p className="text-[10px] text-muted-foreground">
+                  {record.scope === 'library' ? 'Library' : 'This document'} · {record.template.seriesSlots.length} slots ·{' '}
+                  {Math.round(record.template.objectMm.widthMm * 10) / 10} × {Math.round(record.template.objectMm.heightMm * 10) / 10} mm
+                </p>
+              </button>
+              <Button onClick={() => void handleDuplicate(record)} variant="ghost" size="icon" className="h-6 w-6 shrink-0" title="Duplicate layout">
+                <Copy className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-[10px] text-muted-foreground">No saved layouts yet.</p>
+      )}
+    </div>
+  );
+};
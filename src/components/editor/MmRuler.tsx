@@ -0,0 +1,83 @@
+import React from 'react';
+
+interface MmRulerProps {
+  orientation: 'horizontal' | 'vertical';
+  lengthMm: number;
+  mmToPx: (mm: number) => number;
+  pxToMm: (px: number) => number;
+  // Clicking the ruler drops a guide across the canvas at that position
+  onAddGuide: (mm: number) => void;
+}
+
+export const RULER_SIZE_PX = 18;
+
+const MINOR_STEPS_MM = [0.1, 0.5, 1, 5, 10];
+const LABEL_STEPS_MM = [1, 5, 10, 20, 50, 100];
+const MAX_TICKS = 1000;
+
+const isMultiple = (mm: number, step: number) => Math.abs(mm / step - Math.round(mm / step)) < 1e-6;
+
+// Millimetre ruler along the top or left edge of the object, origin at the crop box corner
+export const MmRuler: React.FC<MmRulerProps> = ({ orientation, lengthMm, mmToPx, pxToMm, onAddGuide }) => {
+  const horizontal = orientation === 'horizontal';
+  const lengthPx = mmToPx(lengthMm);
+  // Tick and label spacing follow the zoom: the finest step that keeps ticks
+  // ~4px apart, and labels at least ~40px apart
+  const pxPerMm = mmToPx(1) - mmToPx(0);
+  const minorStep = MINOR_STEPS_MM.find((step) => step * pxPerMm >= 4 && lengthMm / step <= MAX_TICKS) ?? 10;
+  const labelStep = LABEL_STEPS_MM.find((step) => step >= minorStep && step * pxPerMm >= 40) ?? 100;
+  const midStep = labelStep / 2 >= minorStep ? labelStep / 2 : labelStep;
+
+  const ticks: { mm: number; size: number; label: boolean }[] = [];
+  const count = Math.floor(lengthMm / minorStep + 1e-6);
+  for (let i = 0; i <= count; i += 1) {
+    const mm = Math.round(i * minorStep * 10) / 10;
+    const major = isMultiple(mm, labelStep);
+    ticks.push({ mm, size: major ? RULER_SIZE_PX - 4 : isMultiple(mm, midStep) ? 8 : 4, label: major });
+  }
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const mm = pxToMm(horizontal ? e.clientX - rect.left : e.clientY - rect.top);
+    if (!Number.isFinite(mm) || mm < 0 || mm > lengthMm) return;
+    onAddGuide(Math.round(mm * 10) / 10);
+  };
+
+  return (
+    <div
+      className="absolute z-30 bg-muted text-muted-foreground"
+      onClick={handleClick}
+      title="Click to add a guide"
+      style={
+        horizontal
+          ? { left: 0, top: -RULER_SIZE_PX - 2, width: lengthPx, height: RULER_SIZE_PX, cursor: 'col-resize' }
+          : { left: -RULER_SIZE_PX - 2, top: 0, width: RULER_SIZE_PX, height: lengthPx, cursor: 'row-resize' }
+      }
+    >
+      <svg className="absolute inset-0 h-full w-full overflow-visible" style={{ pointerEvents: 'none' }}>
+        {ticks.map((t) => {
+          const p = mmToPx(t.mm);
+          return horizontal ? (
+            <line key={t.mm} x1={p} x2={p} y1={RULER_SIZE_PX} y2={RULER_SIZE_PX - t.size} stroke="currentColor" strokeWidth={0.75} />
+          ) : (
+            <line key={t.mm} y1={p} y2={p} x1={RULER_SIZE_PX} x2={RULER_SIZE_PX - t.size} stroke="currentColor" strokeWidth={0.75} />
+          );
+        })}
+        {ticks
+          .filter((t) => t.label)
+          .map((t) => {
+            const p = mmToPx(t.mm);
+            return horizontal ? (
+              <text key={`l${t.mm}`} x={p + 2} y={8} fontSize={8} fill="currentColor">
+                {t.mm}
+              </text>
+            ) : (
+              <text key={`l${t.mm}`} x={2} y={p + 2} fontSize={8} fill="currentColor" transform={`rotate(-90 2 ${p + 2})`} textAnchor="end">
+                {t.mm}
+              </text>
+            );
+          })}
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import type { PreflightIssue, PreflightReport } from '@/utils/preflight';
+
+interface PreflightPanelProps {
+  report: PreflightReport;
+  // Selects the slot or overlay an issue is about
+  onSelect: (id: string) => void;
+}
+
+const IssueList: React.FC<{ title: string; issues: PreflightIssue[]; tone: 'error' | 'warning'; onSelect: (id: string) => void }> = ({
+  title,
+  issues,
+  tone,
+  onSelect,
+}) => {
+  const Icon = tone === 'error' ? AlertCircle : AlertTriangle;
+  const color = tone === 'error' ? 'text-destructive' : 'text-amber-600';
+  return (
+    <div className="space-y-1">
+      <div className={`text-[10px] font-medium ${color}`}>
+        {title} ({issues.length})
+      </div>
+      {issues.map((issue, i) => (
+        <button
+          key={`${issue.check}:${issue.targetId ?? ''}:${i}`}
+          type="button"
+          disabled={!issue.targetId}
+          onClick={() => issue.targetId && onSelect(issue.targetId)}
+          className="flex w-full items-start gap-1 rounded px-1 py-0.5 text-left text-[11px] text-foreground hover:bg-muted disabled:hover:bg-transparent"
+        >
+          <Icon className={`mt-0.5 h-3 w-3 shrink-0 ${color}`} />
+          <span className="min-w-0 flex-1">{issue.message}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+// Problems found in the layout; errors block output generation
+export const PreflightPanel: React.FC<PreflightPanelProps> = ({ report, onSelect }) => (
+  <div className="space-y-2">
+    <Label className="text-xs text-muted-foreground uppercase tracking-wide">Preflight</Label>
+    {report.errors.length || report.warnings.length ? (
+      <div className="max-h-56 space-y-2 overflow-y-auto">
+        {report.errors.length ? <IssueList title="Errors" issues={report.errors} tone="error" onSelect={onSelect} /> : null}
+        {report.warnings.length ? <IssueList title="Warnings" issues={report.warnings} tone="warning" onSelect={onSelect} /> : null}
+      </div>
+    ) : (
+      <p className="flex items-center gap-1 text-[10px] text-muted-foreground">
+        <CheckCircle2 className="h-3 w-3 text-emerald-600" />
+        No problems found.
+      </p>
+    )}
+  </div>
+);
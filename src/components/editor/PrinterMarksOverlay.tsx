@@ -0,0 +1,59 @@
+import React, { useMemo } from 'react';
+import type { ImpositionLayout, ObjectAlignment } from '@/utils/imposition';
+import { cropMarkLines, registrationTargets, trimBoxes, type PrinterMarksSettings } from '@/utils/printerMarks';
+
+interface PrinterMarksOverlayProps {
+  layout: ImpositionLayout;
+  settings: PrinterMarksSettings;
+  objectMm?: { widthMm: number; heightMm: number } | null;
+  alignment?: ObjectAlignment | null;
+  slugText?: string;
+}
+
+// SVG group in sheet mm; render inside an <svg> whose viewBox is the sheet (see ImpositionPreview).
+export const PrinterMarksOverlay: React.FC<PrinterMarksOverlayProps> = ({ layout, settings, objectMm, alignment, slugText }) => {
+  const boxes = useMemo(() => trimBoxes(layout, objectMm, alignment), [alignment, layout, objectMm]);
+  const lines = useMemo(() => cropMarkLines(boxes, settings), [boxes, settings]);
+  const targets = useMemo(() => (settings.registrationMarks ? registrationTargets(layout, boxes) : []), [boxes, layout, settings.registrationMarks]);
+
+  if (!settings.enabled) return null;
+
+  const stroke = 0.25;
+  return (
+    <g pointerEvents="none">
+      {settings.bleedMm > 0
+        ? boxes.map((b, idx) => (
+            <rect
+              key={`bleed-${idx}`}
+              x={b.xMm - settings.bleedMm}
+              y={b.yMm - settings.bleedMm}
+              width={b.widthMm + 2 * settings.bleedMm}
+              height={b.heightMm + 2 * settings.bleedMm}
+              fill="none"
+              stroke="rgba(239,68,68,0.7)"
+              strokeWidth={stroke}
+              strokeDasharray="1 0.8"
+            />
+          ))
+        : null}
+
+      {lines.map((l, idx) => (
+        <line key={`crop-${idx}`} x1={l.x1} y1={l.y1} x2={l.x2} y2={l.y2} stroke="#000000" strokeWidth={stroke} />
+      ))}
+
+      {targets.map((t, idx) => (
+        <g key={`reg-${idx}`}>
+          <circle cx={t.xMm} cy={t.yMm} r={t.radiusMm * 0.6} fill="none" stroke="#000000" strokeWidth={stroke} />
+          <line x1={t.xMm - t.radiusMm} y1={t.yMm} x2={t.xMm + t.radiusMm} y2={t.yMm} stroke="#000000" strokeWidth={stroke} />
+          <line x1={t.xMm} y1={t.yMm - t.radiusMm} x2={t.xMm} y2={t.yMm + t.radiusMm} stroke="#000000" strokeWidth={stroke} />
+        </g>
+      ))}
+
+      {settings.slugLine && slugText ? (
+        <text x={2} y={layout.sheetHeightMm - 1.5} fontSize={2} fill="#000000" style={{ fontFamily: 'monospace' }}>
+          {slugText}
+        </text>
+      ) : null}
+    </g>
+  );
+};
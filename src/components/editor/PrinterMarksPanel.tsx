@@ -0,0 +1,66 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { PrinterMarksSettings } from '@/utils/printerMarks';
+
+interface PrinterMarksPanelProps {
+  settings: PrinterMarksSettings;
+  error?: string | null;
+  onChange: (updates: Partial<PrinterMarksSettings>) => void;
+}
+
+export const PrinterMarksPanel: React.FC<PrinterMarksPanelProps> = ({ settings, error, onChange }) => {
+  const mmField = (label: string, key: 'bleedMm' | 'cropMarkLengthMm' | 'cropMarkOffsetMm') => (
+    <div className="space-y-1">
+      <Label className="text-[10px] text-muted-foreground">{label}</Label>
+      <Input
+        type="number"
+        value={settings[key]}
+        min={0}
+        step={0.5}
+        disabled={!settings.enabled}
+        onChange={(e) => onChange({ [key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+        className="h-7 text-xs"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-xs text-muted-foreground uppercase tracking-wide">Printer's Marks</Label>
+
+      <label className="flex items-center gap-2 text-xs text-foreground">
+        <input type="checkbox" checked={settings.enabled} onChange={(e) => onChange({ enabled: e.target.checked })} />
+        Add bleed and crop marks
+      </label>
+
+      <div className="grid grid-cols-3 gap-2">
+        {mmField('Bleed', 'bleedMm')}
+        {mmField('Mark len.', 'cropMarkLengthMm')}
+        {mmField('Offset', 'cropMarkOffsetMm')}
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-foreground">
+        <input
+          type="checkbox"
+          checked={settings.registrationMarks}
+          disabled={!settings.enabled}
+          onChange={(e) => onChange({ registrationMarks: e.target.checked })}
+        />
+        Centre registration targets
+      </label>
+
+      <label className="flex items-center gap-2 text-xs text-foreground">
+        <input
+          type="checkbox"
+          checked={settings.slugLine}
+          disabled={!settings.enabled}
+          onChange={(e) => onChange({ slugLine: e.target.checked })}
+        />
+        Slug line (job ID, series range, date)
+      </label>
+
+      {error ? <p className="text-[10px] text-destructive">{error}</p> : null}
+    </div>
+  );
+};
@@ -0,0 +1,225 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as pdfjsLib from 'pdfjs-dist';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { diffPixels, type ProofResult } from '@/utils/proofRenderer';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
+
+const PAGE_WIDTH_PX = 720;
+
+type DiffSource = { proof: ProofResult; serverPdf: ArrayBuffer };
+
+interface ProofDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Local proof of the current layout
+  onRenderProof: () => Promise<ProofResult>;
+  // Proof of the last generated job plus that job's PDF; null until a job was generated
+  onLoadDiff: (() => Promise<DiffSource>) | null;
+}
+
+// Renders one page of a PDF onto a fresh canvas PAGE_WIDTH_PX wide
+const renderPdfPage = async (bytes: Uint8Array | ArrayBuffer, pageNumber: number): Promise<HTMLCanvasElement> => {
+  // pdf.js takes ownership of the buffer it is given
+  const doc = await pdfjsLib.getDocument({ data: new Uint8Array(bytes).slice() }).promise;
+  try {
+    const page = await doc.getPage(pageNumber);
+    const base = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: PAGE_WIDTH_PX / base.width });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas context unavailable');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: ctx, viewport }).promise;
+    return canvas;
+  } finally {
+    void doc.destroy();
+  }
+};
+
+// First pages of the job drawn in the browser, optionally overlaid on the
+// server's PDF with every mismatching pixel in red
+export const ProofDialog: React.FC<ProofDialogProps> = ({ open, onOpenChange, onRenderProof, onLoadDiff }) => {
+  const [mode, setMode] = useState<'proof' | 'diff'>('proof');
+  const [proof, setProof] = useState<ProofResult | null>(null);
+  const [diffSource, setDiffSource] = useState<DiffSource | null>(null);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [mismatch, setMismatch] = useState<number | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const maskRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setProof(null);
+      setDiffSource(null);
+      setMode('proof');
+      return;
+    }
+    let cancelled = false;
+    setBusy(true);
+    setError(null);
+    setPageIndex(0);
+    onRenderProof()
+      .then((result) => {
+        if (!cancelled) setProof(result);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Proof rendering failed');
+      })
+      .finally(() => {
+        if (!cancelled) setBusy(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [onRenderProof, open]);
+
+  const handleShowDiff = async () => {
+    if (!onLoadDiff) return;
+    if (diffSource) {
+      setMode('diff');
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      setDiffSource(await onLoadDiff());
+      setPageIndex(0);
+      setMode('diff');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load the server PDF');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const shown = mode === 'diff' ? diffSource?.proof ?? null : proof;
+  const pageCount = shown?.pageCount ?? 0;
+
+  useEffect(() => {
+    const target = canvasRef.current;
+    const maskCanvas = maskRef.current;
+    if (!open || !shown || !target || !maskCanvas || pageIndex >= pageCount) return;
+    let cancelled = false;
+    void (async () => {
+      try {
+        const local = await renderPdfPage(shown.bytes, pageIndex + 1);
+        const server = mode === 'diff' && diffSource ? await renderPdfPage(diffSource.serverPdf, pageIndex + 1) : null;
+        if (cancelled) return;
+        const base = server ?? local;
+        target.width = base.width;
+        target.height = base.height;
+        maskCanvas.width = base.width;
+        maskCanvas.height = base.height;
+        const ctx = target.getContext('2d');
+        const maskCtx = maskCanvas.getContext('2d');
+        if (!ctx || !maskCtx) return;
+        maskCtx.clearRect(0, 0, maskCanvas.width, maskCanvas.height);
+        if (!server) {
+          ctx.drawImage(local, 0, 0);
+          setMismatch(null);
+          return;
+        }
+        const width = Math.min(local.width, server.width);
+        const height = Math.min(local.height, server.height);
+        const a = local.getContext('2d')?.getImageData(0, 0, width, height);
+        const b = server.getContext('2d')?.getImageData(0, 0, width, height);
+        if (!a || !b) return;
+        const diff = diffPixels(a.data, b.data, width, height);
+        ctx.globalAlpha = 0.35;
+        ctx.drawImage(server, 0, 0);
+        ctx.globalAlpha = 1;
+        maskCtx.putImageData(new ImageData(new Uint8ClampedArray(diff.mask), width, height), 0, 0);
+        setMismatch(diff.mismatched / diff.total);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to draw the page');
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [diffSource, mode, open, pageCount, pageIndex, shown]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Local proof</DialogTitle>
+          <DialogDescription>
+            {mode === 'diff'
+              ? 'The last generated job drawn locally over the server PDF (faded); red pixels differ.'
+              : 'The first pages of the current layout, drawn in the browser without a render round-trip.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex gap-1">
+            <Button size="sm" variant={mode === 'proof' ? 'default' : 'outline'} onClick={() => setMode('proof')} disabled={busy}>
+              Proof
+            </Button>
+            <Button
+              size="sm"
+              variant={mode === 'diff' ? 'default' : 'outline'}
+              onClick={() => void handleShowDiff()}
+              disabled={busy || !onLoadDiff}
+              title={onLoadDiff ? 'Compare with the last generated PDF' : 'Generate output first to compare with the server PDF'}
+            >
+              Diff vs server
+            </Button>
+          </div>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            {mode === 'diff' && mismatch !== null ? (
+              <span className={mismatch > 0 ? 'text-destructive' : 'text-emerald-600'}>
+                {mismatch > 0 ? `${(mismatch * 100).toFixed(2)}% of pixels differ` : 'No differences'}
+              </span>
+            ) : null}
+            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setPageIndex((p) => Math.max(0, p - 1))} disabled={pageIndex <= 0}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span>
+              Page {pageCount ? pageIndex + 1 : 0} / {pageCount}
+              {shown && shown.totalPages > pageCount ? ` (of ${shown.totalPages})` : ''}
+            </span>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => setPageIndex((p) => Math.min(pageCount - 1, p + 1))}
+              disabled={pageIndex >= pageCount - 1}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {error ? <p className="text-xs text-destructive">{error}</p> : null}
+        {shown?.warnings.length ? (
+          <ul className="text-[11px] text-amber-600 list-disc pl-4">
+            {shown.warnings.map((w) => (
+              <li key={w}>{w}</li>
+            ))}
+          </ul>
+        ) : null}
+
+        <div className="relative max-h-[65vh] overflow-auto rounded border border-border bg-muted">
+          {busy ? (
+            <div className="absolute inset-0 z-10 flex items-center justify-center bg-background/60">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : null}
+          <div className="relative mx-auto w-fit">
+            <canvas ref={canvasRef} className="block" />
+            <canvas ref={maskRef} className="absolute inset-0 pointer-events-none" />
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
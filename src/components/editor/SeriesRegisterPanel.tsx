@@ -0,0 +1,36 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { SeriesScope } from '@/utils/seriesRegister';
+
+interface SeriesRegisterPanelProps {
+  scope: SeriesScope;
+  onChange: (updates: Partial<SeriesScope>) => void;
+}
+
+export const SeriesRegisterPanel: React.FC<SeriesRegisterPanelProps> = ({ scope, onChange }) => {
+  const search = new URLSearchParams({ client: scope.client.trim(), event: scope.event.trim() }).toString();
+  return (
+    <div className="space-y-3">
+      <Label className="text-xs text-muted-foreground uppercase tracking-wide">Series Register</Label>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs text-foreground">Client</Label>
+        <Input value={scope.client} onChange={(e) => onChange({ client: e.target.value })} placeholder="e.g. City Lottery" className="h-8 text-sm bg-background" />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs text-foreground">Event</Label>
+        <Input value={scope.event} onChange={(e) => onChange({ event: e.target.value })} placeholder="e.g. Summer Raffle 2026" className="h-8 text-sm bg-background" />
+      </div>
+
+      <p className="text-[10px] text-muted-foreground">
+        Each job reserves its series ranges for this client and event; ranges already printed are rejected.{' '}
+        <Link to={`/series-register?${search}`} className="text-primary hover:underline">
+          Open register
+        </Link>
+      </p>
+    </div>
+  );
+};
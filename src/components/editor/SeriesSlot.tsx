@@ -2,6 +2,10 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { Move } from 'lucide-react';
 import { useDraggableSlot } from '@/hooks/useDraggableSlot';
 import { PDFDocument, StandardFonts } from 'pdf-lib';
+import type { SeriesRollover } from '@/utils/seriesEngine';
+import type { CheckDigitScheme } from '@/utils/checkDigits';
+import type { BarcodeSlotConfig } from '@/utils/barcodeSvg';
+import type { InkColor } from '@/utils/printColor';
 
 export interface LetterStyle {
   fontSize: number;
@@ -10,6 +14,9 @@ export interface LetterStyle {
 
 export interface SeriesSlotData {
   id: string;
+  // 'text' slots print glyphs; 'barcode' slots encode the same series value as a symbol
+  kind?: 'text' | 'barcode';
+  barcode?: BarcodeSlotConfig;
   x: number; // ratio relative to visible artwork (0..1, overflow allowed)
   y: number; // ratio relative to visible artwork (0..1, overflow allowed)
   x_svg?: number | null; // svg-space coordinate (viewBox/user units)
@@ -23,11 +30,23 @@ export interface SeriesSlotData {
   startingSeries?: string;
   // Optional per-slot increment (defaults to 1 if not set)
   seriesIncrement?: number;
+  // Optional counter alphabet (defaults to digits) and overflow behaviour (defaults to carry)
+  seriesAlphabet?: string;
+  seriesRollover?: SeriesRollover;
+  // Optional check digit appended to every printed value (defaults to none)
+  checkDigitScheme?: CheckDigitScheme;
+  checkDigitSeparator?: string;
+  // Column of the imported variable-data sheet this slot prints; empty = counter
+  dataColumn?: string | null;
+  // Face of a duplex ticket the slot prints on (defaults to front)
+  side?: 'front' | 'back';
   letterSpacingPx?: number;
   letterStyles: LetterStyle[]; // per-letter font sizes
   defaultFontSize: number;
   fontFamily: string;
   color: string;
+  // Print ink for color (CMYK or a named spot); color then holds its preview
+  ink?: InkColor | null;
   rotation: number;
   backgroundColor: string;
   borderColor: string;
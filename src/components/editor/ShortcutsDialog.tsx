@@ -0,0 +1,44 @@
+import React from 'react';
+import { CommandDialog, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandShortcut } from '@/components/ui/command';
+import { EDITOR_SHORTCUTS, type EditorShortcut, type EditorShortcutId } from '@/utils/editorShortcuts';
+
+interface ShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Runs a shortcut picked from the list (only the runnable ones)
+  onRun: (id: EditorShortcutId) => void;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const keyLabel = (key: string) => (key === 'Ctrl' && isMac ? '⌘' : key);
+
+const GROUPS = Array.from(new Set(EDITOR_SHORTCUTS.map((s) => s.group)));
+
+// Searchable cheat sheet of the editor's keyboard shortcuts; picking one runs it
+export const ShortcutsDialog: React.FC<ShortcutsDialogProps> = ({ open, onOpenChange, onRun }) => {
+  const handleSelect = (shortcut: EditorShortcut) => {
+    if (!shortcut.runnable) return;
+    onOpenChange(false);
+    onRun(shortcut.id);
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput placeholder="Search shortcuts…" />
+      <CommandList>
+        <CommandEmpty>No matching shortcut.</CommandEmpty>
+        {GROUPS.map((group) => (
+          <CommandGroup key={group} heading={group}>
+            {EDITOR_SHORTCUTS.filter((s) => s.group === group).map((shortcut) => (
+              <CommandItem key={shortcut.id} value={`${shortcut.group} ${shortcut.label}`} onSelect={() => handleSelect(shortcut)}>
+                <span className={shortcut.runnable ? undefined : 'text-muted-foreground'}>{shortcut.label}</span>
+                <CommandShortcut>{shortcut.keys.map(keyLabel).join(' ')}</CommandShortcut>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        ))}
+      </CommandList>
+    </CommandDialog>
+  );
+};
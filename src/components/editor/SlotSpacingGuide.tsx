@@ -1,14 +1,73 @@
-import React from 'react';
-
-export const SlotSpacingGuide: React.FC<{
-  enabled: boolean;
-  containerSize: { width: number; height: number };
-  baseSlotYPt: number;
-  slotHeightPt: number;
-  slotSpacingPt: number;
-  minSpacingPt: number;
-  maxSpacingPt: number;
-  onSlotSpacingChange: (nextPt: number) => void;
-}> = () => {
-  return null;
+import React, { useMemo } from 'react';
+import { boxDistances, type Box } from '@/utils/snapping';
+
+interface SlotSpacingGuideProps {
+  // Box of the slot being dragged, in object mm
+  box: Box;
+  // Other slots on the same side
+  others: Box[];
+  objectMm: { widthMm: number; heightMm: number };
+  mmToPxX: (mm: number) => number;
+  mmToPxY: (mm: number) => number;
+}
+
+const COLOR = 'rgba(236, 72, 153, 0.95)';
+
+const formatMm = (mm: number) => `${Math.round(mm * 10) / 10} mm`;
+
+// Live readout of the gap between the dragged slot and its nearest neighbour
+// (or the crop box edge) on each side.
+export const SlotSpacingGuide: React.FC<SlotSpacingGuideProps> = ({ box, others, objectMm, mmToPxX, mmToPxY }) => {
+  const distances = useMemo(() => boxDistances(box, others, objectMm), [box, objectMm, others]);
+
+  const midX = mmToPxX(box.xMm + box.widthMm / 2);
+  const midY = mmToPxY(box.yMm + box.heightMm / 2);
+
+  const segments = [
+    distances.left && { key: 'left', x1: mmToPxX(distances.left.toMm), x2: mmToPxX(box.xMm), y1: midY, y2: midY, mm: distances.left.mm },
+    distances.right && {
+      key: 'right',
+      x1: mmToPxX(box.xMm + box.widthMm),
+      x2: mmToPxX(distances.right.toMm),
+      y1: midY,
+      y2: midY,
+      mm: distances.right.mm,
+    },
+    distances.top && { key: 'top', x1: midX, x2: midX, y1: mmToPxY(distances.top.toMm), y2: mmToPxY(box.yMm), mm: distances.top.mm },
+    distances.bottom && {
+      key: 'bottom',
+      x1: midX,
+      x2: midX,
+      y1: mmToPxY(box.yMm + box.heightMm),
+      y2: mmToPxY(distances.bottom.toMm),
+      mm: distances.bottom.mm,
+    },
+  ].filter(Boolean) as { key: string; x1: number; x2: number; y1: number; y2: number; mm: number }[];
+
+  return (
+    <div className="absolute inset-0 z-40" style={{ pointerEvents: 'none' }}>
+      <svg className="absolute inset-0 h-full w-full overflow-visible">
+        {segments.map((s) => (
+          <line key={s.key} x1={s.x1} y1={s.y1} x2={s.x2} y2={s.y2} stroke={COLOR} strokeWidth={1} strokeDasharray="3 2" />
+        ))}
+      </svg>
+      {segments
+        .filter((s) => s.mm > 0.05)
+        .map((s) => (
+          <div
+            key={s.key}
+            className="absolute rounded px-1 text-[10px] font-mono text-white"
+            style={{
+              left: (s.x1 + s.x2) / 2,
+              top: (s.y1 + s.y2) / 2,
+              transform: 'translate(-50%, -50%)',
+              background: COLOR,
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {formatMm(s.mm)}
+          </div>
+        ))}
+    </div>
+  );
 };
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { SnapSettings } from '@/utils/snapping';
+
+interface SnapSettingsPanelProps {
+  settings: SnapSettings;
+  showRulers: boolean;
+  guideCount: number;
+  onChange: (updates: Partial<SnapSettings>) => void;
+  onShowRulersChange: (show: boolean) => void;
+  onClearGuides: () => void;
+}
+
+export const SnapSettingsPanel: React.FC<SnapSettingsPanelProps> = ({
+  settings,
+  showRulers,
+  guideCount,
+  onChange,
+  onShowRulersChange,
+  onClearGuides,
+}) => {
+  return (
+    <div className="space-y-3">
+      <Label className="text-xs text-muted-foreground uppercase tracking-wide">Snapping & Guides</Label>
+
+      <label className="flex items-center gap-2 text-xs text-foreground">
+        <input type="checkbox" checked={settings.smartGuides} onChange={(e) => onChange({ smartGuides: e.target.checked })} />
+        Smart guides (slots, crop box, artwork)
+      </label>
+
+      <label className="flex items-center gap-2 text-xs text-foreground">
+        <input type="checkbox" checked={settings.gridEnabled} onChange={(e) => onChange({ gridEnabled: e.target.checked })} />
+        Snap to grid
+      </label>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-[10px] text-muted-foreground">Grid (mm)</Label>
+          <Input
+            type="number"
+            value={settings.gridMm}
+            min={0.1}
+            step={0.5}
+            disabled={!settings.gridEnabled}
+            onChange={(e) => onChange({ gridMm: Math.max(0.1, parseFloat(e.target.value) || 0.1) })}
+            className="h-7 text-xs"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-[10px] text-muted-foreground">Threshold (mm)</Label>
+          <Input
+            type="number"
+            value={settings.thresholdMm}
+            min={0}
+            step={0.25}
+            disabled={!settings.smartGuides}
+            onChange={(e) => onChange({ thresholdMm: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className="h-7 text-xs"
+          />
+        </div>
+      </div>
+
+      <p className="text-[10px] text-muted-foreground">Hold Alt while dragging to place a slot freely.</p>
+
+      <label className="flex items-center gap-2 text-xs text-foreground">
+        <input type="checkbox" checked={showRulers} onChange={(e) => onShowRulersChange(e.target.checked)} />
+        Show mm rulers
+      </label>
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-[10px] text-muted-foreground">
+          {guideCount ? `${guideCount} guide${guideCount === 1 ? '' : 's'}` : 'Click a ruler to add a guide'}
+        </p>
+        <Button onClick={onClearGuides} disabled={!guideCount} variant="outline" size="sm" className="h-6 px-2 text-[10px]">
+          Clear guides
+        </Button>
+      </div>
+    </div>
+  );
+};
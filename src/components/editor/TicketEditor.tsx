@@ -1,12 +1,98 @@
 // frontend/src/components/editor/TicketEditor.tsx
-import React, { useMemo, useState, useEffect, useCallback, useRef } from 'react';
+import React, { useMemo, useState, useEffect, useCallback, useRef, type SetStateAction } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { toast } from 'sonner';
+import { Keyboard } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import type { SeriesSlotData } from './SeriesSlot';
 import { TicketToolbar } from './TicketToolbar';
 import { TicketPropertiesPanel } from './TicketPropertiesPanel';
-import { buildFinalRenderPayload } from '@/utils/buildFinalRenderPayload';
+import { buildFinalRenderPayload, type FinalRenderPayload } from '@/utils/buildFinalRenderPayload';
+import { calculateEndingSeries, generateSeries, resolveSeriesAlphabet, seriesFormatOf, seriesPrefixGlyphs } from '@/utils/seriesEngine';
+import { checkDigitAlphabetError, checkDigitConfigOf, withCheckDigit } from '@/utils/checkDigits';
+import { DEFAULT_BARCODE_CONFIG, renderBarcodeSvg, resolveBarcodeConfig } from '@/utils/barcodeSvg';
+import { BarcodeSlotPreview } from './BarcodeSlotPreview';
+import { computeImpositionLayout, impositionPreset, impositionRenderMode, resolveImposition, type ImpositionSettings } from '@/utils/imposition';
+import { ImpositionPreview } from './ImpositionPreview';
+import { DEFAULT_PRINTER_MARKS, printerMarksError as getPrinterMarksError, resolvePrinterMarks, slugLineText, trimBoxes, type PrinterMarksSettings } from '@/utils/printerMarks';
+import { PrinterMarksOverlay } from './PrinterMarksOverlay';
+import { columnValues, parseVariableDataFile, variableDataRowCountError, type VariableDataTable } from '@/utils/variableData';
+import { sheetTicketIndices } from '@/utils/numberingOrder';
+import {
+  BATCH_ATTEMPTS,
+  batchedTicketIndices,
+  batchesError as getBatchesError,
+  batchPayload,
+  batchRunManifest,
+  DEFAULT_BATCHES,
+  PARALLEL_BATCHES,
+  planBatches,
+  resolveBatches,
+  runBatchQueue,
+  settleBatchPart,
+  startBatchRun,
+  unfinishedBatches,
+  updateBatchPart,
+  type BatchRun,
+  type BatchSettings,
+} from '@/utils/jobBatches';
+import { DEFAULT_SERIES_SCOPE, payloadSeriesRanges, resolveSeriesScope, seriesReservationError, seriesScopeError, type SeriesScope } from '@/utils/seriesRegister';
+import { backCellIndex, DEFAULT_DUPLEX, duplexError as getDuplexError, duplexPageOrder, resolveDuplex, type DuplexSettings, type DuplexSide } from '@/utils/duplex';
 import { useAuth } from '@/hooks/useAuth';
+import { useEditorHistory } from '@/hooks/useEditorHistory';
+import type { HistoryStep } from '@/utils/editorHistory';
+import { HistoryPanel } from './HistoryPanel';
+import { LAYOUT_TEMPLATE_VERSION, rescaleLayoutTemplate, type LayoutTemplate, type LayoutTemplateRecord } from '@/utils/layoutTemplate';
+import { buildSnapTargets, DEFAULT_SNAP_SETTINGS, resolveSnapSettings, snapBox, type Box, type Guide, type SnapResult, type SnapSettings, type SnapTargets } from '@/utils/snapping';
+import { SlotSpacingGuide } from './SlotSpacingGuide';
+import { CanvasGuides } from './CanvasGuides';
+import { MmRuler } from './MmRuler';
+import {
+  alignUnits,
+  arrangeUnits,
+  distributeUnits,
+  expandToGroups,
+  groupItems,
+  marqueeSelect,
+  pruneGroups,
+  toggleSelection,
+  ungroupItems,
+  unionBox,
+  type AlignMode,
+  type ItemBox,
+  type MoveDelta,
+  type SelectionGroup,
+} from '@/utils/selection';
+import { ArrangePanel } from './ArrangePanel';
+import { cycleSelection, duplicateStartingSeries, isTextEntryTarget, nudgeDelta, roundMm, type EditorShortcutId } from '@/utils/editorShortcuts';
+import { ShortcutsDialog } from './ShortcutsDialog';
+import { fitView, stepZoom, zoomAround, type CanvasView, type FitMode } from '@/utils/canvasZoom';
+import { ZoomControls } from './ZoomControls';
+import { EMPTY_LAYERS, layerZIndex, moveLayer, pruneLayers, toggleLayerFlag, type LayerState } from '@/utils/layers';
+import { LayerPanel, type LayerItem } from './LayerPanel';
+import { ProofDialog } from './ProofDialog';
+import { renderProofPdf, standardFontFor, type ProofArtwork } from '@/utils/proofRenderer';
+import { PreflightPanel } from './PreflightPanel';
+import { InkColorField } from './InkColorField';
+import { DEFAULT_COLOR_OUTPUT, displayColor, resolveColorOutput, resolveInkColor, type ColorOutputSettings, type InkColor } from '@/utils/printColor';
+import {
+  barcodeIssues,
+  fontIssues,
+  hairlineIssues,
+  placementIssues,
+  preflightReport,
+  rasterDpiIssues,
+  rasterPixelSize,
+  rgbOnlyColorIssues,
+  rotatedBounds,
+  seriesRunIssues,
+  svgUserUnitMm,
+  textSizeIssues,
+  type PlacedItem,
+  type PreflightIssue,
+} from '@/utils/preflight';
+import { buildFontSubset, dataUrlToBytes } from '@/utils/fontSubset';
+import { fontDisplayName, missingGlyphs, parseFontList, parseFontRecord, readFontInfo, seriesGlyphSample, type FontRecord, type GlyphCoverage } from '@/utils/fontLibrary';
 import { api, apiUrl } from '@/config/api';
 import { PDFDocument, StandardFonts } from 'pdf-lib';
 
@@ -21,6 +107,29 @@ type TicketCropMmOverride = {
   alignment: 'left' | 'center' | 'right' | null;
 };
 
+// Snap context captured when a slot drag starts: where the slot's bounds sit
+// relative to its x_mm/y_mm anchor and what it can snap to.
+type SlotSnapContext = {
+  targets: SnapTargets;
+  others: Box[];
+  offsetXMm: number;
+  offsetYMm: number;
+  widthMm: number;
+  heightMm: number;
+};
+
+// Slot font sizes are CSS px at 96 dpi, independent of the canvas zoom
+const FONT_PX_TO_MM = 0.264583;
+
+// Artwork with thousands of elements would make every drag step slow
+const MAX_ARTWORK_SNAP_BOXES = 400;
+
+const standardFontKeyOf = (slot: SeriesSlotData) => standardFontFor(slot.fontFamily);
+
+// Name of a slot in the layer and preflight panels
+const slotLabel = (slot: SeriesSlotData, startingSeries: string) =>
+  `${slot.kind === 'barcode' ? 'Barcode' : 'Text'} · ${slot.dataColumn ? `{${slot.dataColumn}}` : String(slot.startingSeries || startingSeries)}`;
+
 interface TicketEditorProps {
   pdfUrl?: string | null;
   fileType?: 'pdf' | 'svg';
@@ -33,19 +142,23 @@ export type TicketOnPage = {
     string,
     {
       seriesValue: string;
-      letterStyles: { fontSize: number; offsetY: number }[];
+      // Per-ticket styles; when absent the slot's own letterStyles apply
+      letterStyles?: { fontSize: number; offsetY: number }[];
     }
   >;
 };
 
 export type TicketOutputPage = {
   pageNumber: number;
+  // Duplex jobs interleave front and back pages of each sheet
+  side?: DuplexSide;
   layoutMode: 'vector';
   ticketImageData: string;
   seriesSlots: SeriesSlotData[];
   tickets: TicketOnPage[];
 };
 
+// Fonts embedded in the payload as data URLs (layout templates saved before the font library)
 type CustomFontSession = {
   family: string;
   dataUrl: string;
@@ -53,6 +166,7 @@ type CustomFontSession = {
 };
 
 type OverlaySession = {
+  id: string;
   dataUrl: string;
   mime: string;
   xMm: number;
@@ -62,7 +176,32 @@ type OverlaySession = {
   rotationDeg: number;
 };
 
+type BackArtworkSession = {
+  fileName: string;
+  svgS3Key: string;
+  svgMarkup: string;
+};
+
+// Everything the undo/redo history covers
+type EditorSnapshot = {
+  seriesSlots: SeriesSlotData[];
+  overlays: OverlaySession[];
+  svgOverlays: SvgOverlaySession[];
+  // Locked groups of slot ids and overlay ids
+  groups: SelectionGroup[];
+  // Stacking, visibility and canvas locks
+  layers: LayerState;
+};
+
+// Overlay ids share a prefix so selection code can tell them from slot ids
+const isOverlayId = (id: string) => id.startsWith('overlay:');
+const newOverlayId = (kind: 'image' | 'svg') => `overlay:${kind}:${Date.now().toString(36)}${Math.random().toString(16).slice(2, 6)}`;
+
+const applyAction = <T,>(action: SetStateAction<T>, prev: T): T =>
+  typeof action === 'function' ? (action as (p: T) => T)(prev) : action;
+
 type SvgOverlaySession = {
+  id: string;
   type: 'svg';
   svgS3Key: string;
   svgMarkup: string;
@@ -72,6 +211,14 @@ type SvgOverlaySession = {
   rotationDeg: number;
   intrinsicMmW: number;
   intrinsicMmH: number;
+  // Prints the whole artwork in one ink instead of its own colours
+  ink?: InkColor | null;
+};
+
+// Canvas stand-in for an inked SVG: its shape as a mask over the ink colour
+const svgMaskStyle = (markup: string): React.CSSProperties => {
+  const url = `url("data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}")`;
+  return { WebkitMaskImage: url, maskImage: url, WebkitMaskSize: '100% 100%', maskSize: '100% 100%', WebkitMaskRepeat: 'no-repeat', maskRepeat: 'no-repeat' };
 };
 
 export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = 'pdf', ticketCropMm, objectsPerPage = 4 }: TicketEditorProps) => {
@@ -82,14 +229,83 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
   void pdfUrl;
 
   const MM_TO_PX = 3.78;
-  const MAX_OBJECT_WIDTH_MM = 210;
-  const MAX_OBJECT_HEIGHT_MM = 74.25;
 
   const [customFonts, setCustomFonts] = useState<CustomFontSession[]>([]);
-  const [availableFonts, setAvailableFonts] = useState<string[]>([]);
+  const [fontLibrary, setFontLibrary] = useState<FontRecord[]>([]);
+  // Glyph coverage per font display name; null when the file could not be read (e.g. WOFF2)
+  const [fontCoverage, setFontCoverage] = useState<Map<string, GlyphCoverage | null>>(() => new Map());
+  const loadingFontIdsRef = useRef<Set<string>>(new Set());
+  // Downloaded library font files by display name, for subsetting at generation
+  const fontBytesRef = useRef<Map<string, ArrayBuffer>>(new Map());
+  // Fonts whose licence forbids embedding, by display name
+  const [unembeddableFonts, setUnembeddableFonts] = useState<string[]>([]);
+  // Pixel size of each raster overlay image, by data URL
+  const rasterSizeCacheRef = useRef<Map<string, { width: number; height: number } | null>>(new Map());
+
+  const history = useEditorHistory<EditorSnapshot>(() => ({ seriesSlots: [], overlays: [], svgOverlays: [], groups: [], layers: EMPTY_LAYERS }));
+  const { set: setSnapshot, undo: undoHistory, redo: redoHistory } = history;
+  const { seriesSlots, overlays, svgOverlays, groups, layers } = history.state;
+
+  // useState-style setters that record a history step (pass a merge key for drags and typing)
+  const setSeriesSlots = useCallback(
+    (action: SetStateAction<SeriesSlotData[]>, step?: HistoryStep) =>
+      setSnapshot((prev) => {
+        const next = applyAction(action, prev.seriesSlots);
+        return next === prev.seriesSlots ? prev : { ...prev, seriesSlots: next };
+      }, step),
+    [setSnapshot]
+  );
+  const setOverlays = useCallback(
+    (action: SetStateAction<OverlaySession[]>, step?: HistoryStep) =>
+      setSnapshot((prev) => {
+        const next = applyAction(action, prev.overlays);
+        return next === prev.overlays ? prev : { ...prev, overlays: next };
+      }, step),
+    [setSnapshot]
+  );
+  const setSvgOverlays = useCallback(
+    (action: SetStateAction<SvgOverlaySession[]>, step?: HistoryStep) =>
+      setSnapshot((prev) => {
+        const next = applyAction(action, prev.svgOverlays);
+        return next === prev.svgOverlays ? prev : { ...prev, svgOverlays: next };
+      }, step),
+    [setSnapshot]
+  );
+  const setLayers = useCallback(
+    (action: SetStateAction<LayerState>, step?: HistoryStep) =>
+      setSnapshot((prev) => {
+        const next = applyAction(action, prev.layers);
+        return next === prev.layers ? prev : { ...prev, layers: next };
+      }, step),
+    [setSnapshot]
+  );
+  // Identifies the pointer gesture in progress so one drag is one undo step
+  const gestureKeyRef = useRef('');
 
-  const [overlay, setOverlay] = useState<OverlaySession | null>(null);
-  const [svgOverlay, setSvgOverlay] = useState<SvgOverlaySession | null>(null);
+  // Layer stack over every slot and overlay; new items land on top
+  const liveLayers = useMemo(
+    () => pruneLayers(layers, [...seriesSlots.map((s) => s.id), ...overlays.map((o) => o.id), ...svgOverlays.map((o) => o.id)]),
+    [layers, overlays, seriesSlots, svgOverlays]
+  );
+  const layerZ = useMemo(() => layerZIndex(liveLayers.order), [liveLayers.order]);
+
+  // Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redo; form fields keep their own text undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (isTextEntryTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoHistory();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redoHistory();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [redoHistory, undoHistory]);
 
   const documentId = useMemo(() => {
     const raw = searchParams.get('documentId');
@@ -108,24 +324,54 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
   // Series config - support any characters including spaces
   const [startingSeries, setStartingSeries] = useState('A001');
   const [totalPages, setTotalPages] = useState(5);
+  const [imposition, setImposition] = useState<ImpositionSettings>(() => impositionPreset(objectsPerPage));
+  const [printerMarks, setPrinterMarks] = useState<PrinterMarksSettings>(DEFAULT_PRINTER_MARKS);
+  const [duplex, setDuplex] = useState<DuplexSettings>(DEFAULT_DUPLEX);
+  const [colorOutput, setColorOutput] = useState<ColorOutputSettings>(DEFAULT_COLOR_OUTPUT);
+  const [softProof, setSoftProof] = useState(true);
+  const [batches, setBatches] = useState<BatchSettings>(DEFAULT_BATCHES);
+  // Held as typed; resolveSeriesScope() trims it when a job is built
+  const [seriesScope, setSeriesScope] = useState<SeriesScope>(DEFAULT_SERIES_SCOPE);
+  const [activeSide, setActiveSide] = useState<DuplexSide>('front');
+  const [backArtwork, setBackArtwork] = useState<BackArtworkSession | null>(null);
+
+  // Canvas aids; they are not part of the layout, so they stay out of undo history
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(DEFAULT_SNAP_SETTINGS);
+  const [guides, setGuides] = useState<Guide[]>([]);
+  const [showRulers, setShowRulers] = useState(true);
+  const [slotDragSnap, setSlotDragSnap] = useState<SlotSnapContext | null>(null);
+  const [activeSnapLines, setActiveSnapLines] = useState<SnapResult['lines']>([]);
 
   // Output state
   const [, setOutputPages] = useState<TicketOutputPage[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
   const [lastPreviewId, setLastPreviewId] = useState<string | null>(null);
+  // Payload and artwork of the last generated job, for the proof's diff mode
+  const [lastRender, setLastRender] = useState<{ payload: FinalRenderPayload; pdfS3Key: string; artwork: ProofArtwork } | null>(null);
+  const [proofOpen, setProofOpen] = useState(false);
+  // The last batched run; failed batches can be retried from the toolbar
+  const [batchRun, setBatchRun] = useState<BatchRun | null>(null);
+  // Output preview of the batched run, written once its parts are merged
+  const batchPreviewRef = useRef<{ preview: Record<string, unknown>; artwork: ProofArtwork; message: string } | null>(null);
 
   const containerRef = useRef<HTMLDivElement | null>(null);
 
-  const [seriesSlots, setSeriesSlots] = useState<SeriesSlotData[]>([]);
+  const [variableData, setVariableData] = useState<VariableDataTable | null>(null);
   const [selectedSlotId, setSelectedSlotId] = useState<string | null>(null);
+  // Multi-selection of slot and overlay ids; selectedSlotId stays the slot shown in the properties panel
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
   const [pdfFontCache, setPdfFontCache] = useState<Map<string, any>>(() => new Map());
 
+  const libraryFontNames = useMemo(() => {
+    const names = fontLibrary.filter((f) => f.source === 'library').map(fontDisplayName);
+    return Array.from(new Set([...names, ...customFonts.map((f) => f.family)]));
+  }, [customFonts, fontLibrary]);
+
   const mergedAvailableFonts = useMemo(() => {
-    const uploaded = customFonts.map((f) => f.family);
-    const system = (availableFonts || []).filter((f) => !uploaded.includes(f));
-    return [...uploaded, ...system];
-  }, [availableFonts, customFonts]);
+    const system = fontLibrary.filter((f) => f.source === 'system').map(fontDisplayName).filter((f) => !libraryFontNames.includes(f));
+    return [...libraryFontNames, ...system];
+  }, [fontLibrary, libraryFontNames]);
 
   useEffect(() => {
     if (!token) return;
@@ -135,13 +381,9 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
         const res = await api.get('/api/fonts', {
           headers: { Authorization: `Bearer ${token}` },
         });
-        const data = Array.isArray(res.data) ? res.data : [];
-        const families = data
-          .map((f: any) => String(f?.family || '').trim())
-          .filter((s: string) => Boolean(s));
-        if (!cancelled) setAvailableFonts(families);
+        if (!cancelled) setFontLibrary(parseFontList(res.data));
       } catch (e) {
-        if (!cancelled) setAvailableFonts([]);
+        if (!cancelled) setFontLibrary([]);
       }
     })();
     return () => {
@@ -149,6 +391,37 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
     };
   }, [token]);
 
+  // Library fonts are downloaded once a slot uses them: registered for the
+  // canvas and read for glyph coverage
+  useEffect(() => {
+    if (!token) return;
+    const used = new Set(seriesSlots.map((slot) => String(slot.fontFamily || '')));
+    const pending = fontLibrary.filter(
+      (f) => f.source === 'library' && f.url && used.has(fontDisplayName(f)) && !fontCoverage.has(fontDisplayName(f)) && !loadingFontIdsRef.current.has(f.id)
+    );
+    pending.forEach((font) => {
+      loadingFontIdsRef.current.add(font.id);
+      void (async () => {
+        const name = fontDisplayName(font);
+        try {
+          const res = await api.get(String(font.url), {
+            headers: { Authorization: `Bearer ${token}` },
+            responseType: 'arraybuffer',
+          });
+          const bytes = res.data as ArrayBuffer;
+          fontBytesRef.current.set(name, bytes);
+          document.fonts.add(await new FontFace(name, bytes).load());
+          const info = await readFontInfo(bytes).catch(() => null);
+          setFontCoverage((prev) => new Map(prev).set(name, info?.coverage ?? null));
+          if (info && !info.embeddable) setUnembeddableFonts((prev) => (prev.includes(name) ? prev : [...prev, name]));
+        } catch (error) {
+          console.error(`Error loading font "${name}":`, error);
+          loadingFontIdsRef.current.delete(font.id);
+        }
+      })();
+    });
+  }, [fontCoverage, fontLibrary, seriesSlots, token]);
+
   useEffect(() => {
     let cancelled = false;
     (async () => {
@@ -184,125 +457,152 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
     };
   }, [pdfFontCache, seriesSlots]);
 
-  const formatSeriesValue = useCallback((prefix: string, num: number, width: number) => {
-    const raw = String(Math.trunc(num));
-    if (width > 0) {
-      const padded = raw.padStart(width, '0');
-      const finalDigits = padded.length > width ? padded.slice(padded.length - width) : padded;
-      return `${prefix}${finalDigits}`;
+  // Sheet grid drives tickets per sheet and the largest object a cell can hold
+  const { impositionLayout, impositionError } = useMemo(() => {
+    try {
+      return { impositionLayout: computeImpositionLayout(imposition), impositionError: null };
+    } catch (e) {
+      return { impositionLayout: null, impositionError: e instanceof Error ? e.message : 'Invalid sheet layout' };
     }
-    return `${prefix}${raw}`;
+  }, [imposition]);
+
+  const ticketsPerSheet = impositionLayout?.perSheet ?? objectsPerPage;
+  const totalTickets = totalPages * ticketsPerSheet;
+
+  const handleImpositionChange = useCallback((updates: Partial<ImpositionSettings>) => {
+    setImposition((prev) => resolveImposition({ ...prev, ...updates }));
   }, []);
 
-  const applyNumericTemplate = useCallback((template: string, digits: string) => {
-    const out: string[] = [];
-    let j = 0;
-    for (let i = 0; i < template.length; i += 1) {
-      const ch = template[i] ?? '';
-      if (ch >= '0' && ch <= '9') {
-        out.push(digits[j] ?? '0');
-        j += 1;
-      } else {
-        out.push(ch);
-      }
-    }
-    return out.join('');
+  const handlePrinterMarksChange = useCallback((updates: Partial<PrinterMarksSettings>) => {
+    setPrinterMarks((prev) => resolvePrinterMarks({ ...prev, ...updates }));
   }, []);
 
-  const parseSeriesPattern = useCallback((value: string) => {
-    const str = String(value ?? '');
-    let end = str.length - 1;
-    while (end >= 0 && str[end] === ' ') end -= 1;
-    if (end < 0) return null;
-    if (str[end] < '0' || str[end] > '9') return null;
-
-    let i = end;
-    const numericPartReversed: string[] = [];
-
-    while (i >= 0) {
-      const ch = str[i];
-      if (ch >= '0' && ch <= '9') {
-        numericPartReversed.push(ch);
-        i -= 1;
-        continue;
-      }
-      if (ch === ' ') {
-        const prev = i > 0 ? str[i - 1] : '';
-        if (prev >= '0' && prev <= '9') {
-          numericPartReversed.push(ch);
-          i -= 1;
-          continue;
-        }
-      }
-      break;
-    }
+  const handleDuplexChange = useCallback((updates: Partial<DuplexSettings>) => {
+    setDuplex((prev) => resolveDuplex({ ...prev, ...updates }));
+  }, []);
 
-    const numericPart = numericPartReversed.reverse().join('');
-    const digits = numericPart.replace(/\s+/g, '');
-    if (!digits) return null;
-    return { prefix: str.slice(0, i + 1), digits, numericPart };
+  const handleColorOutputChange = useCallback((updates: Partial<ColorOutputSettings>) => {
+    setColorOutput((prev) => resolveColorOutput({ ...prev, ...updates }));
   }, []);
 
-  const sanitizeSeriesInput = useCallback(
-    (value: string) => {
-      const parsed = parseSeriesPattern(value);
-      if (!parsed) return value;
-      return `${parsed.prefix}${parsed.digits}`;
-    },
-    [parseSeriesPattern]
-  );
-
-  // Calculate ending series
-  const calculateEndingSeries = useCallback((start: string, totalTickets: number): string => {
-    const parsed = parseSeriesPattern(start);
-    if (parsed) {
-      const startNum = parseInt(parsed.digits, 10);
-      const endNum = startNum + totalTickets - 1;
-      const base = formatSeriesValue(parsed.prefix, endNum, parsed.digits.length);
-      if (parsed.numericPart && /\s/.test(parsed.numericPart)) {
-        const numStr = String(Math.trunc(endNum)).padStart(parsed.digits.length, '0');
-        const finalDigits = numStr.length > parsed.digits.length ? numStr.slice(numStr.length - parsed.digits.length) : numStr;
-        return `${parsed.prefix}${applyNumericTemplate(parsed.numericPart, finalDigits)}`;
-      }
-      return base;
-    }
-    return start;
-  }, [applyNumericTemplate, parseSeriesPattern, formatSeriesValue]);
-
-  // 4 tickets per page
-  const endingSeries = useMemo(() => calculateEndingSeries(startingSeries, totalPages * 4), [startingSeries, totalPages, calculateEndingSeries]);
-
-  // Increment series - preserve spaces and other characters
-  const incrementSeries = useCallback((value: string, increment: number): string => {
-    const parsed = parseSeriesPattern(value);
-    if (parsed) {
-      const num = parseInt(parsed.digits, 10);
-      const endNum = num + increment;
-      if (parsed.numericPart && /\s/.test(parsed.numericPart)) {
-        const numStr = String(Math.trunc(endNum)).padStart(parsed.digits.length, '0');
-        const finalDigits = numStr.length > parsed.digits.length ? numStr.slice(numStr.length - parsed.digits.length) : numStr;
-        return `${parsed.prefix}${applyNumericTemplate(parsed.numericPart, finalDigits)}`;
+  const handleBatchesChange = useCallback((updates: Partial<BatchSettings>) => {
+    setBatches((prev) => resolveBatches({ ...prev, ...updates }));
+  }, []);
+
+  const handleSeriesScopeChange = useCallback((updates: Partial<SeriesScope>) => {
+    setSeriesScope((prev) => ({ ...prev, ...updates }));
+  }, []);
+
+  // Range of every slot must fit its counter; in 'stop' mode an overflow blocks
+  // generation, as does a start value with no counter to advance
+  const seriesRangeError = useMemo(() => {
+    try {
+      calculateEndingSeries(startingSeries, totalTickets, seriesSlots[0] ? seriesFormatOf(seriesSlots[0]) : {});
+      for (const slot of seriesSlots) {
+        if (slot.dataColumn) continue;
+        calculateEndingSeries(String(slot.startingSeries || slot.value || startingSeries || '').trimEnd(), totalTickets, seriesFormatOf(slot));
+        const checkDigitError = checkDigitAlphabetError(checkDigitConfigOf(slot), resolveSeriesAlphabet(slot.seriesAlphabet));
+        if (checkDigitError) return checkDigitError;
       }
-      return formatSeriesValue(parsed.prefix, endNum, parsed.digits.length);
+      return null;
+    } catch (e) {
+      return e instanceof Error ? e.message : 'Invalid series range';
     }
-    return value;
-  }, [applyNumericTemplate, parseSeriesPattern, formatSeriesValue]);
+  }, [seriesSlots, startingSeries, totalTickets]);
+
+  // Every bound slot needs a row per ticket and a column that still exists in the sheet
+  const variableDataError = useMemo(() => {
+    const bound = seriesSlots.filter((slot) => slot.dataColumn);
+    if (!bound.length) return null;
+    if (!variableData) return 'A slot is bound to a data column but no CSV/XLSX file is loaded';
+    const missing = bound.find((slot) => !variableData.columns.includes(String(slot.dataColumn)));
+    if (missing) return `Column "${missing.dataColumn}" is not in ${variableData.fileName}`;
+    const rowCountError = variableDataRowCountError(variableData, totalTickets);
+    if (rowCountError) return rowCountError;
+    const emptyBarcode = bound.find(
+      (slot) => slot.kind === 'barcode' && columnValues(variableData, String(slot.dataColumn), totalTickets).some((v) => !v)
+    );
+    if (emptyBarcode) return `Column "${emptyBarcode.dataColumn}" has empty cells; barcode slots need a value on every ticket`;
+    return null;
+  }, [seriesSlots, totalTickets, variableData]);
+
+  // Every character each text slot prints over the run, with its font
+  const slotGlyphSamples = useMemo(
+    () =>
+      seriesSlots.flatMap((slot) => {
+        if (slot.kind === 'barcode') return [];
+        const font = String(slot.fontFamily || '');
+        if (slot.dataColumn && variableData) {
+          return [{ slotId: slot.id, font, sample: seriesGlyphSample({ values: columnValues(variableData, slot.dataColumn, totalTickets), checkDigit: checkDigitConfigOf(slot) }) }];
+        }
+        const start = String(slot.startingSeries || slot.value || startingSeries || '').trimEnd();
+        try {
+          const end = calculateEndingSeries(start, totalTickets, seriesFormatOf(slot));
+          const sample = seriesGlyphSample({
+            values: [start, end, seriesPrefixGlyphs(start, end, seriesFormatOf(slot))],
+            alphabet: totalTickets > 1 ? resolveSeriesAlphabet(slot.seriesAlphabet) : null,
+            checkDigit: checkDigitConfigOf(slot),
+          });
+          return [{ slotId: slot.id, font, sample }];
+        } catch {
+          return [{ slotId: slot.id, font, sample: start }];
+        }
+      }),
+    [seriesSlots, startingSeries, totalTickets, variableData]
+  );
+
+  // Characters each text slot will print that its font has no glyph for
+  const glyphWarnings = useMemo(
+    () =>
+      slotGlyphSamples.flatMap(({ slotId, font, sample }) => {
+        const coverage = fontCoverage.get(font);
+        const chars = coverage ? missingGlyphs(sample, coverage) : [];
+        return chars.length ? [{ slotId, font, chars }] : [];
+      }),
+    [fontCoverage, slotGlyphSamples]
+  );
+
+  // Range shown in the toolbar, as printed (including the first slot's check digit)
+  const primaryCheckDigit = useMemo(() => (seriesSlots[0] ? checkDigitConfigOf(seriesSlots[0]) : null), [seriesSlots]);
+  const startingSeriesDisplay = useMemo(() => withCheckDigit(startingSeries, primaryCheckDigit), [primaryCheckDigit, startingSeries]);
+
+  const endingSeries = useMemo(() => {
+    if (seriesRangeError) return '—';
+    const end = calculateEndingSeries(startingSeries, totalTickets, seriesSlots[0] ? seriesFormatOf(seriesSlots[0]) : {});
+    return withCheckDigit(end, primaryCheckDigit);
+  }, [primaryCheckDigit, seriesRangeError, seriesSlots, startingSeries, totalTickets]);
 
   const selectedSlot = useMemo(() => {
     if (!selectedSlotId) return null;
     return seriesSlots.find((s) => s.id === selectedSlotId) ?? null;
   }, [selectedSlotId, seriesSlots]);
 
+  const selectedSvgOverlay = useMemo(
+    () => (selectedIds.length === 1 ? svgOverlays.find((o) => o.id === selectedIds[0]) ?? null : null),
+    [selectedIds, svgOverlays]
+  );
+
+  const handleSvgOverlayInkChange = useCallback(
+    ({ ink }: { ink: InkColor | null }) => {
+      if (!selectedSvgOverlay) return;
+      const id = selectedSvgOverlay.id;
+      setSvgOverlays((prev) => prev.map((o) => (o.id === id ? { ...o, ink } : o)), { label: 'Edit ink', mergeKey: `svg-ink:${id}` });
+    },
+    [selectedSvgOverlay, setSvgOverlays]
+  );
+
+  // Keep the selection on a slot of the side being edited
   useEffect(() => {
-    if (!seriesSlots.length) {
+    const visible = seriesSlots.filter((s) => (s.side ?? 'front') === activeSide);
+    if (!visible.length) {
       if (selectedSlotId) setSelectedSlotId(null);
       return;
     }
 
-    if (!selectedSlotId || !seriesSlots.some((s) => s.id === selectedSlotId)) {
-      setSelectedSlotId(seriesSlots[0]?.id ?? null);
+    if (!selectedSlotId || !visible.some((s) => s.id === selectedSlotId)) {
+      setSelectedSlotId(visible[0]?.id ?? null);
     }
-  }, [selectedSlotId, seriesSlots]);
+  }, [activeSide, selectedSlotId, seriesSlots]);
 
   useEffect(() => {
     if (!seriesSlots.length) return;
@@ -312,14 +612,15 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
         const desired = startingSeries;
         const newLetterStyles = desired.split('').map((_, idx) => slot.letterStyles?.[idx] || { fontSize: slot.defaultFontSize, offsetY: 0 });
         return { ...slot, value: desired, letterStyles: newLetterStyles };
-      })
+      }),
+      { transient: true }
     );
-  }, [seriesSlots.length, startingSeries]);
+  }, [seriesSlots.length, setSeriesSlots, startingSeries]);
 
-  const handleAddSeriesSlot = useCallback(() => {
+  const addSlot = useCallback((kind: 'text' | 'barcode') => {
     const letterStyles = startingSeries.split('').map(() => ({ fontSize: 24, offsetY: 0 }));
 
-    const stackIdx = seriesSlots.length;
+    const stackIdx = seriesSlots.filter((s) => (s.side ?? 'front') === activeSide).length;
     const baseX = 0.6;
     const baseY = 0.4 + stackIdx * 0.06;
 
@@ -330,6 +631,9 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
 
     const newSlot: SeriesSlotData = {
       id: Date.now().toString(),
+      kind,
+      ...(kind === 'barcode' ? { barcode: { ...DEFAULT_BARCODE_CONFIG } } : {}),
+      ...(activeSide === 'back' ? { side: 'back' as const } : {}),
       x: baseX,
       y: baseY,
       x_mm: xMm,
@@ -356,10 +660,13 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
       textAlign: 'center',
     };
 
-    setSeriesSlots((prev) => [...prev, newSlot]);
+    setSeriesSlots((prev) => [...prev, newSlot], { label: kind === 'barcode' ? 'Add barcode slot' : 'Add series slot' });
     setSelectedSlotId(newSlot.id);
-    toast.success('Series slot added');
-  }, [seriesSlots.length, startingSeries, ticketCropMm?.heightMm, ticketCropMm?.widthMm]);
+    toast.success(kind === 'barcode' ? 'Barcode slot added' : 'Series slot added');
+  }, [activeSide, seriesSlots, setSeriesSlots, startingSeries, ticketCropMm?.heightMm, ticketCropMm?.widthMm]);
+
+  const handleAddSeriesSlot = useCallback(() => addSlot('text'), [addSlot]);
+  const handleAddBarcodeSlot = useCallback(() => addSlot('barcode'), [addSlot]);
 
   const handleDeleteSeriesSlot = useCallback(() => {
     setSeriesSlots((prev) => {
@@ -379,15 +686,18 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
 
       toast.success('Series slot removed');
       return next;
-    });
-  }, [selectedSlotId]);
+    }, { label: 'Delete slot' });
+  }, [selectedSlotId, setSeriesSlots]);
 
   const handleUpdateSlot = useCallback(
     (updates: Partial<SeriesSlotData>) => {
       if (!selectedSlotId) return;
-      setSeriesSlots((prev) => prev.map((s) => (s.id === selectedSlotId ? { ...s, ...updates } : s)));
+      setSeriesSlots((prev) => prev.map((s) => (s.id === selectedSlotId ? { ...s, ...updates } : s)), {
+        label: `Edit ${Object.keys(updates).join(', ')}`,
+        mergeKey: `slot:${selectedSlotId}:${Object.keys(updates).sort().join(',')}`,
+      });
     },
-    [selectedSlotId]
+    [selectedSlotId, setSeriesSlots]
   );
 
   const handleUpdateLetterFontSize = useCallback(
@@ -399,10 +709,11 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
           const next = [...(s.letterStyles || [])];
           next[index] = { ...(next[index] || { fontSize: s.defaultFontSize, offsetY: 0 }), fontSize };
           return { ...s, letterStyles: next };
-        })
+        }),
+        { label: `Letter ${index + 1} size`, mergeKey: `letter-size:${selectedSlotId}:${index}` }
       );
     },
-    [selectedSlotId]
+    [selectedSlotId, setSeriesSlots]
   );
 
   const handleUpdateLetterOffset = useCallback(
@@ -414,10 +725,11 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
           const next = [...(s.letterStyles || [])];
           next[index] = { ...(next[index] || { fontSize: s.defaultFontSize, offsetY: 0 }), offsetY };
           return { ...s, letterStyles: next };
-        })
+        }),
+        { label: `Letter ${index + 1} offset`, mergeKey: `letter-offset:${selectedSlotId}:${index}` }
       );
     },
-    [selectedSlotId]
+    [selectedSlotId, setSeriesSlots]
   );
 
   const objectRectMm = useMemo(() => {
@@ -441,68 +753,153 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
     return null;
   }, [ticketCropMm]);
 
-  const generateDisabledReason = useMemo(() => {
-    const wMm = ticketCropMm?.widthMm;
-    const hMm = ticketCropMm?.heightMm;
+  const printerMarksError = useMemo(() => {
+    if (!impositionLayout) return null;
+    return getPrinterMarksError(impositionLayout, trimBoxes(impositionLayout, objectRectMm, ticketCropMm?.alignment), printerMarks);
+  }, [impositionLayout, objectRectMm, printerMarks, ticketCropMm?.alignment]);
+
+  const duplexError = useMemo(() => {
+    const hasBackSlots = seriesSlots.some((slot) => slot.side === 'back');
+    if (!duplex.enabled && hasBackSlots) return 'Back-side slots need duplex turned on (or delete them)';
+    return getDuplexError(duplex, Boolean(backArtwork) || hasBackSlots);
+  }, [backArtwork, duplex, seriesSlots]);
+
+  // Canvas zoom and pan in screen px. A fit mode keeps re-fitting as the viewport
+  // resizes until the user zooms or pans by hand.
+  const [view, setView] = useState<CanvasView>({ zoom: 1, panX: 0, panY: 0 });
+  const [fitMode, setFitMode] = useState<FitMode | null>('object');
+  const [viewportSize, setViewportSize] = useState<{ width: number; height: number } | null>(null);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const panDragRef = useRef<{ pointerId: number; startX: number; startY: number; panX: number; panY: number } | null>(null);
 
-    if (!(typeof wMm === 'number' && Number.isFinite(wMm) && wMm > 0)) {
-      return 'Missing object width (mm). Enter Width (mm) before generating.';
-    }
-    if (!(typeof hMm === 'number' && Number.isFinite(hMm) && hMm > 0)) {
-      return 'Missing object height (mm). Enter Height (mm) before generating.';
-    }
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(([entry]) => setViewportSize({ width: entry.contentRect.width, height: entry.contentRect.height }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
 
-    if (Number(wMm) > MAX_OBJECT_WIDTH_MM) {
-      return `Object width (${wMm}mm) exceeds max allowed (${MAX_OBJECT_WIDTH_MM}mm). Reduce width before generating.`;
-    }
-    if (Number(hMm) > MAX_OBJECT_HEIGHT_MM) {
-      return `Object height (${hMm}mm) exceeds max allowed (${MAX_OBJECT_HEIGHT_MM}mm). Reduce height before generating.`;
-    }
-    return null;
-  }, [MAX_OBJECT_HEIGHT_MM, MAX_OBJECT_WIDTH_MM, ticketCropMm?.heightMm, ticketCropMm?.widthMm]);
+  useEffect(() => {
+    if (!fitMode || !objectRectMm || !viewportSize) return;
+    setView(fitView(fitMode, objectRectMm, viewportSize, MM_TO_PX));
+  }, [MM_TO_PX, fitMode, objectRectMm, viewportSize]);
+
+  // Zooms around a viewport point, the viewport centre by default
+  const handleZoomTo = useCallback(
+    (zoom: number, at?: { x: number; y: number }) => {
+      const x = at?.x ?? (viewportSize?.width ?? 0) / 2;
+      const y = at?.y ?? (viewportSize?.height ?? 0) / 2;
+      setView((v) => zoomAround(v, zoom, x, y));
+      setFitMode(null);
+    },
+    [viewportSize]
+  );
+
+  const handleZoomStep = useCallback((direction: 1 | -1) => handleZoomTo(stepZoom(view.zoom, direction)), [handleZoomTo, view.zoom]);
 
+  // Wheel zooms around the cursor; trackpad pinch arrives as a ctrl+wheel
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      const deltaY = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY;
+      const factor = Math.exp(-deltaY * (e.ctrlKey ? 0.01 : 0.002));
+      setView((v) => zoomAround(v, v.zoom * factor, e.clientX - rect.left, e.clientY - rect.top));
+      setFitMode(null);
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, []);
+
+  // Holding space turns the canvas into a pan handle
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTextEntryTarget(e.target)) return;
+      const target = e.target as Node | null;
+      if (target && target !== document.body && !containerRef.current?.contains(target)) return;
+      e.preventDefault();
+      if (!e.repeat) setSpaceHeld(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setSpaceHeld(false);
+    };
+    const onBlur = () => setSpaceHeld(false);
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, []);
+
+  const handlePanPointerDown = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      e.preventDefault();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      panDragRef.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, panX: view.panX, panY: view.panY };
+    },
+    [view.panX, view.panY]
+  );
+
+  const handlePanPointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    const d = panDragRef.current;
+    if (!d || d.pointerId !== e.pointerId) return;
+    setView((v) => ({ ...v, panX: d.panX + e.clientX - d.startX, panY: d.panY + e.clientY - d.startY }));
+    setFitMode(null);
+  }, []);
+
+  const handlePanPointerUp = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (panDragRef.current?.pointerId === e.pointerId) panDragRef.current = null;
+  }, []);
+
+  // Screen size of the object at the current zoom; every mm<->px conversion below derives from it
   const objectRectPx = useMemo(() => {
     if (!objectRectMm) return null;
     return {
-      width: Math.max(1, Math.round(objectRectMm.widthMm * MM_TO_PX)),
-      height: Math.max(1, Math.round(objectRectMm.heightMm * MM_TO_PX)),
+      width: Math.max(1, Math.round(objectRectMm.widthMm * MM_TO_PX * view.zoom)),
+      height: Math.max(1, Math.round(objectRectMm.heightMm * MM_TO_PX * view.zoom)),
     };
-  }, [MM_TO_PX, objectRectMm]);
+  }, [MM_TO_PX, objectRectMm, view.zoom]);
 
   const mmToPxX = useCallback(
     (mm: number) => {
-      if (!objectRectMm || !objectRectPx) return mm * MM_TO_PX;
+      if (!objectRectMm || !objectRectPx) return mm * MM_TO_PX * view.zoom;
       const scale = objectRectPx.width / objectRectMm.widthMm;
       return mm * scale;
     },
-    [MM_TO_PX, objectRectMm, objectRectPx]
+    [MM_TO_PX, objectRectMm, objectRectPx, view.zoom]
   );
 
   const mmToPxY = useCallback(
     (mm: number) => {
-      if (!objectRectMm || !objectRectPx) return mm * MM_TO_PX;
+      if (!objectRectMm || !objectRectPx) return mm * MM_TO_PX * view.zoom;
       const scale = objectRectPx.height / objectRectMm.heightMm;
       return mm * scale;
     },
-    [MM_TO_PX, objectRectMm, objectRectPx]
+    [MM_TO_PX, objectRectMm, objectRectPx, view.zoom]
   );
 
   const pxToMmX = useCallback(
     (px: number) => {
-      if (!objectRectMm || !objectRectPx) return px / MM_TO_PX;
+      if (!objectRectMm || !objectRectPx) return px / (MM_TO_PX * view.zoom);
       const scale = objectRectPx.width / objectRectMm.widthMm;
       return px / scale;
     },
-    [MM_TO_PX, objectRectMm, objectRectPx]
+    [MM_TO_PX, objectRectMm, objectRectPx, view.zoom]
   );
 
   const pxToMmY = useCallback(
     (px: number) => {
-      if (!objectRectMm || !objectRectPx) return px / MM_TO_PX;
+      if (!objectRectMm || !objectRectPx) return px / (MM_TO_PX * view.zoom);
       const scale = objectRectPx.height / objectRectMm.heightMm;
       return px / scale;
     },
-    [MM_TO_PX, objectRectMm, objectRectPx]
+    [MM_TO_PX, objectRectMm, objectRectPx, view.zoom]
   );
 
   const measureCtxRef = useRef<CanvasRenderingContext2D | null>(null);
@@ -602,80 +999,943 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
     };
   }, [documentId, sessionToken, svgRawUrls, token]);
 
+  // Back artwork goes through the same upload + normalize path so it shares the front's mm viewBox
+  const handleUploadBackArtwork = useCallback(
+    async (file: File) => {
+      try {
+        if (!token) throw new Error('Not authenticated');
+        if (!objectRectMm) throw new Error('Missing object size (mm) for normalization');
+
+        const form = new FormData();
+        form.append('file', file);
+        const uploadRes = await api.post('/api/overlays/svg', form, {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'multipart/form-data',
+          },
+        });
+        const svgS3Key = String(uploadRes?.data?.svg_s3_key || '').trim();
+        if (!svgS3Key) throw new Error('SVG upload failed');
+
+        const normalizeRes = await api.post(
+          '/api/normalize-svg',
+          { svg_s3_key: svgS3Key, object_mm: { w: objectRectMm.widthMm, h: objectRectMm.heightMm } },
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+        const normalized = typeof normalizeRes?.data?.normalized_svg === 'string' ? normalizeRes.data.normalized_svg : '';
+        if (!normalized) throw new Error('normalize-svg returned empty normalized_svg');
+
+        setBackArtwork({ fileName: file.name, svgS3Key, svgMarkup: normalized });
+        setActiveSide('back');
+        toast.success('Back artwork added');
+      } catch (error) {
+        console.error('Error uploading back artwork:', error);
+        toast.error(error instanceof Error && error.message ? error.message : 'Failed to upload back artwork');
+      }
+    },
+    [objectRectMm, token]
+  );
+
+  const handleClearBackArtwork = useCallback(() => {
+    setBackArtwork(null);
+  }, []);
+
+  const captureLayoutTemplate = useCallback((): LayoutTemplate | null => {
+    if (!objectRectMm) return null;
+    return {
+      version: LAYOUT_TEMPLATE_VERSION,
+      objectMm: { widthMm: objectRectMm.widthMm, heightMm: objectRectMm.heightMm },
+      seriesSlots,
+      startingSeries,
+      totalPages,
+      customFonts,
+      overlays,
+      svgOverlays,
+      layers: liveLayers,
+      imposition,
+      printerMarks,
+      duplex,
+    };
+  }, [customFonts, duplex, imposition, liveLayers, objectRectMm, overlays, printerMarks, seriesSlots, startingSeries, svgOverlays, totalPages]);
+
+  // Replaces the current layout in one undo step; positions follow this artwork's object size
+  const handleApplyLayoutTemplate = useCallback(
+    (record: LayoutTemplateRecord) => {
+      if (!objectRectMm) {
+        toast.error('Set the object size before applying a layout');
+        return;
+      }
+      const template = rescaleLayoutTemplate(record.template, objectRectMm);
+
+      const missingFonts = template.customFonts.filter((f) => !customFonts.some((c) => c.family === f.family));
+      void Promise.all(
+        missingFonts.map(async (f) => {
+          const fontFace = new (window as any).FontFace(f.family, `url(${f.dataUrl})`);
+          (document as any).fonts.add(await fontFace.load());
+        })
+      ).catch((e) => console.error('Failed to load template fonts', e));
+      setCustomFonts((prev) => [...prev, ...missingFonts.filter((f) => !prev.some((p) => p.family === f.family))]);
+
+      setSnapshot(
+        { seriesSlots: template.seriesSlots, overlays: template.overlays, svgOverlays: template.svgOverlays, groups: [], layers: template.layers },
+        { label: `Apply layout "${record.name}"` }
+      );
+      setStartingSeries(template.startingSeries);
+      setTotalPages(template.totalPages);
+      setImposition(template.imposition);
+      setPrinterMarks(template.printerMarks);
+      setDuplex(template.duplex);
+      if (!template.duplex.enabled) setActiveSide('front');
+      toast.success(`Applied layout "${record.name}"`);
+    },
+    [customFonts, objectRectMm, setSnapshot]
+  );
+
+  const handleSnapSettingsChange = useCallback((updates: Partial<SnapSettings>) => {
+    setSnapSettings((prev) => resolveSnapSettings({ ...prev, ...updates }));
+  }, []);
+
+  const handleAddGuide = useCallback((axis: Guide['axis'], mm: number) => {
+    setGuides((prev) => [...prev, { id: `${Date.now()}:${Math.random().toString(16).slice(2)}`, axis, mm }]);
+  }, []);
+
+  const handleMoveGuide = useCallback((id: string, mm: number) => {
+    setGuides((prev) => prev.map((g) => (g.id === id ? { ...g, mm } : g)));
+  }, []);
+
+  const handleRemoveGuide = useCallback((id: string) => {
+    setGuides((prev) => prev.filter((g) => g.id !== id));
+  }, []);
+
+  // Text shown for a slot on the canvas; data-bound slots preview the first row of their column
+  const slotPreviewText = useCallback(
+    (slot: SeriesSlotData) => {
+      const firstValue =
+        slot.dataColumn && variableData?.columns.includes(slot.dataColumn)
+          ? columnValues(variableData, slot.dataColumn, 1)[0] ?? ''
+          : String(slot.startingSeries || startingSeries);
+      return withCheckDigit(firstValue, checkDigitConfigOf(slot));
+    },
+    [startingSeries, variableData]
+  );
+
+  // Unrotated bounds of a slot in object mm. Text hangs above its baseline
+  // anchor; barcodes hang down from their top-left anchor.
+  const slotBoxMm = useCallback(
+    (slot: SeriesSlotData, anchor?: { xMm: number; yMm: number }): Box | null => {
+      const xMm = anchor ? anchor.xMm : slot.x_mm;
+      const yMm = anchor ? anchor.yMm : slot.y_mm;
+      if (typeof xMm !== 'number' || typeof yMm !== 'number' || ![xMm, yMm].every((n) => Number.isFinite(n))) return null;
+      const text = slotPreviewText(slot);
+
+      if (slot.kind === 'barcode') {
+        try {
+          const rendered = renderBarcodeSvg(text, resolveBarcodeConfig(slot.barcode), slot.color);
+          return { xMm, yMm, widthMm: rendered.widthMm, heightMm: rendered.heightMm };
+        } catch {
+          return null;
+        }
+      }
+
+      const pdfFont = pdfFontCache.get(standardFontKeyOf(slot));
+      if (!pdfFont) return null;
+      let widthPx = 0;
+      let ascentPx = 0;
+      String(text)
+        .split('')
+        .forEach((ch, i) => {
+          const rawSize = Number(slot.letterStyles?.[i]?.fontSize ?? slot.defaultFontSize ?? 24);
+          const size = Number.isFinite(rawSize) && rawSize > 0 ? rawSize : 24;
+          const offsetY = Number(slot.letterStyles?.[i]?.offsetY ?? 0) || 0;
+          widthPx += Number(pdfFont.widthOfTextAtSize(ch, size)) || 0;
+          ascentPx = Math.max(ascentPx, (Number(pdfFont.heightAtSize(size, { descender: false })) || 0) - offsetY);
+        });
+      const heightMm = ascentPx * FONT_PX_TO_MM;
+      return { xMm, yMm: yMm - heightMm, widthMm: widthPx * FONT_PX_TO_MM, heightMm };
+    },
+    [pdfFontCache, slotPreviewText]
+  );
+
+  // Bounds of the drawn artwork elements, so slots can line up with printed boxes and rules
+  const measureArtworkBoxes = useCallback((): Box[] => {
+    const host = svgHostRef.current;
+    if (!host || !objectRectMm) return [];
+    const hostRect = host.getBoundingClientRect();
+    const boxes: Box[] = [];
+    for (const el of Array.from(host.querySelectorAll('rect, path, line, polyline, polygon, circle, ellipse, image, text'))) {
+      const r = el.getBoundingClientRect();
+      const box = { xMm: pxToMmX(r.left - hostRect.left), yMm: pxToMmY(r.top - hostRect.top), widthMm: pxToMmX(r.width), heightMm: pxToMmY(r.height) };
+      // Full-bleed backgrounds and specks would pull every slot towards them
+      if (box.widthMm >= objectRectMm.widthMm * 0.95 && box.heightMm >= objectRectMm.heightMm * 0.95) continue;
+      if (box.widthMm < 0.5 && box.heightMm < 0.5) continue;
+      boxes.push(box);
+      if (boxes.length >= MAX_ARTWORK_SNAP_BOXES) break;
+    }
+    return boxes;
+  }, [objectRectMm, pxToMmX, pxToMmY]);
+
+  // Visible slots and overlays on the side being edited (overlays are front-only)
+  const canvasItemIds = useMemo(
+    () =>
+      [
+        ...seriesSlots
+          .filter((s) => (s.side ?? 'front') === activeSide && Number.isFinite(Number(s.x_mm)) && Number.isFinite(Number(s.y_mm)))
+          .map((s) => s.id),
+        ...(activeSide === 'front' ? [...overlays, ...svgOverlays].map((o) => o.id) : []),
+      ].filter((id) => !liveLayers.hidden.includes(id)),
+    [activeSide, liveLayers.hidden, overlays, seriesSlots, svgOverlays]
+  );
+
+  // The ones the pointer and keyboard may select
+  const editableItemIds = useMemo(() => canvasItemIds.filter((id) => !liveLayers.locked.includes(id)), [canvasItemIds, liveLayers.locked]);
+
+  const liveGroups = useMemo(
+    () => pruneGroups(groups, [...seriesSlots.map((s) => s.id), ...overlays.map((o) => o.id), ...svgOverlays.map((o) => o.id)]),
+    [groups, overlays, seriesSlots, svgOverlays]
+  );
+
+  const itemBoxMm = useCallback(
+    (id: string): Box | null => {
+      const overlay = overlays.find((o) => o.id === id);
+      if (overlay) return { xMm: overlay.xMm, yMm: overlay.yMm, widthMm: overlay.wMm, heightMm: overlay.hMm };
+      const svgOverlay = svgOverlays.find((o) => o.id === id);
+      if (svgOverlay) {
+        // Scaled about its centre on the canvas
+        const widthMm = svgOverlay.intrinsicMmW * svgOverlay.scale;
+        const heightMm = svgOverlay.intrinsicMmH * svgOverlay.scale;
+        return {
+          xMm: svgOverlay.xMm + (svgOverlay.intrinsicMmW - widthMm) / 2,
+          yMm: svgOverlay.yMm + (svgOverlay.intrinsicMmH - heightMm) / 2,
+          widthMm,
+          heightMm,
+        };
+      }
+      const slot = seriesSlots.find((s) => s.id === id);
+      return slot ? slotBoxMm(slot) : null;
+    },
+    [overlays, seriesSlots, slotBoxMm, svgOverlays]
+  );
+
+  const itemBoxesMm = useCallback(
+    (ids: string[]): ItemBox[] =>
+      ids.flatMap((id) => {
+        const box = itemBoxMm(id);
+        return box ? [{ id, box }] : [];
+      }),
+    [itemBoxMm]
+  );
+
+  // Preflight checks. The artwork scans and the series comparison only rerun
+  // when their inputs change, not on every drag step.
+  const hairlinePreflight = useMemo(() => {
+    const sources: { id?: string; label: string; markup: string; userUnitMm: number }[] = [];
+    const artworkUnit = svgMarkup && objectRectMm ? svgUserUnitMm(svgMarkup, objectRectMm.widthMm) : null;
+    if (svgMarkup && artworkUnit) sources.push({ label: duplex.enabled ? 'Front artwork' : 'Artwork', markup: svgMarkup, userUnitMm: artworkUnit });
+    const backUnit = backArtwork && objectRectMm ? svgUserUnitMm(backArtwork.svgMarkup, objectRectMm.widthMm) : null;
+    if (backArtwork && backUnit) sources.push({ label: 'Back artwork', markup: backArtwork.svgMarkup, userUnitMm: backUnit });
+    svgOverlays.forEach((o, i) => {
+      const unit = svgUserUnitMm(o.svgMarkup, o.intrinsicMmW * o.scale);
+      if (unit) sources.push({ id: o.id, label: `SVG ${i + 1}`, markup: o.svgMarkup, userUnitMm: unit });
+    });
+    return hairlineIssues(sources);
+  }, [backArtwork, duplex.enabled, objectRectMm, svgMarkup, svgOverlays]);
+
+  const seriesPreflight = useMemo(
+    () =>
+      seriesRunIssues(
+        seriesSlots
+          .filter((slot) => !slot.dataColumn)
+          .map((slot) => ({
+            id: slot.id,
+            label: slotLabel(slot, startingSeries),
+            start: String(slot.startingSeries || slot.value || startingSeries || '').trimEnd(),
+            format: seriesFormatOf(slot),
+          })),
+        totalTickets
+      ),
+    [seriesSlots, startingSeries, totalTickets]
+  );
+
+  // Values each barcode slot encodes, as sent to the render service. Counter
+  // runs are expanded only for EAN-13, which is checked on every ticket.
+  const barcodePreflight = useMemo(
+    () =>
+      barcodeIssues(
+        seriesSlots
+          .filter((slot) => slot.kind === 'barcode')
+          .map((slot) => {
+            const symbology = resolveBarcodeConfig(slot.barcode).symbology;
+            if (slot.dataColumn) {
+              return { id: slot.id, label: slotLabel(slot, startingSeries), symbology, values: variableData ? columnValues(variableData, slot.dataColumn, totalTickets) : [] };
+            }
+            const start = String(slot.startingSeries || slot.value || startingSeries || '').trimEnd();
+            let values: string[] = [];
+            try {
+              values = symbology === 'ean13' ? generateSeries(start, totalTickets, seriesFormatOf(slot)) : [start, calculateEndingSeries(start, totalTickets, seriesFormatOf(slot))];
+            } catch {
+              // An invalid range is reported by seriesRangeError
+            }
+            return { id: slot.id, label: slotLabel(slot, startingSeries), symbology, values: values.map((v) => withCheckDigit(v, checkDigitConfigOf(slot))) };
+          })
+      ),
+    [seriesSlots, startingSeries, totalTickets, variableData]
+  );
+
+  const preflight = useMemo(() => {
+    const issues: PreflightIssue[] = [];
+    if (objectRectMm) {
+      const placed = seriesSlots.flatMap((slot): PlacedItem[] => {
+        const box = slotBoxMm(slot);
+        if (!box) return [];
+        const anchor = { xMm: Number(slot.x_mm), yMm: Number(slot.y_mm) };
+        return [{ id: slot.id, label: slotLabel(slot, startingSeries), side: slot.side, box: rotatedBounds(box, anchor, Number(slot.rotation) || 0) }];
+      });
+      issues.push(...placementIssues(placed, objectRectMm, Number(ticketCropMm?.cutMarginMm) || 0));
+    }
+
+    const textSlots = seriesSlots.filter((slot) => slot.kind !== 'barcode');
+    issues.push(
+      ...textSizeIssues(
+        textSlots.map((slot) => ({
+          id: slot.id,
+          label: slotLabel(slot, startingSeries),
+          sizesMm: [slot.defaultFontSize, ...(slot.letterStyles ?? []).map((l) => l.fontSize)].map((px) => Number(px) * FONT_PX_TO_MM),
+        }))
+      )
+    );
+    issues.push(...hairlinePreflight);
+
+    issues.push(
+      ...rasterDpiIssues(
+        overlays.flatMap((o, i) => {
+          const cache = rasterSizeCacheRef.current;
+          if (!cache.has(o.dataUrl)) {
+            let size: { width: number; height: number } | null = null;
+            try {
+              size = rasterPixelSize(new Uint8Array(dataUrlToBytes(o.dataUrl)));
+            } catch {
+              size = null;
+            }
+            cache.set(o.dataUrl, size);
+          }
+          const size = cache.get(o.dataUrl);
+          return size ? [{ id: o.id, label: `Image ${i + 1}`, pixelWidth: size.width, pixelHeight: size.height, widthMm: o.wMm, heightMm: o.hMm }] : [];
+        })
+      )
+    );
+
+    issues.push(
+      ...fontIssues(
+        textSlots.map((slot) => ({ id: slot.id, label: slotLabel(slot, startingSeries), fontFamily: String(slot.fontFamily || '') })),
+        { available: fontLibrary.length ? mergedAvailableFonts : null, unembeddable: unembeddableFonts }
+      )
+    );
+    glyphWarnings.forEach(({ slotId, font, chars }) => {
+      const slot = seriesSlots.find((s) => s.id === slotId);
+      issues.push({
+        severity: 'warning',
+        check: 'font',
+        targetId: slotId,
+        message: `${slot ? slotLabel(slot, startingSeries) : 'A slot'} prints ${chars.join(' ')}, which "${font}" has no glyph for`,
+      });
+    });
+
+    if (colorOutput.mode === 'cmyk') {
+      issues.push(
+        ...rgbOnlyColorIssues([
+          ...seriesSlots.filter((slot) => !resolveInkColor(slot.ink)).map((slot) => ({ id: slot.id, label: slotLabel(slot, startingSeries) })),
+          ...overlays.map((o, i) => ({ id: o.id, label: `Image ${i + 1}` })),
+          ...svgOverlays.flatMap((o, i) => (resolveInkColor(o.ink) ? [] : [{ id: o.id, label: `SVG ${i + 1}` }])),
+        ])
+      );
+    }
+
+    if (seriesRangeError) issues.push({ severity: 'error', check: 'series', message: seriesRangeError });
+    issues.push(...seriesPreflight);
+    issues.push(...barcodePreflight);
+    return preflightReport(issues);
+  }, [
+    barcodePreflight,
+    colorOutput.mode,
+    fontLibrary.length,
+    glyphWarnings,
+    hairlinePreflight,
+    mergedAvailableFonts,
+    objectRectMm,
+    overlays,
+    seriesPreflight,
+    seriesRangeError,
+    seriesSlots,
+    slotBoxMm,
+    startingSeries,
+    svgOverlays,
+    ticketCropMm?.cutMarginMm,
+    unembeddableFonts,
+  ]);
+
+  const generateDisabledReason = useMemo(() => {
+    const wMm = ticketCropMm?.widthMm;
+    const hMm = ticketCropMm?.heightMm;
+
+    if (!(typeof wMm === 'number' && Number.isFinite(wMm) && wMm > 0)) {
+      return 'Missing object width (mm). Enter Width (mm) before generating.';
+    }
+    if (!(typeof hMm === 'number' && Number.isFinite(hMm) && hMm > 0)) {
+      return 'Missing object height (mm). Enter Height (mm) before generating.';
+    }
+
+    if (impositionError || !impositionLayout) {
+      return impositionError || 'Invalid sheet layout';
+    }
+    // Same tolerance as buildFinalRenderPayload, so a job allowed here is never rejected there
+    const { cellWidthMm, cellHeightMm } = impositionLayout;
+    if (Number(wMm) > cellWidthMm + 1e-6) {
+      return `Object width (${wMm}mm) exceeds max allowed (${Number(cellWidthMm.toFixed(3))}mm). Reduce width or change the sheet layout before generating.`;
+    }
+    if (Number(hMm) > cellHeightMm + 1e-6) {
+      return `Object height (${hMm}mm) exceeds max allowed (${Number(cellHeightMm.toFixed(3))}mm). Reduce height or change the sheet layout before generating.`;
+    }
+    if (seriesRangeError) {
+      return seriesRangeError;
+    }
+    if (variableDataError) {
+      return variableDataError;
+    }
+    if (printerMarksError) {
+      return printerMarksError;
+    }
+    if (duplexError) {
+      return duplexError;
+    }
+    const batchesError = getBatchesError(batches, totalPages);
+    if (batchesError) {
+      return batchesError;
+    }
+    const scopeError = seriesScopeError(resolveSeriesScope(seriesScope));
+    if (scopeError) {
+      return scopeError;
+    }
+    if (preflight.errors.length) {
+      return `Preflight found ${preflight.errors.length} error${preflight.errors.length === 1 ? '' : 's'}; see the Preflight panel.`;
+    }
+    return null;
+  }, [batches, duplexError, impositionError, impositionLayout, preflight.errors.length, printerMarksError, seriesRangeError, seriesScope, ticketCropMm?.heightMm, ticketCropMm?.widthMm, totalPages, variableDataError]);
+
+
+  // The x/y a move changes: slot anchors, overlay top-left corners
+  const positionOf = useCallback(
+    (id: string): { xMm: number; yMm: number } | null => {
+      const overlay = overlays.find((o) => o.id === id) ?? svgOverlays.find((o) => o.id === id);
+      if (overlay) return { xMm: overlay.xMm, yMm: overlay.yMm };
+      const slot = seriesSlots.find((s) => s.id === id);
+      const xMm = Number(slot?.x_mm);
+      const yMm = Number(slot?.y_mm);
+      return slot && Number.isFinite(xMm) && Number.isFinite(yMm) ? { xMm, yMm } : null;
+    },
+    [overlays, seriesSlots, svgOverlays]
+  );
+
+  // Locked layers stay put even when a group or keyboard move includes them
+  const applyItemMoves = useCallback(
+    (moves: Map<string, { xMm: number; yMm: number }>, step: HistoryStep) => {
+      if (!moves.size) return;
+      const moveOf = (id: string) => (liveLayers.locked.includes(id) ? undefined : moves.get(id));
+      setSnapshot(
+        (prev) => ({
+          ...prev,
+          seriesSlots: prev.seriesSlots.map((s) => {
+            const m = moveOf(s.id);
+            return m ? { ...s, x_mm: m.xMm, y_mm: m.yMm } : s;
+          }),
+          overlays: prev.overlays.map((o) => {
+            const m = moveOf(o.id);
+            return m ? { ...o, ...m } : o;
+          }),
+          svgOverlays: prev.svgOverlays.map((o) => {
+            const m = moveOf(o.id);
+            return m ? { ...o, ...m } : o;
+          }),
+        }),
+        step
+      );
+    },
+    [liveLayers.locked, setSnapshot]
+  );
+
+  // Snap context for moving `ids` (whose bounds are `own`) together; `origin`
+  // is the point the caller moves: a slot anchor, or 0,0 when moving by a delta
+  const prepareSnap = useCallback(
+    (ids: string[], own: Box | null, origin: { xMm: number; yMm: number }): SlotSnapContext | null => {
+      if (!own || !objectRectMm) return null;
+      const others = itemBoxesMm(canvasItemIds.filter((id) => !ids.includes(id))).map((i) => i.box);
+      return {
+        targets: buildSnapTargets({ objectMm: objectRectMm, guides, slotBoxes: others, artworkBoxes: measureArtworkBoxes() }),
+        others,
+        offsetXMm: own.xMm - origin.xMm,
+        offsetYMm: own.yMm - origin.yMm,
+        widthMm: own.widthMm,
+        heightMm: own.heightMm,
+      };
+    },
+    [canvasItemIds, guides, itemBoxesMm, measureArtworkBoxes, objectRectMm]
+  );
+
+  const prepareSlotSnap = useCallback(
+    (slotId: string): SlotSnapContext | null => {
+      const slot = seriesSlots.find((s) => s.id === slotId);
+      if (!slot) return null;
+      // Slots not placed yet are measured at the origin
+      const anchor = positionOf(slotId) ?? { xMm: 0, yMm: 0 };
+      return prepareSnap([slotId], slotBoxMm(slot, anchor), anchor);
+    },
+    [positionOf, prepareSnap, seriesSlots, slotBoxMm]
+  );
+
+  // Snaps a slot anchor position; Alt places freely
+  const snapSlotAnchor = useCallback(
+    (ctx: SlotSnapContext | null, xMm: number, yMm: number, free: boolean) => {
+      if (!ctx || free) return { xMm, yMm, lines: [] as SnapResult['lines'] };
+      const r = snapBox({ xMm: xMm + ctx.offsetXMm, yMm: yMm + ctx.offsetYMm, widthMm: ctx.widthMm, heightMm: ctx.heightMm }, ctx.targets, snapSettings);
+      return { xMm: r.xMm - ctx.offsetXMm, yMm: r.yMm - ctx.offsetYMm, lines: r.lines };
+    },
+    [snapSettings]
+  );
+
+  // Selecting one item selects its whole group; Shift toggles. Returns the new selection.
+  const selectCanvasItem = useCallback(
+    (id: string, additive: boolean): string[] => {
+      const ids = expandToGroups([id], liveGroups);
+      const next = additive ? toggleSelection(selectedIds, ids) : selectedIds.includes(id) ? selectedIds : ids;
+      setSelectedIds(next);
+      if (!isOverlayId(id) && next.includes(id)) setSelectedSlotId(id);
+      return next;
+    },
+    [liveGroups, selectedIds]
+  );
+
+  // A slot selected elsewhere (added, side switched) becomes the selection
+  useEffect(() => {
+    if (!selectedSlotId) return;
+    setSelectedIds((prev) => (prev.includes(selectedSlotId) ? prev : expandToGroups([selectedSlotId], liveGroups)));
+  }, [liveGroups, selectedSlotId]);
+
+  // Drop deleted, hidden and locked items and items on the other side
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      const next = prev.filter((id) => editableItemIds.includes(id));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [editableItemIds]);
+
+  // Moving several items (or a locked group) by the pointer delta
+  const groupDragRef = useRef<{
+    pointerId: number;
+    startX: number;
+    startY: number;
+    starts: Map<string, { xMm: number; yMm: number }>;
+    snap: SlotSnapContext | null;
+  } | null>(null);
+
+  const startGroupDrag = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>, ids: string[]) => {
+      const starts = new Map<string, { xMm: number; yMm: number }>();
+      ids.forEach((id) => {
+        const p = positionOf(id);
+        if (p) starts.set(id, p);
+      });
+      groupDragRef.current = {
+        pointerId: e.pointerId,
+        startX: e.clientX,
+        startY: e.clientY,
+        starts,
+        snap: prepareSnap(ids, unionBox(itemBoxesMm(ids).map((i) => i.box)), { xMm: 0, yMm: 0 }),
+      };
+      gestureKeyRef.current = `${e.pointerId}:${e.timeStamp}`;
+      e.currentTarget.setPointerCapture(e.pointerId);
+    },
+    [itemBoxesMm, positionOf, prepareSnap]
+  );
+
+  // Both return true when the event belonged to a group drag
+  const moveGroupDrag = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      const g = groupDragRef.current;
+      if (!g || g.pointerId !== e.pointerId) return false;
+      const { xMm: dxMm, yMm: dyMm, lines } = snapSlotAnchor(g.snap, pxToMmX(e.clientX - g.startX), pxToMmY(e.clientY - g.startY), e.altKey);
+      if (![dxMm, dyMm].every((n) => Number.isFinite(n))) return true;
+      setActiveSnapLines(lines);
+      const moves = new Map<string, { xMm: number; yMm: number }>();
+      g.starts.forEach((p, id) => moves.set(id, { xMm: p.xMm + dxMm, yMm: p.yMm + dyMm }));
+      applyItemMoves(moves, { label: 'Move selection', mergeKey: `move-selection:${gestureKeyRef.current}` });
+      return true;
+    },
+    [applyItemMoves, pxToMmX, pxToMmY, snapSlotAnchor]
+  );
+
+  const endGroupDrag = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    const g = groupDragRef.current;
+    if (!g || g.pointerId !== e.pointerId) return false;
+    groupDragRef.current = null;
+    setActiveSnapLines([]);
+    return true;
+  }, []);
+
+  // Marquee selection on empty artwork; a press that does not move stays a click
+  const marqueeRef = useRef<{ pointerId: number; startX: number; startY: number; additive: boolean; active: boolean } | null>(null);
+  const suppressClickRef = useRef(false);
+  const [marqueeRectPx, setMarqueeRectPx] = useState<{ left: number; top: number; width: number; height: number } | null>(null);
+
+  const localPointPx = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = svgHostRef.current?.getBoundingClientRect();
+    return rect ? { x: e.clientX - rect.left, y: e.clientY - rect.top } : null;
+  };
+
+  const handleCanvasPointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    const p = localPointPx(e);
+    if (!p) return;
+    marqueeRef.current = { pointerId: e.pointerId, startX: p.x, startY: p.y, additive: e.shiftKey, active: false };
+  }, []);
+
+  const handleCanvasPointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    const m = marqueeRef.current;
+    const p = localPointPx(e);
+    if (!m || m.pointerId !== e.pointerId || !p) return;
+    if (!m.active) {
+      if (Math.hypot(p.x - m.startX, p.y - m.startY) < 4) return;
+      m.active = true;
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+    setMarqueeRectPx({ left: Math.min(m.startX, p.x), top: Math.min(m.startY, p.y), width: Math.abs(p.x - m.startX), height: Math.abs(p.y - m.startY) });
+  }, []);
+
+  const handleCanvasPointerUp = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      const m = marqueeRef.current;
+      if (!m || m.pointerId !== e.pointerId) return;
+      marqueeRef.current = null;
+      const p = localPointPx(e);
+      if (!m.active || !p) return;
+      suppressClickRef.current = true;
+      setMarqueeRectPx(null);
+
+      const rectMm = {
+        xMm: pxToMmX(Math.min(m.startX, p.x)),
+        yMm: pxToMmY(Math.min(m.startY, p.y)),
+        widthMm: pxToMmX(Math.abs(p.x - m.startX)),
+        heightMm: pxToMmY(Math.abs(p.y - m.startY)),
+      };
+      const hits = expandToGroups(marqueeSelect(rectMm, itemBoxesMm(editableItemIds)), liveGroups).filter((id) => editableItemIds.includes(id));
+      const next = m.additive ? [...selectedIds, ...hits.filter((id) => !selectedIds.includes(id))] : hits;
+      setSelectedIds(next);
+      const firstSlot = next.find((id) => !isOverlayId(id));
+      if (firstSlot) setSelectedSlotId(firstSlot);
+    },
+    [editableItemIds, itemBoxesMm, liveGroups, pxToMmX, pxToMmY, selectedIds]
+  );
+
   const handleSvgClick = useCallback(
     (e: React.MouseEvent<HTMLDivElement>) => {
+      if (suppressClickRef.current) {
+        suppressClickRef.current = false;
+        return;
+      }
       if (!selectedSlotId) return;
+      // A click beside a multi-selection narrows it back to the current slot instead of moving that slot out of it
+      const primaryIds = expandToGroups([selectedSlotId], liveGroups);
+      if (selectedIds.some((id) => !primaryIds.includes(id))) {
+        setSelectedIds(primaryIds);
+        return;
+      }
       const host = svgHostRef.current;
       if (!host) return;
       const rect = host.getBoundingClientRect();
       const localX = e.clientX - rect.left;
       const localY = e.clientY - rect.top;
-      const xMm = pxToMmX(localX);
-      const yMm = pxToMmY(localY);
+
+      // A grouped slot brings its group along
+      const anchor = positionOf(selectedSlotId);
+      if (primaryIds.length > 1 && anchor) {
+        const ctx = prepareSnap(primaryIds, unionBox(itemBoxesMm(primaryIds).map((i) => i.box)), anchor);
+        const { xMm, yMm } = snapSlotAnchor(ctx, pxToMmX(localX), pxToMmY(localY), e.altKey);
+        if (![xMm, yMm].every((n) => Number.isFinite(n))) return;
+        const moves = new Map<string, { xMm: number; yMm: number }>();
+        primaryIds.forEach((id) => {
+          const p = positionOf(id);
+          if (p) moves.set(id, { xMm: p.xMm + xMm - anchor.xMm, yMm: p.yMm + yMm - anchor.yMm });
+        });
+        applyItemMoves(moves, { label: 'Place group' });
+        return;
+      }
+
+      const snapped = snapSlotAnchor(prepareSlotSnap(selectedSlotId), pxToMmX(localX), pxToMmY(localY), e.altKey);
+      const { xMm, yMm } = snapped;
       if (![xMm, yMm].every((n) => Number.isFinite(n))) return;
-      setSeriesSlots((prev) => prev.map((s) => (s.id === selectedSlotId ? { ...s, x_mm: xMm, y_mm: yMm } : s)));
+      setSeriesSlots((prev) => prev.map((s) => (s.id === selectedSlotId ? { ...s, x_mm: xMm, y_mm: yMm } : s)), { label: 'Place slot' });
     },
-    [pxToMmX, pxToMmY, selectedSlotId]
+    [
+      applyItemMoves,
+      itemBoxesMm,
+      liveGroups,
+      positionOf,
+      prepareSlotSnap,
+      prepareSnap,
+      pxToMmX,
+      pxToMmY,
+      selectedIds,
+      selectedSlotId,
+      setSeriesSlots,
+      snapSlotAnchor,
+    ]
   );
 
-  const handleGenerateOutput = useCallback(async () => {
-    if (isGenerating) {
-      toast.error('Output generation already in progress');
-      return;
-    }
+  const selectionUnits = useMemo(() => arrangeUnits(itemBoxesMm(selectedIds), liveGroups), [itemBoxesMm, liveGroups, selectedIds]);
 
-    if (!documentId) {
-      console.warn('[TicketEditor] Missing documentId in URL query params');
-      toast.error('Missing documentId in URL');
-      return;
+  const applyArrangement = useCallback(
+    (deltas: Map<string, MoveDelta>, label: string) => {
+      const moves = new Map<string, { xMm: number; yMm: number }>();
+      deltas.forEach((d, id) => {
+        const p = positionOf(id);
+        if (p) moves.set(id, { xMm: p.xMm + d.dxMm, yMm: p.yMm + d.dyMm });
+      });
+      applyItemMoves(moves, { label });
+    },
+    [applyItemMoves, positionOf]
+  );
+
+  // A single item or group aligns to the crop box, several to their combined bounds
+  const handleAlign = useCallback(
+    (mode: AlignMode) => {
+      const bounds = selectionUnits.length === 1 && objectRectMm ? { xMm: 0, yMm: 0, widthMm: objectRectMm.widthMm, heightMm: objectRectMm.heightMm } : null;
+      applyArrangement(alignUnits(selectionUnits, mode, bounds), `Align ${mode}`);
+    },
+    [applyArrangement, objectRectMm, selectionUnits]
+  );
+
+  const handleDistribute = useCallback(
+    (axis: 'x' | 'y') => applyArrangement(distributeUnits(selectionUnits, axis), axis === 'x' ? 'Distribute horizontally' : 'Distribute vertically'),
+    [applyArrangement, selectionUnits]
+  );
+
+  const handleGroupSelection = useCallback(() => {
+    const groupId = `${Date.now()}:${Math.random().toString(16).slice(2)}`;
+    setSnapshot((prev) => ({ ...prev, groups: groupItems(liveGroups, selectedIds, groupId) }), { label: 'Group' });
+  }, [liveGroups, selectedIds, setSnapshot]);
+
+  const handleUngroupSelection = useCallback(() => {
+    setSnapshot((prev) => ({ ...prev, groups: ungroupItems(liveGroups, selectedIds) }), { label: 'Ungroup' });
+  }, [liveGroups, selectedIds, setSnapshot]);
+
+  // Layer panel rows for the side being edited, bottom to top
+  const layerItems = useMemo((): LayerItem[] => {
+    const byId = new Map<string, LayerItem>();
+    seriesSlots
+      .filter((slot) => (slot.side ?? 'front') === activeSide)
+      .forEach((slot) => {
+        byId.set(slot.id, { id: slot.id, kind: slot.kind === 'barcode' ? 'barcode' : 'text', label: slotLabel(slot, startingSeries) });
+      });
+    if (activeSide === 'front') {
+      overlays.forEach((o, i) => byId.set(o.id, { id: o.id, kind: 'image', label: `Image ${i + 1}` }));
+      svgOverlays.forEach((o, i) => byId.set(o.id, { id: o.id, kind: 'svg', label: `SVG ${i + 1}` }));
     }
+    return liveLayers.order.flatMap((id) => byId.get(id) ?? []);
+  }, [activeSide, liveLayers.order, overlays, seriesSlots, startingSeries, svgOverlays]);
+
+  // Shows the side an issue's slot is on and selects it
+  const handleSelectPreflightTarget = useCallback(
+    (id: string) => {
+      const slot = seriesSlots.find((s) => s.id === id);
+      const side = slot ? slot.side ?? 'front' : 'front';
+      if (side !== activeSide) setActiveSide(side);
+      setSelectedIds(expandToGroups([id], liveGroups));
+      if (slot) setSelectedSlotId(id);
+    },
+    [activeSide, liveGroups, seriesSlots]
+  );
 
-    setIsGenerating(true);
-    setLastPreviewId(null);
+  const handleToggleLayerHidden = useCallback(
+    (id: string) => {
+      const hiding = !liveLayers.hidden.includes(id);
+      setLayers({ ...liveLayers, hidden: toggleLayerFlag(liveLayers.hidden, id) }, { label: hiding ? 'Hide layer' : 'Show layer' });
+    },
+    [liveLayers, setLayers]
+  );
 
-    try {
-      const totalTickets = totalPages * 4;
+  const handleToggleLayerLocked = useCallback(
+    (id: string) => {
+      const locking = !liveLayers.locked.includes(id);
+      setLayers({ ...liveLayers, locked: toggleLayerFlag(liveLayers.locked, id) }, { label: locking ? 'Lock layer' : 'Unlock layer' });
+    },
+    [liveLayers, setLayers]
+  );
 
-      const primaryBaseSeries = startingSeries;
+  const handleMoveLayer = useCallback(
+    (id: string, targetId: string) => {
+      setLayers({ ...liveLayers, order: moveLayer(liveLayers.order, id, liveLayers.order.indexOf(targetId)) }, { label: 'Reorder layers' });
+    },
+    [liveLayers, setLayers]
+  );
 
-      const pages: TicketOutputPage[] = Array.from({ length: Math.max(1, totalPages) }, (_, idx) => ({
-        pageNumber: idx + 1,
-        layoutMode: 'vector',
-        ticketImageData: '',
-        seriesSlots: [],
-        tickets: [],
-      }));
+  const selectionIsOneGroup = liveGroups.some((g) => g.memberIds.length === selectedIds.length && g.memberIds.every((id) => selectedIds.includes(id)));
+  const selectionHasGroup = liveGroups.some((g) => g.memberIds.some((id) => selectedIds.includes(id)));
 
-      if (pages.length === 0) {
-        // eslint-disable-next-line no-console
-        console.error('[handleGenerateOutput] Output pages array is empty');
-        throw new Error('Output pages array is empty');
-      }
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
 
-      setOutputPages(pages);
+  const keyboardTargets = useCallback(
+    () => (selectedIds.length ? selectedIds : selectedSlotId ? [selectedSlotId] : []).filter((id) => !liveLayers.locked.includes(id)),
+    [liveLayers.locked, selectedIds, selectedSlotId]
+  );
 
-      const endSeries = incrementSeries(primaryBaseSeries, totalTickets - 1);
-      if (!token) throw new Error('Not authenticated');
-      if (!documentId) throw new Error('Missing documentId in URL');
+  const handleNudge = useCallback(
+    (dxMm: number, dyMm: number) => {
+      const ids = keyboardTargets();
+      const moves = new Map<string, { xMm: number; yMm: number }>();
+      ids.forEach((id) => {
+        const p = positionOf(id);
+        if (p) moves.set(id, { xMm: roundMm(p.xMm + dxMm), yMm: roundMm(p.yMm + dyMm) });
+      });
+      applyItemMoves(moves, { label: 'Nudge', mergeKey: `nudge:${ids.join(',')}` });
+    },
+    [applyItemMoves, keyboardTargets, positionOf]
+  );
+
+  const handleDeleteSelection = useCallback(() => {
+    const ids = keyboardTargets();
+    if (!ids.length) return;
+    setSnapshot(
+      (prev) => ({
+        ...prev,
+        seriesSlots: prev.seriesSlots.filter((s) => !ids.includes(s.id)),
+        overlays: prev.overlays.filter((o) => !ids.includes(o.id)),
+        svgOverlays: prev.svgOverlays.filter((o) => !ids.includes(o.id)),
+      }),
+      { label: ids.length > 1 ? `Delete ${ids.length} items` : 'Delete selection' }
+    );
+    setSelectedIds([]);
+    if (selectedSlotId && ids.includes(selectedSlotId)) setSelectedSlotId(null);
+  }, [keyboardTargets, selectedSlotId, setSnapshot]);
+
+  // Copy of the current slot just below-right of it, numbered from the next free series value
+  const handleDuplicateSlot = useCallback(() => {
+    const slot = selectedSlotId ? seriesSlots.find((s) => s.id === selectedSlotId) : null;
+    if (!slot) return;
+    let nextStart: string;
+    try {
+      nextStart = duplicateStartingSeries(
+        String(slot.startingSeries || startingSeries),
+        seriesSlots.map((s) => String(s.startingSeries || startingSeries)),
+        seriesFormatOf(slot)
+      );
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Unable to number the duplicate');
+      return;
+    }
+    const lastStyle = slot.letterStyles?.[slot.letterStyles.length - 1] ?? { fontSize: slot.defaultFontSize, offsetY: 0 };
+    const copy: SeriesSlotData = {
+      ...slot,
+      id: Date.now().toString(),
+      startingSeries: nextStart,
+      value: nextStart,
+      letterStyles: nextStart.split('').map((_, idx) => slot.letterStyles?.[idx] ?? { ...lastStyle }),
+      ...(typeof slot.x_mm === 'number' && typeof slot.y_mm === 'number' ? { x_mm: slot.x_mm + 2, y_mm: slot.y_mm + 2 } : {}),
+    };
+    setSeriesSlots(
+      (prev) => {
+        const idx = prev.findIndex((s) => s.id === slot.id);
+        return [...prev.slice(0, idx + 1), copy, ...prev.slice(idx + 1)];
+      },
+      { label: 'Duplicate slot' }
+    );
+    setSelectedSlotId(copy.id);
+    setSelectedIds([copy.id]);
+  }, [selectedSlotId, seriesSlots, setSeriesSlots, startingSeries]);
+
+  const handleCycleSelection = useCallback(
+    (backwards: boolean) => {
+      const current = selectedIds[selectedIds.length - 1] ?? selectedSlotId;
+      const id = cycleSelection(editableItemIds, current, selectedIds, backwards);
+      if (!id) return;
+      setSelectedIds(expandToGroups([id], liveGroups));
+      if (!isOverlayId(id)) setSelectedSlotId(id);
+    },
+    [editableItemIds, liveGroups, selectedIds, selectedSlotId]
+  );
+
+  const runShortcut = useCallback(
+    (id: EditorShortcutId) => {
+      if (id === 'duplicate') handleDuplicateSlot();
+      else if (id === 'delete') handleDeleteSelection();
+      else if (id === 'next-item' || id === 'previous-item') handleCycleSelection(id === 'previous-item');
+      else if (id === 'undo') undoHistory();
+      else if (id === 'redo') redoHistory();
+      else if (id === 'zoom-in' || id === 'zoom-out') handleZoomStep(id === 'zoom-in' ? 1 : -1);
+      else if (id === 'fit-object') setFitMode('object');
+      else if (id === 'actual-size') setFitMode('actual');
+    },
+    [handleCycleSelection, handleDeleteSelection, handleDuplicateSlot, handleZoomStep, redoHistory, undoHistory]
+  );
 
-      if (generateDisabledReason) {
-        throw new Error(generateDisabledReason);
-      }
-      if (fileType !== 'svg') {
-        throw new Error('Vector pipeline requires SVG document');
-      }
-      if (!objectRectMm) {
-        throw new Error('Missing object size (mm)');
+  // Arrows nudge, Delete removes, Ctrl/Cmd+D duplicates, Ctrl/Cmd +/-/0/1 zoom, Tab cycles,
+  // ? opens the cheat sheet.
+  // Only while focus is on the page or the canvas, so panel controls keep their keys.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey || isTextEntryTarget(e.target)) return;
+      const target = e.target as Node | null;
+      if (target && target !== document.body && !containerRef.current?.contains(target)) return;
+      const mod = e.ctrlKey || e.metaKey;
+
+      const nudge = mod ? null : nudgeDelta(e.key, e.shiftKey);
+      if (nudge) {
+        e.preventDefault();
+        handleNudge(nudge.dxMm, nudge.dyMm);
+      } else if (mod && e.key.toLowerCase() === 'd') {
+        e.preventDefault();
+        handleDuplicateSlot();
+      } else if (mod && (e.key === '=' || e.key === '+' || e.key === '-')) {
+        e.preventDefault();
+        handleZoomStep(e.key === '-' ? -1 : 1);
+      } else if (mod && (e.key === '0' || e.key === '1')) {
+        e.preventDefault();
+        setFitMode(e.key === '0' ? 'object' : 'actual');
+      } else if (mod) {
+        return;
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        handleDeleteSelection();
+      } else if (e.key === 'Tab') {
+        e.preventDefault();
+        handleCycleSelection(e.shiftKey);
+      } else if (e.key === '?') {
+        e.preventDefault();
+        setShortcutsOpen(true);
       }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [handleCycleSelection, handleDeleteSelection, handleDuplicateSlot, handleNudge, handleZoomStep]);
+
+  const proofArtwork = useMemo<ProofArtwork>(
+    () => ({
+      front: svgMarkup,
+      back: backArtwork?.svgMarkup ?? null,
+      svgOverlays: Object.fromEntries(svgOverlays.map((o) => [o.svgS3Key, { markup: o.svgMarkup, widthMm: o.intrinsicMmW, heightMm: o.intrinsicMmH }])),
+    }),
+    [backArtwork?.svgMarkup, svgMarkup, svgOverlays]
+  );
 
-      const jobId = typeof crypto !== 'undefined' && 'randomUUID' in crypto ? (crypto as any).randomUUID() : `${Date.now()}-${Math.random()}`;
-      const pxToMm = (px: number) => px * 0.264583;
+  // Render payload for the current layout, shared by generation and the local proof
+  const buildRenderPayload = useCallback(
+    async (jobId: string): Promise<FinalRenderPayload> => {
+      if (!documentId) throw new Error('Missing documentId in URL');
+      if (!objectRectMm) throw new Error('Missing object size (mm)');
+      const pxToMm = (px: number) => px * FONT_PX_TO_MM;
 
       if (!seriesSlots.length) {
         throw new Error('Add at least one series slot');
       }
 
-      const seriesList = seriesSlots.map((slot) => {
+      const seriesList = seriesSlots.filter((slot) => slot.kind !== 'barcode').map((slot) => {
         const slotX = slot.x_mm;
         const slotY = slot.y_mm;
         if (!(typeof slotX === 'number' && Number.isFinite(slotX) && typeof slotY === 'number' && Number.isFinite(slotY))) {
@@ -705,27 +1965,125 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
           return hasCustomization ? sizes : undefined;
         })();
 
+        const common = {
+          count: totalTickets,
+          fontFamily: String((slot as any)?.fontFamily || 'Helvetica'),
+          fontSizeMm,
+          perLetterFontSizeMm,
+          xMm: slotX,
+          yMm: slotY,
+          letterSpacingMm,
+          rotationDeg: Number(slot.rotation ?? 0),
+          color: String(slot.color || '#000000'),
+          ink: slot.ink,
+          checkDigit: checkDigitConfigOf(slot),
+          side: slot.side ?? 'front',
+          zIndex: layerZ.get(slot.id),
+        };
+
+        if (slot.dataColumn && variableData) {
+          return { ...common, start: columnValues(variableData, slot.dataColumn, 1)[0] ?? '', dataColumn: slot.dataColumn };
+        }
+
         const start = String(slot.startingSeries || slot.value || startingSeries || '').trimEnd();
         if (!start) throw new Error('Series start is required for each slot');
 
-        const step = Number.isFinite(Number((slot as any).seriesIncrement)) ? Number((slot as any).seriesIncrement) : 1;
+        const format = seriesFormatOf(slot);
+        const step = format.step ?? 1;
 
         return {
+          ...common,
           start,
+          ...(step !== 1 ? { step } : {}),
+          ...(slot.seriesAlphabet ? { alphabet: slot.seriesAlphabet } : {}),
+          rollover: format.rollover,
+        };
+      });
+
+      const barcodeList = seriesSlots.filter((slot) => slot.kind === 'barcode').map((slot) => {
+        const slotX = slot.x_mm;
+        const slotY = slot.y_mm;
+        if (!(typeof slotX === 'number' && Number.isFinite(slotX) && typeof slotY === 'number' && Number.isFinite(slotY))) {
+          throw new Error('Place all barcode slots by clicking/dragging on the SVG first (missing x_mm/y_mm)');
+        }
+
+        const config = resolveBarcodeConfig(slot.barcode);
+        const source = slot.dataColumn && variableData
+          ? { start: columnValues(variableData, slot.dataColumn, 1)[0] ?? '', dataColumn: slot.dataColumn }
+          : (() => {
+              const start = String(slot.startingSeries || slot.value || startingSeries || '').trimEnd();
+              if (!start) throw new Error('Series start is required for each slot');
+              const format = seriesFormatOf(slot);
+              return {
+                start,
+                ...((format.step ?? 1) !== 1 ? { step: format.step } : {}),
+                ...(slot.seriesAlphabet ? { alphabet: slot.seriesAlphabet } : {}),
+                rollover: format.rollover,
+              };
+            })();
+        return {
+          symbology: config.symbology,
+          ...source,
           count: totalTickets,
-          fontFamily: String((slot as any)?.fontFamily || 'Helvetica'),
-          fontSizeMm,
-          perLetterFontSizeMm,
+          checkDigit: checkDigitConfigOf(slot),
           xMm: slotX,
           yMm: slotY,
-          letterSpacingMm,
+          moduleSizeMm: config.moduleSizeMm,
+          heightMm: config.heightMm,
+          quietZoneModules: config.quietZoneModules,
           rotationDeg: Number(slot.rotation ?? 0),
+          showText: config.showText,
           color: String(slot.color || '#000000'),
-          ...(step !== 1 ? { step } : {}),
+          ink: slot.ink,
+          side: slot.side ?? 'front',
+          zIndex: layerZ.get(slot.id),
         };
       });
 
-      const payload = buildFinalRenderPayload({
+      // One record per ticket with only the columns some slot prints
+      const boundColumns = Array.from(new Set(seriesSlots.map((slot) => String(slot.dataColumn || '')).filter(Boolean)));
+      const records = boundColumns.length && variableData
+        ? (() => {
+            const valuesByColumn = boundColumns.map((column) => columnValues(variableData, column, totalTickets));
+            return Array.from({ length: totalTickets }, (_, idx) =>
+              Object.fromEntries(boundColumns.map((column, c) => [column, valuesByColumn[c][idx] ?? '']))
+            );
+          })()
+        : undefined;
+      const slugLine = slugLineText({
+        jobId,
+        seriesStart: withCheckDigit(startingSeries, primaryCheckDigit),
+        seriesEnd: withCheckDigit(calculateEndingSeries(startingSeries, totalTickets, seriesSlots[0] ? seriesFormatOf(seriesSlots[0]) : {}), primaryCheckDigit),
+      });
+
+      // Fonts are subset to the glyphs the run prints; a font that cannot be
+      // subset goes as before (library reference or full inline file)
+      const glyphsByFont = new Map<string, string>();
+      slotGlyphSamples.forEach(({ font, sample }) => glyphsByFont.set(font, `${glyphsByFont.get(font) ?? ''}${sample}`));
+      const payloadFonts = await Promise.all([
+        ...fontLibrary
+          .filter((f) => f.source === 'library' && glyphsByFont.has(fontDisplayName(f)))
+          .map(async (f) => {
+            const family = fontDisplayName(f);
+            const bytes = fontBytesRef.current.get(family);
+            const subset = bytes ? await buildFontSubset(bytes, glyphsByFont.get(family) ?? '') : null;
+            return { family, fontId: f.id, ...(subset ?? {}) };
+          }),
+        ...customFonts
+          .filter((f) => glyphsByFont.has(f.family))
+          .map(async (f) => {
+            let bytes: ArrayBuffer | null;
+            try {
+              bytes = dataUrlToBytes(f.dataUrl);
+            } catch {
+              bytes = null;
+            }
+            const subset = bytes ? await buildFontSubset(bytes, glyphsByFont.get(f.family) ?? '') : null;
+            return subset ? { family: f.family, ...subset } : f;
+          }),
+      ]);
+
+      return buildFinalRenderPayload({
         jobId,
         documentId,
         objectWidthMm: objectRectMm.widthMm,
@@ -736,38 +2094,46 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
         objectRotationDeg: ticketCropMm?.rotationDeg,
         objectKeepProportions: ticketCropMm?.keepProportions,
         objectCutMarginMm: ticketCropMm?.cutMarginMm,
-        renderMode: objectsPerPage === 3 ? 'exact_mm_3up' : 'exact_mm',
+        renderMode: impositionRenderMode(imposition),
+        imposition,
+        printerMarks,
+        slugLine,
+        duplex,
+        backSvgS3Key: backArtwork?.svgS3Key,
         seriesList,
-        customFonts,
-        overlays: overlay
-          ? [
-              {
-                dataUrl: overlay.dataUrl,
-                mime: overlay.mime,
-                xMm: overlay.xMm,
-                yMm: overlay.yMm,
-                wMm: overlay.wMm,
-                hMm: overlay.hMm,
-                rotationDeg: overlay.rotationDeg,
-              },
-            ]
-          : [],
-        svgOverlays: svgOverlay
-          ? [
-              {
-                type: 'svg' as const,
-                xMm: svgOverlay.xMm,
-                yMm: svgOverlay.yMm,
-                scale: svgOverlay.scale,
-                rotationDeg: svgOverlay.rotationDeg,
-                svgS3Key: svgOverlay.svgS3Key,
-              },
-            ]
-          : [],
+        barcodeList,
+        records,
+        customFonts: payloadFonts,
+        overlays: overlays.map((overlay) => ({
+          dataUrl: overlay.dataUrl,
+          mime: overlay.mime,
+          xMm: overlay.xMm,
+          yMm: overlay.yMm,
+          wMm: overlay.wMm,
+          hMm: overlay.hMm,
+          rotationDeg: overlay.rotationDeg,
+          zIndex: layerZ.get(overlay.id),
+        })),
+        svgOverlays: svgOverlays.map((svgOverlay) => ({
+          type: 'svg' as const,
+          xMm: svgOverlay.xMm,
+          yMm: svgOverlay.yMm,
+          scale: svgOverlay.scale,
+          rotationDeg: svgOverlay.rotationDeg,
+          svgS3Key: svgOverlay.svgS3Key,
+          ink: svgOverlay.ink,
+          zIndex: layerZ.get(svgOverlay.id),
+        })),
+        colorOutput,
+        seriesScope,
+        preflight,
       });
+    },
+    [backArtwork?.svgS3Key, colorOutput, customFonts, documentId, duplex, fontLibrary, imposition, layerZ, objectRectMm, overlays, preflight, primaryCheckDigit, printerMarks, seriesScope, seriesSlots, slotGlyphSamples, startingSeries, svgOverlays, ticketCropMm, totalTickets, variableData]
+  );
 
-      console.log('[FINAL_ENGINE_PAYLOAD]', payload);
-
+  const postRenderJob = useCallback(
+    async (payload: FinalRenderPayload) => {
       const res = await api.post('/api/vector/generate', payload, {
         headers: {
           Authorization: `Bearer ${token}`,
@@ -781,6 +2147,229 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
       const engine_metrics: any = (data as any)?.engine_metrics;
       if (!generatedJobId) throw new Error('Missing jobId from /api/vector/generate');
       if (!pdf_s3_key) throw new Error('Missing pdf_s3_key from /api/vector/generate');
+      return { generatedJobId, pdf_s3_key, engine_metrics };
+    },
+    [token]
+  );
+
+  // Reserves the job's counter ranges in the series register; an overlap with
+  // an earlier job for the same client and event stops generation
+  const reserveSeriesRanges = useCallback(
+    async (payload: FinalRenderPayload) => {
+      const ranges = payloadSeriesRanges(payload);
+      if (!ranges.length || !payload.series_register) return;
+      try {
+        await api.post(
+          '/api/series-register/reservations',
+          { ...payload.series_register, job_id: payload.job_id, ranges },
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+      } catch (e) {
+        throw new Error(seriesReservationError(e));
+      }
+    },
+    [token]
+  );
+
+  // Frees the ranges of a job that was never rendered
+  const releaseSeriesRanges = useCallback(
+    async (jobId: string) => {
+      try {
+        await api.delete(`/api/series-register/reservations/${encodeURIComponent(jobId)}`, { headers: { Authorization: `Bearer ${token}` } });
+      } catch (e) {
+        console.error('[releaseSeriesRanges] Failed to release series reservation', e);
+      }
+    },
+    [token]
+  );
+
+  // Renders the unfinished batches of a run (each failed batch is retried on
+  // its own), then merges the parts into one PDF or ZIP with a manifest
+  const completeBatchRun = useCallback(
+    async (initial: BatchRun) => {
+      let run = initial;
+      const settle = (next: BatchRun) => {
+        run = next;
+        setBatchRun(next);
+      };
+      const concurrency = run.submit === 'parallel' ? PARALLEL_BATCHES : 1;
+      for (let attempt = 0; attempt < BATCH_ATTEMPTS && unfinishedBatches(run).length > 0; attempt++) {
+        await runBatchQueue(
+          unfinishedBatches(run),
+          concurrency,
+          async (index) => {
+            settle(updateBatchPart(run, index, { status: 'running', error: null }));
+            const { pdf_s3_key } = await postRenderJob(batchPayload(run.payload, run.parts[index].batch, run.parts.length));
+            return pdf_s3_key;
+          },
+          (index, outcome) => settle(settleBatchPart(run, index, outcome))
+        );
+      }
+      const failed = unfinishedBatches(run).length;
+      if (failed > 0) {
+        throw new Error(`${failed} of ${run.parts.length} batches failed; retry them from the Batches panel`);
+      }
+
+      const res = await api.post(
+        '/api/vector/batches/merge',
+        { job_id: run.jobId, output: run.output, manifest: batchRunManifest(run) },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      const data = (res.data || {}) as { pdf_s3_key?: string; zip_s3_key?: string };
+      const resultS3Key = String((run.output === 'zip' ? data.zip_s3_key : data.pdf_s3_key) ?? '').trim();
+      if (!resultS3Key) throw new Error('Missing output key from /api/vector/batches/merge');
+      settle({ ...run, resultS3Key });
+
+      const saved = batchPreviewRef.current;
+      if (run.output === 'merge' && saved) {
+        const previewId = `${Date.now()}:${Math.random().toString(16).slice(2)}`;
+        try {
+          sessionStorage.setItem(`sph:outputPreview:${previewId}`, JSON.stringify({ jobId: run.jobId, pdf_s3_key: resultS3Key, ...saved.preview }));
+          setLastPreviewId(previewId);
+        } catch (e) {
+          // Very large runs can exceed the storage quota; the PDF is still on the jobs page
+          console.error('[completeBatchRun] Failed to write preview sessionStorage', e);
+          toast.warning('The run is too large for the output preview; open it from the jobs page');
+        }
+        setLastRender({ payload: run.payload, pdfS3Key: resultS3Key, artwork: saved.artwork });
+      }
+      toast.success(run.output === 'zip' ? 'ZIP of part files generated' : 'Output generated', {
+        action: { label: 'View job', onClick: () => navigate(`/jobs/${run.jobId}`) },
+      });
+      if (saved) toast.success(saved.message);
+    },
+    [navigate, postRenderJob, token]
+  );
+
+  const handleGenerateOutput = useCallback(async () => {
+    if (isGenerating) {
+      toast.error('Output generation already in progress');
+      return;
+    }
+
+    if (!documentId) {
+      console.warn('[TicketEditor] Missing documentId in URL query params');
+      toast.error('Missing documentId in URL');
+      return;
+    }
+
+    setIsGenerating(true);
+    setLastPreviewId(null);
+    setBatchRun(null);
+
+    try {
+      const primaryBaseSeries = startingSeries;
+
+      const pages: TicketOutputPage[] = duplexPageOrder(Math.max(1, totalPages), duplex.enabled).map(({ side }, idx) => ({
+        pageNumber: idx + 1,
+        ...(duplex.enabled ? { side } : {}),
+        layoutMode: 'vector',
+        ticketImageData: '',
+        seriesSlots: [],
+        tickets: [],
+      }));
+
+      if (pages.length === 0) {
+        // eslint-disable-next-line no-console
+        console.error('[handleGenerateOutput] Output pages array is empty');
+        throw new Error('Output pages array is empty');
+      }
+
+      setOutputPages(pages);
+
+      const endSeries = calculateEndingSeries(primaryBaseSeries, totalTickets, seriesSlots[0] ? seriesFormatOf(seriesSlots[0]) : {});
+      if (!token) throw new Error('Not authenticated');
+      if (!documentId) throw new Error('Missing documentId in URL');
+
+      if (generateDisabledReason) {
+        throw new Error(generateDisabledReason);
+      }
+      if (fileType !== 'svg') {
+        throw new Error('Vector pipeline requires SVG document');
+      }
+      glyphWarnings.forEach((w) => {
+        toast.warning(`Font "${w.font}" has no glyph for ${w.chars.map((c) => `"${c}"`).join(', ')}; those characters will print in a fallback font`);
+      });
+      if (!objectRectMm) {
+        throw new Error('Missing object size (mm)');
+      }
+
+      const jobId = typeof crypto !== 'undefined' && 'randomUUID' in crypto ? (crypto as any).randomUUID() : `${Date.now()}-${Math.random()}`;
+      const payload = await buildRenderPayload(jobId);
+
+      // Per-cell values for the output preview, placed by the numbering order
+      const valuesBySlot: Record<string, string[]> = Object.fromEntries(
+        seriesSlots.map((slot) => [
+          slot.id,
+          slot.dataColumn && variableData
+            ? columnValues(variableData, slot.dataColumn, totalTickets)
+            : generateSeries(String(slot.startingSeries || slot.value || startingSeries || '').trimEnd(), totalTickets, seriesFormatOf(slot)).map((v) =>
+                withCheckDigit(v, checkDigitConfigOf(slot))
+              ),
+        ])
+      );
+      const sheetOrder = duplexPageOrder(Math.max(1, totalPages), duplex.enabled);
+      const batchPlan = batches.enabled ? planBatches(Math.max(1, totalPages), imposition.rows * imposition.columns, batches.pagesPerBatch) : null;
+      const ticketIndices = batchPlan
+        ? batchedTicketIndices(imposition.numberingOrder, { rows: imposition.rows, columns: imposition.columns }, batchPlan)
+        : sheetTicketIndices(imposition.numberingOrder, {
+            rows: imposition.rows,
+            columns: imposition.columns,
+            sheetCount: Math.max(1, totalPages),
+          });
+      const filledPages: TicketOutputPage[] = pages.map((page, pageIdx) => {
+        const { sheetIndex, side } = sheetOrder[pageIdx];
+        const sideSlots = seriesSlots.filter((slot) => (slot.side ?? 'front') === side);
+        // Back cells hold the ticket whose front is on the other side of the paper
+        const cellTickets =
+          side === 'back' && impositionLayout
+            ? ticketIndices[sheetIndex].map((_, cellIdx) => ticketIndices[sheetIndex][backCellIndex(impositionLayout, duplex.flip, cellIdx)])
+            : ticketIndices[sheetIndex];
+        // Tickets share their slot's letter styles, so only the values are stored per ticket
+        return {
+          ...page,
+          seriesSlots: sideSlots,
+          tickets: cellTickets.map((ticketIdx) => ({
+            seriesBySlot: Object.fromEntries(sideSlots.map((slot) => [slot.id, { seriesValue: valuesBySlot[slot.id][ticketIdx] ?? '' }])),
+          })),
+        };
+      });
+      setOutputPages(filledPages);
+
+      console.log('[FINAL_ENGINE_PAYLOAD]', payload);
+
+      const preview = {
+        pageCount: pages.length,
+        pages: filledPages,
+        imposition: impositionLayout,
+        printerMarks,
+        slugLine: payload.marks?.slug_line,
+        duplex,
+        objectMm: { widthMm: objectRectMm.widthMm, heightMm: objectRectMm.heightMm, alignment: ticketCropMm?.alignment ?? null },
+        documentId,
+        fileType,
+      };
+      const rangeMessage = `Generated ${pages.length} pages, ${totalTickets} tickets (${withCheckDigit(primaryBaseSeries, primaryCheckDigit)} → ${withCheckDigit(endSeries, primaryCheckDigit)})`;
+
+      await reserveSeriesRanges(payload);
+
+      if (batchPlan) {
+        // The run keeps its reservation while failed batches wait for a retry
+        const run = startBatchRun(payload, batchPlan, batches);
+        batchPreviewRef.current = { preview, artwork: proofArtwork, message: rangeMessage };
+        setBatchRun(run);
+        toast.info(`Rendering ${run.parts.length} batches`, { action: { label: 'View job', onClick: () => navigate(`/jobs/${jobId}`) } });
+        await completeBatchRun(run);
+        return;
+      }
+
+      // The service keeps rendering if the editor is left; the jobs page follows it
+      toast.info('Rendering started', { action: { label: 'View job', onClick: () => navigate(`/jobs/${jobId}`) } });
+
+      const { generatedJobId, pdf_s3_key, engine_metrics } = await postRenderJob(payload).catch(async (e) => {
+        await releaseSeriesRanges(jobId);
+        throw e;
+      });
 
       const previewId = `${Date.now()}:${Math.random().toString(16).slice(2)}`;
       try {
@@ -790,21 +2379,19 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
             jobId: generatedJobId,
             pdf_s3_key,
             engine_metrics,
-            pageCount: pages.length,
-            pages,
-            documentId,
-            fileType,
+            ...preview,
           })
         );
+        setLastPreviewId(previewId);
       } catch (e) {
-        // eslint-disable-next-line no-console
+        // Very large runs can exceed the storage quota; the PDF is still on the jobs page
         console.error('[handleGenerateOutput] Failed to write preview sessionStorage', e);
-        throw new Error('Failed to prepare output preview');
+        toast.warning('The run is too large for the output preview; open it from the jobs page');
       }
 
-      setLastPreviewId(previewId);
-      toast.success('Output generated');
-      toast.success(`Generated ${pages.length} pages, ${totalTickets} tickets (${primaryBaseSeries} → ${endSeries})`);
+      setLastRender({ payload, pdfS3Key: pdf_s3_key, artwork: proofArtwork });
+      toast.success('Output generated', { action: { label: 'View job', onClick: () => navigate(`/jobs/${generatedJobId}`) } });
+      toast.success(rangeMessage);
     } catch (err) {
       console.error('Error generating output:', err);
       const eAny = err as any;
@@ -813,7 +2400,20 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
     } finally {
       setIsGenerating(false);
     }
-  }, [documentId, fileType, generateDisabledReason, incrementSeries, isGenerating, objectRectMm, selectedSlot, seriesSlots, startingSeries, totalPages, token]);
+  }, [batches, buildRenderPayload, completeBatchRun, documentId, duplex, fileType, generateDisabledReason, glyphWarnings, imposition, impositionLayout, isGenerating, navigate, printerMarks, objectRectMm, postRenderJob, primaryCheckDigit, releaseSeriesRanges, reserveSeriesRanges, proofArtwork, seriesSlots, startingSeries, ticketCropMm?.alignment, totalPages, totalTickets, token, variableData]);
+
+  const handleRetryFailedBatches = useCallback(async () => {
+    if (!batchRun || isGenerating) return;
+    setIsGenerating(true);
+    try {
+      await completeBatchRun(batchRun);
+    } catch (err) {
+      console.error('Error retrying batches:', err);
+      toast.error(err instanceof Error && err.message ? err.message : 'Retrying batches failed');
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [batchRun, completeBatchRun, isGenerating]);
 
   const [draggingSlotId, setDraggingSlotId] = useState<string | null>(null);
 
@@ -821,41 +2421,84 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
     (e: React.PointerEvent<HTMLDivElement>, slotId: string) => {
       e.preventDefault();
       e.stopPropagation();
+      const selection = selectCanvasItem(slotId, e.shiftKey);
+      if (e.shiftKey) return;
+      if (selection.length > 1) {
+        startGroupDrag(e, selection);
+        return;
+      }
       (e.currentTarget as any).setPointerCapture?.(e.pointerId);
-      setSelectedSlotId(slotId);
+      gestureKeyRef.current = `${e.pointerId}:${e.timeStamp}`;
       setDraggingSlotId(slotId);
+      setSlotDragSnap(prepareSlotSnap(slotId));
     },
-    []
+    [prepareSlotSnap, selectCanvasItem, startGroupDrag]
   );
 
   const handleSlotPointerMove = useCallback(
     (e: React.PointerEvent<HTMLDivElement>) => {
+      if (moveGroupDrag(e)) return;
       if (!draggingSlotId) return;
       const host = svgHostRef.current;
       if (!host) return;
       const rect = host.getBoundingClientRect();
       const localX = e.clientX - rect.left;
       const localY = e.clientY - rect.top;
-      const xMm = pxToMmX(localX);
-      const yMm = pxToMmY(localY);
+      const { xMm, yMm, lines } = snapSlotAnchor(slotDragSnap, pxToMmX(localX), pxToMmY(localY), e.altKey);
       if (![xMm, yMm].every((n) => Number.isFinite(n))) return;
-      setSeriesSlots((prev) => prev.map((s) => (s.id === draggingSlotId ? { ...s, x_mm: xMm, y_mm: yMm } : s)));
+      setActiveSnapLines(lines);
+      setSeriesSlots((prev) => prev.map((s) => (s.id === draggingSlotId ? { ...s, x_mm: xMm, y_mm: yMm } : s)), {
+        label: 'Move slot',
+        mergeKey: `move-slot:${gestureKeyRef.current}`,
+      });
     },
-    [draggingSlotId, pxToMmX, pxToMmY]
+    [draggingSlotId, moveGroupDrag, pxToMmX, pxToMmY, setSeriesSlots, slotDragSnap, snapSlotAnchor]
   );
 
   const handleSlotPointerUp = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (endGroupDrag(e)) return;
     if (!draggingSlotId) return;
     e.preventDefault();
     e.stopPropagation();
     setDraggingSlotId(null);
-  }, [draggingSlotId]);
+    setSlotDragSnap(null);
+    setActiveSnapLines([]);
+  }, [draggingSlotId, endGroupDrag]);
+
+  // Box of the slot being dragged, for the live spacing readout
+  const draggedSlotBox = useMemo(() => {
+    const slot = draggingSlotId ? seriesSlots.find((s) => s.id === draggingSlotId) : null;
+    if (!slot || !slotDragSnap) return null;
+    const xMm = Number(slot.x_mm);
+    const yMm = Number(slot.y_mm);
+    if (![xMm, yMm].every((n) => Number.isFinite(n))) return null;
+    return { xMm: xMm + slotDragSnap.offsetXMm, yMm: yMm + slotDragSnap.offsetYMm, widthMm: slotDragSnap.widthMm, heightMm: slotDragSnap.heightMm };
+  }, [draggingSlotId, seriesSlots, slotDragSnap]);
 
   const handleViewAndPrint = useCallback(() => {
     if (!lastPreviewId) return;
     navigate(`/output-preview/${lastPreviewId}`);
   }, [lastPreviewId, navigate]);
 
+  const handleRenderProof = useCallback(async () => renderProofPdf(await buildRenderPayload('proof'), proofArtwork), [buildRenderPayload, proofArtwork]);
+
+  const handleLoadProofDiff = useMemo(
+    () =>
+      lastRender
+        ? async () => {
+            const [proof, res] = await Promise.all([
+              renderProofPdf(lastRender.payload, lastRender.artwork),
+              api.get(`/api/download/${encodeURIComponent(lastRender.pdfS3Key)}`, {
+                headers: { Authorization: `Bearer ${token}` },
+                responseType: 'arraybuffer',
+              }),
+            ]);
+            return { proof, serverPdf: res.data as ArrayBuffer };
+          }
+        : null,
+    [lastRender, token]
+  );
+
   const handleUploadFont = useCallback((file: File | null) => {
     if (!file) return;
 
@@ -875,63 +2518,72 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
       return;
     }
 
-    const safeMime = String(file.type || '').trim() || 'application/octet-stream';
-
-    const toBase64 = (bytes: ArrayBuffer): string => {
-      const u8 = new Uint8Array(bytes);
-      let s = '';
-      for (let i = 0; i < u8.length; i++) {
-        s += String.fromCharCode(u8[i]);
-      }
-      return btoa(s);
-    };
-
-    const sha256Hex8 = async (bytes: ArrayBuffer): Promise<string> => {
-      if (!('crypto' in window) || !(crypto as any).subtle) {
-        return String(Date.now());
-      }
-      const digest = await (crypto as any).subtle.digest('SHA-256', bytes);
-      const arr = Array.from(new Uint8Array(digest));
-      const hex = arr.map((b) => b.toString(16).padStart(2, '0')).join('');
-      return hex.slice(0, 12);
-    };
-
     void (async () => {
       try {
         const bytes = await file.arrayBuffer();
-        const hash = await sha256Hex8(bytes);
-        const family = `custom_font_${hash}`;
-        const b64 = toBase64(bytes);
-        const dataUrl = `data:${safeMime};base64,${b64}`;
-
-        const fontFace = new (window as any).FontFace(family, `url(${dataUrl})`);
-        const loaded = await fontFace.load();
-        (document as any).fonts.add(loaded);
-
-        setCustomFonts((prev) => {
-          if (prev.some((f) => f.family === family)) return prev;
-          return [...prev, { family, dataUrl, mime: safeMime }];
+        // The family and style come from the font's name table; WOFF2 (and
+        // unreadable files) are left to the server, with the file name as a fallback
+        const info = await readFontInfo(bytes).catch(() => null);
+        const fallbackFamily = file.name.replace(/\.[^.]+$/, '').trim() || 'Custom font';
+
+        const form = new FormData();
+        form.append('file', file);
+        form.append('family', info?.family ?? fallbackFamily);
+        form.append('style', info?.style ?? 'Regular');
+        const res = await api.post('/api/fonts', form, {
+          headers: { Authorization: `Bearer ${token}` },
         });
+        const font = parseFontRecord(res.data);
+        if (!font || font.source !== 'library') throw new Error('Font upload returned no font');
+        const name = fontDisplayName(font);
+
+        document.fonts.add(await new FontFace(name, bytes).load());
+        fontBytesRef.current.set(name, bytes);
+        loadingFontIdsRef.current.add(font.id);
+        setFontLibrary((prev) => [...prev.filter((f) => f.id !== font.id), font]);
+        setFontCoverage((prev) => new Map(prev).set(name, info?.coverage ?? null));
+        if (info && !info.embeddable) setUnembeddableFonts((prev) => (prev.includes(name) ? prev : [...prev, name]));
 
         setSeriesSlots((prev) =>
           prev.map((s) => {
             if (!selectedSlotId) return s;
             if (s.id !== selectedSlotId) return s;
-            return { ...s, fontFamily: family };
-          })
+            return { ...s, fontFamily: name };
+          }),
+          { label: 'Change font' }
         );
 
-        toast.success(`Font "${family}" added`);
+        toast.success(`Font "${name}" added to the library`);
       } catch (error) {
         // eslint-disable-next-line no-console
-        console.error('Error loading font:', error);
-        toast.error('Failed to load font');
+        console.error('Error uploading font:', error);
+        toast.error('Failed to upload font');
       }
     })();
-  }, [selectedSlotId]);
+  }, [selectedSlotId, setSeriesSlots, token]);
 
   const hasValidTicketRegion = useMemo(() => true, []);
 
+  const handleImportVariableData = useCallback((file: File) => {
+    void (async () => {
+      try {
+        const table = await parseVariableDataFile(file);
+        setVariableData(table);
+        toast.success(`Loaded ${table.rows.length} rows from ${table.fileName}`);
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error('Error reading variable data:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to read data file');
+      }
+    })();
+  }, []);
+
+  const handleClearVariableData = useCallback(() => {
+    setVariableData(null);
+    // Unbound slots fall back to their counters
+    setSeriesSlots((prev) => prev.map((s) => (s.dataColumn ? { ...s, dataColumn: null } : s)), { label: 'Unbind data columns' });
+  }, [setSeriesSlots]);
+
   const handleUploadImage = useCallback((file: File | null) => {
     if (!file) return;
 
@@ -1017,17 +2669,24 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
 
           const defaultX = 5;
           const defaultY = 5;
-          setSvgOverlay({
-            type: 'svg',
-            svgS3Key,
-            svgMarkup: svgText,
-            xMm: defaultX,
-            yMm: defaultY,
-            scale: 1,
-            rotationDeg: 0,
-            intrinsicMmW: pxToMm(intrinsic.wPx),
-            intrinsicMmH: pxToMm(intrinsic.hPx),
-          });
+          setSvgOverlays(
+            (prev) => [
+              ...prev,
+              {
+                id: newOverlayId('svg'),
+                type: 'svg',
+                svgS3Key,
+                svgMarkup: svgText,
+                xMm: defaultX,
+                yMm: defaultY,
+                scale: 1,
+                rotationDeg: 0,
+                intrinsicMmW: pxToMm(intrinsic.wPx),
+                intrinsicMmH: pxToMm(intrinsic.hPx),
+              },
+            ],
+            { label: 'Add SVG overlay' }
+          );
           toast.success('SVG overlay added on ticket');
         } catch (error) {
           // eslint-disable-next-line no-console
@@ -1049,13 +2708,17 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
       const defaultW = 20;
       const defaultX = 5;
       const defaultY = 5;
-      setOverlay({ dataUrl: result, mime: safeMime, xMm: defaultX, yMm: defaultY, wMm: defaultW, hMm: defaultW, rotationDeg: 0 });
+      setOverlays(
+        (prev) => [...prev, { id: newOverlayId('image'), dataUrl: result, mime: safeMime, xMm: defaultX, yMm: defaultY, wMm: defaultW, hMm: defaultW, rotationDeg: 0 }],
+        { label: 'Add image' }
+      );
       toast.success('Image added on ticket');
     };
     reader.readAsDataURL(file);
-  }, [MM_TO_PX, token]);
+  }, [MM_TO_PX, setOverlays, setSvgOverlays, token]);
 
   const svgOverlayDragRef = useRef<{
+    id: string;
     pointerId: number;
     startX: number;
     startY: number;
@@ -1064,6 +2727,7 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
   } | null>(null);
 
   const svgOverlayResizeRef = useRef<{
+    id: string;
     pointerId: number;
     startX: number;
     startY: number;
@@ -1072,49 +2736,61 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
   } | null>(null);
 
   const handleSvgOverlayPointerDown = useCallback(
-    (e: React.PointerEvent<HTMLDivElement>) => {
+    (e: React.PointerEvent<HTMLDivElement>, id: string) => {
+      const svgOverlay = svgOverlays.find((o) => o.id === id);
       if (!svgOverlay) return;
       if ((e.target as HTMLElement)?.dataset?.corner) return;
       e.preventDefault();
       e.stopPropagation();
+      const selection = selectCanvasItem(id, e.shiftKey);
+      if (e.shiftKey) return;
+      if (selection.length > 1) {
+        startGroupDrag(e, selection);
+        return;
+      }
       svgOverlayDragRef.current = {
+        id,
         pointerId: e.pointerId,
         startX: e.clientX,
         startY: e.clientY,
         startXMm: svgOverlay.xMm,
         startYMm: svgOverlay.yMm,
       };
+      gestureKeyRef.current = `${e.pointerId}:${e.timeStamp}`;
       try {
         (e.currentTarget as any).setPointerCapture?.(e.pointerId);
       } catch {
       }
     },
-    [svgOverlay]
+    [selectCanvasItem, startGroupDrag, svgOverlays]
   );
 
   const handleSvgOverlayResizePointerDown = useCallback(
-    (e: React.PointerEvent<HTMLDivElement>, corner: 'nw' | 'ne' | 'sw' | 'se') => {
+    (e: React.PointerEvent<HTMLDivElement>, id: string, corner: 'nw' | 'ne' | 'sw' | 'se') => {
+      const svgOverlay = svgOverlays.find((o) => o.id === id);
       if (!svgOverlay) return;
       e.preventDefault();
       e.stopPropagation();
       svgOverlayResizeRef.current = {
+        id,
         pointerId: e.pointerId,
         startX: e.clientX,
         startY: e.clientY,
         start: svgOverlay,
         corner,
       };
+      gestureKeyRef.current = `${e.pointerId}:${e.timeStamp}`;
       try {
         (e.currentTarget as any).setPointerCapture?.(e.pointerId);
       } catch {
       }
     },
-    [svgOverlay]
+    [svgOverlays]
   );
 
   const handleSvgOverlayPointerMove = useCallback(
     (e: React.PointerEvent<HTMLDivElement>) => {
-      if (!svgOverlay) return;
+      if (moveGroupDrag(e)) return;
 
       const d = svgOverlayDragRef.current;
       if (d && d.pointerId === e.pointerId) {
@@ -1123,9 +2799,9 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
         const dxMm = pxToMmX(dxPx);
         const dyMm = pxToMmY(dyPx);
         if (!Number.isFinite(dxMm) || !Number.isFinite(dyMm)) return;
-        setSvgOverlay((prev) => {
-          if (!prev) return prev;
-          return { ...prev, xMm: d.startXMm + dxMm, yMm: d.startYMm + dyMm };
+        setSvgOverlays((prev) => prev.map((o) => (o.id === d.id ? { ...o, xMm: d.startXMm + dxMm, yMm: d.startYMm + dyMm } : o)), {
+          label: 'Move SVG overlay',
+          mergeKey: `move-svg-overlay:${gestureKeyRef.current}`,
         });
         return;
       }
@@ -1154,20 +2830,19 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
         const deltaW = newW - startW;
         const deltaH = newH - startH;
 
-        setSvgOverlay((prev) => {
-          if (!prev) return prev;
-          let xMm = r.start.xMm;
-          let yMm = r.start.yMm;
-          if (r.corner.includes('w')) xMm = r.start.xMm - deltaW;
-          if (r.corner.includes('n')) yMm = r.start.yMm - deltaH;
-          return { ...prev, xMm, yMm, scale: nextScale };
+        const xMm = r.corner.includes('w') ? r.start.xMm - deltaW : r.start.xMm;
+        const yMm = r.corner.includes('n') ? r.start.yMm - deltaH : r.start.yMm;
+        setSvgOverlays((prev) => prev.map((o) => (o.id === r.id ? { ...o, xMm, yMm, scale: nextScale } : o)), {
+          label: 'Resize SVG overlay',
+          mergeKey: `resize-svg-overlay:${gestureKeyRef.current}`,
         });
       }
     },
-    [svgOverlay, pxToMmX, pxToMmY]
+    [moveGroupDrag, pxToMmX, pxToMmY, setSvgOverlays]
   );
 
   const handleSvgOverlayPointerUp = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (endGroupDrag(e)) return;
     const d = svgOverlayDragRef.current;
     if (d && d.pointerId === e.pointerId) {
       svgOverlayDragRef.current = null;
@@ -1176,9 +2851,10 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
     if (r && r.pointerId === e.pointerId) {
       svgOverlayResizeRef.current = null;
     }
-  }, []);
+  }, [endGroupDrag]);
 
   const overlayDragRef = useRef<{
+    id: string;
     pointerId: number;
     startX: number;
     startY: number;
@@ -1187,6 +2863,7 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
   } | null>(null);
 
   const overlayResizeRef = useRef<{
+    id: string;
     pointerId: number;
     startX: number;
     startY: number;
@@ -1195,49 +2872,61 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
   } | null>(null);
 
   const handleOverlayPointerDown = useCallback(
-    (e: React.PointerEvent<HTMLDivElement>) => {
+    (e: React.PointerEvent<HTMLDivElement>, id: string) => {
+      const overlay = overlays.find((o) => o.id === id);
       if (!overlay) return;
       if ((e.target as HTMLElement)?.dataset?.corner) return;
       e.preventDefault();
       e.stopPropagation();
+      const selection = selectCanvasItem(id, e.shiftKey);
+      if (e.shiftKey) return;
+      if (selection.length > 1) {
+        startGroupDrag(e, selection);
+        return;
+      }
       overlayDragRef.current = {
+        id,
         pointerId: e.pointerId,
         startX: e.clientX,
         startY: e.clientY,
         startXMm: overlay.xMm,
         startYMm: overlay.yMm,
       };
+      gestureKeyRef.current = `${e.pointerId}:${e.timeStamp}`;
       try {
         (e.currentTarget as any).setPointerCapture?.(e.pointerId);
       } catch {
       }
     },
-    [overlay]
+    [overlays, selectCanvasItem, startGroupDrag]
   );
 
   const handleOverlayResizePointerDown = useCallback(
-    (e: React.PointerEvent<HTMLDivElement>, corner: 'nw' | 'ne' | 'sw' | 'se') => {
+    (e: React.PointerEvent<HTMLDivElement>, id: string, corner: 'nw' | 'ne' | 'sw' | 'se') => {
+      const overlay = overlays.find((o) => o.id === id);
       if (!overlay) return;
       e.preventDefault();
       e.stopPropagation();
       overlayResizeRef.current = {
+        id,
         pointerId: e.pointerId,
         startX: e.clientX,
         startY: e.clientY,
         start: overlay,
         corner,
       };
+      gestureKeyRef.current = `${e.pointerId}:${e.timeStamp}`;
       try {
         (e.currentTarget as any).setPointerCapture?.(e.pointerId);
       } catch {
       }
     },
-    [overlay]
+    [overlays]
   );
 
   const handleOverlayPointerMove = useCallback(
     (e: React.PointerEvent<HTMLDivElement>) => {
-      if (!overlay) return;
+      if (moveGroupDrag(e)) return;
 
       const d = overlayDragRef.current;
       if (d && d.pointerId === e.pointerId) {
@@ -1246,9 +2935,9 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
         const dxMm = pxToMmX(dxPx);
         const dyMm = pxToMmY(dyPx);
         if (!Number.isFinite(dxMm) || !Number.isFinite(dyMm)) return;
-        setOverlay((prev) => {
-          if (!prev) return prev;
-          return { ...prev, xMm: d.startXMm + dxMm, yMm: d.startYMm + dyMm };
+        setOverlays((prev) => prev.map((o) => (o.id === d.id ? { ...o, xMm: d.startXMm + dxMm, yMm: d.startYMm + dyMm } : o)), {
+          label: 'Move image',
+          mergeKey: `move-image:${gestureKeyRef.current}`,
         });
         return;
       }
@@ -1297,16 +2986,17 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
           }
         }
 
-        setOverlay((prev) => {
-          if (!prev) return prev;
-          return { ...prev, xMm: nextXMm, yMm: nextYMm, wMm: nextWMm, hMm: nextHMm };
+        setOverlays((prev) => prev.map((o) => (o.id === r.id ? { ...o, xMm: nextXMm, yMm: nextYMm, wMm: nextWMm, hMm: nextHMm } : o)), {
+          label: 'Resize image',
+          mergeKey: `resize-image:${gestureKeyRef.current}`,
         });
       }
     },
-    [overlay, pxToMmX, pxToMmY]
+    [moveGroupDrag, pxToMmX, pxToMmY, setOverlays]
   );
 
   const handleOverlayPointerUp = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (endGroupDrag(e)) return;
     const d = overlayDragRef.current;
     if (d && d.pointerId === e.pointerId) {
       overlayDragRef.current = null;
@@ -1315,7 +3005,7 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
     if (r && r.pointerId === e.pointerId) {
       overlayResizeRef.current = null;
     }
-  }, []);
+  }, [endGroupDrag]);
 
   if (!documentId) {
     console.warn('[TicketEditor] Missing documentId in URL query params');
@@ -1336,167 +3026,358 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
           hasValidTicketRegion={hasValidTicketRegion}
           generateDisabledReason={generateDisabledReason}
           startingSeries={startingSeries}
+          startingSeriesDisplay={startingSeriesDisplay}
           endingSeries={endingSeries}
           totalPages={totalPages}
+          ticketsPerPage={ticketsPerSheet}
+          impositionSettings={imposition}
+          impositionLayout={impositionLayout}
+          impositionError={impositionError}
+          onImpositionChange={handleImpositionChange}
+          printerMarks={printerMarks}
+          printerMarksError={printerMarksError}
+          onPrinterMarksChange={handlePrinterMarksChange}
+          duplex={duplex}
+          duplexError={duplexError}
+          activeSide={activeSide}
+          backArtworkName={backArtwork?.fileName}
+          onDuplexChange={handleDuplexChange}
+          onActiveSideChange={setActiveSide}
+          onUploadBackArtwork={(f: File) => void handleUploadBackArtwork(f)}
+          onClearBackArtwork={handleClearBackArtwork}
+          colorOutput={colorOutput}
+          softProof={softProof}
+          onColorOutputChange={handleColorOutputChange}
+          onSoftProofChange={setSoftProof}
+          batches={batches}
+          batchRun={batchRun}
+          onBatchesChange={handleBatchesChange}
+          onRetryFailedBatches={() => void handleRetryFailedBatches()}
+          seriesScope={seriesScope}
+          onSeriesScopeChange={handleSeriesScopeChange}
+          documentId={documentId}
+          authToken={token}
+          onCaptureTemplate={captureLayoutTemplate}
+          onApplyTemplate={handleApplyLayoutTemplate}
+          snapSettings={snapSettings}
+          showRulers={showRulers}
+          guideCount={guides.length}
+          onSnapSettingsChange={handleSnapSettingsChange}
+          onShowRulersChange={setShowRulers}
+          onClearGuides={() => setGuides([])}
+          variableData={variableData}
           isGenerating={isGenerating}
           onAddSeriesSlot={handleAddSeriesSlot}
+          onAddBarcodeSlot={handleAddBarcodeSlot}
           onDeleteSeriesSlot={handleDeleteSeriesSlot}
           onStartingSeriesChange={setStartingSeries}
           onTotalPagesChange={setTotalPages}
           onGenerateOutput={handleGenerateOutput}
           lastPreviewId={lastPreviewId}
           onViewAndPrint={handleViewAndPrint}
+          onOpenProof={() => setProofOpen(true)}
           onUploadFont={(f: File) => handleUploadFont(f)}
           onUploadImage={(f: File) => handleUploadImage(f)}
+          onImportVariableData={handleImportVariableData}
+          onClearVariableData={handleClearVariableData}
         />
 
         {/* Center */}
-        <div ref={containerRef} className="flex-1 min-w-0 relative bg-muted/30 overflow-auto">
-          <div className="h-full w-full flex items-center justify-center p-6">
-            {svgLoadError ? (
-              <div className="text-sm text-destructive">{svgLoadError}</div>
-            ) : svgMarkup ? (
+        <div ref={containerRef} className="flex-1 min-w-0 relative bg-muted/30 overflow-hidden">
+          {svgLoadError ? (
+            <div className="h-full w-full flex items-center justify-center p-6 text-sm text-destructive">{svgLoadError}</div>
+          ) : svgMarkup ? (
+            <div
+              className="absolute bg-white"
+              style={{
+                left: view.panX,
+                top: view.panY,
+                width: objectRectPx?.width ?? 800,
+                height: objectRectPx?.height ?? 450,
+                border: '1px solid rgba(0,0,0,0.15)',
+              }}
+            >
               <div
-                className="relative bg-white"
-                style={{
-                  width: objectRectPx?.width ?? 800,
-                  height: objectRectPx?.height ?? 450,
-                  border: '1px solid rgba(0,0,0,0.15)',
-                }}
-              >
-                <div
-                  ref={svgHostRef}
-                  className="absolute inset-0 h-full w-full z-0"
-                  onClick={handleSvgClick}
-                  style={{ maxWidth: '100%', maxHeight: '100%', pointerEvents: 'auto' }}
-                  dangerouslySetInnerHTML={{ __html: svgMarkup }}
+                ref={svgHostRef}
+                className="absolute inset-0 h-full w-full z-0 [&>svg]:h-full [&>svg]:w-full"
+                onClick={handleSvgClick}
+                onPointerDown={handleCanvasPointerDown}
+                onPointerMove={handleCanvasPointerMove}
+                onPointerUp={handleCanvasPointerUp}
+                style={{ maxWidth: '100%', maxHeight: '100%', pointerEvents: 'auto' }}
+                dangerouslySetInnerHTML={{ __html: activeSide === 'back' ? backArtwork?.svgMarkup ?? '' : svgMarkup }}
+              />
+
+              {showRulers && objectRectMm ? (
+                <>
+                  <MmRuler
+                    orientation="horizontal"
+                    lengthMm={objectRectMm.widthMm}
+                    mmToPx={mmToPxX}
+                    pxToMm={pxToMmX}
+                    onAddGuide={(mm) => handleAddGuide('x', mm)}
+                  />
+                  <MmRuler
+                    orientation="vertical"
+                    lengthMm={objectRectMm.heightMm}
+                    mmToPx={mmToPxY}
+                    pxToMm={pxToMmY}
+                    onAddGuide={(mm) => handleAddGuide('y', mm)}
+                  />
+                </>
+              ) : null}
+
+              {objectRectMm ? (
+                <CanvasGuides
+                  guides={guides}
+                  activeLines={activeSnapLines}
+                  objectMm={objectRectMm}
+                  mmToPxX={mmToPxX}
+                  mmToPxY={mmToPxY}
+                  pxToMmX={pxToMmX}
+                  pxToMmY={pxToMmY}
+                  onMoveGuide={handleMoveGuide}
+                  onRemoveGuide={handleRemoveGuide}
                 />
+              ) : null}
+
+              {draggedSlotBox && slotDragSnap && objectRectMm ? (
+                <SlotSpacingGuide box={draggedSlotBox} others={slotDragSnap.others} objectMm={objectRectMm} mmToPxX={mmToPxX} mmToPxY={mmToPxY} />
+              ) : null}
 
-                {svgOverlay && objectRectPx && objectRectMm ? (
-                  <div
-                    className="absolute z-20"
-                    onPointerDown={handleSvgOverlayPointerDown}
-                    onPointerMove={handleSvgOverlayPointerMove}
-                    onPointerUp={handleSvgOverlayPointerUp}
-                    style={{
-                      left: mmToPxX(svgOverlay.xMm),
-                      top: mmToPxY(svgOverlay.yMm),
-                      width: mmToPxX(svgOverlay.intrinsicMmW),
-                      height: mmToPxY(svgOverlay.intrinsicMmH),
-                      transform: `rotate(${svgOverlay.rotationDeg}deg) scale(${svgOverlay.scale})`,
-                      transformOrigin: 'center',
-                      cursor: 'move',
-                      userSelect: 'none',
-                      pointerEvents: 'auto',
-                    }}
-                  >
+              {/* Multi-selection and locked group outlines */}
+              {selectedIds.length > 1 || selectedIds.some(isOverlayId) ? (
+                <div className="absolute inset-0 z-30" style={{ pointerEvents: 'none' }}>
+                  {itemBoxesMm(selectedIds).map(({ id, box }) => (
                     <div
-                      style={{ width: '100%', height: '100%', pointerEvents: 'none' }}
-                      dangerouslySetInnerHTML={{ __html: svgOverlay.svgMarkup }}
+                      key={id}
+                      className="absolute"
+                      style={{
+                        left: mmToPxX(box.xMm) - 2,
+                        top: mmToPxY(box.yMm) - 2,
+                        width: mmToPxX(box.widthMm) + 4,
+                        height: mmToPxY(box.heightMm) + 4,
+                        border: '1px dashed rgba(34, 197, 94, 0.9)',
+                      }}
                     />
+                  ))}
+                  {selectionUnits
+                    .filter((u) => u.ids.length > 1)
+                    .map((u) => (
+                      <div
+                        key={u.ids.join('|')}
+                        className="absolute"
+                        style={{
+                          left: mmToPxX(u.box.xMm) - 5,
+                          top: mmToPxY(u.box.yMm) - 5,
+                          width: mmToPxX(u.box.widthMm) + 10,
+                          height: mmToPxY(u.box.heightMm) + 10,
+                          border: '1px solid rgba(34, 197, 94, 0.9)',
+                        }}
+                      />
+                    ))}
+                </div>
+              ) : null}
 
-                    {(['nw', 'ne', 'sw', 'se'] as const).map((corner) => {
-                      const isTop = corner.includes('n');
-                      const isLeft = corner.includes('w');
-                      return (
-                        <div
-                          key={corner}
-                          data-corner={corner}
-                          onPointerDown={(e) => handleSvgOverlayResizePointerDown(e, corner)}
-                          style={{
-                            position: 'absolute',
-                            width: 10,
-                            height: 10,
-                            background: '#3b82f6',
-                            borderRadius: 2,
-                            top: isTop ? -5 : undefined,
-                            bottom: !isTop ? -5 : undefined,
-                            left: isLeft ? -5 : undefined,
-                            right: !isLeft ? -5 : undefined,
-                            cursor: `${corner}-resize`,
-                            pointerEvents: 'auto',
-                          }}
-                        />
-                      );
-                    })}
-                  </div>
-                ) : null}
-
-                {overlay && objectRectPx && objectRectMm ? (
-                  <div
-                    className="absolute z-20"
-                    onPointerDown={handleOverlayPointerDown}
-                    onPointerMove={handleOverlayPointerMove}
-                    onPointerUp={handleOverlayPointerUp}
-                    style={{
-                      left: mmToPxX(overlay.xMm),
-                      top: mmToPxY(overlay.yMm),
-                      width: mmToPxX(overlay.wMm),
-                      height: mmToPxY(overlay.hMm),
-                      transform: `rotate(${overlay.rotationDeg}deg)`,
-                      transformOrigin: 'top left',
-                      cursor: 'move',
-                      userSelect: 'none',
-                      pointerEvents: 'auto',
-                      boxSizing: 'border-box',
-                      border: '1px dashed rgba(59, 130, 246, 0.9)',
-                      background: 'rgba(59, 130, 246, 0.06)',
-                    }}
-                  >
-                    <img
-                      src={overlay.dataUrl}
-                      alt="overlay"
-                      draggable={false}
-                      style={{ width: '100%', height: '100%', objectFit: 'contain', pointerEvents: 'none' }}
-                    />
+              {marqueeRectPx ? (
+                <div
+                  className="absolute z-40"
+                  style={{
+                    ...marqueeRectPx,
+                    pointerEvents: 'none',
+                    border: '1px solid rgba(59, 130, 246, 0.9)',
+                    background: 'rgba(59, 130, 246, 0.08)',
+                  }}
+                />
+              ) : null}
+
+              {/* Slots and overlays, stacked in layer order */}
+              <div className="absolute inset-0 z-10" style={{ pointerEvents: 'none' }}>
+                {activeSide === 'front' && objectRectPx && objectRectMm
+                  ? svgOverlays
+                      .filter((svgOverlay) => !liveLayers.hidden.includes(svgOverlay.id))
+                      .map((svgOverlay) => {
+                        const isLocked = liveLayers.locked.includes(svgOverlay.id);
+                        return (
+                          <div
+                            key={svgOverlay.id}
+                            className="absolute"
+                            onPointerDown={(e) => handleSvgOverlayPointerDown(e, svgOverlay.id)}
+                            onPointerMove={handleSvgOverlayPointerMove}
+                            onPointerUp={handleSvgOverlayPointerUp}
+                            style={{
+                              zIndex: layerZ.get(svgOverlay.id),
+                              left: mmToPxX(svgOverlay.xMm),
+                              top: mmToPxY(svgOverlay.yMm),
+                              width: mmToPxX(svgOverlay.intrinsicMmW),
+                              height: mmToPxY(svgOverlay.intrinsicMmH),
+                              transform: `rotate(${svgOverlay.rotationDeg}deg) scale(${svgOverlay.scale})`,
+                              transformOrigin: 'center',
+                              cursor: 'move',
+                              userSelect: 'none',
+                              pointerEvents: isLocked ? 'none' : 'auto',
+                            }}
+                          >
+                            {svgOverlay.ink ? (
+                              <div
+                                style={{
+                                  width: '100%',
+                                  height: '100%',
+                                  pointerEvents: 'none',
+                                  backgroundColor: displayColor('#000000', svgOverlay.ink, colorOutput, softProof),
+                                  ...svgMaskStyle(svgOverlay.svgMarkup),
+                                }}
+                              />
+                            ) : (
+                              <div
+                                className="[&>svg]:h-full [&>svg]:w-full"
+                                style={{ width: '100%', height: '100%', pointerEvents: 'none' }}
+                                dangerouslySetInnerHTML={{ __html: svgOverlay.svgMarkup }}
+                              />
+                            )}
+
+                            {(isLocked ? [] : (['nw', 'ne', 'sw', 'se'] as const)).map((corner) => {
+                              const isTop = corner.includes('n');
+                              const isLeft = corner.includes('w');
+                              return (
+                                <div
+                                  key={corner}
+                                  data-corner={corner}
+                                  onPointerDown={(e) => handleSvgOverlayResizePointerDown(e, svgOverlay.id, corner)}
+                                  style={{
+                                    position: 'absolute',
+                                    width: 10,
+                                    height: 10,
+                                    background: '#3b82f6',
+                                    borderRadius: 2,
+                                    top: isTop ? -5 : undefined,
+                                    bottom: !isTop ? -5 : undefined,
+                                    left: isLeft ? -5 : undefined,
+                                    right: !isLeft ? -5 : undefined,
+                                    cursor: `${corner}-resize`,
+                                    pointerEvents: 'auto',
+                                  }}
+                                />
+                              );
+                            })}
+                          </div>
+                        );
+                      })
+                  : null}
+
+                {activeSide === 'front' && objectRectPx && objectRectMm
+                  ? overlays
+                      .filter((overlay) => !liveLayers.hidden.includes(overlay.id))
+                      .map((overlay) => {
+                        const isLocked = liveLayers.locked.includes(overlay.id);
+                        return (
+                          <div
+                            key={overlay.id}
+                            className="absolute"
+                            onPointerDown={(e) => handleOverlayPointerDown(e, overlay.id)}
+                            onPointerMove={handleOverlayPointerMove}
+                            onPointerUp={handleOverlayPointerUp}
+                            style={{
+                              zIndex: layerZ.get(overlay.id),
+                              left: mmToPxX(overlay.xMm),
+                              top: mmToPxY(overlay.yMm),
+                              width: mmToPxX(overlay.wMm),
+                              height: mmToPxY(overlay.hMm),
+                              transform: `rotate(${overlay.rotationDeg}deg)`,
+                              transformOrigin: 'top left',
+                              cursor: 'move',
+                              userSelect: 'none',
+                              pointerEvents: isLocked ? 'none' : 'auto',
+                              boxSizing: 'border-box',
+                              border: isLocked ? undefined : '1px dashed rgba(59, 130, 246, 0.9)',
+                              background: 'rgba(59, 130, 246, 0.06)',
+                            }}
+                          >
+                            <img
+                              src={overlay.dataUrl}
+                              alt="overlay"
+                              draggable={false}
+                              style={{ width: '100%', height: '100%', objectFit: 'contain', pointerEvents: 'none' }}
+                            />
+
+                            {(isLocked ? [] : (['nw', 'ne', 'sw', 'se'] as const)).map((corner) => {
+                              const isTop = corner.includes('n');
+                              const isLeft = corner.includes('w');
+                              return (
+                                <div
+                                  key={corner}
+                                  data-corner={corner}
+                                  onPointerDown={(e) => handleOverlayResizePointerDown(e, overlay.id, corner)}
+                                  style={{
+                                    position: 'absolute',
+                                    width: 10,
+                                    height: 10,
+                                    background: '#3b82f6',
+                                    borderRadius: 2,
+                                    top: isTop ? -5 : undefined,
+                                    bottom: !isTop ? -5 : undefined,
+                                    left: isLeft ? -5 : undefined,
+                                    right: !isLeft ? -5 : undefined,
+                                    cursor: 'nwse-resize',
+                                    pointerEvents: 'auto',
+                                  }}
+                                />
+                              );
+                            })}
+                          </div>
+                        );
+                      })
+                  : null}
+
+                {seriesSlots
+                  .filter((slot) => (slot.side ?? 'front') === activeSide && !liveLayers.hidden.includes(slot.id))
+                  .filter((slot) => typeof slot.x_mm === 'number' && Number.isFinite(slot.x_mm) && typeof slot.y_mm === 'number' && Number.isFinite(slot.y_mm))
+                  .map((slot) => {
+                    const anchorX = mmToPxX(Number(slot.x_mm));
+                    const anchorBaselineY = mmToPxY(Number(slot.y_mm));
+                    const ghostText = slotPreviewText(slot);
+
+                    const isLocked = liveLayers.locked.includes(slot.id);
 
-                    {(['nw', 'ne', 'sw', 'se'] as const).map((corner) => {
-                      const isTop = corner.includes('n');
-                      const isLeft = corner.includes('w');
+                    if (slot.kind === 'barcode') {
+                      const isSelectedBarcode = selectedSlotId === slot.id;
                       return (
                         <div
-                          key={corner}
-                          data-corner={corner}
-                          onPointerDown={(e) => handleOverlayResizePointerDown(e, corner)}
+                          key={slot.id}
+                          className="series-slot-preview"
+                          onPointerDown={(e) => handleSlotPointerDown(e, slot.id)}
+                          onPointerMove={handleSlotPointerMove}
+                          onPointerUp={handleSlotPointerUp}
                           style={{
                             position: 'absolute',
-                            width: 10,
-                            height: 10,
-                            background: '#3b82f6',
-                            borderRadius: 2,
-                            top: isTop ? -5 : undefined,
-                            bottom: !isTop ? -5 : undefined,
-                            left: isLeft ? -5 : undefined,
-                            right: !isLeft ? -5 : undefined,
-                            cursor: 'nwse-resize',
-                            pointerEvents: 'auto',
+                            left: anchorX,
+                            top: anchorBaselineY,
+                            transform: `rotate(${Number(slot.rotation ?? 0)}deg)`,
+                            transformOrigin: '0px 0px',
+                            pointerEvents: isLocked ? 'none' : 'auto',
+                            cursor: 'move',
+                            outline: isSelectedBarcode ? '1px dashed rgba(34, 197, 94, 0.9)' : undefined,
+                            zIndex: layerZ.get(slot.id),
                           }}
-                        />
+                        >
+                          <BarcodeSlotPreview value={ghostText} config={slot.barcode} color={displayColor(slot.color, slot.ink, colorOutput, softProof)} mmToPxX={mmToPxX} mmToPxY={mmToPxY} />
+                        </div>
                       );
-                    })}
-                  </div>
-                ) : null}
-
-                {seriesSlots
-                  .filter((slot) => typeof slot.x_mm === 'number' && Number.isFinite(slot.x_mm) && typeof slot.y_mm === 'number' && Number.isFinite(slot.y_mm))
-                  .map((slot) => {
-                    const anchorX = mmToPxX(Number(slot.x_mm));
-                    const anchorBaselineY = mmToPxY(Number(slot.y_mm));
-                    const ghostText = String(slot.startingSeries || startingSeries);
+                    }
 
-                    const name = String((slot as any)?.fontFamily || '').toLowerCase();
-                    const fontKey = name.includes('times') ? StandardFonts.TimesRoman : name.includes('courier') ? StandardFonts.Courier : StandardFonts.Helvetica;
-                    const pdfFont = pdfFontCache.get(fontKey);
+                    const pdfFont = pdfFontCache.get(standardFontKeyOf(slot));
                     if (!pdfFont) return null;
 
                     const rot = Number((slot as any).rotation_deg ?? slot.rotation ?? 0);
                     const isSelected = selectedSlotId === slot.id;
 
+                    // Font px are real-size CSS px; scale them with the canvas zoom
+                    const fontScale = mmToPxY(FONT_PX_TO_MM);
                     const glyphs = String(ghostText).split('').map((ch, i) => {
                       const rawSize = Number((slot as any).letterStyles?.[i]?.fontSize ?? (slot as any).defaultFontSize ?? 24);
-                      const size = Number.isFinite(rawSize) && rawSize > 0 ? rawSize : 24;
+                      const size = (Number.isFinite(rawSize) && rawSize > 0 ? rawSize : 24) * fontScale;
                       const rawOffset = Number((slot as any).letterStyles?.[i]?.offsetY ?? 0);
-                      const offsetY = Number.isFinite(rawOffset) ? rawOffset : 0;
+                      const offsetY = (Number.isFinite(rawOffset) ? rawOffset : 0) * fontScale;
                       const ascent = Number(pdfFont.heightAtSize(size, { descender: false }));
                       const advance = Number(pdfFont.widthOfTextAtSize(ch, size));
                       return {
@@ -1533,8 +3414,8 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
                           height: 1,
                           transform: `rotate(${rot}deg)`,
                           transformOrigin: '0px 0px',
-                          pointerEvents: 'auto',
-                          zIndex: isSelected ? 20 : 10,
+                          pointerEvents: isLocked ? 'none' : 'auto',
+                          zIndex: layerZ.get(slot.id),
                         }}
                       >
                         <div
@@ -1573,7 +3454,7 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
                                 top: baselineGuideY - g.ascent + g.offsetY,
                                 fontFamily: String((slot as any).fontFamily || 'Arial'),
                                 fontSize: g.size,
-                                color: String((slot as any).color || 'rgba(0,0,0,0.6)'),
+                                color: displayColor(String((slot as any).color || 'rgba(0,0,0,0.6)'), slot.ink, colorOutput, softProof),
                                 whiteSpace: 'pre',
                                 lineHeight: '1',
                                 pointerEvents: 'none',
@@ -1588,28 +3469,90 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
                     );
                   })}
               </div>
-            ) : (
-              <div className="text-sm text-muted-foreground">Loading SVG…</div>
-            )}
-          </div>
 
-          {objectRectPx && objectRectMm ? (
-            <div className="absolute left-1/2 top-1/2 z-10" style={{ transform: 'translate(-50%, -50%)', pointerEvents: 'none' }}>
-              <div
-                style={{
-                  width: objectRectPx.width,
-                  height: objectRectPx.height,
-                  border: '2px dashed #4f8cff',
-                  boxSizing: 'border-box',
-                }}
-              >
-                <div className="absolute left-2 top-2 rounded bg-white/80 px-2 py-1 text-[12px] text-black">
-                  {Math.round(objectRectMm.widthMm * 100) / 100}mm × {Math.round(objectRectMm.heightMm * 100) / 100}mm
+              {objectRectMm ? (
+                <div
+                  className="absolute inset-0 z-10"
+                  style={{ border: '2px dashed #4f8cff', boxSizing: 'border-box', pointerEvents: 'none' }}
+                >
+                  <div className="absolute left-2 top-2 rounded bg-white/80 px-2 py-1 text-[12px] text-black">
+                    {Math.round(objectRectMm.widthMm * 100) / 100}mm × {Math.round(objectRectMm.heightMm * 100) / 100}mm
+                    {duplex.enabled ? ` · ${activeSide}` : ''}
+                  </div>
+                  {printerMarks.enabled && printerMarks.bleedMm > 0 ? (
+                    <div
+                      className="absolute"
+                      style={{
+                        left: -mmToPxX(printerMarks.bleedMm),
+                        top: -mmToPxY(printerMarks.bleedMm),
+                        right: -mmToPxX(printerMarks.bleedMm),
+                        bottom: -mmToPxY(printerMarks.bleedMm),
+                        border: '1px dashed rgba(239, 68, 68, 0.8)',
+                      }}
+                    />
+                  ) : null}
                 </div>
-              </div>
+              ) : null}
             </div>
+          ) : (
+            <div className="h-full w-full flex items-center justify-center p-6 text-sm text-muted-foreground">Loading SVG…</div>
+          )}
+
+          {/* Space held: the whole viewport becomes a pan handle */}
+          {spaceHeld ? (
+            <div
+              className="absolute inset-0 z-50"
+              style={{ cursor: panDragRef.current ? 'grabbing' : 'grab' }}
+              onPointerDown={handlePanPointerDown}
+              onPointerMove={handlePanPointerMove}
+              onPointerUp={handlePanPointerUp}
+            />
           ) : null}
 
+          <div className="absolute left-4 bottom-4 z-30">
+            <ZoomControls
+              zoom={view.zoom}
+              fitMode={fitMode}
+              onZoomIn={() => handleZoomStep(1)}
+              onZoomOut={() => handleZoomStep(-1)}
+              onFit={setFitMode}
+            />
+          </div>
+
+          <Button
+            onClick={() => setShortcutsOpen(true)}
+            variant="outline"
+            size="sm"
+            className="absolute right-4 top-4 z-30 h-7 gap-1 px-2 text-[10px]"
+            title="Keyboard shortcuts (?)"
+          >
+            <Keyboard className="h-3 w-3" />
+            Shortcuts
+          </Button>
+
+          {/* Full press sheet with the object in every cell */}
+          {impositionLayout ? (
+            <div className="absolute right-4 bottom-4 z-30 rounded-md border border-border bg-card/95 p-2 shadow-md" style={{ pointerEvents: 'none' }}>
+              <p className="mb-1 text-[10px] text-muted-foreground">
+                Sheet {Math.round(impositionLayout.sheetWidthMm * 10) / 10} × {Math.round(impositionLayout.sheetHeightMm * 10) / 10} mm ·{' '}
+                {imposition.rows} × {imposition.columns}
+              </p>
+              <ImpositionPreview
+                layout={impositionLayout}
+                objectMm={objectRectMm}
+                alignment={ticketCropMm?.alignment}
+                widthPx={impositionLayout.sheetWidthMm > impositionLayout.sheetHeightMm ? 220 : 150}
+              >
+                <PrinterMarksOverlay
+                  layout={impositionLayout}
+                  settings={printerMarks}
+                  objectMm={objectRectMm}
+                  alignment={ticketCropMm?.alignment}
+                  slugText={slugLineText({ seriesStart: startingSeriesDisplay, seriesEnd: endingSeries })}
+                />
+              </ImpositionPreview>
+            </div>
+          ) : null}
         </div>
 
         {/* Right Properties Panel */}
@@ -1620,10 +3563,60 @@ export const TicketEditor: React.FC<TicketEditorProps> = ({ pdfUrl, fileType = '
             onUpdateLetterFontSize={handleUpdateLetterFontSize}
             onUpdateLetterOffset={handleUpdateLetterOffset}
             availableFonts={mergedAvailableFonts}
+            libraryFonts={libraryFontNames}
+            missingGlyphs={glyphWarnings.find((w) => w.slotId === selectedSlotId)?.chars}
+            dataColumns={variableData?.columns}
           />
+          {selectedSvgOverlay ? (
+            <div className="border-t border-border p-4">
+              <InkColorField label="SVG Ink" ink={selectedSvgOverlay.ink} onChange={handleSvgOverlayInkChange} />
+            </div>
+          ) : null}
+          <div className="border-t border-border p-4">
+            <PreflightPanel report={preflight} onSelect={handleSelectPreflightTarget} />
+          </div>
+          <div className="border-t border-border p-4">
+            <ArrangePanel
+              selectedCount={selectedIds.length}
+              unitCount={selectionUnits.length}
+              canGroup={selectedIds.length > 1 && !selectionIsOneGroup}
+              canUngroup={selectionHasGroup}
+              onAlign={handleAlign}
+              onDistribute={handleDistribute}
+              onGroup={handleGroupSelection}
+              onUngroup={handleUngroupSelection}
+            />
+          </div>
+          <div className="border-t border-border p-4">
+            <LayerPanel
+              items={layerItems}
+              hidden={liveLayers.hidden}
+              locked={liveLayers.locked}
+              selectedIds={selectedIds}
+              onSelect={selectCanvasItem}
+              onToggleHidden={handleToggleLayerHidden}
+              onToggleLocked={handleToggleLayerLocked}
+              onMove={handleMoveLayer}
+            />
+          </div>
+          <div className="border-t border-border p-4">
+            <HistoryPanel
+              entries={history.entries}
+              index={history.index}
+              canUndo={history.canUndo}
+              canRedo={history.canRedo}
+              onUndo={undoHistory}
+              onRedo={redoHistory}
+              onJump={history.jumpTo}
+            />
+          </div>
         </aside>
       </div>
 
+      <ShortcutsDialog open={shortcutsOpen} onOpenChange={setShortcutsOpen} onRun={runShortcut} />
+
+      <ProofDialog open={proofOpen} onOpenChange={setProofOpen} onRenderProof={handleRenderProof} onLoadDiff={handleLoadProofDiff} />
+
       {/* Output Preview is now a dedicated route: /output-preview */}
     </>
   );
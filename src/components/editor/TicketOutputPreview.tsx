@@ -7,6 +7,10 @@ import { toast } from 'sonner';
 import { api } from '@/config/api';
 
 import type { TicketOutputPage } from './TicketEditor';
+import { ImpositionPreview } from './ImpositionPreview';
+import type { ImpositionLayout } from '@/utils/imposition';
+import { PrinterMarksOverlay } from './PrinterMarksOverlay';
+import type { PrinterMarksSettings } from '@/utils/printerMarks';
 
 interface TicketOutputPreviewProps {
   pages: TicketOutputPage[];
@@ -27,9 +31,12 @@ interface TicketOutputPreviewProps {
     keepProportions: boolean | null;
     alignment: 'left' | 'center' | 'right' | null;
   } | null;
+  imposition?: ImpositionLayout | null;
+  printerMarks?: PrinterMarksSettings | null;
+  slugLine?: string;
 }
 
-export const TicketOutputPreview: React.FC<TicketOutputPreviewProps> = ({ pages, onClose, documentId, fileType, pdfUrl, pdf_s3_key }) => {
+export const TicketOutputPreview: React.FC<TicketOutputPreviewProps> = ({ pages, onClose, documentId, fileType, pdfUrl, pdf_s3_key, ticketCropMm, imposition, printerMarks, slugLine }) => {
   const [currentPage, setCurrentPage] = useState(0);
   const { token } = useAuth();
 
@@ -117,7 +124,7 @@ export const TicketOutputPreview: React.FC<TicketOutputPreviewProps> = ({ pages,
             {pages.map((page, idx) => {
               const primarySlot = page.seriesSlots[0];
               const firstTicket = page.tickets[0];
-              const lastTicket = page.tickets[3];
+              const lastTicket = page.tickets[page.tickets.length - 1];
               const firstSeries = primarySlot && firstTicket
                 ? firstTicket.seriesBySlot[primarySlot.id]?.seriesValue
                 : '';
@@ -136,11 +143,43 @@ export const TicketOutputPreview: React.FC<TicketOutputPreviewProps> = ({ pages,
                   }`}
                 >
                   Page {page.pageNumber}
+                  {page.side === 'back' ? ' · back' : ''}
                   {firstSeries && lastSeries ? ` (${firstSeries} - ${lastSeries})` : ''}
                 </button>
               );
             })}
           </div>
+
+          {imposition ? (
+            <div className="mt-4">
+              <p className="text-xs font-medium text-muted-foreground mb-2 uppercase tracking-wide">Sheet</p>
+              <ImpositionPreview
+                layout={imposition}
+                objectMm={
+                  ticketCropMm?.widthMm && ticketCropMm?.heightMm ? { widthMm: ticketCropMm.widthMm, heightMm: ticketCropMm.heightMm } : null
+                }
+                alignment={ticketCropMm?.alignment}
+                cellLabels={(() => {
+                  const page = pages[currentPage];
+                  const primarySlot = page?.seriesSlots[0];
+                  return primarySlot ? page.tickets.map((t) => t.seriesBySlot[primarySlot.id]?.seriesValue ?? '') : undefined;
+                })()}
+                widthPx={168}
+              >
+                {printerMarks ? (
+                  <PrinterMarksOverlay
+                    layout={imposition}
+                    settings={printerMarks}
+                    objectMm={
+                      ticketCropMm?.widthMm && ticketCropMm?.heightMm ? { widthMm: ticketCropMm.widthMm, heightMm: ticketCropMm.heightMm } : null
+                    }
+                    alignment={ticketCropMm?.alignment}
+                    slugText={slugLine}
+                  />
+                ) : null}
+              </ImpositionPreview>
+            </div>
+          ) : null}
         </div>
 
         {/* Page Preview with Scroll */}
@@ -152,16 +191,16 @@ export const TicketOutputPreview: React.FC<TicketOutputPreviewProps> = ({ pages,
                   src={`${resolvedPdfUrl}#page=${currentPage + 1}`}
                   title="Output Preview"
                   style={{
-                    width: '210mm',
-                    height: '297mm',
+                    width: `${imposition?.sheetWidthMm ?? 210}mm`,
+                    height: `${imposition?.sheetHeightMm ?? 297}mm`,
                     background: 'white',
                   }}
                 />
               ) : (
                 <div
                   style={{
-                    width: '210mm',
-                    height: '297mm',
+                    width: `${imposition?.sheetWidthMm ?? 210}mm`,
+                    height: `${imposition?.sheetHeightMm ?? 297}mm`,
                     background: 'white',
                   }}
                   className="flex items-center justify-center text-sm text-muted-foreground"
@@ -3,8 +3,12 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import { Separator } from '@/components/ui/separator';
-import { Type } from 'lucide-react';
+import { Barcode, Type } from 'lucide-react';
 import type { SeriesSlotData } from './SeriesSlot';
+import { InkColorField } from './InkColorField';
+import { DEFAULT_SERIES_ROLLOVER, SERIES_ALPHABETS, type SeriesRollover } from '@/utils/seriesEngine';
+import { BARCODE_SYMBOLOGIES, isLinearSymbology, resolveBarcodeConfig, type BarcodeSymbology } from '@/utils/barcodeSvg';
+import { CHECK_DIGIT_SCHEMES, checkDigitAlphabetError, checkDigitConfigOf, withCheckDigit, type CheckDigitScheme } from '@/utils/checkDigits';
 
 interface TicketPropertiesPanelProps {
   slot: SeriesSlotData | null;
@@ -12,6 +16,12 @@ interface TicketPropertiesPanelProps {
   onUpdateLetterFontSize: (index: number, fontSize: number) => void;
   onUpdateLetterOffset: (index: number, offsetY: number) => void;
   availableFonts?: string[];
+  // Uploaded fonts among availableFonts, listed apart from the system fonts
+  libraryFonts?: string[];
+  // Characters this slot prints that its font has no glyph for
+  missingGlyphs?: string[];
+  // Columns of the imported CSV/XLSX sheet, if any
+  dataColumns?: string[];
 }
 
 export const TicketPropertiesPanel: React.FC<TicketPropertiesPanelProps> = ({
@@ -20,6 +30,9 @@ export const TicketPropertiesPanel: React.FC<TicketPropertiesPanelProps> = ({
   onUpdateLetterFontSize,
   onUpdateLetterOffset,
   availableFonts,
+  libraryFonts,
+  missingGlyphs,
+  dataColumns,
 }) => {
   if (!slot) {
     return (
@@ -36,6 +49,15 @@ export const TicketPropertiesPanel: React.FC<TicketPropertiesPanelProps> = ({
     );
   }
 
+  const alphabetPreset =
+    (Object.keys(SERIES_ALPHABETS) as (keyof typeof SERIES_ALPHABETS)[]).find(
+      (key) => SERIES_ALPHABETS[key] === (slot.seriesAlphabet || SERIES_ALPHABETS.numeric)
+    ) ?? 'custom';
+  const checkDigitError = checkDigitAlphabetError(checkDigitConfigOf(slot), slot.seriesAlphabet || SERIES_ALPHABETS.numeric);
+
+  const isBarcode = slot.kind === 'barcode';
+  const barcode = resolveBarcodeConfig(slot.barcode);
+
   return (
     <div className="w-80 bg-card border-l border-border flex flex-col">
       <div className="p-4 border-b border-border">
@@ -47,185 +69,362 @@ export const TicketPropertiesPanel: React.FC<TicketPropertiesPanelProps> = ({
         <div className="space-y-3">
           <Label className="text-xs text-muted-foreground uppercase tracking-wide">Series</Label>
 
-          <div className="space-y-1.5">
-            <Label className="text-xs text-foreground">Starting Series (this slot)</Label>
-            <Input
-              value={slot.startingSeries ?? ''}
-              onChange={(e) => onUpdateSlot({ startingSeries: e.target.value })}
-              placeholder="e.g. A001 or A 001"
-              className="h-8 text-sm bg-background font-mono"
-            />
-            <p className="text-[10px] text-muted-foreground">Empty = uses global Starting Series</p>
-          </div>
+          {(dataColumns && dataColumns.length) || slot.dataColumn ? (
+            <div className="space-y-1.5">
+              <Label className="text-xs text-foreground">Data Source</Label>
+              <select
+                value={slot.dataColumn ?? ''}
+                onChange={(e) => onUpdateSlot({ dataColumn: e.target.value || null })}
+                className="w-full h-8 px-2 rounded border border-input bg-background text-sm"
+              >
+                <option value="">Counter (starting series)</option>
+                {(dataColumns || []).map((column) => (
+                  <option key={column} value={column}>
+                    Column: {column}
+                  </option>
+                ))}
+                {slot.dataColumn && !(dataColumns || []).includes(slot.dataColumn) ? (
+                  <option value={slot.dataColumn}>Column: {slot.dataColumn} (missing)</option>
+                ) : null}
+              </select>
+            </div>
+          ) : null}
+
+          {!slot.dataColumn ? (
+            <>
+            <div className="space-y-1.5">
+              <Label className="text-xs text-foreground">Starting Series (this slot)</Label>
+              <Input
+                value={slot.startingSeries ?? ''}
+                onChange={(e) => onUpdateSlot({ startingSeries: e.target.value })}
+                placeholder="e.g. A001 or A 001"
+                className="h-8 text-sm bg-background font-mono"
+              />
+              <p className="text-[10px] text-muted-foreground">Empty = uses global Starting Series</p>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs text-foreground">Increment / Step</Label>
+              <Input
+                type="number"
+                value={Number(slot.seriesIncrement ?? 1)}
+                onChange={(e) => onUpdateSlot({ seriesIncrement: Math.max(1, parseInt(e.target.value) || 1) })}
+                min={1}
+                className="h-8 text-sm bg-background"
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs text-foreground">Counter Alphabet</Label>
+              <select
+                value={alphabetPreset}
+                onChange={(e) => {
+                  const key = e.target.value as keyof typeof SERIES_ALPHABETS | 'custom';
+                  onUpdateSlot({ seriesAlphabet: key === 'custom' ? slot.seriesAlphabet || SERIES_ALPHABETS.unambiguous : SERIES_ALPHABETS[key] });
+                }}
+                className="w-full h-8 px-2 rounded border border-input bg-background text-sm"
+              >
+                <option value="numeric">Numeric (0-9)</option>
+                <option value="alpha">Alphabetic (A-Z)</option>
+                <option value="alphanumeric">Alphanumeric (0-9, A-Z)</option>
+                <option value="unambiguous">Unambiguous (no O/0/I/1)</option>
+                <option value="custom">Custom</option>
+              </select>
+              {alphabetPreset === 'custom' ? (
+                <Input
+                  value={slot.seriesAlphabet ?? ''}
+                  onChange={(e) => onUpdateSlot({ seriesAlphabet: e.target.value.replace(/\s+/g, '') })}
+                  placeholder="Characters in counting order"
+                  className="h-8 text-sm bg-background font-mono"
+                />
+              ) : null}
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs text-foreground">On Overflow</Label>
+              <select
+                value={slot.seriesRollover ?? DEFAULT_SERIES_ROLLOVER}
+                onChange={(e) => onUpdateSlot({ seriesRollover: e.target.value as SeriesRollover })}
+                className="w-full h-8 px-2 rounded border border-input bg-background text-sm"
+              >
+                <option value="carry">Carry into prefix (A999 → B000)</option>
+                <option value="stop">Stop with an error</option>
+                <option value="wrap">Wrap (A999 → A000)</option>
+              </select>
+            </div>
+            </>
+          ) : null}
 
           <div className="space-y-1.5">
-            <Label className="text-xs text-foreground">Increment / Step</Label>
-            <Input
-              type="number"
-              value={Number(slot.seriesIncrement ?? 1)}
-              onChange={(e) => onUpdateSlot({ seriesIncrement: Math.max(1, parseInt(e.target.value) || 1) })}
-              min={1}
-              className="h-8 text-sm bg-background"
-            />
+            <Label className="text-xs text-foreground">Check Digit</Label>
+            <div className="flex gap-2">
+              <select
+                value={slot.checkDigitScheme ?? 'none'}
+                onChange={(e) => onUpdateSlot({ checkDigitScheme: e.target.value as CheckDigitScheme })}
+                className="flex-1 h-8 px-2 rounded border border-input bg-background text-sm"
+              >
+                {CHECK_DIGIT_SCHEMES.map((scheme) => (
+                  <option key={scheme.value} value={scheme.value}>
+                    {scheme.label}
+                  </option>
+                ))}
+              </select>
+              <Input
+                value={slot.checkDigitSeparator ?? ''}
+                onChange={(e) => onUpdateSlot({ checkDigitSeparator: e.target.value.slice(0, 3) })}
+                placeholder="Sep."
+                disabled={!slot.checkDigitScheme || slot.checkDigitScheme === 'none'}
+                className="w-14 h-8 text-sm bg-background font-mono"
+              />
+            </div>
+            {checkDigitError ? (
+              <p className="text-[10px] text-destructive">{checkDigitError}</p>
+            ) : checkDigitConfigOf(slot) && (slot.startingSeries || slot.value) ? (
+              <p className="text-[10px] text-muted-foreground font-mono">
+                Prints as {withCheckDigit(slot.startingSeries || slot.value, checkDigitConfigOf(slot))}
+              </p>
+            ) : null}
           </div>
         </div>
 
         <Separator />
 
-        {/* Per-Letter Font Size Control */}
-        <div className="space-y-3">
-          <Label className="text-xs text-muted-foreground uppercase tracking-wide flex items-center gap-2">
-            <Type className="h-3 w-3" />
-            Per-Letter Font Size
-          </Label>
-          
-          <div className="bg-muted/30 rounded-lg p-3 space-y-2">
-            <div className="flex items-center justify-center gap-1 flex-wrap">
-              {slot.value.split('').map((letter, index) => (
-                <div
-                  key={index}
-                  className="flex flex-col items-center bg-background rounded px-2 py-1 border border-border gap-1"
+        {isBarcode ? (
+          <>
+            {/* Barcode */}
+            <div className="space-y-3">
+              <Label className="text-xs text-muted-foreground uppercase tracking-wide flex items-center gap-2">
+                <Barcode className="h-3 w-3" />
+                Barcode
+              </Label>
+
+              <div className="space-y-1.5">
+                <Label className="text-xs text-foreground">Symbology</Label>
+                <select
+                  value={barcode.symbology}
+                  onChange={(e) => onUpdateSlot({ barcode: { ...barcode, symbology: e.target.value as BarcodeSymbology } })}
+                  className="w-full h-8 px-2 rounded border border-input bg-background text-sm"
                 >
-                  <span
-                    className="font-mono font-bold"
-                    style={{
-                      fontSize: Math.min(slot.letterStyles[index]?.fontSize || slot.defaultFontSize, 24),
-                      color: slot.color,
-                    }}
-                  >
-                    {letter}
-                  </span>
+                  {BARCODE_SYMBOLOGIES.map((s) => (
+                    <option key={s.value} value={s.value}>
+                      {s.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-[10px] text-muted-foreground">Module Size (mm)</Label>
                   <Input
                     type="number"
-                    value={slot.letterStyles[index]?.fontSize || slot.defaultFontSize}
-                    onChange={(e) => onUpdateLetterFontSize(index, parseInt(e.target.value) || 12)}
-                    className="w-12 h-6 text-[10px] text-center p-1"
-                    min={8}
-                    max={72}
+                    value={barcode.moduleSizeMm}
+                    onChange={(e) => onUpdateSlot({ barcode: { ...barcode, moduleSizeMm: Math.max(0.05, parseFloat(e.target.value) || 0.05) } })}
+                    step={0.01}
+                    min={0.05}
+                    className="h-8 text-xs"
                   />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-[10px] text-muted-foreground">Quiet Zone (modules)</Label>
+                  <Input
+                    type="number"
+                    value={barcode.quietZoneModules}
+                    onChange={(e) => onUpdateSlot({ barcode: { ...barcode, quietZoneModules: Math.max(0, parseInt(e.target.value) || 0) } })}
+                    min={0}
+                    className="h-8 text-xs"
+                  />
+                </div>
+              </div>
+
+              {isLinearSymbology(barcode.symbology) ? (
+                <div className="space-y-1.5">
+                  <Label className="text-xs text-foreground">Bar Height (mm)</Label>
                   <Input
                     type="number"
-                    value={slot.letterStyles[index]?.offsetY || 0}
-                    onChange={(e) => onUpdateLetterOffset(index, parseInt(e.target.value) || 0)}
-                    className="w-12 h-6 text-[10px] text-center p-1"
-                    min={-50}
-                    max={50}
-                    placeholder="Y"
+                    value={barcode.heightMm}
+                    onChange={(e) => onUpdateSlot({ barcode: { ...barcode, heightMm: Math.max(1, parseFloat(e.target.value) || 1) } })}
+                    step={0.5}
+                    min={1}
+                    className="h-8 text-sm bg-background"
                   />
                 </div>
-              ))}
+              ) : null}
+
+              <label className="flex items-center gap-2 text-xs text-foreground">
+                <input
+                  type="checkbox"
+                  checked={barcode.showText}
+                  onChange={(e) => onUpdateSlot({ barcode: { ...barcode, showText: e.target.checked } })}
+                />
+                Human-readable text
+              </label>
+
+              <InkColorField label="Bar Color" color={slot.color} ink={slot.ink} onChange={onUpdateSlot} />
             </div>
-            <p className="text-[10px] text-muted-foreground text-center">
-              Adjust font size for each letter individually
-            </p>
-          </div>
 
-          {/* Default Font Size */}
-          <div className="space-y-1.5">
-            <Label className="text-xs text-foreground">Default Font Size (px)</Label>
-            <div className="flex items-center gap-2">
-              <Slider
-                value={[slot.defaultFontSize]}
-                onValueChange={([v]) => onUpdateSlot({ defaultFontSize: v })}
-                min={8}
-                max={72}
-                step={1}
-                className="flex-1"
-              />
-              <Input
-                type="number"
-                value={slot.defaultFontSize}
-                onChange={(e) => onUpdateSlot({ defaultFontSize: parseInt(e.target.value) || 14 })}
-                className="w-16 h-7 text-xs"
-                min={8}
-                max={72}
-              />
+            <Separator />
+          </>
+        ) : (
+          <>
+          {/* Per-Letter Font Size Control */}
+          <div className="space-y-3">
+            <Label className="text-xs text-muted-foreground uppercase tracking-wide flex items-center gap-2">
+              <Type className="h-3 w-3" />
+              Per-Letter Font Size
+            </Label>
+          
+            <div className="bg-muted/30 rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-center gap-1 flex-wrap">
+                {slot.value.split('').map((letter, index) => (
+                  <div
+                    key={index}
+                    className="flex flex-col items-center bg-background rounded px-2 py-1 border border-border gap-1"
+                  >
+                    <span
+                      className="font-mono font-bold"
+                      style={{
+                        fontSize: Math.min(slot.letterStyles[index]?.fontSize || slot.defaultFontSize, 24),
+                        color: slot.color,
+                      }}
+                    >
+                      {letter}
+                    </span>
+                    <Input
+                      type="number"
+                      value={slot.letterStyles[index]?.fontSize || slot.defaultFontSize}
+                      onChange={(e) => onUpdateLetterFontSize(index, parseInt(e.target.value) || 12)}
+                      className="w-12 h-6 text-[10px] text-center p-1"
+                      min={8}
+                      max={72}
+                    />
+                    <Input
+                      type="number"
+                      value={slot.letterStyles[index]?.offsetY || 0}
+                      onChange={(e) => onUpdateLetterOffset(index, parseInt(e.target.value) || 0)}
+                      className="w-12 h-6 text-[10px] text-center p-1"
+                      min={-50}
+                      max={50}
+                      placeholder="Y"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-[10px] text-muted-foreground text-center">
+                Adjust font size for each letter individually
+              </p>
+            </div>
+
+            {/* Default Font Size */}
+            <div className="space-y-1.5">
+              <Label className="text-xs text-foreground">Default Font Size (px)</Label>
+              <div className="flex items-center gap-2">
+                <Slider
+                  value={[slot.defaultFontSize]}
+                  onValueChange={([v]) => onUpdateSlot({ defaultFontSize: v })}
+                  min={8}
+                  max={72}
+                  step={1}
+                  className="flex-1"
+                />
+                <Input
+                  type="number"
+                  value={slot.defaultFontSize}
+                  onChange={(e) => onUpdateSlot({ defaultFontSize: parseInt(e.target.value) || 14 })}
+                  className="w-16 h-7 text-xs"
+                  min={8}
+                  max={72}
+                />
+              </div>
             </div>
           </div>
-        </div>
 
-        <Separator />
+          <Separator />
 
-        {/* Typography */}
-        <div className="space-y-3">
-          <Label className="text-xs text-muted-foreground uppercase tracking-wide">Typography</Label>
+          {/* Typography */}
+          <div className="space-y-3">
+            <Label className="text-xs text-muted-foreground uppercase tracking-wide">Typography</Label>
           
-          <div className="space-y-1.5">
-            <Label className="text-xs text-foreground">Font Family</Label>
-            <select
-              value={slot.fontFamily}
-              onChange={(e) => onUpdateSlot({ fontFamily: e.target.value })}
-              className="w-full h-8 px-2 rounded border border-input bg-background text-sm"
-            >
-              {(availableFonts || []).map((font) => (
-                <option key={font} value={font}>
-                  {font}
-                </option>
-              ))}
-            </select>
-          </div>
-
-          <div className="space-y-1.5">
-            <Label className="text-xs text-foreground">Text Color</Label>
-            <div className="flex gap-2">
-              <Input
-                type="color"
-                value={slot.color}
-                onChange={(e) => onUpdateSlot({ color: e.target.value })}
-                className="w-10 h-8 p-0.5 cursor-pointer"
-              />
-              <Input
-                type="text"
-                value={slot.color}
-                onChange={(e) => onUpdateSlot({ color: e.target.value })}
-                className="flex-1 h-8 text-xs font-mono"
-              />
+            <div className="space-y-1.5">
+              <Label className="text-xs text-foreground">Font Family</Label>
+              <select
+                value={slot.fontFamily}
+                onChange={(e) => onUpdateSlot({ fontFamily: e.target.value })}
+                className="w-full h-8 px-2 rounded border border-input bg-background text-sm"
+              >
+                {libraryFonts?.length ? (
+                  <optgroup label="Font library">
+                    {libraryFonts.map((font) => (
+                      <option key={font} value={font}>
+                        {font}
+                      </option>
+                    ))}
+                  </optgroup>
+                ) : null}
+                <optgroup label="System fonts">
+                  {(availableFonts || [])
+                    .filter((font) => !libraryFonts?.includes(font))
+                    .map((font) => (
+                      <option key={font} value={font}>
+                        {font}
+                      </option>
+                    ))}
+                </optgroup>
+              </select>
+              {missingGlyphs?.length ? (
+                <p className="text-[10px] text-destructive">
+                  No glyph in this font for {missingGlyphs.map((c) => `"${c}"`).join(' ')}
+                </p>
+              ) : null}
             </div>
-          </div>
 
-          <div className="space-y-1.5">
-            <Label className="text-xs text-foreground">Text Alignment</Label>
-            <div className="flex gap-1">
-              {(['left', 'center', 'right'] as const).map((align) => (
-                <button
-                  key={align}
-                  onClick={() => onUpdateSlot({ textAlign: align })}
-                  className={`flex-1 h-8 rounded border text-xs capitalize transition-colors ${
-                    slot.textAlign === align
-                      ? 'bg-primary text-primary-foreground border-primary'
-                      : 'bg-background border-input hover:bg-muted'
-                  }`}
-                >
-                  {align}
-                </button>
-              ))}
+            <InkColorField label="Text Color" color={slot.color} ink={slot.ink} onChange={onUpdateSlot} />
+
+            <div className="space-y-1.5">
+              <Label className="text-xs text-foreground">Text Alignment</Label>
+              <div className="flex gap-1">
+                {(['left', 'center', 'right'] as const).map((align) => (
+                  <button
+                    key={align}
+                    onClick={() => onUpdateSlot({ textAlign: align })}
+                    className={`flex-1 h-8 rounded border text-xs capitalize transition-colors ${
+                      slot.textAlign === align
+                        ? 'bg-primary text-primary-foreground border-primary'
+                        : 'bg-background border-input hover:bg-muted'
+                    }`}
+                  >
+                    {align}
+                  </button>
+                ))}
+              </div>
             </div>
-          </div>
 
-          <div className="space-y-1.5">
-            <Label className="text-xs text-foreground">Letter Spacing (px)</Label>
-            <div className="flex items-center gap-2">
-              <Slider
-                value={[Number(slot.letterSpacingPx ?? 0)]}
-                onValueChange={([v]) => onUpdateSlot({ letterSpacingPx: v })}
-                min={0}
-                max={50}
-                step={1}
-                className="flex-1"
-              />
-              <Input
-                type="number"
-                value={Number(slot.letterSpacingPx ?? 0)}
-                onChange={(e) => onUpdateSlot({ letterSpacingPx: Math.max(0, parseInt(e.target.value) || 0) })}
-                className="w-16 h-7 text-xs"
-                min={0}
-                max={200}
-              />
+            <div className="space-y-1.5">
+              <Label className="text-xs text-foreground">Letter Spacing (px)</Label>
+              <div className="flex items-center gap-2">
+                <Slider
+                  value={[Number(slot.letterSpacingPx ?? 0)]}
+                  onValueChange={([v]) => onUpdateSlot({ letterSpacingPx: v })}
+                  min={0}
+                  max={50}
+                  step={1}
+                  className="flex-1"
+                />
+                <Input
+                  type="number"
+                  value={Number(slot.letterSpacingPx ?? 0)}
+                  onChange={(e) => onUpdateSlot({ letterSpacingPx: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className="w-16 h-7 text-xs"
+                  min={0}
+                  max={200}
+                />
+              </div>
             </div>
           </div>
-        </div>
 
-        <Separator />
+          <Separator />
+          </>
+        )}
 
         {/* Slot Frame */}
         <div className="space-y-3">
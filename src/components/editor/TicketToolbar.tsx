@@ -1,9 +1,27 @@
 import React from 'react';
-import { Plus, Trash2, Printer, Eye, Sparkles } from 'lucide-react';
+import { Plus, Trash2, Printer, Eye, Sparkles, Barcode, FileSearch } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
+import { VariableDataPreview } from './VariableDataPreview';
+import { ImpositionSettingsPanel } from './ImpositionSettingsPanel';
+import { PrinterMarksPanel } from './PrinterMarksPanel';
+import { DuplexPanel } from './DuplexPanel';
+import { ColorOutputPanel } from './ColorOutputPanel';
+import { BatchSettingsPanel } from './BatchSettingsPanel';
+import { SeriesRegisterPanel } from './SeriesRegisterPanel';
+import { LayoutTemplatesPanel } from './LayoutTemplatesPanel';
+import { SnapSettingsPanel } from './SnapSettingsPanel';
+import type { LayoutTemplate, LayoutTemplateRecord } from '@/utils/layoutTemplate';
+import type { SnapSettings } from '@/utils/snapping';
+import type { PrinterMarksSettings } from '@/utils/printerMarks';
+import type { DuplexSettings, DuplexSide } from '@/utils/duplex';
+import type { ColorOutputSettings } from '@/utils/printColor';
+import type { SeriesScope } from '@/utils/seriesRegister';
+import { clampTotalPages, MAX_TOTAL_PAGES, type BatchRun, type BatchSettings } from '@/utils/jobBatches';
+import type { ImpositionLayout, ImpositionSettings } from '@/utils/imposition';
+import { VARIABLE_DATA_ACCEPT, type VariableDataTable } from '@/utils/variableData';
 
 interface TicketToolbarProps {
   hasSeriesSlot: boolean;
@@ -11,19 +29,63 @@ interface TicketToolbarProps {
   hasValidTicketRegion: boolean;
   generateDisabledReason?: string | null;
   startingSeries: string;
+  startingSeriesDisplay?: string;
   endingSeries: string;
   totalPages: number;
+  ticketsPerPage?: number;
+  variableData?: VariableDataTable | null;
+  impositionSettings?: ImpositionSettings;
+  impositionLayout?: ImpositionLayout | null;
+  impositionError?: string | null;
+  printerMarks?: PrinterMarksSettings;
+  printerMarksError?: string | null;
+  duplex?: DuplexSettings;
+  duplexError?: string | null;
+  activeSide?: DuplexSide;
+  backArtworkName?: string | null;
+  colorOutput?: ColorOutputSettings;
+  softProof?: boolean;
+  batches?: BatchSettings;
+  batchRun?: BatchRun | null;
+  seriesScope?: SeriesScope;
+  documentId?: string | null;
+  authToken?: string | null;
   isGenerating: boolean;
   lastPreviewId: string | null;
 
   onAddSeriesSlot: () => void;
+  onAddBarcodeSlot?: () => void;
   onDeleteSeriesSlot: () => void;
   onStartingSeriesChange: (value: string) => void;
   onTotalPagesChange: (value: number) => void;
   onGenerateOutput: () => void;
   onViewAndPrint: () => void;
+  // Opens the local pdf-lib proof of the first pages
+  onOpenProof: () => void;
   onUploadFont: (file: File) => void;
   onUploadImage: (file: File) => void;
+  onImportVariableData?: (file: File) => void;
+  onClearVariableData?: () => void;
+  onImpositionChange?: (updates: Partial<ImpositionSettings>) => void;
+  onPrinterMarksChange?: (updates: Partial<PrinterMarksSettings>) => void;
+  onDuplexChange?: (updates: Partial<DuplexSettings>) => void;
+  onActiveSideChange?: (side: DuplexSide) => void;
+  onUploadBackArtwork?: (file: File) => void;
+  onClearBackArtwork?: () => void;
+  onColorOutputChange?: (updates: Partial<ColorOutputSettings>) => void;
+  onSoftProofChange?: (softProof: boolean) => void;
+  onBatchesChange?: (updates: Partial<BatchSettings>) => void;
+  // Re-submits the failed batches of batchRun alone, then merges
+  onRetryFailedBatches?: () => void;
+  onSeriesScopeChange?: (updates: Partial<SeriesScope>) => void;
+  onCaptureTemplate?: () => LayoutTemplate | null;
+  onApplyTemplate?: (record: LayoutTemplateRecord) => void;
+  snapSettings?: SnapSettings;
+  showRulers?: boolean;
+  guideCount?: number;
+  onSnapSettingsChange?: (updates: Partial<SnapSettings>) => void;
+  onShowRulersChange?: (show: boolean) => void;
+  onClearGuides?: () => void;
 }
 
 export const TicketToolbar: React.FC<TicketToolbarProps> = ({
@@ -32,19 +94,61 @@ export const TicketToolbar: React.FC<TicketToolbarProps> = ({
   hasValidTicketRegion,
   generateDisabledReason,
   startingSeries,
+  startingSeriesDisplay,
   endingSeries,
   totalPages,
+  ticketsPerPage = 4,
+  variableData,
+  impositionSettings,
+  impositionLayout,
+  impositionError,
+  printerMarks,
+  printerMarksError,
+  duplex,
+  duplexError,
+  activeSide = 'front',
+  backArtworkName,
+  colorOutput,
+  softProof = false,
+  batches,
+  batchRun,
+  seriesScope,
+  documentId,
+  authToken,
   isGenerating,
   lastPreviewId,
 
   onAddSeriesSlot,
+  onAddBarcodeSlot,
   onDeleteSeriesSlot,
   onStartingSeriesChange,
   onTotalPagesChange,
   onGenerateOutput,
   onViewAndPrint,
+  onOpenProof,
   onUploadFont,
   onUploadImage,
+  onImportVariableData,
+  onClearVariableData,
+  onImpositionChange,
+  onPrinterMarksChange,
+  onDuplexChange,
+  onActiveSideChange,
+  onUploadBackArtwork,
+  onClearBackArtwork,
+  onColorOutputChange,
+  onSoftProofChange,
+  onBatchesChange,
+  onRetryFailedBatches,
+  onSeriesScopeChange,
+  onCaptureTemplate,
+  onApplyTemplate,
+  snapSettings,
+  showRulers = true,
+  guideCount = 0,
+  onSnapSettingsChange,
+  onShowRulersChange,
+  onClearGuides,
 }) => {
   return (
     <div className="w-56 bg-card border-r border-border flex flex-col">
@@ -71,6 +175,18 @@ export const TicketToolbar: React.FC<TicketToolbarProps> = ({
               Add Series Slot
             </Button>
 
+            {onAddBarcodeSlot && (
+              <Button
+                onClick={onAddBarcodeSlot}
+                variant="outline"
+                size="sm"
+                className="w-full gap-2"
+              >
+                <Barcode className="h-4 w-4" />
+                Add Barcode / QR
+              </Button>
+            )}
+
             {hasSeriesSlot && (
               <Button
                 onClick={onDeleteSeriesSlot}
@@ -113,13 +229,13 @@ export const TicketToolbar: React.FC<TicketToolbarProps> = ({
             <Input
               type="number"
               value={totalPages}
-              onChange={(e) => onTotalPagesChange(Math.max(1, parseInt(e.target.value) || 1))}
+              onChange={(e) => onTotalPagesChange(clampTotalPages(parseInt(e.target.value)))}
               min={1}
-              max={500}
+              max={MAX_TOTAL_PAGES}
               className="h-8 text-sm bg-background"
             />
             <p className="text-[10px] text-primary font-medium">
-              {totalPages * 4} tickets total (4 per page)
+              {totalPages * ticketsPerPage} tickets total ({ticketsPerPage} per sheet)
             </p>
           </div>
 
@@ -127,13 +243,149 @@ export const TicketToolbar: React.FC<TicketToolbarProps> = ({
           <div className="p-2 bg-muted/50 rounded border border-border">
             <p className="text-[10px] text-muted-foreground mb-1">Series Range</p>
             <p className="text-xs font-mono font-medium text-foreground">
-              {startingSeries} → {endingSeries}
+              {startingSeriesDisplay ?? startingSeries} → {endingSeries}
             </p>
           </div>
         </div>
 
         <Separator />
 
+        {/* Client and event the job's ranges are reserved under */}
+        {seriesScope && onSeriesScopeChange && (
+          <>
+            <SeriesRegisterPanel scope={seriesScope} onChange={onSeriesScopeChange} />
+
+            <Separator />
+          </>
+        )}
+
+        {/* Saved layouts (per document and shared library) */}
+        {documentId && onCaptureTemplate && onApplyTemplate && (
+          <>
+            <LayoutTemplatesPanel documentId={documentId} token={authToken ?? null} onCapture={onCaptureTemplate} onApply={onApplyTemplate} />
+
+            <Separator />
+          </>
+        )}
+
+        {/* Rulers, guides, grid and smart-guide snapping */}
+        {snapSettings && onSnapSettingsChange && onShowRulersChange && onClearGuides && (
+          <>
+            <SnapSettingsPanel
+              settings={snapSettings}
+              showRulers={showRulers}
+              guideCount={guideCount}
+              onChange={onSnapSettingsChange}
+              onShowRulersChange={onShowRulersChange}
+              onClearGuides={onClearGuides}
+            />
+
+            <Separator />
+          </>
+        )}
+
+        {/* Sheet size and N-up grid */}
+        {impositionSettings && onImpositionChange && (
+          <>
+            <ImpositionSettingsPanel
+              settings={impositionSettings}
+              layout={impositionLayout ?? null}
+              error={impositionError}
+              onChange={onImpositionChange}
+            />
+
+            <Separator />
+          </>
+        )}
+
+        {/* Bleed, crop marks, registration, slug */}
+        {printerMarks && onPrinterMarksChange && (
+          <>
+            <PrinterMarksPanel settings={printerMarks} error={printerMarksError} onChange={onPrinterMarksChange} />
+
+            <Separator />
+          </>
+        )}
+
+        {/* Back side artwork, slots and flip */}
+        {duplex && onDuplexChange && onActiveSideChange && onUploadBackArtwork && onClearBackArtwork && (
+          <>
+            <DuplexPanel
+              settings={duplex}
+              error={duplexError}
+              activeSide={activeSide}
+              backArtworkName={backArtworkName}
+              onChange={onDuplexChange}
+              onActiveSideChange={onActiveSideChange}
+              onUploadBackArtwork={onUploadBackArtwork}
+              onClearBackArtwork={onClearBackArtwork}
+            />
+
+            <Separator />
+          </>
+        )}
+
+        {/* CMYK output, ICC profile and soft proof */}
+        {colorOutput && onColorOutputChange && onSoftProofChange && (
+          <>
+            <ColorOutputPanel settings={colorOutput} softProof={softProof} onChange={onColorOutputChange} onSoftProofChange={onSoftProofChange} />
+
+            <Separator />
+          </>
+        )}
+
+        {/* Splitting large runs into batches */}
+        {batches && onBatchesChange && onRetryFailedBatches && (
+          <>
+            <BatchSettingsPanel
+              settings={batches}
+              totalPages={totalPages}
+              run={batchRun}
+              isGenerating={isGenerating}
+              onChange={onBatchesChange}
+              onRetryFailed={onRetryFailedBatches}
+            />
+
+            <Separator />
+          </>
+        )}
+
+        {/* Variable Data (CSV / XLSX) */}
+        {onImportVariableData && (
+          <>
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground uppercase tracking-wide">Variable Data</Label>
+              {variableData ? (
+                <VariableDataPreview
+                  table={variableData}
+                  ticketsRequired={totalPages * ticketsPerPage}
+                  onClear={() => onClearVariableData?.()}
+                />
+              ) : (
+                <>
+                  <input
+                    type="file"
+                    accept={VARIABLE_DATA_ACCEPT}
+                    className="block w-full text-[10px] text-muted-foreground file:mr-2 file:py-1 file:px-2 file:text-[10px] file:rounded file:border-0 file:bg-primary/10 file:text-primary cursor-pointer"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) {
+                        onImportVariableData(file);
+                        e.target.value = '';
+                      }
+                    }}
+                  />
+                  <p className="text-[10px] text-muted-foreground">
+                    CSV or XLSX, first row = column names. Bind columns to slots in Slot Properties.
+                  </p>
+                </>
+              )}
+            </div>
+
+            <Separator />
+          </>
+        )}
+
         {/* Generate & Preview */}
         <div className="space-y-2">
           <Label className="text-xs text-muted-foreground uppercase tracking-wide">Output</Label>
@@ -148,6 +400,17 @@ export const TicketToolbar: React.FC<TicketToolbarProps> = ({
             {isGenerating ? 'Generating...' : 'Generate Output'}
           </Button>
 
+          <Button
+            onClick={onOpenProof}
+            disabled={!startingSeries || Boolean(generateDisabledReason)}
+            variant="outline"
+            size="sm"
+            className="w-full gap-2"
+          >
+            <FileSearch className="h-4 w-4" />
+            Local Proof
+          </Button>
+
           {generateDisabledReason ? (
             <div className="text-[10px] text-destructive">
               {generateDisabledReason}
@@ -169,9 +432,9 @@ export const TicketToolbar: React.FC<TicketToolbarProps> = ({
 
         <Separator />
 
-        {/* Custom Fonts */}
+        {/* Font library */}
         <div className="space-y-2">
-          <Label className="text-xs text-muted-foreground uppercase tracking-wide">Custom Font</Label>
+          <Label className="text-xs text-muted-foreground uppercase tracking-wide">Font Library</Label>
           <input
             type="file"
             accept=".ttf,.otf,.woff,.woff2"
@@ -185,7 +448,7 @@ export const TicketToolbar: React.FC<TicketToolbarProps> = ({
             }}
           />
           <p className="text-[10px] text-muted-foreground">
-            Upload .ttf, .otf, .woff for this session
+            Upload .ttf, .otf, .woff, .woff2 to the shared font library
           </p>
         </div>
 
@@ -0,0 +1,67 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { VariableDataTable } from '@/utils/variableData';
+
+interface VariableDataPreviewProps {
+  table: VariableDataTable;
+  ticketsRequired: number;
+  onClear: () => void;
+  previewRows?: number;
+}
+
+export const VariableDataPreview: React.FC<VariableDataPreviewProps> = ({ table, ticketsRequired, onClear, previewRows = 5 }) => {
+  const short = table.rows.length < ticketsRequired;
+  const extra = table.rows.length - ticketsRequired;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-xs font-medium text-foreground truncate" title={table.fileName}>
+            {table.fileName}
+          </p>
+          <p className="text-[10px] text-muted-foreground">
+            {table.rows.length} rows · {table.columns.length} columns
+          </p>
+        </div>
+        <Button onClick={onClear} variant="ghost" size="icon" className="h-6 w-6 shrink-0" title="Remove data file">
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <p className={`text-[10px] ${short ? 'text-destructive' : 'text-primary'}`}>
+        {short
+          ? `${ticketsRequired - table.rows.length} rows short of ${ticketsRequired} tickets`
+          : extra > 0
+            ? `Covers ${ticketsRequired} tickets; last ${extra} rows unused`
+            : `Exactly ${ticketsRequired} tickets`}
+      </p>
+
+      <div className="overflow-auto rounded border border-border max-h-40">
+        <table className="text-[10px] font-mono">
+          <thead className="bg-muted/50">
+            <tr>
+              {table.columns.map((column) => (
+                <th key={column} className="px-1.5 py-1 text-left font-medium text-muted-foreground whitespace-nowrap">
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.slice(0, previewRows).map((row, idx) => (
+              <tr key={idx} className="border-t border-border">
+                {row.map((cell, c) => (
+                  <td key={c} className="px-1.5 py-0.5 whitespace-nowrap text-foreground">
+                    {cell}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -15,6 +15,8 @@ import { TicketPropertiesPanel } from './TicketPropertiesPanel';
 import { DocumentPreview } from './DocumentPreview';
 import { SeriesSlot, SeriesSlotData } from './SeriesSlot';
 import { buildFinalRenderPayload } from '@/utils/buildFinalRenderPayload';
+import { calculateEndingSeries, seriesFormatOf, seriesValueAt } from '@/utils/seriesEngine';
+import { checkDigitConfigOf, withCheckDigit } from '@/utils/checkDigits';
 import TicketEditor from './TicketEditor';
 
 type EditorProxy = {
@@ -84,17 +86,6 @@ const formatPt = (v: number) => {
   return String(Math.round(v * 100) / 100);
 };
 
-const calculateEndingSeries = (start: string, totalTickets: number): string => {
-  const match = start.match(/^(.*?)(\d+)$/);
-  if (match) {
-    const [, prefix, numStr] = match;
-    const startNum = parseInt(numStr, 10);
-    const endNum = startNum + totalTickets - 1;
-    return `${prefix}${endNum.toString().padStart(numStr.length, '0')}`;
-  }
-  return start;
-};
-
 export const VectorProxyEditor: React.FC<{
   documentId: string;
   onGenerate?: () => void;
@@ -512,90 +503,13 @@ export const VectorProxyEditor: React.FC<{
     }
   }, [documentId, placement, token]);
 
-  const endingSeries = useMemo(() => calculateEndingSeries(startingSeries, totalPages * 4), [startingSeries, totalPages]);
-
-  const formatSeriesValue = useCallback((prefix: string, num: number, width: number) => {
-    const raw = String(Math.trunc(num));
-    if (width > 0) {
-      const padded = raw.padStart(width, '0');
-      const finalDigits = padded.length > width ? padded.slice(padded.length - width) : padded;
-      return `${prefix}${finalDigits}`;
-    }
-    return `${prefix}${raw}`;
-  }, []);
-
-  const applyNumericTemplate = useCallback((template: string, digits: string) => {
-    const out: string[] = [];
-    let j = 0;
-    for (let i = 0; i < template.length; i += 1) {
-      const ch = template[i] ?? '';
-      if (ch >= '0' && ch <= '9') {
-        out.push(digits[j] ?? '0');
-        j += 1;
-      } else {
-        out.push(ch);
-      }
-    }
-    return out.join('');
-  }, []);
-
-  const parseSeriesPattern = useCallback((value: string) => {
-    const str = String(value ?? '');
-    let end = str.length - 1;
-    while (end >= 0 && str[end] === ' ') end -= 1;
-    if (end < 0) return null;
-    if (str[end] < '0' || str[end] > '9') return null;
-
-    let i = end;
-    const numericPartReversed: string[] = [];
-
-    while (i >= 0) {
-      const ch = str[i];
-      if (ch >= '0' && ch <= '9') {
-        numericPartReversed.push(ch);
-        i -= 1;
-        continue;
-      }
-      if (ch === ' ') {
-        const prev = i > 0 ? str[i - 1] : '';
-        if (prev >= '0' && prev <= '9') {
-          numericPartReversed.push(ch);
-          i -= 1;
-          continue;
-        }
-      }
-      break;
-    }
-
-    const numericPart = numericPartReversed.reverse().join('');
-    const digits = numericPart.replace(/\s+/g, '');
-    if (!digits) return null;
-    return { prefix: str.slice(0, i + 1), digits, numericPart };
-  }, []);
-
-  const sanitizeSeriesInput = useCallback(
-    (value: string) => {
-      const parsed = parseSeriesPattern(value);
-      if (!parsed) return value;
-      return `${parsed.prefix}${parsed.digits}`;
-    },
-    [parseSeriesPattern]
-  );
-
-  const incrementSeries = useCallback((value: string, increment: number): string => {
-    const parsed = parseSeriesPattern(value);
-    if (parsed) {
-      const num = parseInt(parsed.digits, 10);
-      const endNum = num + increment;
-      if (parsed.numericPart && /\s/.test(parsed.numericPart)) {
-        const numStr = String(Math.trunc(endNum)).padStart(parsed.digits.length, '0');
-        const finalDigits = numStr.length > parsed.digits.length ? numStr.slice(numStr.length - parsed.digits.length) : numStr;
-        return `${parsed.prefix}${applyNumericTemplate(parsed.numericPart, finalDigits)}`;
-      }
-      return formatSeriesValue(parsed.prefix, endNum, parsed.digits.length);
+  const endingSeries = useMemo(() => {
+    try {
+      return calculateEndingSeries(startingSeries, totalPages * 4, seriesSlots[0] ? seriesFormatOf(seriesSlots[0]) : {});
+    } catch {
+      return '—';
     }
-    return value;
-  }, [applyNumericTemplate, parseSeriesPattern, formatSeriesValue]);
+  }, [seriesSlots, startingSeries, totalPages]);
 
   const handleGenerateOutput = useCallback(async () => {
     if (isGenerating) {
@@ -629,8 +543,7 @@ export const VectorProxyEditor: React.FC<{
 
           seriesSlots.forEach((slot) => {
             const slotBaseSeries = slot.startingSeries || slot.value || startingSeries;
-            const inc = slot.seriesIncrement ?? 1;
-            const seriesValue = incrementSeries(slotBaseSeries, globalIdx * inc);
+            const seriesValue = withCheckDigit(seriesValueAt(slotBaseSeries, globalIdx, seriesFormatOf(slot)), checkDigitConfigOf(slot));
 
             const letterStyles = seriesValue.split('').map((_, idx) => {
               const baseStyle = slot.letterStyles?.[idx];
@@ -665,46 +578,13 @@ export const VectorProxyEditor: React.FC<{
         throw new Error('Output pages array is empty');
       }
 
-      const endSeries = incrementSeries(primaryBaseSeries, totalTickets - 1);
+      const endSeries = calculateEndingSeries(primaryBaseSeries, totalTickets, primarySlot ? seriesFormatOf(primarySlot) : {});
       if (!token) throw new Error('Not authenticated');
       if (!documentId) throw new Error('Missing documentId');
 
       const firstPage = pages[0];
       if (!firstPage) throw new Error('No pages to generate');
 
-      const series = firstPage.seriesSlots.map((slot) => {
-        const firstTicket = firstPage.tickets?.[0];
-        const firstSeriesValue = firstTicket?.seriesBySlot?.[slot.id]?.seriesValue ?? '';
-        const parsed = parseSeriesPattern(firstSeriesValue);
-        const letterStyles = firstTicket?.seriesBySlot?.[slot.id]?.letterStyles;
-        const basePx = Number(slot.defaultFontSize || 0);
-        const rawFontSizes = Array.isArray(letterStyles) ? letterStyles.map((ls) => Number(ls?.fontSize || 0)) : null;
-        const rawOffsets = Array.isArray(letterStyles) ? letterStyles.map((ls) => Number(ls?.offsetY || 0)) : null;
-        const hasFontSizeCustomization =
-          Array.isArray(rawFontSizes) &&
-          Number.isFinite(basePx) &&
-          basePx > 0 &&
-          rawFontSizes.some((px) => Number.isFinite(px) && px > 0 && Math.abs(px - basePx) > 1e-6);
-
-        const hasOffsetCustomization = Array.isArray(rawOffsets) && rawOffsets.some((oy) => Number.isFinite(oy) && Math.abs(oy) > 1e-9);
-
-        const letterFontSizes = hasFontSizeCustomization && rawFontSizes ? rawFontSizes : undefined;
-        const letterOffsets = hasOffsetCustomization && rawOffsets ? rawOffsets : undefined;
-
-        return {
-          id: slot.id,
-          prefix: parsed?.prefix ?? '',
-          start: parsed ? Number(parsed.digits) : 1,
-          step: Number.isFinite((slot as any).seriesIncrement) ? Number((slot as any).seriesIncrement) : 1,
-          padLength: parsed ? parsed.digits.length : 0,
-          font: slot.fontFamily || 'Helvetica',
-          fontSize: slot.defaultFontSize || 24,
-          letterFontSizes,
-          letterOffsets,
-          slots: [{ xRatio: slot.x, yRatio: slot.y }],
-        };
-      });
-
       const widthMm = ticketCropMm?.widthMm;
       const heightMm = ticketCropMm?.heightMm;
       const hasUserMm =
@@ -734,36 +614,52 @@ export const VectorProxyEditor: React.FC<{
             : null,
       } as const;
 
-      const slot0 = seriesSlots[0];
       const jobId = typeof crypto !== 'undefined' && 'randomUUID' in crypto ? (crypto as any).randomUUID() : `${Date.now()}-${Math.random()}`;
 
       const pxToMm = (px: number) => px * 0.264583;
-      const resolvedXMm = slot0?.x_mm ?? null;
-      const resolvedYMm = slot0?.y_mm ?? null;
-      if (!(typeof resolvedXMm === 'number' && Number.isFinite(resolvedXMm) && typeof resolvedYMm === 'number' && Number.isFinite(resolvedYMm))) {
-        throw new Error('Place series by clicking on the SVG first (missing x_mm/y_mm)');
-      }
+      // Every slot with the format and check digit its preview values use
+      const seriesList = seriesSlots.map((slot) => {
+        const slotX = slot.x_mm;
+        const slotY = slot.y_mm;
+        if (!(typeof slotX === 'number' && Number.isFinite(slotX) && typeof slotY === 'number' && Number.isFinite(slotY))) {
+          throw new Error('Place series by clicking on the SVG first (missing x_mm/y_mm)');
+        }
 
-      const slotDefaultFontSizePx = Number(slot0?.defaultFontSize);
-      if (!(Number.isFinite(slotDefaultFontSizePx) && slotDefaultFontSizePx > 0)) {
-        throw new Error('Invalid default font size (px)');
-      }
-      const resolvedFontSizeMm = pxToMm(slotDefaultFontSizePx);
-      const resolvedFontFamily = String(slot0?.fontFamily || 'Helvetica');
-      const resolvedLetterSpacingMm = (() => {
-        const px = Number(slot0?.letterSpacingPx ?? 0);
-        return Number.isFinite(px) && px > 0 ? pxToMm(px) : 0;
-      })();
-      const perLetterFontSizeMm = (() => {
-        if (!startingSeries) return undefined;
-        const chars = String(startingSeries).split('');
-        const sizes = chars.map((_, idx) => {
-          const px = Number(slot0?.letterStyles?.[idx]?.fontSize ?? slotDefaultFontSizePx);
-          return Number.isFinite(px) && px > 0 ? pxToMm(px) : resolvedFontSizeMm;
-        });
-        const hasCustomization = sizes.some((mm) => Math.abs(mm - resolvedFontSizeMm) > 1e-6);
-        return hasCustomization ? sizes : undefined;
-      })();
+        const slotDefaultFontSizePx = Number(slot.defaultFontSize);
+        if (!(Number.isFinite(slotDefaultFontSizePx) && slotDefaultFontSizePx > 0)) {
+          throw new Error('Invalid default font size (px)');
+        }
+        const fontSizeMm = pxToMm(slotDefaultFontSizePx);
+        const start = String(slot.startingSeries || slot.value || startingSeries || '').trimEnd();
+        const perLetterFontSizeMm = (() => {
+          if (!start) return undefined;
+          const sizes = start.split('').map((_, idx) => {
+            const px = Number(slot.letterStyles?.[idx]?.fontSize ?? slotDefaultFontSizePx);
+            return Number.isFinite(px) && px > 0 ? pxToMm(px) : fontSizeMm;
+          });
+          return sizes.some((mm) => Math.abs(mm - fontSizeMm) > 1e-6) ? sizes : undefined;
+        })();
+        const letterSpacingPx = Number(slot.letterSpacingPx ?? 0);
+        const format = seriesFormatOf(slot);
+        const step = format.step ?? 1;
+
+        return {
+          start,
+          count: totalTickets,
+          fontFamily: String(slot.fontFamily || 'Helvetica'),
+          fontSizeMm,
+          perLetterFontSizeMm,
+          xMm: slotX,
+          yMm: slotY,
+          letterSpacingMm: Number.isFinite(letterSpacingPx) && letterSpacingPx > 0 ? pxToMm(letterSpacingPx) : 0,
+          rotationDeg: Number(slot.rotation ?? 0),
+          color: String(slot.color || '#000000'),
+          checkDigit: checkDigitConfigOf(slot),
+          ...(step !== 1 ? { step } : {}),
+          ...(slot.seriesAlphabet ? { alphabet: slot.seriesAlphabet } : {}),
+          rollover: format.rollover,
+        };
+      });
 
       const payload = buildFinalRenderPayload({
         jobId,
@@ -776,16 +672,7 @@ export const VectorProxyEditor: React.FC<{
         objectRotationDeg: mm.rotationDeg,
         objectKeepProportions: mm.keepProportions,
         objectCutMarginMm: mm.cutMarginMm,
-        seriesStart: startingSeries,
-        seriesCount: totalPages * 4,
-        seriesXMm: resolvedXMm,
-        seriesYMm: resolvedYMm,
-        seriesFontFamily: resolvedFontFamily,
-        seriesFontSizeMm: resolvedFontSizeMm,
-        perLetterFontSizeMm,
-        seriesLetterSpacingMm: resolvedLetterSpacingMm,
-        seriesRotationDeg: 0,
-        seriesColor: String(slot0?.color || '#000000'),
+        seriesList,
       });
 
       console.log('[FINAL_ENGINE_PAYLOAD]', payload);
@@ -832,7 +719,7 @@ export const VectorProxyEditor: React.FC<{
     } finally {
       setIsGenerating(false);
     }
-  }, [customFonts, documentId, fileType, incrementSeries, isGenerating, seriesSlots, slotSpacingPt, startingSeries, ticketRegion, totalPages, token]);
+  }, [customFonts, documentId, fileType, isGenerating, seriesSlots, slotSpacingPt, startingSeries, ticketRegion, totalPages, token]);
 
   const handleViewAndPrint = useCallback(() => {
     if (!lastPreviewId) return;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Maximize, MoveHorizontal, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { formatZoom, MAX_ZOOM, MIN_ZOOM, type FitMode } from '@/utils/canvasZoom';
+
+interface ZoomControlsProps {
+  zoom: number;
+  fitMode: FitMode | null;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onFit: (mode: FitMode) => void;
+}
+
+export const ZoomControls: React.FC<ZoomControlsProps> = ({ zoom, fitMode, onZoomIn, onZoomOut, onFit }) => {
+  const fitButton = (mode: FitMode, title: string, content: React.ReactNode) => (
+    <Button onClick={() => onFit(mode)} variant={fitMode === mode ? 'secondary' : 'ghost'} size="sm" className="h-7 px-2 text-[10px]" title={title}>
+      {content}
+    </Button>
+  );
+
+  return (
+    <div className="flex items-center gap-1 rounded-md border border-border bg-card/95 p-1 shadow-md">
+      <Button onClick={onZoomOut} disabled={zoom <= MIN_ZOOM} variant="ghost" size="icon" className="h-7 w-7" title="Zoom out (Ctrl -)">
+        <ZoomOut className="h-3 w-3" />
+      </Button>
+      <span className="w-12 text-center font-mono text-[11px] text-foreground">{formatZoom(zoom)}</span>
+      <Button onClick={onZoomIn} disabled={zoom >= MAX_ZOOM} variant="ghost" size="icon" className="h-7 w-7" title="Zoom in (Ctrl +)">
+        <ZoomIn className="h-3 w-3" />
+      </Button>
+      {fitButton('object', 'Fit object (Ctrl 0)', <Maximize className="h-3 w-3" />)}
+      {fitButton('page', 'Fit page width', <MoveHorizontal className="h-3 w-3" />)}
+      {fitButton('actual', 'Actual size, 1:1 mm (Ctrl 1)', '1:1')}
+    </div>
+  );
+};
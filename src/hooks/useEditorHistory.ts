@@ -0,0 +1,42 @@
+import { useCallback, useMemo, useState, type SetStateAction } from 'react';
+import {
+  createHistory,
+  currentState,
+  jumpToHistory,
+  recordHistory,
+  redoHistory,
+  undoHistory,
+  type HistoryStep,
+} from '@/utils/editorHistory';
+
+// State with undo/redo. `set` works like a useState setter plus an optional
+// step description (label, merge key) for the history panel.
+export const useEditorHistory = <T>(initial: () => T) => {
+  const [history, setHistory] = useState(() => createHistory(initial()));
+
+  const set = useCallback((next: SetStateAction<T>, step?: HistoryStep) => {
+    setHistory((h) => {
+      const resolved = typeof next === 'function' ? (next as (prev: T) => T)(currentState(h)) : next;
+      return recordHistory(h, resolved, step);
+    });
+  }, []);
+
+  const undo = useCallback(() => setHistory((h) => undoHistory(h)), []);
+  const redo = useCallback(() => setHistory((h) => redoHistory(h)), []);
+  const jumpTo = useCallback((index: number) => setHistory((h) => jumpToHistory(h, index)), []);
+
+  return useMemo(
+    () => ({
+      state: currentState(history),
+      entries: history.entries,
+      index: history.index,
+      canUndo: history.index > 0,
+      canRedo: history.index < history.entries.length - 1,
+      set,
+      undo,
+      redo,
+      jumpTo,
+    }),
+    [history, jumpTo, redo, set, undo]
+  );
+};
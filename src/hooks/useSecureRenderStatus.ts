@@ -0,0 +1,127 @@
+import { useEffect, useRef, useState } from 'react';
+import { isRenderActive, pollDelayMs, resolveSecureRenderResponse, type SecureRenderResponse } from '@/utils/renderJobs';
+
+type StatusTransport = 'sse' | 'poll';
+
+// Follows a secure render until it is READY or FAILED. Listens to the
+// service's event stream and falls back to polling (honouring retryAfterMs,
+// with capped exponential backoff) when the stream is unavailable or drops.
+// onError reports a render that can no longer be followed (revoked, gone).
+//
+// The session token never goes in a URL, where server, proxy and browser logs
+// would keep it: polls send it as a header, and the event stream is opened
+// with a short-lived, single-use stream token exchanged for it first.
+export const useSecureRenderStatus = (
+  sessionToken: string | undefined,
+  requestId: string,
+  enabled: boolean,
+  handlers: { onUpdate: (update: SecureRenderResponse) => void; onError: (message: string) => void }
+) => {
+  const [transport, setTransport] = useState<StatusTransport | null>(null);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled || !sessionToken || !requestId) {
+      setTransport(null);
+      return;
+    }
+
+    let stopped = false;
+    let timer: number | null = null;
+    let source: EventSource | null = null;
+    let last: SecureRenderResponse | null = null;
+    let attempt = 0;
+    const query = new URLSearchParams({ requestId }).toString();
+    const headers = { 'X-Session-Token': sessionToken, 'X-Request-Id': requestId };
+
+    const stop = () => {
+      stopped = true;
+      source?.close();
+      source = null;
+      if (timer !== null) window.clearTimeout(timer);
+      timer = null;
+    };
+
+    // True when the update shows progress since the last one
+    const apply = (next: SecureRenderResponse | null): boolean => {
+      if (stopped || !next) return false;
+      const progressed =
+        next.status !== last?.status || next.batchesDone !== last?.batchesDone || next.pagesDone !== last?.pagesDone;
+      last = next;
+      if (!isRenderActive(next.status)) stop();
+      handlersRef.current.onUpdate(next);
+      return progressed;
+    };
+
+    const poll = async () => {
+      let retryAfterMs = 0;
+      try {
+        const res = await fetch(`/api/docs/secure-render/status?${query}`, { headers });
+        if (stopped) return;
+        if (res.status === 403 || res.status === 404) {
+          stop();
+          handlersRef.current.onError(res.status === 403 ? 'Access revoked' : 'Document not found');
+          return;
+        }
+        const next = res.ok ? resolveSecureRenderResponse(await res.json().catch(() => null)) : null;
+        retryAfterMs = next?.retryAfterMs ?? 0;
+        attempt = apply(next) ? 0 : attempt + 1;
+      } catch {
+        attempt += 1;
+      }
+      if (!stopped) timer = window.setTimeout(() => void poll(), pollDelayMs(attempt, retryAfterMs));
+    };
+
+    const fallBackToPolling = () => {
+      if (stopped) return;
+      setTransport('poll');
+      void poll();
+    };
+
+    const listen = async () => {
+      let streamToken = '';
+      try {
+        const res = await fetch('/api/docs/secure-render/stream-token', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-Request-Id': requestId },
+          body: JSON.stringify({ sessionToken, requestId }),
+        });
+        const body = res.ok ? ((await res.json().catch(() => null)) as { streamToken?: unknown } | null) : null;
+        streamToken = String(body?.streamToken ?? '').trim();
+      } catch {
+        // no stream token: poll instead
+      }
+      if (stopped) return;
+      if (!streamToken) {
+        fallBackToPolling();
+        return;
+      }
+      source = new EventSource(`/api/docs/secure-render/events?${new URLSearchParams({ streamToken, requestId })}`);
+      source.onmessage = (e) => {
+        try {
+          apply(resolveSecureRenderResponse(JSON.parse(e.data)));
+        } catch {
+          // ignore malformed events
+        }
+      };
+      // The stream token is single-use, so a dropped stream is not reopened
+      source.onerror = () => {
+        source?.close();
+        source = null;
+        fallBackToPolling();
+      };
+    };
+
+    if (typeof EventSource !== 'undefined') {
+      setTransport('sse');
+      void listen();
+    } else {
+      fallBackToPolling();
+    }
+
+    return stop;
+  }, [enabled, requestId, sessionToken]);
+
+  return { transport };
+};
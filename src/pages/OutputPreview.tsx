@@ -4,18 +4,35 @@ import { ArrowLeft, ChevronLeft, ChevronRight, Printer } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
 import { api, API_BASE_URL } from '@/config/api';
+import { ImpositionPreview } from '@/components/editor/ImpositionPreview';
+import type { TicketOnPage, TicketOutputPage } from '@/components/editor/TicketEditor';
+import type { ImpositionLayout } from '@/utils/imposition';
+import { PrinterMarksOverlay } from '@/components/editor/PrinterMarksOverlay';
+import { resolvePrinterMarks, type PrinterMarksSettings } from '@/utils/printerMarks';
 
 const STORAGE_KEY_PREFIX = 'sph:outputPreview:';
 
 type OutputMeta = { pageCount: number; pdfUrl: string };
 
+// Primary slot value printed in each cell, per page (cells in row-major order)
+const pageCellLabels = (pages: TicketOutputPage[] | undefined): string[][] =>
+  (Array.isArray(pages) ? pages : []).map((page: TicketOutputPage) => {
+    const slotId = page?.seriesSlots?.[0]?.id;
+    if (!slotId || !Array.isArray(page?.tickets)) return [];
+    return page.tickets.map((t: TicketOnPage) => String(t?.seriesBySlot?.[slotId]?.seriesValue ?? ''));
+  });
+
 type PreviewPayload = {
   pdfUrl?: string;
   pageCount?: number;
-  pages?: unknown[];
+  pages?: TicketOutputPage[];
   key?: string;
   jobId?: string;
   pdf_s3_key?: string;
+  imposition?: ImpositionLayout | null;
+  objectMm?: { widthMm: number; heightMm: number; alignment?: 'left' | 'center' | 'right' | null } | null;
+  printerMarks?: PrinterMarksSettings | null;
+  slugLine?: string;
 };
 
 const OutputPreview = () => {
@@ -33,6 +50,7 @@ const OutputPreview = () => {
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [previewS3Key, setPreviewS3Key] = useState<string | null>(null);
+  const [sheet, setSheet] = useState<(Pick<PreviewPayload, 'imposition' | 'objectMm' | 'printerMarks' | 'slugLine'> & { cellLabels: string[][] }) | null>(null);
 
   const resolvedPdfUrl = useMemo(() => {
     const raw = String(pdfUrl || '').trim();
@@ -110,6 +128,18 @@ const OutputPreview = () => {
           setPageCount(nextCount);
           setCurrentPage(1);
 
+          setSheet(
+            parsed?.imposition?.cells?.length
+              ? {
+                  imposition: parsed.imposition,
+                  objectMm: parsed.objectMm ?? null,
+                  printerMarks: parsed.printerMarks ? resolvePrinterMarks(parsed.printerMarks) : null,
+                  slugLine: parsed.slugLine,
+                  cellLabels: pageCellLabels(parsed.pages),
+                }
+              : null
+          );
+
           setPreviewS3Key(pdfKey || (typeof parsed?.key === 'string' && parsed.key.trim() ? parsed.key.trim() : null));
 
           if (pdfKey) {
@@ -234,6 +264,33 @@ const OutputPreview = () => {
               );
             })}
           </div>
+
+          {sheet?.imposition ? (
+            <div className="mt-6">
+              <div className="text-white/60 text-xs font-medium tracking-wider mb-3">SHEET LAYOUT</div>
+              <ImpositionPreview
+                layout={sheet.imposition}
+                objectMm={sheet.objectMm}
+                alignment={sheet.objectMm?.alignment}
+                cellLabels={sheet.cellLabels[currentPage - 1]?.length ? sheet.cellLabels[currentPage - 1] : undefined}
+                widthPx={sheet.imposition.sheetWidthMm > sheet.imposition.sheetHeightMm ? 224 : 180}
+              >
+                {sheet.printerMarks ? (
+                  <PrinterMarksOverlay
+                    layout={sheet.imposition}
+                    settings={sheet.printerMarks}
+                    objectMm={sheet.objectMm}
+                    alignment={sheet.objectMm?.alignment}
+                    slugText={sheet.slugLine}
+                  />
+                ) : null}
+              </ImpositionPreview>
+              <div className="mt-2 text-white/50 text-xs">
+                {sheet.imposition.perSheet} per sheet · {Math.round(sheet.imposition.sheetWidthMm * 10) / 10} ×{' '}
+                {Math.round(sheet.imposition.sheetHeightMm * 10) / 10} mm
+              </div>
+            </div>
+          ) : null}
         </div>
 
         <div className="flex-1 min-h-0 overflow-auto p-6">
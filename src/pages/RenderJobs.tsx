@@ -0,0 +1,421 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Ban, Copy, FileText, Loader2, Printer, RefreshCw, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { api } from '@/config/api';
+import { useAuth } from '@/hooks/useAuth';
+import type { FinalRenderPayload } from '@/utils/buildFinalRenderPayload';
+import {
+  formatDuration,
+  isRenderActive,
+  RENDER_JOB_STATUS_LABELS,
+  renderErrorLabel,
+  renderJobDurationMs,
+  resolveRenderJob,
+  summaryRangeLabel,
+  type RenderJob,
+} from '@/utils/renderJobs';
+import { reserveRerun, type SeriesRegisterClient } from '@/utils/seriesRegister';
+import { reprintPayload, reprintVoidRequest, resolveReprintSelection } from '@/utils/reprints';
+
+// Refresh interval while any listed job is still running
+const POLL_MS = 3000;
+
+const newJobId = () => (typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `${Date.now()}-${Math.random()}`);
+
+const errorMessage = (e: unknown, fallback: string) => {
+  const err = e as { message?: string; response?: { data?: { message?: string } } } | null;
+  return String(err?.response?.data?.message || err?.message || '').trim() || fallback;
+};
+
+const StatusBadge = ({ job }: { job: RenderJob }) => {
+  const variant = job.status === 'FAILED' ? 'destructive' : job.status === 'READY' ? 'default' : job.status === 'CANCELLED' ? 'outline' : 'secondary';
+  return (
+    <Badge variant={variant} className="gap-1 whitespace-nowrap">
+      {isRenderActive(job.status) ? <Loader2 className="h-3 w-3 animate-spin" /> : null}
+      {RENDER_JOB_STATUS_LABELS[job.status]}
+      {job.progress !== null && isRenderActive(job.status) ? ` ${Math.round(job.progress * 100)}%` : ''}
+    </Badge>
+  );
+};
+
+// Every generation job with live status; /jobs/:jobId opens one job
+const RenderJobs = () => {
+  const navigate = useNavigate();
+  const { token } = useAuth();
+  const { jobId } = useParams();
+
+  const [jobs, setJobs] = useState<RenderJob[]>([]);
+  // The bookmarked job when it is not in the listed page of jobs
+  const [extraJob, setExtraJob] = useState<RenderJob | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyJobId, setBusyJobId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [reprintText, setReprintText] = useState('');
+  const [reprintReason, setReprintReason] = useState('');
+
+  const authHeaders = useMemo(() => (token ? { Authorization: `Bearer ${token}` } : {}), [token]);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const res = await api.get('/api/vector/jobs', { headers: authHeaders });
+      const raw = Array.isArray(res.data?.jobs) ? res.data.jobs : [];
+      setJobs(raw.map(resolveRenderJob).filter((j: RenderJob | null): j is RenderJob => Boolean(j)).sort((a, b) => b.createdAt - a.createdAt));
+      setError(null);
+    } catch (e) {
+      setError(errorMessage(e, 'Failed to load render jobs'));
+    } finally {
+      setLoading(false);
+    }
+  }, [authHeaders]);
+
+  useEffect(() => {
+    void loadJobs();
+  }, [loadJobs]);
+
+  const selected = useMemo(() => (jobId ? jobs.find((j) => j.jobId === jobId) ?? (extraJob?.jobId === jobId ? extraJob : null) : null), [extraJob, jobId, jobs]);
+
+  useEffect(() => {
+    if (!jobId || loading || jobs.some((j) => j.jobId === jobId)) return;
+    let cancelled = false;
+    api
+      .get(`/api/vector/jobs/${encodeURIComponent(jobId)}`, { headers: authHeaders })
+      .then((res) => {
+        if (!cancelled) setExtraJob(resolveRenderJob(res.data?.job));
+      })
+      .catch((e) => {
+        if (!cancelled) setError(errorMessage(e, 'Job not found'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [authHeaders, jobId, jobs, loading]);
+
+  // The reprint form belongs to the job it was filled in for
+  useEffect(() => {
+    setReprintText('');
+    setReprintReason('');
+  }, [jobId]);
+
+  const anyActive = jobs.some((j) => isRenderActive(j.status)) || isRenderActive(extraJob?.status);
+
+  useEffect(() => {
+    if (!anyActive) return;
+    const timer = window.setInterval(() => {
+      setNow(Date.now());
+      void loadJobs();
+    }, POLL_MS);
+    return () => window.clearInterval(timer);
+  }, [anyActive, loadJobs]);
+
+  const handleCancel = useCallback(
+    async (job: RenderJob) => {
+      setBusyJobId(job.jobId);
+      try {
+        await api.post(`/api/vector/jobs/${encodeURIComponent(job.jobId)}/cancel`, {}, { headers: authHeaders });
+        // A cancelled job never prints its numbers, so its series reservation is freed
+        await api.delete(`/api/series-register/reservations/${encodeURIComponent(job.jobId)}`, { headers: authHeaders }).catch(() => undefined);
+        toast.success('Job cancelled');
+        await loadJobs();
+      } catch (e) {
+        toast.error(errorMessage(e, 'Failed to cancel job'));
+      } finally {
+        setBusyJobId(null);
+      }
+    },
+    [authHeaders, loadJobs]
+  );
+
+  // Sends the job's stored payload again under a new job id
+  const handleRerun = useCallback(
+    async (job: RenderJob) => {
+      setBusyJobId(job.jobId);
+      try {
+        const res = await api.get(`/api/vector/jobs/${encodeURIComponent(job.jobId)}`, { headers: authHeaders });
+        const payload = res.data?.payload as FinalRenderPayload | undefined;
+        if (!payload) throw new Error('The job payload is no longer available');
+        const rerunId = newJobId();
+        // The re-run prints the same numbers, so it needs its own reservation;
+        // a failed job's reservation is handed over rather than released first.
+        const register: SeriesRegisterClient = {
+          reserve: (request) => api.post('/api/series-register/reservations', request, { headers: authHeaders }),
+          release: (id) => api.delete(`/api/series-register/reservations/${encodeURIComponent(id)}`, { headers: authHeaders }),
+        };
+        const giveBack = await reserveRerun({ payload, jobId: job.jobId, rerunId, handOver: job.status === 'FAILED', register });
+        // Generation answers when the PDF is ready; the list follows it meanwhile.
+        // A re-run that fails prints nothing, so its numbers go back where they came from.
+        api
+          .post('/api/vector/generate', { ...payload, job_id: rerunId }, { headers: authHeaders })
+          .catch(async (e) => {
+            await giveBack().catch(() => undefined);
+            toast.error(errorMessage(e, 'Re-run failed'));
+          })
+          .then(() => loadJobs());
+        toast.success('Job re-queued');
+        navigate(`/jobs/${rerunId}`);
+        window.setTimeout(() => void loadJobs(), 1000);
+      } catch (e) {
+        toast.error(errorMessage(e, 'Failed to re-run job'));
+      } finally {
+        setBusyJobId(null);
+      }
+    },
+    [authHeaders, loadJobs, navigate]
+  );
+
+  // Prints the listed tickets again in their original positions and voids the
+  // originals in this job's history
+  const handleReprint = useCallback(
+    async (job: RenderJob) => {
+      setBusyJobId(job.jobId);
+      try {
+        const res = await api.get(`/api/vector/jobs/${encodeURIComponent(job.jobId)}`, { headers: authHeaders });
+        const payload = res.data?.payload as FinalRenderPayload | undefined;
+        if (!payload) throw new Error('The job payload is no longer available');
+        const reprint = reprintPayload(payload, resolveReprintSelection(payload, reprintText), newJobId());
+        const voids = reprintVoidRequest(reprint, reprintReason);
+        // Generation answers when the PDF is ready; the originals are voided
+        // only once their reprint exists, so a failed reprint voids nothing
+        api
+          .post('/api/vector/generate', reprint, { headers: authHeaders })
+          .then(async () => {
+            await api.post(`/api/vector/jobs/${encodeURIComponent(job.jobId)}/voids`, voids, { headers: authHeaders }).catch((e) => {
+              toast.error(errorMessage(e, 'The reprint finished but the original tickets could not be voided'));
+            });
+          })
+          .catch((e) => toast.error(errorMessage(e, 'Reprint failed; the original tickets were not voided')))
+          .then(() => loadJobs());
+        toast.success(`Reprinting ${reprint.reprint?.tickets.length ?? 0} tickets; the originals are voided when it finishes`);
+        setReprintText('');
+        setReprintReason('');
+        navigate(`/jobs/${reprint.job_id}`);
+        window.setTimeout(() => void loadJobs(), 1000);
+      } catch (e) {
+        toast.error(errorMessage(e, 'Failed to reprint tickets'));
+      } finally {
+        setBusyJobId(null);
+      }
+    },
+    [authHeaders, loadJobs, navigate, reprintReason, reprintText]
+  );
+
+  const handleOpenPdf = useCallback(
+    async (job: RenderJob) => {
+      if (!job.pdfS3Key) return;
+      setBusyJobId(job.jobId);
+      try {
+        const res = await api.get(`/api/download/${encodeURIComponent(job.pdfS3Key)}`, { headers: authHeaders, responseType: 'blob' });
+        const url = URL.createObjectURL(res.data as Blob);
+        window.open(url, '_blank', 'noopener,noreferrer');
+        window.setTimeout(() => URL.revokeObjectURL(url), 60_000);
+      } catch (e) {
+        toast.error(errorMessage(e, 'Failed to download PDF'));
+      } finally {
+        setBusyJobId(null);
+      }
+    },
+    [authHeaders]
+  );
+
+  const handleCopyLink = useCallback(async (job: RenderJob) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/jobs/${job.jobId}`);
+      toast.success('Job link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  }, []);
+
+  const actions = (job: RenderJob) => {
+    const busy = busyJobId === job.jobId;
+    return (
+      <div className="flex justify-end gap-1">
+        {job.status === 'READY' && job.pdfS3Key ? (
+          <Button size="sm" variant="outline" className="gap-1" disabled={busy} onClick={() => void handleOpenPdf(job)}>
+            <FileText className="h-3.5 w-3.5" />
+            PDF
+          </Button>
+        ) : null}
+        {isRenderActive(job.status) ? (
+          <Button size="sm" variant="outline" className="gap-1" disabled={busy} onClick={() => void handleCancel(job)}>
+            <Ban className="h-3.5 w-3.5" />
+            Cancel
+          </Button>
+        ) : (
+          <Button size="sm" variant="outline" className="gap-1" disabled={busy} onClick={() => void handleRerun(job)}>
+            <RotateCcw className="h-3.5 w-3.5" />
+            Re-run
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <div className="h-14 px-4 flex items-center justify-between border-b border-border">
+        <Button variant="ghost" onClick={() => navigate(-1)} className="gap-2">
+          <ArrowLeft className="h-4 w-4" />
+          Back
+        </Button>
+        <div className="font-medium text-foreground">Render Jobs</div>
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => void loadJobs()} disabled={loading}>
+          <RefreshCw className="h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="flex-1 min-h-0 flex">
+        <div className="flex-1 min-w-0 overflow-auto p-6">
+          {error ? <div className="mb-3 text-sm text-destructive">{error}</div> : null}
+          {loading ? (
+            <div className="text-sm text-muted-foreground">Loading…</div>
+          ) : !jobs.length ? (
+            <div className="text-sm text-muted-foreground">No render jobs yet. Jobs appear here once output is generated from the editor.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Series</TableHead>
+                  <TableHead className="text-right">Tickets</TableHead>
+                  <TableHead className="text-right">Pages</TableHead>
+                  <TableHead>Mode</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Duration</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow
+                    key={job.jobId}
+                    data-state={job.jobId === jobId ? 'selected' : undefined}
+                    className="cursor-pointer"
+                    onClick={() => navigate(`/jobs/${job.jobId}`)}
+                  >
+                    <TableCell className="whitespace-nowrap">{job.createdAt ? new Date(job.createdAt).toLocaleString() : '—'}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {summaryRangeLabel(job.summary)}
+                      {job.reprintOf ? (
+                        <Badge variant="outline" className="ml-2">
+                          Reprint
+                        </Badge>
+                      ) : null}
+                    </TableCell>
+                    <TableCell className="text-right">{job.summary?.tickets ?? '—'}</TableCell>
+                    <TableCell className="text-right">{job.summary?.pages ?? '—'}</TableCell>
+                    <TableCell className="text-xs">{job.summary?.render_mode || '—'}</TableCell>
+                    <TableCell>
+                      <StatusBadge job={job} />
+                    </TableCell>
+                    <TableCell className="text-right">{formatDuration(renderJobDurationMs(job, now))}</TableCell>
+                    <TableCell onClick={(e) => e.stopPropagation()}>{actions(job)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        {selected ? (
+          <aside className="w-80 border-l border-border p-4 space-y-3 overflow-y-auto">
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="text-sm font-semibold text-foreground">Job</h3>
+              <StatusBadge job={selected} />
+            </div>
+            <div className="font-mono text-[11px] text-muted-foreground break-all">{selected.jobId}</div>
+            {isRenderActive(selected.status) && selected.progress !== null ? <Progress value={selected.progress * 100} className="h-2" /> : null}
+            {selected.status === 'FAILED' ? <p className="text-xs text-destructive">{renderErrorLabel(selected.errorCode)}</p> : null}
+            <dl className="grid grid-cols-2 gap-x-2 gap-y-1 text-xs">
+              <dt className="text-muted-foreground">Series</dt>
+              <dd className="font-mono">{summaryRangeLabel(selected.summary)}</dd>
+              <dt className="text-muted-foreground">Tickets</dt>
+              <dd>{selected.summary?.tickets ?? '—'}</dd>
+              <dt className="text-muted-foreground">Pages</dt>
+              <dd>{selected.summary?.pages ?? '—'}</dd>
+              <dt className="text-muted-foreground">Render mode</dt>
+              <dd>{selected.summary?.render_mode || '—'}</dd>
+              <dt className="text-muted-foreground">Started</dt>
+              <dd>{selected.createdAt ? new Date(selected.createdAt).toLocaleString() : '—'}</dd>
+              <dt className="text-muted-foreground">Duration</dt>
+              <dd>{formatDuration(renderJobDurationMs(selected, now))}</dd>
+              {selected.reprintOf ? (
+                <>
+                  <dt className="text-muted-foreground">Reprint of</dt>
+                  <dd className="font-mono">
+                    <Link to={`/jobs/${selected.reprintOf}`} className="text-primary hover:underline">
+                      {selected.reprintOf.slice(0, 8)}
+                    </Link>
+                  </dd>
+                </>
+              ) : null}
+            </dl>
+            <div className="flex flex-wrap gap-1">
+              <Button size="sm" variant="ghost" className="gap-1" onClick={() => void handleCopyLink(selected)}>
+                <Copy className="h-3.5 w-3.5" />
+                Copy link
+              </Button>
+              {actions(selected)}
+            </div>
+
+            {selected.status === 'READY' ? (
+              <div className="space-y-2 pt-3 border-t border-border">
+                <h4 className="text-xs font-semibold text-foreground">Reprint damaged tickets</h4>
+                <Input
+                  value={reprintText}
+                  onChange={(e) => setReprintText(e.target.value)}
+                  placeholder="e.g. A0413–A0416, A0420"
+                  className="h-8 text-xs font-mono"
+                />
+                <Input value={reprintReason} onChange={(e) => setReprintReason(e.target.value)} placeholder="Reason, e.g. sheet jam" className="h-8 text-xs" />
+                <p className="text-[10px] text-muted-foreground">
+                  Prints these tickets with the same numbers in their original positions, marked REPRINT, and voids the originals.
+                </p>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="w-full gap-1"
+                  disabled={busyJobId === selected.jobId || !reprintText.trim()}
+                  onClick={() => void handleReprint(selected)}
+                >
+                  <Printer className="h-3.5 w-3.5" />
+                  Reprint tickets
+                </Button>
+              </div>
+            ) : null}
+
+            {selected.voids.length ? (
+              <div className="space-y-1 pt-3 border-t border-border">
+                <h4 className="text-xs font-semibold text-foreground">Voided tickets ({selected.voids.length})</h4>
+                {selected.voids.slice(0, 50).map((v) => (
+                  <div key={v.ticketIndex} className="flex items-center justify-between gap-2 text-[11px]">
+                    <span className="font-mono">{v.seriesValue}</span>
+                    <span className="text-muted-foreground truncate" title={v.reason ?? undefined}>
+                      {v.voidedAt ? new Date(v.voidedAt).toLocaleDateString() : ''}
+                      {v.voidedBy ? ` · ${v.voidedBy}` : ''}
+                    </span>
+                    {v.reprintJobId ? (
+                      <Link to={`/jobs/${v.reprintJobId}`} className="text-primary hover:underline shrink-0">
+                        Reprint
+                      </Link>
+                    ) : null}
+                  </div>
+                ))}
+                {selected.voids.length > 50 ? <p className="text-[10px] text-muted-foreground">and {selected.voids.length - 50} more</p> : null}
+              </div>
+            ) : null}
+          </aside>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+export default RenderJobs;
@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, RefreshCw, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { api } from '@/config/api';
+import { useAuth } from '@/hooks/useAuth';
+import { formatSeriesRange, resolveSeriesReservations, type SeriesReservation } from '@/utils/seriesRegister';
+
+const errorMessage = (e: unknown, fallback: string) => {
+  const err = e as { message?: string; response?: { data?: { message?: string } } } | null;
+  return String(err?.response?.data?.message || err?.message || '').trim() || fallback;
+};
+
+// Reserved series ranges by client and event; searching a number (?q=A0413)
+// lists the reservations whose range holds it, with the job, date and user
+const SeriesRegister = () => {
+  const navigate = useNavigate();
+  const { token } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const [client, setClient] = useState(() => searchParams.get('client') ?? '');
+  const [event, setEvent] = useState(() => searchParams.get('event') ?? '');
+  const [number, setNumber] = useState(() => searchParams.get('q') ?? '');
+  const [reservations, setReservations] = useState<SeriesReservation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const authHeaders = useMemo(() => (token ? { Authorization: `Bearer ${token}` } : {}), [token]);
+  const query = searchParams.toString();
+
+  const loadReservations = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await api.get(`/api/series-register/reservations${query ? `?${query}` : ''}`, { headers: authHeaders });
+      setReservations(resolveSeriesReservations(res.data));
+      setError(null);
+    } catch (e) {
+      setError(errorMessage(e, 'Failed to load the series register'));
+    } finally {
+      setLoading(false);
+    }
+  }, [authHeaders, query]);
+
+  useEffect(() => {
+    void loadReservations();
+  }, [loadReservations]);
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    const next = Object.entries({ client, event, q: number })
+      .map(([key, value]) => [key, value.trim()])
+      .filter(([, value]) => value);
+    setSearchParams(new URLSearchParams(next));
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <div className="h-14 px-4 flex items-center justify-between border-b border-border">
+        <Button variant="ghost" onClick={() => navigate(-1)} className="gap-2">
+          <ArrowLeft className="h-4 w-4" />
+          Back
+        </Button>
+        <div className="font-medium text-foreground">Series Register</div>
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => void loadReservations()} disabled={loading}>
+          <RefreshCw className="h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto p-6 space-y-4">
+        <form onSubmit={handleSearch} className="flex flex-wrap items-end gap-2">
+          <Input value={client} onChange={(e) => setClient(e.target.value)} placeholder="Client" className="h-9 w-48" />
+          <Input value={event} onChange={(e) => setEvent(e.target.value)} placeholder="Event" className="h-9 w-48" />
+          <Input value={number} onChange={(e) => setNumber(e.target.value)} placeholder="Series number, e.g. A0413" className="h-9 w-56 font-mono" />
+          <Button type="submit" size="sm" className="gap-2">
+            <Search className="h-4 w-4" />
+            Search
+          </Button>
+        </form>
+
+        {error ? <div className="text-sm text-destructive">{error}</div> : null}
+        {loading ? (
+          <div className="text-sm text-muted-foreground">Loading…</div>
+        ) : !reservations.length ? (
+          <div className="text-sm text-muted-foreground">
+            {query ? 'No reservations match this search.' : 'No series reserved yet. Ranges are reserved when output is generated from the editor.'}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Series</TableHead>
+                <TableHead>Client</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead className="text-right">Slot</TableHead>
+                <TableHead className="text-right">Tickets</TableHead>
+                <TableHead>Job</TableHead>
+                <TableHead>Reserved</TableHead>
+                <TableHead>By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reservations.map((r) => (
+                <TableRow key={r.id || `${r.jobId}:${r.slotIndex}`}>
+                  <TableCell className="font-mono text-xs whitespace-nowrap">{formatSeriesRange(r)}</TableCell>
+                  <TableCell>{r.client}</TableCell>
+                  <TableCell>{r.event}</TableCell>
+                  <TableCell className="text-right">{r.slotIndex + 1}</TableCell>
+                  <TableCell className="text-right">{r.count}</TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {r.jobId ? (
+                      <Link to={`/jobs/${r.jobId}`} className="text-primary hover:underline">
+                        {r.jobId.slice(0, 8)}
+                      </Link>
+                    ) : (
+                      '—'
+                    )}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{r.createdAt !== null ? new Date(r.createdAt).toLocaleString() : '—'}</TableCell>
+                  <TableCell>{r.createdBy ?? '—'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SeriesRegister;
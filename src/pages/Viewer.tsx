@@ -7,9 +7,19 @@ import { TicketEditor } from '@/components/editor/TicketEditor';
 import { DocumentPreview } from '@/components/editor/DocumentPreview';
 
 import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
 
 import { toast } from 'sonner';
 import { useAuth } from '@/hooks/useAuth';
+import { useSecureRenderStatus } from '@/hooks/useSecureRenderStatus';
+import {
+  isRenderActive,
+  progressOf,
+  renderErrorLabel,
+  resolveSecureRenderResponse,
+  type SecureRenderResponse,
+  type SecureRenderStatus,
+} from '@/utils/renderJobs';
 
 type TicketCropMmOverride = {
   xMm: number | null;
@@ -33,15 +43,6 @@ type ViewerNavState = {
   objectsPerPage?: 3 | 4;
 };
 
-type SecureRenderStatus = 'CREATED' | 'BATCH_RUNNING' | 'MERGE_RUNNING' | 'READY' | 'FAILED';
-
-type SecureRenderResponse = {
-  status: SecureRenderStatus;
-  canRetry: boolean;
-  retryAfterMs: number;
-  errorCode: string | null;
-};
-
 type DebugTimelineEntry = {
   at: string;
   status: SecureRenderStatus;
@@ -80,6 +81,8 @@ const Viewer = () => {
 
   const [secureRender, setSecureRender] = useState<SecureRenderResponse | null>(null);
   const [secureRenderTerminalError, setSecureRenderTerminalError] = useState<string | null>(null);
+  // Following the render's status until READY, when the PDF is fetched again
+  const [watchingRender, setWatchingRender] = useState(false);
   const [isRetrying, setIsRetrying] = useState(false);
   const [retryLocked, setRetryLocked] = useState(false);
 
@@ -112,6 +115,20 @@ const Viewer = () => {
     }
   }, [documentId, ticketCropMmFromState]);
 
+  // One request id per session token, so repeated requests join the same render
+  const stableRequestId = useMemo(() => {
+    const requestIdKey = sessionToken ? `secure-render:${sessionToken}` : 'secure-render:unknown';
+    try {
+      const stored = sessionStorage.getItem(requestIdKey);
+      if (stored) return stored;
+      const created = crypto.randomUUID();
+      sessionStorage.setItem(requestIdKey, created);
+      return created;
+    } catch {
+      return crypto.randomUUID();
+    }
+  }, [sessionToken]);
+
   const fetchSecureRenderPdf = useCallback(async () => {
     if (!sessionToken) return;
     if (inFlightRef.current) return;
@@ -119,19 +136,6 @@ const Viewer = () => {
     inFlightRef.current = true;
     setSecureRenderTerminalError(null);
 
-    const requestIdKey = sessionToken ? `secure-render:${sessionToken}` : 'secure-render:unknown';
-    let stableRequestId = '';
-
-    try {
-      stableRequestId = sessionStorage.getItem(requestIdKey) || '';
-      if (!stableRequestId) {
-        stableRequestId = crypto.randomUUID();
-        sessionStorage.setItem(requestIdKey, stableRequestId);
-      }
-    } catch {
-      stableRequestId = crypto.randomUUID();
-    }
-
     try {
       const res = await fetch('/api/docs/secure-render', {
         method: 'POST',
@@ -142,8 +146,11 @@ const Viewer = () => {
         body: JSON.stringify({ sessionToken, requestId: stableRequestId }),
       });
 
-      if (res.status === 409) {
-        setSecureRenderTerminalError('Document is still preparing. Please wait…');
+      // Still rendering: follow its progress and fetch again once READY
+      if (res.status === 409 || res.status === 202) {
+        const body = resolveSecureRenderResponse(await res.json().catch(() => null));
+        setSecureRender(body ?? { status: 'CREATED', canRetry: false, retryAfterMs: 0, errorCode: null });
+        setWatchingRender(true);
         return;
       }
 
@@ -188,7 +195,23 @@ const Viewer = () => {
     } finally {
       inFlightRef.current = false;
     }
-  }, [sessionToken]);
+  }, [sessionToken, stableRequestId]);
+
+  const renderStatus = useSecureRenderStatus(sessionToken, stableRequestId, watchingRender, {
+    onUpdate: (next) => {
+      setSecureRender(next);
+      if (next.status === 'READY') {
+        setWatchingRender(false);
+        void fetchSecureRenderPdf();
+      } else if (next.status === 'FAILED') {
+        setWatchingRender(false);
+      }
+    },
+    onError: (message) => {
+      setWatchingRender(false);
+      setSecureRenderTerminalError(message);
+    },
+  });
 
   const handleRetry = useCallback(async () => {
     if (!sessionToken) return;
@@ -207,6 +230,7 @@ const Viewer = () => {
   useEffect(() => {
     setSecureRender(null);
     setSecureRenderTerminalError(null);
+    setWatchingRender(false);
     setError(null);
 
     if (pdfObjectUrlRef.current) {
@@ -243,21 +267,7 @@ const Viewer = () => {
 
   const errorCodeHuman = useMemo(() => {
     if (secureRender?.status !== 'FAILED') return null;
-    const code = String(secureRender?.errorCode || 'UNKNOWN').trim().toUpperCase();
-    if (!code) return 'Unknown error';
-    const map: Record<string, string> = {
-      HMAC_FAILED: 'Security check failed',
-      TIMEOUT: 'Timed out',
-      MERGE_FAIL: 'Failed to merge pages',
-      INKSCAPE_FAIL: 'Vector conversion failed',
-      SVG_TOO_COMPLEX: 'SVG too complex to process',
-      INVALID_INPUT: 'Invalid input',
-      INVALID_OUTPUT: 'Invalid output produced',
-      NORMALIZE_FAILED: 'Normalization failed',
-      JOB_FAILED: 'Job failed',
-      UNKNOWN: 'Unknown error',
-    };
-    return map[code] || `Error: ${code}`;
+    return renderErrorLabel(secureRender?.errorCode);
   }, [secureRender?.errorCode, secureRender?.status]);
 
   const statusMessage = useMemo(() => {
@@ -273,8 +283,9 @@ const Viewer = () => {
 
   const previewDisabled = !sessionToken;
 
-  const showIndeterminateProgress =
-    secureRender?.status === 'CREATED' || secureRender?.status === 'BATCH_RUNNING' || secureRender?.status === 'MERGE_RUNNING';
+  const showIndeterminateProgress = isRenderActive(secureRender?.status);
+  const batchProgress = progressOf(secureRender?.batchesDone, secureRender?.batchesTotal);
+  const pageProgress = progressOf(secureRender?.pagesDone, secureRender?.pagesTotal);
 
   const handleCancel = useCallback(() => {
     navigate('/upload');
@@ -358,7 +369,7 @@ const Viewer = () => {
     }
   }, [documentTitle, remainingPrints, sessionToken]);
 
-  const secureRenderLastUpdatedAt = (secureRender as any)?.lastUpdatedAt ?? null;
+  const secureRenderLastUpdatedAt = secureRender?.lastUpdatedAt ?? null;
   const stillWorkingKey = useMemo(() => {
     const st = secureRender?.status ?? '';
     const lu = secureRenderLastUpdatedAt ? String(secureRenderLastUpdatedAt) : '';
@@ -372,8 +383,7 @@ const Viewer = () => {
     }
     setStillWorking(false);
 
-    const st = secureRender?.status;
-    if (st === 'CREATED' || st === 'BATCH_RUNNING' || st === 'MERGE_RUNNING') {
+    if (isRenderActive(secureRender?.status)) {
       stillWorkingTimeoutRef.current = window.setTimeout(() => {
         setStillWorking(true);
       }, 120_000);
@@ -490,6 +500,28 @@ const Viewer = () => {
             </Button>
           ) : null}
         </div>
+        {showIndeterminateProgress && (batchProgress !== null || pageProgress !== null) ? (
+          <div className="mt-2 grid max-w-md grid-cols-[auto_1fr_auto] items-center gap-x-2 gap-y-1 text-xs text-muted-foreground">
+            {batchProgress !== null ? (
+              <>
+                <span>Batches</span>
+                <Progress value={batchProgress * 100} className="h-1.5" />
+                <span>
+                  {secureRender?.batchesDone ?? 0} / {secureRender?.batchesTotal}
+                </span>
+              </>
+            ) : null}
+            {pageProgress !== null ? (
+              <>
+                <span>Pages</span>
+                <Progress value={pageProgress * 100} className="h-1.5" />
+                <span>
+                  {secureRender?.pagesDone ?? 0} / {secureRender?.pagesTotal}
+                </span>
+              </>
+            ) : null}
+          </div>
+        ) : null}
         {stillWorking && showIndeterminateProgress ? (
           <div className="mt-1 text-xs text-muted-foreground">Still working… this is taking longer than usual.</div>
         ) : null}
@@ -510,7 +542,9 @@ const Viewer = () => {
         ) : null}
         {debugEnabled ? (
           <div className="mt-2 rounded-md border border-border bg-background/60 px-3 py-2">
-            <div className="text-xs font-medium text-muted-foreground">Debug timeline</div>
+            <div className="text-xs font-medium text-muted-foreground">
+              Debug timeline{renderStatus.transport ? ` (${renderStatus.transport === 'sse' ? 'event stream' : 'polling'})` : ''}
+            </div>
             <div className="mt-1 space-y-1">
               {debugTimeline.length ? (
                 debugTimeline.map((entry, idx) => (
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { barcodeValueError, renderBarcodeSvg, resolveBarcodeConfig, type BarcodeSymbology } from '@/utils/barcodeSvg';
+
+describe('resolveBarcodeConfig', () => {
+  it('falls back to defaults for unknown or invalid settings', () => {
+    expect(resolveBarcodeConfig({ symbology: 'pdf417' as BarcodeSymbology, moduleSizeMm: -1, quietZoneModules: 2.6 })).toMatchObject({
+      symbology: 'code128',
+      moduleSizeMm: 0.33,
+      quietZoneModules: 3,
+    });
+  });
+});
+
+describe('renderBarcodeSvg', () => {
+  it('sizes the symbol in mm from its modules', () => {
+    const small = renderBarcodeSvg('HELLO', { symbology: 'qrcode', moduleSizeMm: 0.25, quietZoneModules: 0 });
+    const large = renderBarcodeSvg('HELLO', { symbology: 'qrcode', moduleSizeMm: 0.5, quietZoneModules: 0 });
+    expect(large.widthMm).toBeCloseTo(small.widthMm * 2);
+    expect(large.heightMm).toBeCloseTo(large.widthMm);
+    expect(large.svg).toContain(`width="${large.widthMm}mm"`);
+  });
+
+  it('sizes 2D symbols by their cells, quiet zone included', () => {
+    // Version 1 QR code: 21 x 21 cells, plus 4 quiet cells each side
+    expect(renderBarcodeSvg('HELLO', { symbology: 'qrcode', moduleSizeMm: 0.5, quietZoneModules: 0 }).widthMm).toBeCloseTo(10.5);
+    expect(renderBarcodeSvg('HELLO', { symbology: 'qrcode', moduleSizeMm: 0.5, quietZoneModules: 4 }).heightMm).toBeCloseTo(14.5);
+    // 12 x 12 DataMatrix
+    expect(renderBarcodeSvg('HELLO', { symbology: 'datamatrix', moduleSizeMm: 1, quietZoneModules: 1 }).widthMm).toBeCloseTo(14);
+  });
+
+  it('sizes linear symbols by their narrowest bar', () => {
+    const bare = renderBarcodeSvg('400638133393', { symbology: 'ean13', moduleSizeMm: 0.33, quietZoneModules: 0, showText: false });
+    const padded = renderBarcodeSvg('400638133393', { symbology: 'ean13', moduleSizeMm: 0.33, quietZoneModules: 10, showText: false });
+    expect(padded.widthMm - bare.widthMm).toBeCloseTo(20 * 0.33);
+  });
+
+  it('throws the symbology message for values it cannot encode', () => {
+    expect(() => renderBarcodeSvg('', { symbology: 'code128' })).toThrow('Barcode value is empty');
+    expect(() => renderBarcodeSvg('A0001', { symbology: 'ean13' })).toThrow('EAN-13 must be 12 or 13 digits');
+  });
+});
+
+describe('barcodeValueError', () => {
+  const cases: { symbology: BarcodeSymbology; valid: string[]; invalid: [string, RegExp][] }[] = [
+    {
+      symbology: 'ean13',
+      valid: ['400638133393', '4006381333931'],
+      invalid: [
+        ['A00638133393', /only digits/],
+        ['40063813339', /12 or 13 digits/],
+        ['4006381333932', /check digit/],
+      ],
+    },
+    { symbology: 'code128', valid: ['A0001', 'a-01 B'], invalid: [['', /empty/]] },
+    { symbology: 'datamatrix', valid: ['A0001', 'https://example.com/t/A0001'], invalid: [['', /empty/]] },
+    { symbology: 'qrcode', valid: ['A0001', 'https://example.com/t/A0001'], invalid: [['x'.repeat(3000), /Maximum length/]] },
+  ];
+
+  it.each(cases)('checks $symbology values', ({ symbology, valid, invalid }) => {
+    valid.forEach((value) => expect(barcodeValueError(value, symbology)).toBeNull());
+    invalid.forEach(([value, message]) => expect(barcodeValueError(value, symbology)).toMatch(message));
+  });
+
+  it('agrees with the renderer on EAN-13 values', () => {
+    ['400638133393', '4006381333931', '4006381333932', '12345', 'A0001', '1234567890AB'].forEach((value) => {
+      let rendered: string | null = null;
+      try {
+        renderBarcodeSvg(value, { symbology: 'ean13' });
+      } catch (e) {
+        rendered = (e as Error).message;
+      }
+      expect(barcodeValueError(value, 'ean13')).toBe(rendered);
+    });
+  });
+});
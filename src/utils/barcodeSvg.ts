@@ -0,0 +1,133 @@
+// Client-side barcode / 2D symbol rendering for barcode slots.
+//
+// bwip-js renders at scale 1, where one viewBox unit is one module (narrowest
+// bar) of a linear symbol but 2D symbols draw each cell 2 units wide. The
+// symbol is sized as `modules * moduleSizeMm`, quiet zone included, the same
+// way the render service sizes it, so the preview and the PDF stay identical.
+import bwipjs from 'bwip-js/browser';
+
+export type BarcodeSymbology = 'code128' | 'ean13' | 'datamatrix' | 'qrcode';
+
+export type BarcodeSlotConfig = {
+  symbology: BarcodeSymbology;
+  moduleSizeMm: number;
+  // Bar height for linear symbols; 2D symbols are square and ignore it.
+  heightMm: number;
+  quietZoneModules: number;
+  showText: boolean;
+};
+
+export type BarcodeSvg = {
+  svg: string;
+  widthMm: number;
+  heightMm: number;
+};
+
+export const BARCODE_SYMBOLOGIES: { value: BarcodeSymbology; label: string; linear: boolean }[] = [
+  { value: 'code128', label: 'Code 128', linear: true },
+  { value: 'ean13', label: 'EAN-13', linear: true },
+  { value: 'datamatrix', label: 'DataMatrix', linear: false },
+  { value: 'qrcode', label: 'QR Code', linear: false },
+];
+
+export const DEFAULT_BARCODE_CONFIG: BarcodeSlotConfig = {
+  symbology: 'code128',
+  moduleSizeMm: 0.33,
+  heightMm: 10,
+  quietZoneModules: 10,
+  showText: true,
+};
+
+// bwip-js takes linear bar heights in mm at 72 dpi for scale 1.
+const MODULES_TO_BWIP_MM = 25.4 / 72;
+
+// viewBox units per module at scale 1
+const UNITS_PER_MODULE = { linear: 1, matrix: 2 };
+
+export const isLinearSymbology = (symbology: BarcodeSymbology): boolean => {
+  return BARCODE_SYMBOLOGIES.find((s) => s.value === symbology)?.linear ?? true;
+};
+
+export const resolveBarcodeConfig = (raw?: Partial<BarcodeSlotConfig> | null): BarcodeSlotConfig => {
+  const symbology = BARCODE_SYMBOLOGIES.some((s) => s.value === raw?.symbology) ? (raw?.symbology as BarcodeSymbology) : DEFAULT_BARCODE_CONFIG.symbology;
+  const moduleSizeMm = Number(raw?.moduleSizeMm);
+  const heightMm = Number(raw?.heightMm);
+  const quiet = Number(raw?.quietZoneModules);
+  return {
+    symbology,
+    moduleSizeMm: Number.isFinite(moduleSizeMm) && moduleSizeMm > 0 ? moduleSizeMm : DEFAULT_BARCODE_CONFIG.moduleSizeMm,
+    heightMm: Number.isFinite(heightMm) && heightMm > 0 ? heightMm : DEFAULT_BARCODE_CONFIG.heightMm,
+    quietZoneModules: Number.isFinite(quiet) && quiet >= 0 ? Math.round(quiet) : DEFAULT_BARCODE_CONFIG.quietZoneModules,
+    showText: typeof raw?.showText === 'boolean' ? raw.showText : DEFAULT_BARCODE_CONFIG.showText,
+  };
+};
+
+const readViewBox = (svg: string): { w: number; h: number } => {
+  const m = svg.match(/viewBox="0 0 ([\d.]+) ([\d.]+)"/);
+  const w = Number(m?.[1]);
+  const h = Number(m?.[2]);
+  if (!(Number.isFinite(w) && w > 0 && Number.isFinite(h) && h > 0)) {
+    throw new Error('Barcode renderer returned an SVG without a viewBox');
+  }
+  return { w, h };
+};
+
+// Renders `value` as an SVG whose outer size is in mm. Throws with the
+// symbology's own message when the value cannot be encoded (e.g. EAN-13 needs
+// 12 or 13 digits).
+export const renderBarcodeSvg = (value: string, rawConfig?: Partial<BarcodeSlotConfig> | null, color = '#000000'): BarcodeSvg => {
+  const config = resolveBarcodeConfig(rawConfig);
+  const text = String(value ?? '');
+  if (!text) throw new Error('Barcode value is empty');
+
+  const linear = isLinearSymbology(config.symbology);
+  const units = linear ? UNITS_PER_MODULE.linear : UNITS_PER_MODULE.matrix;
+  const barColor = /^#?[0-9a-f]{6}$/i.test(color) ? color.replace('#', '') : '000000';
+
+  let svg: string;
+  try {
+    svg = bwipjs.toSVG({
+      bcid: config.symbology,
+      text,
+      scale: 1,
+      padding: config.quietZoneModules * units,
+      barcolor: barColor,
+      textcolor: barColor,
+      ...(linear ? { height: (config.heightMm / config.moduleSizeMm) * MODULES_TO_BWIP_MM, includetext: config.showText } : {}),
+    } as Parameters<typeof bwipjs.toSVG>[0]);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    // bwipp errors look like "bwipp.ean13badLength#6878: EAN-13 must be 12 or 13 digits"
+    throw new Error(msg.replace(/^(Error:\s*)?bwipp\.[^:]+:\s*/, ''));
+  }
+
+  const box = readViewBox(svg);
+  const widthMm = (box.w / units) * config.moduleSizeMm;
+  const heightMm = (box.h / units) * config.moduleSizeMm;
+  const sized = svg.replace('<svg ', `<svg width="${widthMm}mm" height="${heightMm}mm" preserveAspectRatio="none" `);
+  return { svg: sized, widthMm, heightMm };
+};
+
+// EAN-13 is checked without rendering, so every ticket of a run can be
+// checked; the messages are the renderer's.
+const ean13Error = (value: string): string | null => {
+  if (value.length !== 12 && value.length !== 13) return 'EAN-13 must be 12 or 13 digits';
+  if (!/^\d*$/.test(value)) return 'EAN-13 must contain only digits';
+  if (value.length === 13) {
+    const sum = Array.from(value.slice(0, 12)).reduce((acc, d, i) => acc + Number(d) * (i % 2 ? 3 : 1), 0);
+    if ((10 - (sum % 10)) % 10 !== Number(value[12])) return 'Incorrect EAN-13 check digit provided';
+  }
+  return null;
+};
+
+// Why `value` cannot be encoded as `symbology`, or null when it can
+export const barcodeValueError = (value: string, symbology: BarcodeSymbology): string | null => {
+  if (!value) return 'Barcode value is empty';
+  if (symbology === 'ean13') return ean13Error(value);
+  try {
+    renderBarcodeSvg(value, { symbology });
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+};
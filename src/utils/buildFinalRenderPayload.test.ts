@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { buildFinalRenderPayload } from '@/utils/buildFinalRenderPayload';
+
+const base = {
+  jobId: 'job',
+  documentId: 'doc',
+  objectWidthMm: 80,
+  objectHeightMm: 40,
+  objectXMm: 0,
+  objectYMm: 0,
+  objectAlignment: 'center',
+  objectRotationDeg: 0,
+  objectKeepProportions: true,
+  objectCutMarginMm: 0,
+};
+
+const barcode = {
+  symbology: 'code128' as const,
+  start: 'A001',
+  count: 10,
+  xMm: 5,
+  yMm: 5,
+  moduleSizeMm: 0.33,
+  heightMm: 10,
+  quietZoneModules: 10,
+  rotationDeg: 0,
+  showText: true,
+  color: '#000000',
+};
+
+describe('buildFinalRenderPayload', () => {
+  it('sends the single series when there are no slots', () => {
+    const payload = buildFinalRenderPayload({
+      ...base,
+      seriesStart: 'A001',
+      seriesCount: 10,
+      seriesXMm: 5,
+      seriesYMm: 5,
+      seriesFontFamily: 'Helvetica',
+      seriesFontSizeMm: 4,
+      seriesLetterSpacingMm: 0,
+      seriesRotationDeg: 0,
+      seriesColor: '#000000',
+    });
+    expect(payload.series).toMatchObject({ start: 'A001', count: 10, font_family: 'Helvetica' });
+    expect(payload.job_summary).toMatchObject({ series_start: 'A001', series_end: 'A010' });
+  });
+
+  it('leaves the series out of a job made only of barcodes', () => {
+    const payload = buildFinalRenderPayload({ ...base, barcodeList: [barcode] });
+    expect(payload).not.toHaveProperty('series');
+    expect(payload.barcodes).toHaveLength(1);
+    expect(payload.job_summary).toMatchObject({ series_start: 'A001', series_end: 'A010', tickets: 10 });
+  });
+});
@@ -1,12 +1,53 @@
+import type { SeriesRollover } from '@/utils/seriesEngine';
+import { resolveCheckDigitScheme, type CheckDigitScheme } from '@/utils/checkDigits';
+import { BARCODE_SYMBOLOGIES, type BarcodeSymbology } from '@/utils/barcodeSvg';
+import { computeImpositionLayout, resolveImposition, type ImpositionSettings, type SheetOrientation } from '@/utils/imposition';
+import type { NumberingOrder } from '@/utils/numberingOrder';
+import { resolvePrinterMarks, type PrinterMarksSettings } from '@/utils/printerMarks';
+import { resolveDuplex, type DuplexFlip, type DuplexSettings } from '@/utils/duplex';
+import type { PreflightCheck, PreflightIssue, PreflightReport } from '@/utils/preflight';
+import { summarizeRenderPayload, type RenderJobSummary } from '@/utils/renderJobs';
+import { resolveSeriesScope, type SeriesScope } from '@/utils/seriesRegister';
+import { payloadInk, resolveColorOutput, type ColorOutputSettings, type InkColor, type OutputProfileId, type PayloadInk } from '@/utils/printColor';
+
+type PreflightEntry = { check: PreflightCheck; message: string; target_id?: string };
+
 export type FinalRenderPayload = {
   job_id: string;
+  // Series range, ticket and page counts of the job, for the jobs page
+  job_summary?: RenderJobSummary;
+  // Set when the job is one batch of a larger run (see jobBatches.ts); its
+  // counters and records already start at ticket_offset
+  batch?: {
+    parent_job_id: string;
+    index: number;
+    count: number;
+    first_sheet: number;
+    ticket_offset: number;
+  };
   svg_s3_key: string;
   render_mode?: string;
-  custom_fonts?: {
-    family: string;
-    data_url: string;
-    mime: string;
-  }[];
+  // Library fonts are referenced by font_id; fonts that only exist in the
+  // session (from older layout templates) are still sent inline as data_url.
+  // When the browser could subset a font, data_url holds only the glyphs the
+  // job prints and subset_hash identifies that subset for the render cache.
+  custom_fonts?: (
+    | {
+        family: string;
+        data_url: string;
+        mime: string;
+        subset_hash?: string;
+      }
+    | {
+        family: string;
+        font_id: string;
+        data_url?: string;
+        mime?: string;
+        subset_hash?: string;
+      }
+  )[];
+  // Listed bottom to top. z_index is the editor's layer position, shared with
+  // series_list and barcodes so slots can sit between overlays.
   overlays?: (
     | {
         data_url: string;
@@ -16,6 +57,7 @@ export type FinalRenderPayload = {
         w_mm: number;
         h_mm: number;
         rotation_deg: number;
+        z_index?: number;
       }
     | {
         type: 'svg';
@@ -24,8 +66,47 @@ export type FinalRenderPayload = {
         scale: number;
         rotation_deg: number;
         svg_s3_key: string;
+        // Prints the whole SVG in this one ink
+        ink?: PayloadInk;
+        z_index?: number;
       }
   )[];
+  // CMYK output: the service converts everything without an ink to this ICC
+  // output profile; omitted for RGB output
+  color_output?: {
+    mode: 'cmyk';
+    icc_profile: OutputProfileId;
+  };
+  // Press sheet and N-up grid; cells are row-major from the sheet's top-left
+  imposition?: {
+    sheet_w_mm: number;
+    sheet_h_mm: number;
+    orientation: SheetOrientation;
+    rows: number;
+    columns: number;
+    gutter_x_mm: number;
+    gutter_y_mm: number;
+    margin_mm: { top: number; right: number; bottom: number; left: number };
+    cell_w_mm: number;
+    cell_h_mm: number;
+    // Series index for sheet s, cell c follows ticketIndexAt() in numberingOrder.ts
+    numbering_order: NumberingOrder;
+  };
+  // Printer's marks around every ticket; omitted when marks are off
+  marks?: {
+    bleed_mm: number;
+    crop_marks: { length_mm: number; offset_mm: number } | null;
+    registration: boolean;
+    slug_line?: string;
+  };
+  // Two-sided output: pages alternate front/back per sheet. Back slots carry
+  // side: 'back' and are placed behind their front cell (see duplex.ts).
+  duplex?: {
+    flip: DuplexFlip;
+    offset_mm: { x: number; y: number };
+    back_svg_s3_key?: string;
+    page_order: 'interleaved';
+  };
   object_mm: {
     w: number;
     h: number;
@@ -62,8 +143,60 @@ export type FinalRenderPayload = {
     letter_spacing_mm: number;
     rotation_deg: number;
     color: string;
+    // Exact ink for color (CMYK or a named spot); color stays its RGB preview
+    ink?: PayloadInk;
     step?: number;
+    alphabet?: string;
+    rollover?: SeriesRollover;
+    check_digit?: { scheme: CheckDigitScheme; separator: string };
+    // Prints records[i][data_column] on ticket i instead of a counter value
+    data_column?: string;
+    side?: 'back';
+    z_index?: number;
   }[];
+  // Barcode / 2D symbol slots; the service encodes each ticket's series value
+  // with the same module size and quiet zone the editor previews.
+  barcodes?: {
+    symbology: BarcodeSymbology;
+    start: string;
+    count: number;
+    step?: number;
+    alphabet?: string;
+    rollover?: SeriesRollover;
+    check_digit?: { scheme: CheckDigitScheme; separator: string };
+    anchor_space: 'object_mm';
+    x_mm: number;
+    y_mm: number;
+    module_mm: number;
+    height_mm: number;
+    quiet_zone_modules: number;
+    rotation_deg: number;
+    show_text: boolean;
+    color: string;
+    ink?: PayloadInk;
+    data_column?: string;
+    side?: 'back';
+    z_index?: number;
+  }[];
+  // One record per ticket (in ticket order) from an imported CSV/XLSX sheet,
+  // holding only the columns bound to slots.
+  records?: Record<string, string>[];
+  // Reprint of damaged tickets of original_job_id (see reprints.ts): only the
+  // listed tickets are printed, at their original sheet and cell, with marker
+  reprint?: {
+    original_job_id: string;
+    tickets: { ticket_index: number; sheet_index: number; cell_index: number; series_value: string }[];
+    marker: { text: string; x_mm: number; y_mm: number; font_family: string; font_size_mm: number; color: string };
+  };
+  // Client and event whose series register holds this job's ranges (see
+  // seriesRegister.ts); reserved before the job is submitted
+  series_register?: SeriesScope;
+  // Preflight report of the layout as generated (see preflight.ts); the
+  // editor does not send jobs that have errors
+  preflight?: {
+    errors: PreflightEntry[];
+    warnings: PreflightEntry[];
+  };
 };
 
 const toFiniteNumberOrNull = (raw: unknown): number | null => {
@@ -72,6 +205,22 @@ const toFiniteNumberOrNull = (raw: unknown): number | null => {
   return Number.isFinite(n) ? n : null;
 };
 
+const inkOf = (raw: unknown): { ink?: PayloadInk } => {
+  const ink = payloadInk(raw as InkColor | null);
+  return ink ? { ink } : {};
+};
+
+const zIndexOf = (raw: unknown): { z_index?: number } => {
+  const n = toFiniteNumberOrNull(raw);
+  return n !== null && n >= 0 ? { z_index: Math.round(n) } : {};
+};
+
+const preflightEntry = (issue: PreflightIssue): PreflightEntry => ({
+  check: issue.check,
+  message: issue.message,
+  ...(issue.targetId ? { target_id: issue.targetId } : {}),
+});
+
 export function buildFinalRenderPayload(params: {
   jobId: string;
   documentId: string;
@@ -106,11 +255,51 @@ export function buildFinalRenderPayload(params: {
     letterSpacingMm: number;
     rotationDeg: number;
     color: string;
+    ink?: InkColor | null;
+    step?: number;
+    alphabet?: string;
+    rollover?: SeriesRollover;
+    checkDigit?: { scheme: CheckDigitScheme; separator?: string } | null;
+    dataColumn?: string | null;
+    side?: 'front' | 'back';
+    zIndex?: number;
+  }[];
+  barcodeList?: {
+    symbology: BarcodeSymbology;
+    start: string;
+    count: number;
     step?: number;
+    alphabet?: string;
+    rollover?: SeriesRollover;
+    checkDigit?: { scheme: CheckDigitScheme; separator?: string } | null;
+    xMm: number;
+    yMm: number;
+    moduleSizeMm: number;
+    heightMm: number;
+    quietZoneModules: number;
+    rotationDeg: number;
+    showText: boolean;
+    color: string;
+    ink?: InkColor | null;
+    dataColumn?: string | null;
+    side?: 'front' | 'back';
+    zIndex?: number;
   }[];
-  customFonts?: { family: string; dataUrl: string; mime: string }[];
-  overlays?: { dataUrl: string; mime: string; xMm: number; yMm: number; wMm: number; hMm: number; rotationDeg: number }[];
-  svgOverlays?: { type: 'svg'; xMm: number; yMm: number; scale: number; rotationDeg: number; svgS3Key: string }[];
+  records?: Record<string, string>[];
+  imposition?: ImpositionSettings | null;
+  printerMarks?: Partial<PrinterMarksSettings> | null;
+  slugLine?: string;
+  duplex?: Partial<DuplexSettings> | null;
+  backSvgS3Key?: string | null;
+  customFonts?: (
+    | { family: string; dataUrl: string; mime: string; subsetHash?: string }
+    | { family: string; fontId: string; dataUrl?: string; mime?: string; subsetHash?: string }
+  )[];
+  overlays?: { dataUrl: string; mime: string; xMm: number; yMm: number; wMm: number; hMm: number; rotationDeg: number; zIndex?: number }[];
+  svgOverlays?: { type: 'svg'; xMm: number; yMm: number; scale: number; rotationDeg: number; svgS3Key: string; ink?: InkColor | null; zIndex?: number }[];
+  colorOutput?: Partial<ColorOutputSettings> | null;
+  seriesScope?: Partial<SeriesScope> | null;
+  preflight?: PreflightReport | null;
 }): FinalRenderPayload {
   const job_id = String(params.jobId || '').trim();
   if (!job_id) throw new Error('job_id is required');
@@ -124,6 +313,61 @@ export function buildFinalRenderPayload(params: {
     throw new Error('object_mm.w and object_mm.h are required and must be > 0');
   }
 
+  const imposition = params.imposition
+    ? (() => {
+        const settings = resolveImposition(params.imposition);
+        const layout = computeImpositionLayout(settings);
+        if (w > layout.cellWidthMm + 1e-6 || h > layout.cellHeightMm + 1e-6) {
+          throw new Error(`object_mm (${w} × ${h}) does not fit the ${layout.cellWidthMm.toFixed(2)} × ${layout.cellHeightMm.toFixed(2)}mm imposition cell`);
+        }
+        return {
+          sheet_w_mm: layout.sheetWidthMm,
+          sheet_h_mm: layout.sheetHeightMm,
+          orientation: settings.orientation,
+          rows: settings.rows,
+          columns: settings.columns,
+          gutter_x_mm: settings.gutterXMm,
+          gutter_y_mm: settings.gutterYMm,
+          margin_mm: {
+            top: settings.marginTopMm,
+            right: settings.marginRightMm,
+            bottom: settings.marginBottomMm,
+            left: settings.marginLeftMm,
+          },
+          cell_w_mm: layout.cellWidthMm,
+          cell_h_mm: layout.cellHeightMm,
+          numbering_order: settings.numberingOrder,
+        };
+      })()
+    : null;
+
+  const printerMarks = params.printerMarks ? resolvePrinterMarks(params.printerMarks) : null;
+  const marks =
+    printerMarks && printerMarks.enabled
+      ? {
+          bleed_mm: printerMarks.bleedMm,
+          crop_marks:
+            printerMarks.cropMarkLengthMm > 0
+              ? { length_mm: printerMarks.cropMarkLengthMm, offset_mm: printerMarks.cropMarkOffsetMm }
+              : null,
+          registration: printerMarks.registrationMarks,
+          ...(printerMarks.slugLine && String(params.slugLine || '').trim() ? { slug_line: String(params.slugLine).trim() } : {}),
+        }
+      : null;
+
+  const duplexSettings = params.duplex ? resolveDuplex(params.duplex) : null;
+  const back_svg_s3_key = String(params.backSvgS3Key || '').trim();
+  const duplex =
+    duplexSettings && duplexSettings.enabled
+      ? {
+          flip: duplexSettings.flip,
+          offset_mm: { x: duplexSettings.offsetXMm, y: duplexSettings.offsetYMm },
+          ...(back_svg_s3_key ? { back_svg_s3_key } : {}),
+          page_order: 'interleaved' as const,
+        }
+      : null;
+  if (duplex && !imposition) throw new Error('duplex requires an imposition (the back side is mirrored across the sheet)');
+
   const x_mm = toFiniteNumberOrNull(params.objectXMm);
   const y_mm = toFiniteNumberOrNull(params.objectYMm);
 
@@ -155,11 +399,25 @@ export function buildFinalRenderPayload(params: {
           letter_spacing_mm: Number((s as any)?.letterSpacingMm),
           rotation_deg: Number((s as any)?.rotationDeg),
           color: String((s as any)?.color || '').trim(),
+          ...inkOf(s.ink),
           ...(Number.isFinite(Number((s as any)?.step)) && Number((s as any)?.step) !== 1 ? { step: Number((s as any)?.step) } : {}),
+          ...(String(s.alphabet || '') ? { alphabet: String(s.alphabet) } : {}),
+          ...(['carry', 'stop', 'wrap'].includes(s.rollover) ? { rollover: s.rollover } : {}),
+          ...(resolveCheckDigitScheme(s.checkDigit?.scheme) !== 'none'
+            ? {
+                check_digit: {
+                  scheme: resolveCheckDigitScheme(s.checkDigit.scheme),
+                  separator: String(s.checkDigit.separator ?? ''),
+                },
+              }
+            : {}),
+          ...(String(s.dataColumn || '') ? { data_column: String(s.dataColumn) } : {}),
+          ...(s.side === 'back' ? { side: 'back' as const } : {}),
+          ...zIndexOf(s.zIndex),
         }))
         .filter(
           (s) =>
-            Boolean(s.start) &&
+            (Boolean(s.start) || Boolean(s.data_column)) &&
             Number.isFinite(s.count) &&
             s.count > 0 &&
             Boolean(s.font_family) &&
@@ -175,6 +433,70 @@ export function buildFinalRenderPayload(params: {
 
   const hasSeriesList = Boolean(series_list && series_list.length);
 
+  const barcodes = Array.isArray(params.barcodeList)
+    ? params.barcodeList
+        .map((b) => ({
+          symbology: b.symbology,
+          start: String(b.start || ''),
+          count: Number(b.count),
+          ...(Number.isFinite(Number(b.step)) && Number(b.step) !== 1 ? { step: Number(b.step) } : {}),
+          ...(String(b.alphabet || '') ? { alphabet: String(b.alphabet) } : {}),
+          ...(['carry', 'stop', 'wrap'].includes(b.rollover) ? { rollover: b.rollover } : {}),
+          ...(resolveCheckDigitScheme(b.checkDigit?.scheme) !== 'none'
+            ? {
+                check_digit: {
+                  scheme: resolveCheckDigitScheme(b.checkDigit.scheme),
+                  separator: String(b.checkDigit.separator ?? ''),
+                },
+              }
+            : {}),
+          anchor_space: 'object_mm' as const,
+          x_mm: Number(b.xMm),
+          y_mm: Number(b.yMm),
+          module_mm: Number(b.moduleSizeMm),
+          height_mm: Number(b.heightMm),
+          quiet_zone_modules: Number(b.quietZoneModules),
+          rotation_deg: Number(b.rotationDeg),
+          show_text: Boolean(b.showText),
+          color: String(b.color || '').trim() || '#000000',
+          ...inkOf(b.ink),
+          ...(String(b.dataColumn || '') ? { data_column: String(b.dataColumn) } : {}),
+          ...(b.side === 'back' ? { side: 'back' as const } : {}),
+          ...zIndexOf(b.zIndex),
+        }))
+        .filter(
+          (b) =>
+            BARCODE_SYMBOLOGIES.some((s) => s.value === b.symbology) &&
+            (Boolean(b.start) || Boolean(b.data_column)) &&
+            Number.isFinite(b.count) &&
+            b.count > 0 &&
+            Number.isFinite(b.x_mm) &&
+            Number.isFinite(b.y_mm) &&
+            Number.isFinite(b.module_mm) &&
+            b.module_mm > 0 &&
+            Number.isFinite(b.height_mm) &&
+            b.height_mm > 0 &&
+            Number.isFinite(b.quiet_zone_modules) &&
+            b.quiet_zone_modules >= 0 &&
+            Number.isFinite(b.rotation_deg)
+        )
+    : [];
+
+  const records = Array.isArray(params.records) ? params.records : [];
+  for (const entry of [...(series_list || []), ...barcodes]) {
+    if (!entry.data_column) continue;
+    if (records.length < entry.count) {
+      throw new Error(`records must hold ${entry.count} rows for data column "${entry.data_column}" (got ${records.length})`);
+    }
+    if (records.some((r) => typeof r?.[entry.data_column as string] !== 'string')) {
+      throw new Error(`records are missing data column "${entry.data_column}"`);
+    }
+  }
+  const hasDataColumns = [...(series_list || []), ...barcodes].some((entry) => Boolean(entry.data_column));
+  if (!duplex && [...(series_list || []), ...barcodes].some((entry) => entry.side === 'back')) {
+    throw new Error('back-side slots require duplex to be enabled');
+  }
+
   const seriesStart = String(params.seriesStart || '');
   const count = Number(params.seriesCount);
   const xMm = toFiniteNumberOrNull((params as any).seriesXMm);
@@ -189,7 +511,8 @@ export function buildFinalRenderPayload(params: {
   const color = String(params.seriesColor || '').trim();
   const step = Number(params.seriesStep);
 
-  const shouldBuildSingleSeries = !hasSeriesList;
+  // A job made only of barcode slots has no text series to send
+  const shouldBuildSingleSeries = !hasSeriesList && !barcodes.length;
   if (shouldBuildSingleSeries) {
     if (!seriesStart) throw new Error('series.start is required');
     if (!(Number.isFinite(count) && count > 0)) {
@@ -223,12 +546,18 @@ export function buildFinalRenderPayload(params: {
 
   const custom_fonts = Array.isArray(params.customFonts)
     ? params.customFonts
-        .map((f) => ({
-          family: String((f as any)?.family || ''),
-          data_url: String((f as any)?.dataUrl || ''),
-          mime: String((f as any)?.mime || ''),
-        }))
-        .filter((f) => Boolean(f.family) && Boolean(f.data_url))
+        .map((f) => {
+          const subset = f.dataUrl && f.subsetHash ? { data_url: String(f.dataUrl), mime: String(f.mime || ''), subset_hash: String(f.subsetHash) } : null;
+          return 'fontId' in f
+            ? { family: String(f.family || ''), font_id: String(f.fontId || ''), ...(subset ?? {}) }
+            : {
+                family: String(f.family || ''),
+                data_url: String(f.dataUrl || ''),
+                mime: String(f.mime || ''),
+                ...(subset ? { subset_hash: subset.subset_hash } : {}),
+              };
+        })
+        .filter((f) => Boolean(f.family) && ('font_id' in f ? Boolean(f.font_id) : Boolean(f.data_url)))
     : undefined;
 
   const imageOverlays = Array.isArray(params.overlays)
@@ -241,6 +570,7 @@ export function buildFinalRenderPayload(params: {
           w_mm: Number((o as any)?.wMm),
           h_mm: Number((o as any)?.hMm),
           rotation_deg: Number((o as any)?.rotationDeg),
+          ...zIndexOf(o.zIndex),
         }))
         .filter(
           (o) =>
@@ -264,6 +594,8 @@ export function buildFinalRenderPayload(params: {
           scale: Number((o as any)?.scale),
           rotation_deg: Number((o as any)?.rotationDeg),
           svg_s3_key: String((o as any)?.svgS3Key || ''),
+          ...inkOf(o.ink),
+          ...zIndexOf(o.zIndex),
         }))
         .filter(
           (o) =>
@@ -276,12 +608,23 @@ export function buildFinalRenderPayload(params: {
         )
     : [];
 
-  const overlays = [...imageOverlays, ...svgOverlays];
+  // Stable sort, so overlays without a z_index keep images below SVGs as before
+  const overlays = [...imageOverlays, ...svgOverlays]
+    .map((o, i) => ({ o, i }))
+    .sort((a, b) => (a.o.z_index ?? -1) - (b.o.z_index ?? -1) || a.i - b.i)
+    .map(({ o }) => o);
+
+  const colorOutput = params.colorOutput ? resolveColorOutput(params.colorOutput) : null;
+  const seriesScope = resolveSeriesScope(params.seriesScope);
 
   const payload: FinalRenderPayload = {
     job_id,
     svg_s3_key,
     ...(render_mode ? { render_mode } : {}),
+    ...(imposition ? { imposition } : {}),
+    ...(marks ? { marks } : {}),
+    ...(duplex ? { duplex } : {}),
+    ...(colorOutput?.mode === 'cmyk' ? { color_output: { mode: 'cmyk' as const, icc_profile: colorOutput.profile } } : {}),
     object_mm: {
       w,
       h,
@@ -294,13 +637,20 @@ export function buildFinalRenderPayload(params: {
     },
     ...(custom_fonts && custom_fonts.length ? { custom_fonts } : {}),
     ...(overlays && overlays.length ? { overlays } : {}),
+    ...(barcodes.length ? { barcodes } : {}),
+    ...(hasDataColumns ? { records } : {}),
+    ...(seriesScope.client && seriesScope.event ? { series_register: seriesScope } : {}),
+    ...(params.preflight
+      ? { preflight: { errors: params.preflight.errors.map(preflightEntry), warnings: params.preflight.warnings.map(preflightEntry) } }
+      : {}),
     ...(hasSeriesList
       ? {
           series_list,
           // Backward compatibility (some services still expect series)
-          series: series_list?.[0],
+          series: series_list?.find((s) => !s.side) ?? series_list?.[0],
         }
-      : {
+      : shouldBuildSingleSeries
+      ? {
           series: {
             start: seriesStart,
             count,
@@ -315,8 +665,9 @@ export function buildFinalRenderPayload(params: {
             color,
             ...(Number.isFinite(step) && step !== 1 ? { step } : {}),
           },
-        }),
+        }
+      : {}),
   };
 
-  return payload;
+  return { ...payload, job_summary: summarizeRenderPayload(payload) };
 }
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { clampZoom, FIT_MARGIN_PX, fitView, stepZoom, zoomAround } from '@/utils/canvasZoom';
+
+const PX_PER_MM = 3.78;
+
+describe('zoomAround', () => {
+  it('keeps the point under the cursor in place', () => {
+    const view = { zoom: 1, panX: 100, panY: 50 };
+    const next = zoomAround(view, 2, 300, 250);
+    expect(next).toEqual({ zoom: 2, panX: -100, panY: -150 });
+    // Canvas point (200, 200) at zoom 1 is under the cursor before and after
+    expect((300 - view.panX) / view.zoom).toBeCloseTo((300 - next.panX) / next.zoom);
+  });
+
+  it('clamps to 25%–1600%', () => {
+    expect(clampZoom(0.1)).toBe(0.25);
+    expect(clampZoom(40)).toBe(16);
+    expect(zoomAround({ zoom: 16, panX: 0, panY: 0 }, 32, 10, 10)).toEqual({ zoom: 16, panX: 0, panY: 0 });
+  });
+});
+
+describe('stepZoom', () => {
+  it('moves between presets', () => {
+    expect(stepZoom(1, 1)).toBe(1.25);
+    expect(stepZoom(1, -1)).toBe(0.75);
+    expect(stepZoom(1.1, -1)).toBe(1);
+    expect(stepZoom(16, 1)).toBe(16);
+  });
+});
+
+describe('fitView', () => {
+  const objectMm = { widthMm: 200, heightMm: 70 };
+  const viewport = { width: 1000, height: 600 };
+
+  it('fits the whole object and centres it', () => {
+    const v = fitView('object', objectMm, viewport, PX_PER_MM);
+    expect(v.zoom).toBeCloseTo((1000 - 2 * FIT_MARGIN_PX) / (200 * PX_PER_MM));
+    expect(v.panX).toBeCloseTo(FIT_MARGIN_PX);
+    expect(v.panY).toBeCloseTo((600 - 70 * PX_PER_MM * v.zoom) / 2);
+  });
+
+  it('fills the width for a page fit and shows 1:1 mm at 100%', () => {
+    const tall = { widthMm: 50, heightMm: 150 };
+    const page = fitView('page', tall, viewport, PX_PER_MM);
+    expect(page.zoom * 50 * PX_PER_MM).toBeCloseTo(1000 - 2 * FIT_MARGIN_PX);
+    expect(page.panY).toBe(FIT_MARGIN_PX);
+    expect(fitView('actual', objectMm, viewport, PX_PER_MM).zoom).toBe(1);
+  });
+});
@@ -0,0 +1,56 @@
+// Zoom and pan for the editor canvas. Zoom 1 shows the object at its real
+// size on a 96 dpi screen (1 mm = 3.78 CSS px); pan is the screen position of
+// the object's top-left corner inside the canvas viewport.
+
+export type CanvasView = { zoom: number; panX: number; panY: number };
+
+export type FitMode = 'object' | 'page' | 'actual';
+
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 16;
+
+// Steps for the zoom buttons and keyboard zoom
+export const ZOOM_PRESETS = [0.25, 0.33, 0.5, 0.67, 0.75, 1, 1.25, 1.5, 2, 3, 4, 6, 8, 12, 16];
+
+// Screen px kept free around the object when fitting (room for the rulers)
+export const FIT_MARGIN_PX = 40;
+
+export const clampZoom = (zoom: number) => (Number.isFinite(zoom) ? Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom)) : 1);
+
+// Zooms while keeping the canvas point under (x, y) fixed on screen
+export const zoomAround = (view: CanvasView, nextZoom: number, x: number, y: number): CanvasView => {
+  const zoom = clampZoom(nextZoom);
+  const k = zoom / view.zoom;
+  return { zoom, panX: x - (x - view.panX) * k, panY: y - (y - view.panY) * k };
+};
+
+// Next preset above (direction 1) or below (-1) the current zoom
+export const stepZoom = (zoom: number, direction: 1 | -1): number => {
+  const next = direction > 0 ? ZOOM_PRESETS.find((z) => z > zoom + 1e-6) : [...ZOOM_PRESETS].reverse().find((z) => z < zoom - 1e-6);
+  return next ?? (direction > 0 ? MAX_ZOOM : MIN_ZOOM);
+};
+
+// 'object' fits the whole crop box, 'page' fills the viewport width, 'actual'
+// is 1:1 mm. The object is centred on whichever axis it fits.
+export const fitView = (
+  mode: FitMode,
+  objectMm: { widthMm: number; heightMm: number },
+  viewport: { width: number; height: number },
+  pxPerMm: number
+): CanvasView => {
+  const availW = Math.max(1, viewport.width - 2 * FIT_MARGIN_PX);
+  const availH = Math.max(1, viewport.height - 2 * FIT_MARGIN_PX);
+  const baseW = objectMm.widthMm * pxPerMm;
+  const baseH = objectMm.heightMm * pxPerMm;
+  const zoom = clampZoom(mode === 'actual' ? 1 : mode === 'page' ? availW / baseW : Math.min(availW / baseW, availH / baseH));
+
+  const w = baseW * zoom;
+  const h = baseH * zoom;
+  return {
+    zoom,
+    panX: (viewport.width - w) / 2,
+    panY: h <= availH ? (viewport.height - h) / 2 : FIT_MARGIN_PX,
+  };
+};
+
+export const formatZoom = (zoom: number) => `${Math.round(zoom * 100)}%`;
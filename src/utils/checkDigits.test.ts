@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { checkDigitAlphabetError, computeCheckDigit, withCheckDigit, type CheckDigitScheme } from '@/utils/checkDigits';
+import { SERIES_ALPHABETS } from '@/utils/seriesEngine';
+
+describe('computeCheckDigit', () => {
+  it.each([
+    ['luhn', '7992739871', '3'],
+    ['luhn', '37828224631000', '5'],
+    ['mod10', '400638133393', '1'],
+    ['mod10', '03600029145', '2'],
+    ['mod11', '12345', '5'],
+    ['mod11', '0', '0'],
+    ['verhoeff', '236', '3'],
+    ['verhoeff', '12345', '1'],
+    ['damm', '572', '4'],
+    ['damm', '12345', '9'],
+  ] as [CheckDigitScheme, string, string][])('%s(%s) = %s', (scheme, value, expected) => {
+    expect(computeCheckDigit(value, scheme)).toBe(expected);
+  });
+
+  it('ignores letters and separators', () => {
+    expect(computeCheckDigit('A 7992-739871', 'luhn')).toBe('3');
+  });
+
+  it('returns an empty string without digits or scheme', () => {
+    expect(computeCheckDigit('ABC', 'luhn')).toBe('');
+    expect(computeCheckDigit('A001', 'none')).toBe('');
+  });
+
+  it('uses X for a mod 11 remainder of 1', () => {
+    // 6 * 2 = 12, 12 % 11 = 1, 11 - 1 = 10
+    expect(computeCheckDigit('6', 'mod11')).toBe('X');
+  });
+});
+
+describe('withCheckDigit', () => {
+  it('appends the check digit behind the separator', () => {
+    expect(withCheckDigit('A7992739871', { scheme: 'luhn' })).toBe('A79927398713');
+    expect(withCheckDigit('A7992739871', { scheme: 'luhn', separator: '-' })).toBe('A7992739871-3');
+  });
+
+  it('leaves the value unchanged without a scheme', () => {
+    expect(withCheckDigit('A001', null)).toBe('A001');
+    expect(withCheckDigit('A001', { scheme: 'none', separator: '-' })).toBe('A001');
+  });
+});
+
+describe('checkDigitAlphabetError', () => {
+  it('rejects a scheme on a letter counter', () => {
+    expect(checkDigitAlphabetError({ scheme: 'luhn' }, SERIES_ALPHABETS.alpha)).toBe(
+      'Luhn check digits need a digits-only counter alphabet (got ABCDEFGHIJKLMNOPQRSTUVWXYZ)'
+    );
+    expect(checkDigitAlphabetError({ scheme: 'damm' }, '0123456789ABCDEF')).toMatch(/^Damm /);
+  });
+
+  it('accepts a digit counter or no scheme', () => {
+    expect(checkDigitAlphabetError({ scheme: 'mod11' }, SERIES_ALPHABETS.numeric)).toBeNull();
+    expect(checkDigitAlphabetError(null, SERIES_ALPHABETS.alpha)).toBeNull();
+    expect(checkDigitAlphabetError({ scheme: 'none' }, SERIES_ALPHABETS.alpha)).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+// Check-digit schemes for printed series values.
+//
+// The check digit is computed over the decimal digits of the full series value
+// (prefix and counter); letters, spaces and separators are ignored, so "A 001"
+// and "A001" get the same check digit. The result is appended after the value,
+// optionally behind a separator ("A001-7"). Because letters carry no value,
+// a scheme cannot be combined with a counter alphabet that has letters in it:
+// checkDigitAlphabetError reports that so the editor can block generation.
+
+export type CheckDigitScheme = 'none' | 'luhn' | 'mod10' | 'mod11' | 'verhoeff' | 'damm';
+
+export type CheckDigitConfig = {
+  scheme: CheckDigitScheme;
+  separator?: string;
+};
+
+export const CHECK_DIGIT_SCHEMES: { value: CheckDigitScheme; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'luhn', label: 'Luhn' },
+  { value: 'mod10', label: 'Mod 10 (weights 3-1)' },
+  { value: 'mod11', label: 'Mod 11 (weights 2-7)' },
+  { value: 'verhoeff', label: 'Verhoeff' },
+  { value: 'damm', label: 'Damm' },
+];
+
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+const VERHOEFF_INV = [0, 4, 3, 2, 1, 5, 6, 7, 8, 9];
+
+const DAMM = [
+  [0, 3, 1, 7, 5, 9, 8, 6, 4, 2],
+  [7, 0, 9, 2, 1, 5, 4, 8, 6, 3],
+  [4, 2, 0, 6, 8, 7, 1, 3, 5, 9],
+  [1, 7, 5, 0, 9, 8, 3, 4, 2, 6],
+  [6, 1, 2, 3, 0, 4, 5, 9, 7, 8],
+  [3, 6, 7, 4, 2, 0, 9, 5, 8, 1],
+  [5, 8, 6, 9, 7, 2, 0, 1, 3, 4],
+  [8, 9, 4, 5, 3, 6, 2, 0, 1, 7],
+  [9, 4, 3, 8, 6, 1, 7, 2, 0, 5],
+  [2, 5, 8, 1, 4, 3, 6, 7, 9, 0],
+];
+
+const digitsOf = (value: string): number[] => {
+  return String(value ?? '')
+    .split('')
+    .filter((ch) => ch >= '0' && ch <= '9')
+    .map((ch) => Number(ch));
+};
+
+const luhn = (digits: number[]): string => {
+  let sum = 0;
+  // Rightmost payload digit is doubled because the check digit goes after it.
+  for (let i = digits.length - 1, double = true; i >= 0; i -= 1, double = !double) {
+    let d = digits[i];
+    if (double) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return String((10 - (sum % 10)) % 10);
+};
+
+const mod10 = (digits: number[]): string => {
+  let sum = 0;
+  for (let i = digits.length - 1, w = 3; i >= 0; i -= 1, w = w === 3 ? 1 : 3) {
+    sum += digits[i] * w;
+  }
+  return String((10 - (sum % 10)) % 10);
+};
+
+const mod11 = (digits: number[]): string => {
+  let sum = 0;
+  for (let i = digits.length - 1, w = 2; i >= 0; i -= 1, w = w === 7 ? 2 : w + 1) {
+    sum += digits[i] * w;
+  }
+  const r = 11 - (sum % 11);
+  if (r === 11) return '0';
+  if (r === 10) return 'X';
+  return String(r);
+};
+
+const verhoeff = (digits: number[]): string => {
+  let c = 0;
+  const reversed = [...digits].reverse();
+  for (let i = 0; i < reversed.length; i += 1) {
+    c = VERHOEFF_D[c][VERHOEFF_P[(i + 1) % 8][reversed[i]]];
+  }
+  return String(VERHOEFF_INV[c]);
+};
+
+const damm = (digits: number[]): string => {
+  let interim = 0;
+  for (const d of digits) interim = DAMM[interim][d];
+  return String(interim);
+};
+
+export const resolveCheckDigitScheme = (raw: unknown): CheckDigitScheme => {
+  const v = String(raw || '').trim().toLowerCase();
+  return CHECK_DIGIT_SCHEMES.some((s) => s.value === v) ? (v as CheckDigitScheme) : 'none';
+};
+
+// Returns the check character for `value`, or '' when the scheme is 'none' or
+// the value carries no digits.
+export const computeCheckDigit = (value: string, scheme: CheckDigitScheme): string => {
+  const digits = digitsOf(value);
+  if (scheme === 'none' || !digits.length) return '';
+  if (scheme === 'luhn') return luhn(digits);
+  if (scheme === 'mod10') return mod10(digits);
+  if (scheme === 'mod11') return mod11(digits);
+  if (scheme === 'verhoeff') return verhoeff(digits);
+  if (scheme === 'damm') return damm(digits);
+  return '';
+};
+
+export const withCheckDigit = (value: string, config?: CheckDigitConfig | null): string => {
+  const scheme = resolveCheckDigitScheme(config?.scheme);
+  const check = computeCheckDigit(value, scheme);
+  if (!check) return value;
+  return `${value}${config?.separator ?? ''}${check}`;
+};
+
+export const checkDigitConfigOf = (slot: {
+  checkDigitScheme?: CheckDigitScheme | null;
+  checkDigitSeparator?: string | null;
+}): CheckDigitConfig | null => {
+  const scheme = resolveCheckDigitScheme(slot?.checkDigitScheme);
+  if (scheme === 'none') return null;
+  return { scheme, separator: String(slot?.checkDigitSeparator ?? '') };
+};
+
+// Error for a check-digit scheme on a counter whose alphabet is not all decimal
+// digits, or null when the pair is fine (or no scheme is set).
+export const checkDigitAlphabetError = (config: CheckDigitConfig | null, alphabet: string): string | null => {
+  const scheme = resolveCheckDigitScheme(config?.scheme);
+  if (scheme === 'none' || /^[0-9]+$/.test(alphabet)) return null;
+  const label = CHECK_DIGIT_SCHEMES.find((s) => s.value === scheme)?.label ?? scheme;
+  return `${label} check digits need a digits-only counter alphabet (got ${alphabet})`;
+};
@@ -31,6 +31,8 @@
 // `screenToPdf` → rendered in output preview (scaled) → rendered in PDF.
 //
 // A4 SINGLE SOURCE OF TRUTH (ABSOLUTE)
+// This is the logical page the editor lays objects out on. The press sheet the
+// job prints on (size, N-up grid) is the imposition model in `imposition.ts`.
 export const A4_WIDTH = 595.28; // points
 export const A4_HEIGHT = 841.89; // points
 export const SAFE_MARGIN = 28.35; // 10mm
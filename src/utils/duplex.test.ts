@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { computeImpositionLayout, impositionPreset } from '@/utils/imposition';
+import { trimBoxes } from '@/utils/printerMarks';
+import { backCellIndex, backTrimBox, duplexError, duplexPageOrder, mirrorsHorizontally, resolveDuplex } from '@/utils/duplex';
+
+// A4 portrait, 3 rows × 2 columns with uneven margins
+const layout = computeImpositionLayout({
+  ...impositionPreset(4),
+  rows: 3,
+  columns: 2,
+  gutterXMm: 6,
+  gutterYMm: 6,
+  marginTopMm: 10,
+  marginRightMm: 8,
+  marginBottomMm: 14,
+  marginLeftMm: 12,
+});
+const landscape = computeImpositionLayout({ ...impositionPreset(4), orientation: 'landscape', rows: 2, columns: 3 });
+
+describe('backCellIndex', () => {
+  it('mirrors columns for long-edge flipping on a portrait sheet', () => {
+    expect(mirrorsHorizontally(layout, 'long-edge')).toBe(true);
+    expect([0, 1, 2, 3, 4, 5].map((c) => backCellIndex(layout, 'long-edge', c))).toEqual([1, 0, 3, 2, 5, 4]);
+  });
+
+  it('mirrors rows for short-edge flipping on a portrait sheet', () => {
+    expect([0, 1, 2, 3, 4, 5].map((c) => backCellIndex(layout, 'short-edge', c))).toEqual([4, 5, 2, 3, 0, 1]);
+  });
+
+  it('swaps the axes on a landscape sheet', () => {
+    expect(mirrorsHorizontally(landscape, 'long-edge')).toBe(false);
+    expect(backCellIndex(landscape, 'long-edge', 0)).toBe(3);
+    expect(backCellIndex(landscape, 'short-edge', 0)).toBe(2);
+  });
+});
+
+describe('backTrimBox', () => {
+  const boxes = trimBoxes(layout, { widthMm: 80, heightMm: 50 }, 'center');
+
+  it('puts the back of each ticket exactly behind its front, whatever the margins', () => {
+    const settings = resolveDuplex({ enabled: true, flip: 'long-edge' });
+    const back = backTrimBox(layout, settings, boxes[0]);
+    expect(back.yMm).toBeCloseTo(boxes[0].yMm);
+    expect(back.xMm + back.widthMm).toBeCloseTo(layout.sheetWidthMm - boxes[0].xMm);
+  });
+
+  it('applies the registration offset after mirroring', () => {
+    const plain = backTrimBox(layout, resolveDuplex({ enabled: true, flip: 'short-edge' }), boxes[1]);
+    const shifted = backTrimBox(layout, resolveDuplex({ enabled: true, flip: 'short-edge', offsetXMm: 0.5, offsetYMm: -1 }), boxes[1]);
+    expect(shifted.xMm - plain.xMm).toBeCloseTo(0.5);
+    expect(shifted.yMm - plain.yMm).toBeCloseTo(-1);
+    expect(plain.yMm + plain.heightMm).toBeCloseTo(layout.sheetHeightMm - boxes[1].yMm);
+  });
+});
+
+describe('duplexPageOrder', () => {
+  it('interleaves front and back of every sheet', () => {
+    expect(duplexPageOrder(2, true)).toEqual([
+      { sheetIndex: 0, side: 'front' },
+      { sheetIndex: 0, side: 'back' },
+      { sheetIndex: 1, side: 'front' },
+      { sheetIndex: 1, side: 'back' },
+    ]);
+    expect(duplexPageOrder(2, false).map((p) => p.side)).toEqual(['front', 'front']);
+  });
+});
+
+describe('duplexError', () => {
+  it('requires back content and a plausible offset only when enabled', () => {
+    expect(duplexError(resolveDuplex({ enabled: false }), false)).toBeNull();
+    expect(duplexError(resolveDuplex({ enabled: true }), false)).toMatch(/no artwork or slots/);
+    expect(duplexError(resolveDuplex({ enabled: true, offsetYMm: 12 }), true)).toMatch(/±10mm/);
+    expect(duplexError(resolveDuplex({ enabled: true, offsetXMm: -1.5 }), true)).toBeNull();
+  });
+});
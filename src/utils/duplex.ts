@@ -0,0 +1,93 @@
+// Duplex (two-sided) sheets: the back side has its own artwork and slots and is
+// printed on the reverse of the same sheet.
+//
+// When the sheet is turned over, the cell behind front cell (row, column) is
+// mirrored along one axis. Long-edge flipping turns the sheet about its long
+// side, short-edge flipping about its short side; on a portrait sheet long-edge
+// mirrors columns and short-edge mirrors rows, on a landscape sheet the reverse.
+//
+// The registration offset shifts everything on the back side (in back-side
+// coordinates, as the printer sees the page) to correct feed drift.
+import type { ImpositionLayout } from '@/utils/imposition';
+import type { TrimBox } from '@/utils/printerMarks';
+
+export type DuplexFlip = 'long-edge' | 'short-edge';
+
+export type DuplexSide = 'front' | 'back';
+
+export type DuplexSettings = {
+  enabled: boolean;
+  flip: DuplexFlip;
+  offsetXMm: number;
+  offsetYMm: number;
+};
+
+export const DUPLEX_FLIPS: { value: DuplexFlip; label: string }[] = [
+  { value: 'long-edge', label: 'Flip on long edge' },
+  { value: 'short-edge', label: 'Flip on short edge' },
+];
+
+export const DEFAULT_DUPLEX: DuplexSettings = {
+  enabled: false,
+  flip: 'long-edge',
+  offsetXMm: 0,
+  offsetYMm: 0,
+};
+
+// Larger corrections mean the wrong paper or flip, not printer drift
+export const MAX_DUPLEX_OFFSET_MM = 10;
+
+const finite = (raw: unknown, fallback: number): number => {
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+export const resolveDuplex = (raw?: Partial<DuplexSettings> | null): DuplexSettings => {
+  const d = DEFAULT_DUPLEX;
+  return {
+    enabled: typeof raw?.enabled === 'boolean' ? raw.enabled : d.enabled,
+    flip: DUPLEX_FLIPS.some((f) => f.value === raw?.flip) ? (raw?.flip as DuplexFlip) : d.flip,
+    offsetXMm: finite(raw?.offsetXMm, d.offsetXMm),
+    offsetYMm: finite(raw?.offsetYMm, d.offsetYMm),
+  };
+};
+
+// True when turning the sheet over mirrors it left-to-right
+export const mirrorsHorizontally = (layout: Pick<ImpositionLayout, 'sheetWidthMm' | 'sheetHeightMm'>, flip: DuplexFlip): boolean => {
+  const portrait = layout.sheetHeightMm >= layout.sheetWidthMm;
+  return portrait === (flip === 'long-edge');
+};
+
+// Cell on the back side (row-major, as printed) behind the given front cell.
+// Mirroring is its own inverse, so this also maps back cells to front cells.
+export const backCellIndex = (layout: ImpositionLayout, flip: DuplexFlip, cellIndex: number): number => {
+  const rows = Math.max(...layout.cells.map((c) => c.row)) + 1;
+  const columns = Math.max(...layout.cells.map((c) => c.column)) + 1;
+  const row = Math.floor(cellIndex / columns);
+  const column = cellIndex % columns;
+  if (mirrorsHorizontally(layout, flip)) return row * columns + (columns - 1 - column);
+  return (rows - 1 - row) * columns + column;
+};
+
+// Where a front trim box lands on the back side, including the registration offset
+export const backTrimBox = (layout: ImpositionLayout, settings: DuplexSettings, box: TrimBox): TrimBox => {
+  const mirrored = mirrorsHorizontally(layout, settings.flip)
+    ? { ...box, xMm: layout.sheetWidthMm - box.xMm - box.widthMm }
+    : { ...box, yMm: layout.sheetHeightMm - box.yMm - box.heightMm };
+  return { ...mirrored, xMm: mirrored.xMm + settings.offsetXMm, yMm: mirrored.yMm + settings.offsetYMm };
+};
+
+// Output page sequence: front and back of each sheet in turn when duplex is on
+export const duplexPageOrder = (sheetCount: number, enabled: boolean): { sheetIndex: number; side: DuplexSide }[] => {
+  const sides: DuplexSide[] = enabled ? ['front', 'back'] : ['front'];
+  return Array.from({ length: sheetCount }, (_, sheetIndex) => sides.map((side) => ({ sheetIndex, side }))).flat();
+};
+
+export const duplexError = (settings: DuplexSettings, hasBackContent: boolean): string | null => {
+  if (!settings.enabled) return null;
+  if (!hasBackContent) return 'Duplex is on but the back side has no artwork or slots';
+  if (Math.abs(settings.offsetXMm) > MAX_DUPLEX_OFFSET_MM || Math.abs(settings.offsetYMm) > MAX_DUPLEX_OFFSET_MM) {
+    return `Duplex registration offset must be within ±${MAX_DUPLEX_OFFSET_MM}mm`;
+  }
+  return null;
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { createHistory, currentState, jumpToHistory, MAX_HISTORY_ENTRIES, recordHistory, redoHistory, undoHistory } from '@/utils/editorHistory';
+
+const start = createHistory({ x: 0 }, 'Opened editor', 0);
+
+describe('recordHistory', () => {
+  it('adds one entry per change and ignores no-op updates', () => {
+    const a = recordHistory(start, { x: 1 }, { label: 'Move' }, 1);
+    expect(a.entries.map((e) => e.label)).toEqual(['Opened editor', 'Move']);
+    expect(recordHistory(a, currentState(a))).toBe(a);
+  });
+
+  it('merges a continuous drag into one step', () => {
+    let h = start;
+    for (let x = 1; x <= 5; x += 1) h = recordHistory(h, { x }, { label: 'Move slot', mergeKey: 'drag:1' }, x);
+    h = recordHistory(h, { x: 6 }, { label: 'Move slot', mergeKey: 'drag:2' }, 6);
+    expect(h.entries).toHaveLength(3);
+    expect(h.entries[1].state).toEqual({ x: 5 });
+    expect(undoHistory(h).index).toBe(1);
+    expect(currentState(undoHistory(undoHistory(h)))).toEqual({ x: 0 });
+  });
+
+  it('rewrites the current entry for transient updates', () => {
+    const a = recordHistory(start, { x: 1 }, { label: 'Move' }, 1);
+    const b = recordHistory(a, { x: 2 }, { transient: true }, 2);
+    expect(b.entries).toHaveLength(2);
+    expect(b.entries[1].label).toBe('Move');
+    expect(currentState(b)).toEqual({ x: 2 });
+  });
+
+  it('drops the redo branch and does not merge into an undone step', () => {
+    let h = recordHistory(start, { x: 1 }, { mergeKey: 'field' }, 1);
+    h = recordHistory(h, { x: 2 }, { label: 'Other' }, 2);
+    h = undoHistory(undoHistory(h));
+    h = recordHistory(h, { x: 9 }, { mergeKey: 'field' }, 3);
+    expect(h.entries.map((e) => e.state.x)).toEqual([0, 9]);
+    expect(redoHistory(h)).toBe(h);
+  });
+
+  it(`keeps at most ${MAX_HISTORY_ENTRIES} entries`, () => {
+    let h = start;
+    for (let x = 1; x <= MAX_HISTORY_ENTRIES + 20; x += 1) h = recordHistory(h, { x }, {}, x);
+    expect(h.entries).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(currentState(h)).toEqual({ x: MAX_HISTORY_ENTRIES + 20 });
+  });
+});
+
+describe('jumpToHistory', () => {
+  it('moves to any earlier state and back, clamped to the history', () => {
+    let h = start;
+    for (let x = 1; x <= 4; x += 1) h = recordHistory(h, { x }, {}, x);
+    expect(currentState(jumpToHistory(h, 1))).toEqual({ x: 1 });
+    expect(currentState(jumpToHistory(jumpToHistory(h, 1), 4))).toEqual({ x: 4 });
+    expect(jumpToHistory(h, -3).index).toBe(0);
+    expect(jumpToHistory(h, 99)).toBe(h);
+  });
+});
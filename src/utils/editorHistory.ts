@@ -0,0 +1,61 @@
+// Linear undo/redo history of editor snapshots.
+//
+// Every recorded change becomes an entry; undo/redo/jump only move the cursor,
+// and recording after an undo drops the entries ahead of it. Changes that share
+// a merge key with the newest entry (one drag gesture, typing into one field)
+// replace that entry instead of adding steps.
+
+export type HistoryEntry<T> = {
+  state: T;
+  label: string;
+  mergeKey: string | null;
+  at: number;
+};
+
+export type EditorHistory<T> = {
+  entries: HistoryEntry<T>[];
+  index: number;
+};
+
+export type HistoryStep = {
+  label?: string;
+  mergeKey?: string | null;
+  // Derived updates (e.g. syncing a value) rewrite the current entry without a new step
+  transient?: boolean;
+};
+
+export const MAX_HISTORY_ENTRIES = 100;
+
+export const createHistory = <T>(state: T, label = 'Opened editor', at = Date.now()): EditorHistory<T> => ({
+  entries: [{ state, label, mergeKey: null, at }],
+  index: 0,
+});
+
+export const currentState = <T>(history: EditorHistory<T>): T => history.entries[history.index].state;
+
+export const recordHistory = <T>(history: EditorHistory<T>, state: T, step: HistoryStep = {}, at = Date.now()): EditorHistory<T> => {
+  const current = history.entries[history.index];
+  if (state === current.state) return history;
+
+  const isNewest = history.index === history.entries.length - 1;
+  if (step.transient || (step.mergeKey && isNewest && current.mergeKey === step.mergeKey)) {
+    const entries = history.entries.slice();
+    entries[history.index] = { ...current, state, at };
+    return { entries, index: history.index };
+  }
+
+  const entries = [
+    ...history.entries.slice(0, history.index + 1),
+    { state, label: step.label || 'Edit', mergeKey: step.mergeKey ?? null, at },
+  ].slice(-MAX_HISTORY_ENTRIES);
+  return { entries, index: entries.length - 1 };
+};
+
+export const jumpToHistory = <T>(history: EditorHistory<T>, index: number): EditorHistory<T> => {
+  const next = Math.max(0, Math.min(history.entries.length - 1, Math.round(index)));
+  return next === history.index ? history : { ...history, index: next };
+};
+
+export const undoHistory = <T>(history: EditorHistory<T>): EditorHistory<T> => jumpToHistory(history, history.index - 1);
+
+export const redoHistory = <T>(history: EditorHistory<T>): EditorHistory<T> => jumpToHistory(history, history.index + 1);
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { cycleSelection, duplicateStartingSeries, nudgeDelta, roundMm } from '@/utils/editorShortcuts';
+
+describe('nudgeDelta', () => {
+  it('moves 0.1 mm, or 1 mm with Shift', () => {
+    expect(nudgeDelta('ArrowLeft', false)).toEqual({ dxMm: -0.1, dyMm: 0 });
+    expect(nudgeDelta('ArrowDown', true)).toEqual({ dxMm: 0, dyMm: 1 });
+    expect(nudgeDelta('Enter', false)).toBeNull();
+    expect(roundMm(10 + 0.1 + 0.1 + 0.1)).toBe(10.3);
+  });
+});
+
+describe('cycleSelection', () => {
+  const order = ['a', 'b', 'c', 'd'];
+
+  it('wraps in both directions', () => {
+    expect(cycleSelection(order, 'd', ['d'])).toBe('a');
+    expect(cycleSelection(order, 'a', ['a'], true)).toBe('d');
+    expect(cycleSelection(order, null, [])).toBe('a');
+    expect(cycleSelection(order, null, [], true)).toBe('d');
+  });
+
+  it('treats the selected group as one stop', () => {
+    expect(cycleSelection(order, 'a', ['a', 'b'])).toBe('c');
+    expect(cycleSelection(order, 'c', ['b', 'c'], true)).toBe('a');
+    expect(cycleSelection([], null, [])).toBeNull();
+  });
+});
+
+describe('duplicateStartingSeries', () => {
+  it('takes the next series value nobody starts at', () => {
+    expect(duplicateStartingSeries('A001', ['A001'])).toBe('A002');
+    expect(duplicateStartingSeries('A001', ['A001', 'A002'])).toBe('A003');
+    expect(duplicateStartingSeries('A099', ['A099'])).toBe('A100');
+  });
+});
@@ -0,0 +1,99 @@
+// Keyboard editing in the ticket editor: nudging, duplicate, delete, Tab
+// cycling. The list below drives both the key handling and the cheat sheet.
+import { seriesValueAt, type SeriesFormat } from '@/utils/seriesEngine';
+
+export type EditorShortcutId =
+  | 'nudge'
+  | 'nudge-coarse'
+  | 'duplicate'
+  | 'delete'
+  | 'next-item'
+  | 'previous-item'
+  | 'undo'
+  | 'redo'
+  | 'zoom-in'
+  | 'zoom-out'
+  | 'fit-object'
+  | 'actual-size'
+  | 'pan'
+  | 'shortcuts';
+
+export type EditorShortcut = {
+  id: EditorShortcutId;
+  group: 'Move' | 'Edit' | 'Select' | 'History' | 'View' | 'Help';
+  label: string;
+  keys: string[];
+  // Whether picking it from the cheat sheet runs it
+  runnable: boolean;
+};
+
+export const EDITOR_SHORTCUTS: EditorShortcut[] = [
+  { id: 'nudge', group: 'Move', label: 'Nudge 0.1 mm', keys: ['←', '↑', '→', '↓'], runnable: false },
+  { id: 'nudge-coarse', group: 'Move', label: 'Nudge 1 mm', keys: ['Shift', 'Arrow'], runnable: false },
+  { id: 'duplicate', group: 'Edit', label: 'Duplicate slot (next series value)', keys: ['Ctrl', 'D'], runnable: true },
+  { id: 'delete', group: 'Edit', label: 'Delete selection', keys: ['Delete'], runnable: true },
+  { id: 'next-item', group: 'Select', label: 'Select next item', keys: ['Tab'], runnable: true },
+  { id: 'previous-item', group: 'Select', label: 'Select previous item', keys: ['Shift', 'Tab'], runnable: true },
+  { id: 'undo', group: 'History', label: 'Undo', keys: ['Ctrl', 'Z'], runnable: true },
+  { id: 'redo', group: 'History', label: 'Redo', keys: ['Ctrl', 'Shift', 'Z'], runnable: true },
+  { id: 'zoom-in', group: 'View', label: 'Zoom in', keys: ['Ctrl', '+'], runnable: true },
+  { id: 'zoom-out', group: 'View', label: 'Zoom out', keys: ['Ctrl', '-'], runnable: true },
+  { id: 'fit-object', group: 'View', label: 'Fit object', keys: ['Ctrl', '0'], runnable: true },
+  { id: 'actual-size', group: 'View', label: 'Actual size (1:1 mm)', keys: ['Ctrl', '1'], runnable: true },
+  { id: 'pan', group: 'View', label: 'Pan canvas', keys: ['Space', 'Drag'], runnable: false },
+  { id: 'shortcuts', group: 'Help', label: 'Show keyboard shortcuts', keys: ['?'], runnable: false },
+];
+
+export const NUDGE_STEP_MM = 0.1;
+export const NUDGE_COARSE_STEP_MM = 1;
+
+// Typing in a form field keeps its own keys
+export const isTextEntryTarget = (target: EventTarget | null): boolean => {
+  const el = target as HTMLElement | null;
+  return !!el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName));
+};
+
+export const nudgeDelta = (key: string, coarse: boolean): { dxMm: number; dyMm: number } | null => {
+  const step = coarse ? NUDGE_COARSE_STEP_MM : NUDGE_STEP_MM;
+  switch (key) {
+    case 'ArrowLeft':
+      return { dxMm: -step, dyMm: 0 };
+    case 'ArrowRight':
+      return { dxMm: step, dyMm: 0 };
+    case 'ArrowUp':
+      return { dxMm: 0, dyMm: -step };
+    case 'ArrowDown':
+      return { dxMm: 0, dyMm: step };
+    default:
+      return null;
+  }
+};
+
+// Rounds away float drift so repeated 0.1 mm nudges stay on the 0.01 mm grid
+export const roundMm = (mm: number) => Math.round(mm * 100) / 100;
+
+// Next (or previous) item after `current` in canvas order, skipping the rest
+// of the current selection so a group is a single Tab stop
+export const cycleSelection = (order: string[], current: string | null, selected: string[], backwards = false): string | null => {
+  if (!order.length) return null;
+  const found = current ? order.indexOf(current) : -1;
+  // With nothing selected, Tab starts at the first item and Shift+Tab at the last
+  const start = found >= 0 ? found : backwards ? 0 : -1;
+  const step = backwards ? -1 : 1;
+  for (let i = 1; i <= order.length; i += 1) {
+    const idx = (((start + step * i) % order.length) + order.length) % order.length;
+    const id = order[idx];
+    if (!selected.includes(id) || order.every((o) => selected.includes(o))) return id;
+  }
+  return null;
+};
+
+// Starting series for a duplicated slot: the next value after `start` that no
+// other slot already starts at
+export const duplicateStartingSeries = (start: string, taken: string[], format: SeriesFormat = {}): string => {
+  for (let offset = 1; offset <= taken.length + 1; offset += 1) {
+    const candidate = seriesValueAt(start, offset, format);
+    if (!taken.includes(candidate)) return candidate;
+  }
+  return seriesValueAt(start, taken.length + 1, format);
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { fontDisplayName, missingGlyphs, parseFontList, readFontInfo, seriesGlyphSample } from '@/utils/fontLibrary';
+
+const utf16 = (s: string) => Array.from(s).flatMap((ch) => [ch.charCodeAt(0) >> 8, ch.charCodeAt(0) & 0xff]);
+
+const u16 = (n: number) => [(n >> 8) & 0xff, n & 0xff];
+const u32 = (n: number) => [...u16(n >>> 16), ...u16(n & 0xffff)];
+
+// Minimal TrueType file: a Windows name table and a format 4 cmap
+const buildFont = (family: string, style: string, segments: [number, number][], fsType = 0): ArrayBuffer => {
+  const names = [
+    [1, family],
+    [2, style],
+  ] as const;
+  const strings = names.map(([, v]) => utf16(v));
+  let offset = 0;
+  const records = names.flatMap(([id], i) => {
+    const rec = [...u16(3), ...u16(1), ...u16(0x409), ...u16(id), ...u16(strings[i].length), ...u16(offset)];
+    offset += strings[i].length;
+    return rec;
+  });
+  const name = [...u16(0), ...u16(names.length), ...u16(6 + names.length * 12), ...records, ...strings.flat()];
+
+  const segs = [...segments, [0xffff, 0xffff] as [number, number]];
+  const sub = [
+    ...u16(4),
+    ...u16(14 + segs.length * 8 + 2),
+    ...u16(0),
+    ...u16(segs.length * 2),
+    ...u16(0),
+    ...u16(0),
+    ...u16(0),
+    ...segs.flatMap(([, end]) => u16(end)),
+    ...u16(0),
+    ...segs.flatMap(([start]) => u16(start)),
+    // Map every code to glyph 1+ (delta), the terminator to glyph 0
+    ...segs.map(([start], i) => (i === segs.length - 1 ? 1 : (1 - start) & 0xffff)).flatMap(u16),
+    ...segs.flatMap(() => u16(0)),
+  ];
+  const cmap = [...u16(0), ...u16(1), ...u16(3), ...u16(1), ...u32(12), ...sub];
+
+  const os2 = [...u16(4), ...u16(500), ...u16(400), ...u16(5), ...u16(fsType)];
+
+  const tables = [
+    ['OS/2', os2],
+    ['cmap', cmap],
+    ['name', name],
+  ] as const;
+  let at = 12 + tables.length * 16;
+  const dir = tables.flatMap(([t, data]) => {
+    const rec = [...Array.from(t).map((c) => c.charCodeAt(0)), ...u32(0), ...u32(at), ...u32(data.length)];
+    at += data.length;
+    return rec;
+  });
+  return new Uint8Array([...u32(0x00010000), ...u16(tables.length), 0, 0, 0, 0, 0, 0, ...dir, ...tables.flatMap(([, d]) => d)]).buffer;
+};
+
+describe('readFontInfo', () => {
+  it('reads the family, style and covered characters', async () => {
+    const info = await readFontInfo(buildFont('Ticket Sans', 'Bold', [[0x30, 0x39], [0x41, 0x43]]));
+    expect(info).toMatchObject({ family: 'Ticket Sans', style: 'Bold', embeddable: true });
+    expect(info?.coverage).toEqual([
+      [0x30, 0x39],
+      [0x41, 0x43],
+    ]);
+    expect(missingGlyphs('AB 012-D', info?.coverage ?? [])).toEqual(['-', 'D']);
+  });
+
+  it('flags fonts whose licence forbids embedding', async () => {
+    expect((await readFontInfo(buildFont('Locked', 'Regular', [[0x41, 0x41]], 0x0002)))?.embeddable).toBe(false);
+    expect((await readFontInfo(buildFont('Print', 'Regular', [[0x41, 0x41]], 0x0004)))?.embeddable).toBe(true);
+  });
+
+  it('leaves WOFF2 to the server and rejects other files', async () => {
+    expect(await readFontInfo(new Uint8Array([...Array.from('wOF2').map((c) => c.charCodeAt(0)), ...new Array(12).fill(0)]).buffer)).toBeNull();
+    await expect(readFontInfo(new Uint8Array(16).buffer)).rejects.toThrow(/Not a TrueType/);
+  });
+});
+
+describe('parseFontList', () => {
+  it('tells library uploads from system fonts', () => {
+    const fonts = parseFontList({
+      fonts: [{ family: 'Arial' }, { id: 'f1', family: 'Ticket Sans', style: 'Bold' }, { family: '' }],
+    });
+    expect(fonts).toEqual([
+      { id: 'system:Arial', family: 'Arial', style: 'Regular', source: 'system', url: null },
+      { id: 'f1', family: 'Ticket Sans', style: 'Bold', source: 'library', url: '/api/fonts/f1/file' },
+    ]);
+    expect(fonts.map(fontDisplayName)).toEqual(['Arial', 'Ticket Sans Bold']);
+  });
+});
+
+describe('seriesGlyphSample', () => {
+  it('covers the counter alphabet and check characters', () => {
+    expect(seriesGlyphSample({ values: ['A001', 'A100'], alphabet: '0123456789', checkDigit: { scheme: 'mod11', separator: '-' } })).toContain('X');
+    expect(seriesGlyphSample({ values: ['Z9'] })).toBe('Z9');
+  });
+});
@@ -0,0 +1,265 @@
+// Fonts for series slots: the server-side library (uploads kept under their
+// real family and style names) next to the system fonts, both listed by
+// GET /api/fonts, plus glyph coverage so the editor can warn before a job
+// prints characters the chosen font does not have.
+import type { CheckDigitConfig } from '@/utils/checkDigits';
+
+export type FontSource = 'system' | 'library';
+
+export type FontRecord = {
+  id: string;
+  family: string;
+  style: string;
+  source: FontSource;
+  // Where the font file is downloaded from (library fonts only)
+  url: string | null;
+};
+
+// Sorted, merged [first, last] code point ranges the font has glyphs for
+export type GlyphCoverage = [number, number][];
+
+export type FontInfo = {
+  family: string;
+  style: string;
+  coverage: GlyphCoverage;
+  // False when the OS/2 licence bits forbid embedding the outlines in a PDF
+  embeddable: boolean;
+};
+
+const REGULAR_STYLES = ['regular', 'normal', 'book', 'roman', ''];
+
+// Name used for the slot's fontFamily, the CSS FontFace and the payload;
+// non-regular styles get their own name so Bold and Regular can both be used
+export const fontDisplayName = (font: { family: string; style: string }): string =>
+  REGULAR_STYLES.includes(font.style.trim().toLowerCase()) ? font.family : `${font.family} ${font.style}`;
+
+export const parseFontRecord = (raw: unknown): FontRecord | null => {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const family = String(r.family ?? '').trim();
+  if (!family) return null;
+  const id = String(r.id ?? r._id ?? '').trim();
+  const url = typeof r.url === 'string' && r.url ? r.url : null;
+  const source: FontSource = r.source === 'library' || (r.source !== 'system' && (id || url)) ? 'library' : 'system';
+  return {
+    id: id || `system:${family}`,
+    family,
+    style: String(r.style ?? r.subfamily ?? '').trim() || 'Regular',
+    source,
+    url: source === 'library' ? url ?? (id ? `/api/fonts/${encodeURIComponent(id)}/file` : null) : null,
+  };
+};
+
+// Accepts a bare array or { fonts: [...] }; entries without a family are skipped
+export const parseFontList = (raw: unknown): FontRecord[] => {
+  const wrapped = (raw as { fonts?: unknown } | null)?.fonts;
+  const items: unknown[] = Array.isArray(raw) ? raw : Array.isArray(wrapped) ? wrapped : [];
+  return items.flatMap((item) => parseFontRecord(item) ?? []);
+};
+
+export const hasGlyph = (coverage: GlyphCoverage, codePoint: number): boolean => {
+  let lo = 0;
+  let hi = coverage.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (codePoint < coverage[mid][0]) hi = mid - 1;
+    else if (codePoint > coverage[mid][1]) lo = mid + 1;
+    else return true;
+  }
+  return false;
+};
+
+// Distinct characters of `text` the font cannot draw; whitespace is ignored
+export const missingGlyphs = (text: string, coverage: GlyphCoverage): string[] =>
+  Array.from(new Set(Array.from(text))).filter((ch) => !/\s/.test(ch) && !hasGlyph(coverage, ch.codePointAt(0) as number));
+
+// Every character a slot can print over its run: the sample values (both
+// ends of a counter run and the prefix characters its carry passes through, or
+// every data value), the counter alphabet since any
+// counter character can show up mid-run, and the check characters
+export const seriesGlyphSample = (opts: { values: string[]; alphabet?: string | null; checkDigit?: CheckDigitConfig | null }): string => {
+  const check = opts.checkDigit && opts.checkDigit.scheme !== 'none' ? `${opts.checkDigit.separator ?? ''}0123456789${opts.checkDigit.scheme === 'mod11' ? 'X' : ''}` : '';
+  return `${opts.values.join('')}${opts.alphabet ?? ''}${check}`;
+};
+
+// --- sfnt (TrueType / OpenType) parsing -----------------------------------
+
+const tag = (view: DataView, offset: number) => String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+export type TableMap = Map<string, DataView>;
+
+export const sfntTables = (view: DataView, base = 0): TableMap => {
+  const tables: TableMap = new Map();
+  const numTables = view.getUint16(base + 4);
+  for (let i = 0; i < numTables; i += 1) {
+    const rec = base + 12 + i * 16;
+    const offset = view.getUint32(rec + 8);
+    const length = view.getUint32(rec + 12);
+    tables.set(tag(view, rec), new DataView(view.buffer, view.byteOffset + offset, length));
+  }
+  return tables;
+};
+
+const inflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// WOFF 1.0: the sfnt tables, each optionally zlib-compressed
+const woffTables = async (view: DataView): Promise<TableMap> => {
+  const tables: TableMap = new Map();
+  const numTables = view.getUint16(12);
+  for (let i = 0; i < numTables; i += 1) {
+    const rec = 44 + i * 20;
+    const offset = view.getUint32(rec + 4);
+    const compLength = view.getUint32(rec + 8);
+    const origLength = view.getUint32(rec + 12);
+    const raw = new Uint8Array(view.buffer, view.byteOffset + offset, compLength);
+    const data = compLength < origLength ? await inflate(raw) : raw;
+    tables.set(tag(view, rec), new DataView(data.buffer, data.byteOffset, data.byteLength));
+  }
+  return tables;
+};
+
+const decodeUtf16Be = (view: DataView, offset: number, length: number) => {
+  let s = '';
+  for (let i = 0; i + 1 < length; i += 2) s += String.fromCharCode(view.getUint16(offset + i));
+  return s;
+};
+
+const decodeLatin1 = (view: DataView, offset: number, length: number) => {
+  let s = '';
+  for (let i = 0; i < length; i += 1) s += String.fromCharCode(view.getUint8(offset + i));
+  return s;
+};
+
+// Typographic family/subfamily (name IDs 16/17) win over the legacy 1/2;
+// Windows English names win over Mac and Unicode ones
+const readNames = (name: DataView): { family: string; style: string } => {
+  const count = name.getUint16(2);
+  const stringOffset = name.getUint16(4);
+  const found = new Map<number, { rank: number; value: string }>();
+  for (let i = 0; i < count; i += 1) {
+    const rec = 6 + i * 12;
+    const platformId = name.getUint16(rec);
+    const languageId = name.getUint16(rec + 4);
+    const nameId = name.getUint16(rec + 6);
+    if (![1, 2, 16, 17].includes(nameId)) continue;
+    const length = name.getUint16(rec + 8);
+    const offset = stringOffset + name.getUint16(rec + 10);
+    if (offset + length > name.byteLength) continue;
+    const rank = platformId === 3 ? (languageId === 0x409 ? 3 : 2) : platformId === 0 ? 1 : 0;
+    const value = (platformId === 1 ? decodeLatin1(name, offset, length) : decodeUtf16Be(name, offset, length)).trim();
+    const prev = found.get(nameId);
+    if (value && (!prev || rank > prev.rank)) found.set(nameId, { rank, value });
+  }
+  return {
+    family: found.get(16)?.value ?? found.get(1)?.value ?? '',
+    style: found.get(17)?.value ?? found.get(2)?.value ?? '',
+  };
+};
+
+const pushRange = (ranges: GlyphCoverage, first: number, last: number) => {
+  const prev = ranges[ranges.length - 1];
+  if (prev && first <= prev[1] + 1) prev[1] = Math.max(prev[1], last);
+  else ranges.push([first, last]);
+};
+
+const mergeRanges = (ranges: GlyphCoverage): GlyphCoverage => {
+  const merged: GlyphCoverage = [];
+  [...ranges].sort((a, b) => a[0] - b[0]).forEach(([a, b]) => pushRange(merged, a, b));
+  return merged;
+};
+
+const cmapFormat4 = (cmap: DataView, at: number): GlyphCoverage => {
+  const segCount = cmap.getUint16(at + 6) / 2;
+  const ends = at + 14;
+  const starts = ends + segCount * 2 + 2;
+  const deltas = starts + segCount * 2;
+  const rangeOffsets = deltas + segCount * 2;
+  const ranges: GlyphCoverage = [];
+  for (let i = 0; i < segCount; i += 1) {
+    const end = cmap.getUint16(ends + i * 2);
+    const start = cmap.getUint16(starts + i * 2);
+    const delta = cmap.getInt16(deltas + i * 2);
+    const rangeOffsetAt = rangeOffsets + i * 2;
+    const rangeOffset = cmap.getUint16(rangeOffsetAt);
+    for (let c = start; c <= end && c !== 0xffff; c += 1) {
+      let glyph: number;
+      if (!rangeOffset) {
+        glyph = (c + delta) & 0xffff;
+      } else {
+        const glyphAt = rangeOffsetAt + rangeOffset + (c - start) * 2;
+        glyph = glyphAt + 2 <= cmap.byteLength ? cmap.getUint16(glyphAt) : 0;
+        if (glyph) glyph = (glyph + delta) & 0xffff;
+      }
+      if (glyph) pushRange(ranges, c, c);
+    }
+  }
+  return ranges;
+};
+
+const cmapFormat12 = (cmap: DataView, at: number): GlyphCoverage => {
+  const groups = cmap.getUint32(at + 12);
+  const ranges: GlyphCoverage = [];
+  for (let i = 0; i < groups; i += 1) {
+    const g = at + 16 + i * 12;
+    const first = cmap.getUint32(g);
+    const last = cmap.getUint32(g + 4);
+    // Glyph 0 is .notdef, so a group starting there does not cover its first code
+    const startGlyph = cmap.getUint32(g + 8);
+    if (startGlyph === 0 && first === last) continue;
+    ranges.push([startGlyph === 0 ? first + 1 : first, last]);
+  }
+  return ranges;
+};
+
+// Best Unicode subtable: full-repertoire format 12 first, then BMP format 4
+export const unicodeCmapSubtable = (cmap: DataView): { format: 4 | 12; at: number } => {
+  const numTables = cmap.getUint16(2);
+  const subtables: { format: number; at: number; unicode: boolean }[] = [];
+  for (let i = 0; i < numTables; i += 1) {
+    const rec = 4 + i * 8;
+    const platformId = cmap.getUint16(rec);
+    const encodingId = cmap.getUint16(rec + 2);
+    const at = cmap.getUint32(rec + 4);
+    const unicode = platformId === 0 || (platformId === 3 && (encodingId === 1 || encodingId === 10));
+    if (at + 2 <= cmap.byteLength) subtables.push({ format: cmap.getUint16(at), at, unicode });
+  }
+  const pick = subtables.find((t) => t.unicode && t.format === 12) ?? subtables.find((t) => t.unicode && t.format === 4);
+  if (!pick) throw new Error('Font has no Unicode character map');
+  return { format: pick.format === 12 ? 12 : 4, at: pick.at };
+};
+
+const readCoverage = (cmap: DataView): GlyphCoverage => {
+  const pick = unicodeCmapSubtable(cmap);
+  return mergeRanges(pick.format === 12 ? cmapFormat12(cmap, pick.at) : cmapFormat4(cmap, pick.at));
+};
+
+// OS/2 fsType: restricted-licence embedding, or bitmap-only embedding
+const isEmbeddable = (os2: DataView | undefined): boolean => {
+  if (!os2 || os2.byteLength < 10) return true;
+  const fsType = os2.getUint16(8);
+  return (fsType & 0x000f) !== 0x0002 && !(fsType & 0x0200);
+};
+
+// Family, style, glyph coverage and embedding permission of a TTF, OTF, TTC (first face) or WOFF
+// file. Returns null for WOFF2, whose Brotli tables the browser cannot read.
+export const readFontInfo = async (bytes: ArrayBuffer): Promise<FontInfo | null> => {
+  const view = new DataView(bytes);
+  if (view.byteLength < 12) throw new Error('Font file is too short');
+  const signature = tag(view, 0);
+  if (signature === 'wOF2') return null;
+
+  let tables: TableMap;
+  if (signature === 'wOFF') tables = await woffTables(view);
+  else if (signature === 'ttcf') tables = sfntTables(view, view.getUint32(12));
+  else if (signature === 'OTTO' || signature === 'true' || view.getUint32(0) === 0x00010000) tables = sfntTables(view);
+  else throw new Error('Not a TrueType, OpenType or WOFF font');
+
+  const name = tables.get('name');
+  const cmap = tables.get('cmap');
+  if (!name || !cmap) throw new Error('Font is missing its name or cmap table');
+  const { family, style } = readNames(name);
+  if (!family) throw new Error('Font has no family name');
+  return { family, style: style || 'Regular', coverage: readCoverage(cmap), embeddable: isEmbeddable(tables.get('OS/2')) };
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { sfntTables } from '@/utils/fontLibrary';
+import { buildFontSubset, dataUrlToBytes, subsetTrueTypeFont } from '@/utils/fontSubset';
+
+const u16 = (n: number) => [(n >> 8) & 0xff, n & 0xff];
+const u32 = (n: number) => [...u16(n >>> 16), ...u16(n & 0xffff)];
+
+const simpleGlyph = [...u16(1), ...new Array(10).fill(0)];
+// Glyph for 'C': a composite made of glyph 2 ('B'), byte offsets as arguments
+const compositeGlyph = [...u16(0xffff), ...new Array(8).fill(0), ...u16(0), ...u16(2), 0, 0];
+
+// TrueType file with glyphs .notdef, A, B and composite C, short loca
+const buildFont = (): ArrayBuffer => {
+  const glyphs = [simpleGlyph, simpleGlyph, simpleGlyph, compositeGlyph];
+  let offset = 0;
+  const loca = [0, ...glyphs.map((g) => (offset += g.length))].flatMap((o) => u16(o / 2));
+  const head = [...new Array(50).fill(0), ...u16(0), ...u16(0)];
+  const maxp = [...u32(0x00005000), ...u16(glyphs.length)];
+  const cmap = [
+    ...u16(0),
+    ...u16(1),
+    ...u16(3),
+    ...u16(1),
+    ...u32(12),
+    ...u16(4),
+    ...u16(32),
+    ...u16(0),
+    ...u16(4),
+    ...u16(0),
+    ...u16(0),
+    ...u16(0),
+    ...u16(0x43),
+    ...u16(0xffff),
+    ...u16(0),
+    ...u16(0x41),
+    ...u16(0xffff),
+    ...u16((1 - 0x41) & 0xffff),
+    ...u16(1),
+    ...u16(0),
+    ...u16(0),
+  ];
+  const tables = [
+    ['cmap', cmap],
+    ['glyf', glyphs.flat()],
+    ['head', head],
+    ['loca', loca],
+    ['maxp', maxp],
+  ] as const;
+  let at = 12 + tables.length * 16;
+  const dir = tables.flatMap(([t, data]) => {
+    const rec = [...Array.from(t).map((c) => c.charCodeAt(0)), ...u32(0), ...u32(at), ...u32(data.length)];
+    at += data.length;
+    return rec;
+  });
+  return new Uint8Array([...u32(0x00010000), ...u16(tables.length), 0, 0, 0, 0, 0, 0, ...dir, ...tables.flatMap(([, d]) => d)]).buffer;
+};
+
+const glyphLengths = (font: Uint8Array) => {
+  const tables = sfntTables(new DataView(font.buffer, font.byteOffset, font.byteLength));
+  const loca = tables.get('loca') as DataView;
+  return Array.from({ length: loca.byteLength / 4 - 1 }, (_, i) => loca.getUint32(i * 4 + 4) - loca.getUint32(i * 4));
+};
+
+describe('subsetTrueTypeFont', () => {
+  it('keeps .notdef, the used glyphs and their components', () => {
+    expect(glyphLengths(subsetTrueTypeFont(buildFont(), 'C'))).toEqual([12, 0, 12, 16]);
+    expect(glyphLengths(subsetTrueTypeFont(buildFont(), 'A A'))).toEqual([12, 12, 0, 0]);
+  });
+
+  it('writes a valid whole-file checksum', () => {
+    const font = subsetTrueTypeFont(buildFont(), 'AB');
+    const view = new DataView(font.buffer);
+    let sum = 0;
+    for (let i = 0; i < font.length; i += 4) sum = (sum + view.getUint32(i)) >>> 0;
+    expect(sum).toBe(0xb1b0afba);
+  });
+
+  it('rejects CFF fonts', () => {
+    const otto = new Uint8Array([...Array.from('OTTO').map((c) => c.charCodeAt(0)), ...new Array(12).fill(0)]).buffer;
+    expect(() => subsetTrueTypeFont(otto, 'A')).toThrow(/Only TrueType/);
+  });
+});
+
+describe('buildFontSubset', () => {
+  it('returns a data URL with a stable hash, or null to fall back to the full font', async () => {
+    const a = await buildFontSubset(buildFont(), 'AB');
+    const b = await buildFontSubset(buildFont(), 'BA');
+    expect(a?.subsetHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(b?.subsetHash).toBe(a?.subsetHash);
+    expect(glyphLengths(new Uint8Array(dataUrlToBytes(a?.dataUrl ?? '')))).toEqual([12, 12, 12, 0]);
+    expect(await buildFontSubset(new Uint8Array(16).buffer, 'A')).toBeNull();
+  });
+});
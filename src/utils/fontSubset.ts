@@ -0,0 +1,205 @@
+// Browser-side font subsetting for the render payload. Only the outlines of
+// the glyphs a job prints are kept; glyph ids stay the same, so cmap, hmtx,
+// kerning and layout tables are copied as they are and only glyf/loca shrink.
+// CFF (OTTO) and WOFF fonts are not subset; callers send the full font.
+import { sfntTables, unicodeCmapSubtable } from '@/utils/fontLibrary';
+
+export type FontSubset = {
+  dataUrl: string;
+  mime: string;
+  // SHA-256 of the subset file, so the render service can reuse a cached copy
+  subsetHash: string;
+};
+
+const cmapGlyphId = (cmap: DataView, sub: { format: 4 | 12; at: number }, codePoint: number): number => {
+  if (sub.format === 12) {
+    const groups = cmap.getUint32(sub.at + 12);
+    for (let i = 0; i < groups; i += 1) {
+      const g = sub.at + 16 + i * 12;
+      const first = cmap.getUint32(g);
+      if (codePoint >= first && codePoint <= cmap.getUint32(g + 4)) return cmap.getUint32(g + 8) + (codePoint - first);
+    }
+    return 0;
+  }
+  if (codePoint > 0xffff) return 0;
+  const segCount = cmap.getUint16(sub.at + 6) / 2;
+  const ends = sub.at + 14;
+  const starts = ends + segCount * 2 + 2;
+  const deltas = starts + segCount * 2;
+  const rangeOffsets = deltas + segCount * 2;
+  for (let i = 0; i < segCount; i += 1) {
+    const start = cmap.getUint16(starts + i * 2);
+    if (codePoint < start || codePoint > cmap.getUint16(ends + i * 2)) continue;
+    const delta = cmap.getInt16(deltas + i * 2);
+    const rangeOffsetAt = rangeOffsets + i * 2;
+    const rangeOffset = cmap.getUint16(rangeOffsetAt);
+    if (!rangeOffset) return (codePoint + delta) & 0xffff;
+    const glyphAt = rangeOffsetAt + rangeOffset + (codePoint - start) * 2;
+    const glyph = glyphAt + 2 <= cmap.byteLength ? cmap.getUint16(glyphAt) : 0;
+    return glyph ? (glyph + delta) & 0xffff : 0;
+  }
+  return 0;
+};
+
+const bytesOf = (view: DataView) => new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+
+const pad4 = (n: number) => (n + 3) & ~3;
+
+const checksum = (view: DataView, offset: number, length: number) => {
+  let sum = 0;
+  for (let i = 0; i < length; i += 4) sum = (sum + view.getUint32(offset + i)) >>> 0;
+  return sum;
+};
+
+// Writes an sfnt with the tables in tag order, each 4-byte aligned, and fixes
+// up the table checksums and head.checkSumAdjustment
+const writeSfnt = (tables: Map<string, Uint8Array>): Uint8Array => {
+  const tags = Array.from(tables.keys()).sort();
+  const numTables = tags.length;
+  const entrySelector = Math.floor(Math.log2(numTables));
+  const searchRange = 2 ** entrySelector * 16;
+  let size = 12 + numTables * 16;
+  const offsets = tags.map((t) => {
+    const at = size;
+    size += pad4(tables.get(t)?.length ?? 0);
+    return at;
+  });
+
+  const out = new Uint8Array(size);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, 0x00010000);
+  view.setUint16(4, numTables);
+  view.setUint16(6, searchRange);
+  view.setUint16(8, entrySelector);
+  view.setUint16(10, numTables * 16 - searchRange);
+  tags.forEach((t, i) => {
+    const data = tables.get(t) as Uint8Array;
+    out.set(data, offsets[i]);
+    const rec = 12 + i * 16;
+    for (let k = 0; k < 4; k += 1) view.setUint8(rec + k, t.charCodeAt(k));
+    view.setUint32(rec + 4, checksum(view, offsets[i], pad4(data.length)));
+    view.setUint32(rec + 8, offsets[i]);
+    view.setUint32(rec + 12, data.length);
+  });
+  const headAt = offsets[tags.indexOf('head')];
+  view.setUint32(headAt + 8, (0xb1b0afba - checksum(view, 0, size)) >>> 0);
+  return out;
+};
+
+// TrueType font with outlines only for the glyphs of `text` (plus .notdef and
+// the parts of composite glyphs). Throws for fonts it cannot subset.
+export const subsetTrueTypeFont = (bytes: ArrayBuffer, text: string): Uint8Array => {
+  const view = new DataView(bytes);
+  if (view.byteLength < 12) throw new Error('Font file is too short');
+  const version = view.getUint32(0);
+  if (version !== 0x00010000 && version !== 0x74727565) throw new Error('Only TrueType (glyf) fonts can be subset');
+
+  const tables = sfntTables(view);
+  const head = tables.get('head');
+  const maxp = tables.get('maxp');
+  const loca = tables.get('loca');
+  const glyf = tables.get('glyf');
+  const cmap = tables.get('cmap');
+  if (!head || !maxp || !loca || !glyf || !cmap) throw new Error('Font is missing a table needed for subsetting');
+
+  const numGlyphs = maxp.getUint16(4);
+  const longLoca = head.getInt16(50) === 1;
+  const glyphStart = (gid: number) => (longLoca ? loca.getUint32(gid * 4) : loca.getUint16(gid * 2) * 2);
+
+  const keep = new Set<number>([0]);
+  const sub = unicodeCmapSubtable(cmap);
+  Array.from(new Set(Array.from(text))).forEach((ch) => {
+    const gid = cmapGlyphId(cmap, sub, ch.codePointAt(0) as number);
+    if (gid > 0 && gid < numGlyphs) keep.add(gid);
+  });
+
+  // Composite glyphs pull in their components (flags per the glyf spec)
+  const queue = Array.from(keep);
+  while (queue.length) {
+    const gid = queue.pop() as number;
+    const start = glyphStart(gid);
+    const end = glyphStart(gid + 1);
+    if (end - start < 10 || glyf.getInt16(start) >= 0) continue;
+    let p = start + 10;
+    while (p + 4 <= end) {
+      const flags = glyf.getUint16(p);
+      const component = glyf.getUint16(p + 2);
+      if (component < numGlyphs && !keep.has(component)) {
+        keep.add(component);
+        queue.push(component);
+      }
+      p += 4 + (flags & 0x0001 ? 4 : 2) + (flags & 0x0008 ? 2 : flags & 0x0040 ? 4 : flags & 0x0080 ? 8 : 0);
+      if (!(flags & 0x0020)) break;
+    }
+  }
+
+  let glyfSize = 0;
+  Array.from(keep).forEach((gid) => {
+    glyfSize += pad4(glyphStart(gid + 1) - glyphStart(gid));
+  });
+  const newGlyf = new Uint8Array(glyfSize);
+  const newLoca = new DataView(new ArrayBuffer((numGlyphs + 1) * 4));
+  let at = 0;
+  for (let gid = 0; gid < numGlyphs; gid += 1) {
+    newLoca.setUint32(gid * 4, at);
+    if (!keep.has(gid)) continue;
+    const start = glyphStart(gid);
+    const length = glyphStart(gid + 1) - start;
+    newGlyf.set(new Uint8Array(glyf.buffer, glyf.byteOffset + start, length), at);
+    at += pad4(length);
+  }
+  newLoca.setUint32(numGlyphs * 4, at);
+
+  const newHead = new Uint8Array(bytesOf(head));
+  const headView = new DataView(newHead.buffer);
+  headView.setUint32(8, 0);
+  headView.setInt16(50, 1);
+
+  const out = new Map<string, Uint8Array>();
+  // A digital signature no longer matches once the glyphs change
+  tables.forEach((table, name) => {
+    if (name !== 'DSIG') out.set(name, bytesOf(table));
+  });
+  out.set('head', newHead);
+  out.set('loca', new Uint8Array(newLoca.buffer));
+  out.set('glyf', newGlyf);
+  return writeSfnt(out);
+};
+
+export const sha256Hex = async (bytes: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes.slice());
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let s = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) s += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(s);
+};
+
+export const dataUrlToBytes = (dataUrl: string): ArrayBuffer => {
+  const comma = dataUrl.indexOf(',');
+  if (!dataUrl.startsWith('data:') || comma < 0 || !dataUrl.slice(0, comma).endsWith(';base64')) throw new Error('Expected a base64 data URL');
+  const raw = atob(dataUrl.slice(comma + 1));
+  const out = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i += 1) out[i] = raw.charCodeAt(i);
+  return out.buffer;
+};
+
+// Subset of the font for `text`, or null when it cannot be subset; the caller
+// then falls back to the full font
+export const buildFontSubset = async (bytes: ArrayBuffer, text: string): Promise<FontSubset | null> => {
+  try {
+    const subset = subsetTrueTypeFont(bytes, text);
+    return {
+      dataUrl: `data:font/ttf;base64,${bytesToBase64(subset)}`,
+      mime: 'font/ttf',
+      subsetHash: await sha256Hex(subset),
+    };
+  } catch (error) {
+    console.warn('Font subsetting failed; sending the full font:', error);
+    return null;
+  }
+};
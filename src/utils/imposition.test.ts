@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { computeImpositionLayout, impositionPreset, impositionRenderMode, sheetSizeMm } from '@/utils/imposition';
+
+describe('computeImpositionLayout', () => {
+  it('reproduces the legacy A4 3-up and 4-up cells', () => {
+    expect(computeImpositionLayout(impositionPreset(4))).toMatchObject({ perSheet: 4, cellWidthMm: 210, cellHeightMm: 74.25 });
+    expect(computeImpositionLayout(impositionPreset(3))).toMatchObject({ perSheet: 3, cellWidthMm: 210, cellHeightMm: 99 });
+  });
+
+  it('places cells row-major inside margins and gutters', () => {
+    const layout = computeImpositionLayout({
+      ...impositionPreset(4),
+      paper: 'A3',
+      orientation: 'landscape',
+      rows: 2,
+      columns: 3,
+      gutterXMm: 6,
+      gutterYMm: 4,
+      marginTopMm: 10,
+      marginRightMm: 10,
+      marginBottomMm: 10,
+      marginLeftMm: 10,
+    });
+    expect(layout.sheetWidthMm).toBe(420);
+    expect(layout.sheetHeightMm).toBe(297);
+    expect(layout.cellWidthMm).toBeCloseTo((420 - 20 - 12) / 3);
+    expect(layout.cellHeightMm).toBeCloseTo((297 - 20 - 4) / 2);
+    expect(layout.cells.map((c) => [c.row, c.column])).toEqual([
+      [0, 0],
+      [0, 1],
+      [0, 2],
+      [1, 0],
+      [1, 1],
+      [1, 2],
+    ]);
+    expect(layout.cells[4].xMm).toBeCloseTo(10 + layout.cellWidthMm + 6);
+    expect(layout.cells[4].yMm).toBeCloseTo(10 + layout.cellHeightMm + 4);
+  });
+
+  it('rejects grids outside 2–24 tickets or too big for the sheet', () => {
+    expect(() => computeImpositionLayout({ ...impositionPreset(4), rows: 1, columns: 1 })).toThrow(/2–24/);
+    expect(() => computeImpositionLayout({ ...impositionPreset(4), rows: 5, columns: 5 })).toThrow(/2–24/);
+    expect(() => computeImpositionLayout({ ...impositionPreset(4), marginTopMm: 200, marginBottomMm: 100 })).toThrow(/do not fit/);
+  });
+});
+
+describe('sheetSizeMm', () => {
+  it('uses custom dimensions and orientation', () => {
+    expect(sheetSizeMm({ ...impositionPreset(4), paper: 'custom', customWidthMm: 450, customHeightMm: 320 })).toEqual({ widthMm: 320, heightMm: 450 });
+    expect(sheetSizeMm({ ...impositionPreset(4), paper: 'Letter', orientation: 'landscape' })).toEqual({ widthMm: 279.4, heightMm: 215.9 });
+  });
+});
+
+describe('impositionRenderMode', () => {
+  it('keeps legacy modes for the original A4 layouts', () => {
+    expect(impositionRenderMode(impositionPreset(4))).toBe('exact_mm');
+    expect(impositionRenderMode(impositionPreset(3))).toBe('exact_mm_3up');
+    expect(impositionRenderMode({ ...impositionPreset(4), columns: 2 })).toBe('exact_mm_nup');
+  });
+});
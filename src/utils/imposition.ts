@@ -0,0 +1,184 @@
+// Imposition model: how many tickets go on one press sheet and where.
+//
+// A sheet is split into `rows × columns` equal cells inside its margins, with
+// gutters between cells. Every cell holds one ticket (the object), so the cell
+// size is the largest object the sheet can take. Cells are numbered row-major
+// from the top-left corner, in mm from the sheet's top-left corner. Which
+// ticket lands in which cell is the numbering order (see numberingOrder.ts).
+import { DEFAULT_NUMBERING_ORDER, resolveNumberingOrder, type NumberingOrder } from '@/utils/numberingOrder';
+
+export type PaperSizeId = 'A4' | 'A3' | 'SRA3' | 'Letter' | 'Legal' | 'custom';
+
+export type SheetOrientation = 'portrait' | 'landscape';
+
+export type ImpositionSettings = {
+  paper: PaperSizeId;
+  // Used only when paper is 'custom' (portrait dimensions)
+  customWidthMm: number;
+  customHeightMm: number;
+  orientation: SheetOrientation;
+  rows: number;
+  columns: number;
+  gutterXMm: number;
+  gutterYMm: number;
+  marginTopMm: number;
+  marginRightMm: number;
+  marginBottomMm: number;
+  marginLeftMm: number;
+  numberingOrder: NumberingOrder;
+};
+
+export type ImpositionCell = {
+  index: number;
+  row: number;
+  column: number;
+  xMm: number;
+  yMm: number;
+};
+
+export type ImpositionLayout = {
+  sheetWidthMm: number;
+  sheetHeightMm: number;
+  cellWidthMm: number;
+  cellHeightMm: number;
+  perSheet: number;
+  cells: ImpositionCell[];
+};
+
+export const PAPER_SIZES: { id: Exclude<PaperSizeId, 'custom'>; label: string; widthMm: number; heightMm: number }[] = [
+  { id: 'A4', label: 'A4 (210 × 297)', widthMm: 210, heightMm: 297 },
+  { id: 'A3', label: 'A3 (297 × 420)', widthMm: 297, heightMm: 420 },
+  { id: 'SRA3', label: 'SRA3 (320 × 450)', widthMm: 320, heightMm: 450 },
+  { id: 'Letter', label: 'Letter (8.5 × 11 in)', widthMm: 215.9, heightMm: 279.4 },
+  { id: 'Legal', label: 'Legal (8.5 × 14 in)', widthMm: 215.9, heightMm: 355.6 },
+];
+
+export const MIN_TICKETS_PER_SHEET = 2;
+export const MAX_TICKETS_PER_SHEET = 24;
+
+// Matches the fixed A4 layouts the render service has always used:
+// one column of 4 (74.25mm) or 3 (99mm) full-width tickets.
+export const impositionPreset = (objectsPerPage: 3 | 4): ImpositionSettings => ({
+  paper: 'A4',
+  customWidthMm: 210,
+  customHeightMm: 297,
+  orientation: 'portrait',
+  rows: objectsPerPage,
+  columns: 1,
+  gutterXMm: 0,
+  gutterYMm: 0,
+  marginTopMm: 0,
+  marginRightMm: 0,
+  marginBottomMm: 0,
+  marginLeftMm: 0,
+  numberingOrder: DEFAULT_NUMBERING_ORDER,
+});
+
+export const DEFAULT_IMPOSITION: ImpositionSettings = impositionPreset(4);
+
+const nonNegative = (raw: unknown, fallback: number): number => {
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+};
+
+const positiveInt = (raw: unknown, fallback: number): number => {
+  const n = Math.floor(Number(raw));
+  return Number.isFinite(n) && n >= 1 ? n : fallback;
+};
+
+export const resolveImposition = (raw?: Partial<ImpositionSettings> | null): ImpositionSettings => {
+  const d = DEFAULT_IMPOSITION;
+  const paper: PaperSizeId = raw?.paper === 'custom' || PAPER_SIZES.some((p) => p.id === raw?.paper) ? (raw?.paper as PaperSizeId) : d.paper;
+  return {
+    paper,
+    customWidthMm: nonNegative(raw?.customWidthMm, d.customWidthMm) || d.customWidthMm,
+    customHeightMm: nonNegative(raw?.customHeightMm, d.customHeightMm) || d.customHeightMm,
+    orientation: raw?.orientation === 'landscape' ? 'landscape' : 'portrait',
+    rows: positiveInt(raw?.rows, d.rows),
+    columns: positiveInt(raw?.columns, d.columns),
+    gutterXMm: nonNegative(raw?.gutterXMm, d.gutterXMm),
+    gutterYMm: nonNegative(raw?.gutterYMm, d.gutterYMm),
+    marginTopMm: nonNegative(raw?.marginTopMm, d.marginTopMm),
+    marginRightMm: nonNegative(raw?.marginRightMm, d.marginRightMm),
+    marginBottomMm: nonNegative(raw?.marginBottomMm, d.marginBottomMm),
+    marginLeftMm: nonNegative(raw?.marginLeftMm, d.marginLeftMm),
+    numberingOrder: resolveNumberingOrder(raw?.numberingOrder),
+  };
+};
+
+export const sheetSizeMm = (settings: ImpositionSettings): { widthMm: number; heightMm: number } => {
+  const paper = PAPER_SIZES.find((p) => p.id === settings.paper);
+  const w = paper ? paper.widthMm : settings.customWidthMm;
+  const h = paper ? paper.heightMm : settings.customHeightMm;
+  const short = Math.min(w, h);
+  const long = Math.max(w, h);
+  return settings.orientation === 'landscape' ? { widthMm: long, heightMm: short } : { widthMm: short, heightMm: long };
+};
+
+// Throws when the grid does not fit the sheet or the ticket count is outside
+// what the render service supports.
+export const computeImpositionLayout = (raw?: Partial<ImpositionSettings> | null): ImpositionLayout => {
+  const s = resolveImposition(raw);
+  const perSheet = s.rows * s.columns;
+  if (perSheet < MIN_TICKETS_PER_SHEET || perSheet > MAX_TICKETS_PER_SHEET) {
+    throw new Error(`Sheet must hold ${MIN_TICKETS_PER_SHEET}–${MAX_TICKETS_PER_SHEET} tickets (got ${s.rows} × ${s.columns} = ${perSheet})`);
+  }
+
+  const { widthMm, heightMm } = sheetSizeMm(s);
+  const cellWidthMm = (widthMm - s.marginLeftMm - s.marginRightMm - s.gutterXMm * (s.columns - 1)) / s.columns;
+  const cellHeightMm = (heightMm - s.marginTopMm - s.marginBottomMm - s.gutterYMm * (s.rows - 1)) / s.rows;
+  if (!(cellWidthMm > 0 && cellHeightMm > 0)) {
+    throw new Error(`${s.rows} × ${s.columns} tickets with these margins and gutters do not fit a ${widthMm} × ${heightMm}mm sheet`);
+  }
+
+  const cells: ImpositionCell[] = [];
+  for (let row = 0; row < s.rows; row += 1) {
+    for (let column = 0; column < s.columns; column += 1) {
+      cells.push({
+        index: cells.length,
+        row,
+        column,
+        xMm: s.marginLeftMm + column * (cellWidthMm + s.gutterXMm),
+        yMm: s.marginTopMm + row * (cellHeightMm + s.gutterYMm),
+      });
+    }
+  }
+
+  return { sheetWidthMm: widthMm, sheetHeightMm: heightMm, cellWidthMm, cellHeightMm, perSheet, cells };
+};
+
+export type ObjectAlignment = 'left' | 'center' | 'right';
+
+// Trim box of the object inside one cell: aligned horizontally as the job's
+// object alignment, centred vertically. Without an object size the whole cell is used.
+export const objectRectInCell = (
+  layout: ImpositionLayout,
+  cell: ImpositionCell,
+  objectMm?: { widthMm: number; heightMm: number } | null,
+  alignment?: ObjectAlignment | null
+): { xMm: number; yMm: number; widthMm: number; heightMm: number } => {
+  const widthMm = objectMm ? Math.min(objectMm.widthMm, layout.cellWidthMm) : layout.cellWidthMm;
+  const heightMm = objectMm ? Math.min(objectMm.heightMm, layout.cellHeightMm) : layout.cellHeightMm;
+  const xMm =
+    alignment === 'left'
+      ? cell.xMm
+      : alignment === 'right'
+        ? cell.xMm + layout.cellWidthMm - widthMm
+        : cell.xMm + (layout.cellWidthMm - widthMm) / 2;
+  return { xMm, yMm: cell.yMm + (layout.cellHeightMm - heightMm) / 2, widthMm, heightMm };
+};
+
+// Keeps the legacy modes for the two original A4 layouts (in reading order) so
+// existing jobs render exactly as before; everything else uses the N-up mode.
+export const impositionRenderMode = (raw?: Partial<ImpositionSettings> | null): string => {
+  const s = resolveImposition(raw);
+  const legacy = (n: 3 | 4) => {
+    const p = impositionPreset(n);
+    return (Object.keys(p) as (keyof ImpositionSettings)[])
+      .filter((k) => k !== 'customWidthMm' && k !== 'customHeightMm')
+      .every((k) => p[k] === s[k]);
+  };
+  if (legacy(4)) return 'exact_mm';
+  if (legacy(3)) return 'exact_mm_3up';
+  return 'exact_mm_nup';
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import type { FinalRenderPayload } from '@/utils/buildFinalRenderPayload';
+import {
+  batchedTicketIndices,
+  batchesError,
+  batchPayload,
+  batchRunManifest,
+  clampTotalPages,
+  DEFAULT_BATCHES,
+  MAX_PAGES_PER_REQUEST,
+  planBatches,
+  resolveBatches,
+  runBatchQueue,
+  settleBatchPart,
+  startBatchRun,
+  unfinishedBatches,
+} from '@/utils/jobBatches';
+
+const slot = { font_family: 'Helvetica', font_size_mm: 4, anchor_space: 'object_mm' as const, x_mm: 0, y_mm: 0, letter_spacing_mm: 0, rotation_deg: 0, color: '#000' };
+
+const runPayload = {
+  job_id: 'job',
+  svg_s3_key: 'k',
+  render_mode: 'exact_mm_nup',
+  imposition: { rows: 2, columns: 2 },
+  series_list: [
+    { ...slot, start: 'A001', count: 20, step: 2 },
+    { ...slot, start: 'X', count: 20, data_column: 'name' },
+  ],
+  records: Array.from({ length: 20 }, (_, i) => ({ name: `N${i}` })),
+} as unknown as FinalRenderPayload;
+
+describe('batch settings', () => {
+  it('resolves and clamps settings', () => {
+    expect(resolveBatches(null)).toEqual(DEFAULT_BATCHES);
+    expect(resolveBatches({ enabled: true, pagesPerBatch: 9999, submit: 'parallel', output: 'bogus' as never })).toEqual({
+      enabled: true,
+      pagesPerBatch: MAX_PAGES_PER_REQUEST,
+      submit: 'parallel',
+      output: 'merge',
+    });
+    expect(clampTotalPages(NaN)).toBe(1);
+    expect(clampTotalPages(10_000_000)).toBeLessThan(10_000_000);
+  });
+
+  it('requires batches for runs one request cannot render', () => {
+    expect(batchesError(DEFAULT_BATCHES, MAX_PAGES_PER_REQUEST)).toBeNull();
+    expect(batchesError(DEFAULT_BATCHES, MAX_PAGES_PER_REQUEST + 1)).toMatch(/batches/);
+    expect(batchesError({ ...DEFAULT_BATCHES, enabled: true }, 50_000)).toBeNull();
+  });
+});
+
+describe('planBatches', () => {
+  it('splits whole sheets with a running ticket offset', () => {
+    expect(planBatches(5, 4, 2)).toEqual([
+      { index: 0, firstSheet: 0, sheetCount: 2, ticketOffset: 0, ticketCount: 8 },
+      { index: 1, firstSheet: 2, sheetCount: 2, ticketOffset: 8, ticketCount: 8 },
+      { index: 2, firstSheet: 4, sheetCount: 1, ticketOffset: 16, ticketCount: 4 },
+    ]);
+  });
+
+  it('stacks cut-and-stack runs per batch', () => {
+    const indices = batchedTicketIndices('cut-and-stack', { rows: 1, columns: 2 }, planBatches(4, 2, 2));
+    expect(indices).toEqual([
+      [0, 2],
+      [1, 3],
+      [4, 6],
+      [5, 7],
+    ]);
+  });
+});
+
+describe('batchPayload', () => {
+  it('continues counters and slices records', () => {
+    const [, second] = planBatches(5, 4, 2);
+    const payload = batchPayload(runPayload, second, 3);
+    expect(payload.job_id).toBe('job-b002');
+    expect(payload.series_list?.[0]).toMatchObject({ start: 'A017', count: 8 });
+    expect(payload.series_list?.[1]).toMatchObject({ start: 'X', count: 8 });
+    expect(payload.records?.[0]).toEqual({ name: 'N8' });
+    expect(payload.records).toHaveLength(8);
+    expect(payload.batch).toEqual({ parent_job_id: 'job', index: 1, count: 3, first_sheet: 2, ticket_offset: 8 });
+    expect(payload.job_summary).toMatchObject({ series_start: 'A017', series_end: 'A031', pages: 2 });
+  });
+});
+
+describe('batch runs', () => {
+  it('lists each part file with its series range', () => {
+    let run = startBatchRun(runPayload, planBatches(5, 4, 2), { ...DEFAULT_BATCHES, enabled: true, output: 'zip' });
+    run = settleBatchPart(run, 0, { ok: true, value: 'p1' });
+    run = settleBatchPart(run, 2, { ok: false, error: 'timeout' });
+    expect(unfinishedBatches(run)).toEqual([1, 2]);
+    expect(run.parts[2]).toMatchObject({ status: 'failed', error: 'timeout' });
+    const manifest = batchRunManifest(run);
+    expect(manifest.files[0]).toEqual({
+      file: 'job-part-001.pdf',
+      batch: 1,
+      first_sheet: 1,
+      last_sheet: 2,
+      tickets: 8,
+      series_start: 'A001',
+      series_end: 'A015',
+      pdf_s3_key: 'p1',
+    });
+    expect(manifest.files[2]).toMatchObject({ first_sheet: 5, last_sheet: 5, series_start: 'A033', series_end: 'A039' });
+  });
+
+  it('runs the queue with bounded concurrency and keeps going past failures', async () => {
+    let active = 0;
+    let peak = 0;
+    const outcomes = await runBatchQueue([0, 1, 2, 3, 4], 2, async (i) => {
+      active += 1;
+      peak = Math.max(peak, active);
+      await new Promise((r) => setTimeout(r, 1));
+      active -= 1;
+      if (i === 3) throw new Error('boom');
+      return i * 10;
+    });
+    expect(peak).toBe(2);
+    expect(outcomes.get(4)).toEqual({ ok: true, value: 40 });
+    expect(outcomes.get(3)).toEqual({ ok: false, error: 'boom' });
+  });
+});
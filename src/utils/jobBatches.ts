@@ -0,0 +1,232 @@
+// Splitting a large numbering run into batches. Each batch is an ordinary
+// render job for a run of whole sheets: its counters start where the previous
+// batch stopped and its records are the matching slice of the data sheet. The
+// parts are merged into one PDF or zipped, with a manifest of the series range
+// in each part.
+//
+// With cut-and-stack numbering each batch is stacked on its own, so every
+// batch's piles make up a complete pad run of that batch's range.
+import type { FinalRenderPayload } from '@/utils/buildFinalRenderPayload';
+import { sheetTicketIndices, type NumberingOrder } from '@/utils/numberingOrder';
+import { summarizeRenderPayload } from '@/utils/renderJobs';
+import { seriesValueAt } from '@/utils/seriesEngine';
+
+export type BatchSubmit = 'sequential' | 'parallel';
+export type BatchOutput = 'merge' | 'zip';
+
+export type BatchSettings = {
+  enabled: boolean;
+  pagesPerBatch: number;
+  submit: BatchSubmit;
+  output: BatchOutput;
+};
+
+export const DEFAULT_BATCHES: BatchSettings = {
+  enabled: false,
+  pagesPerBatch: 250,
+  submit: 'sequential',
+  output: 'merge',
+};
+
+// Sheets one /api/vector/generate request can render before timing out
+export const MAX_PAGES_PER_REQUEST = 500;
+export const MAX_TOTAL_PAGES = 100_000;
+// Batches in flight at once when submitting in parallel
+export const PARALLEL_BATCHES = 3;
+// Tries per batch within one run before it waits for a manual retry
+export const BATCH_ATTEMPTS = 2;
+
+export const BATCH_SUBMITS: { value: BatchSubmit; label: string }[] = [
+  { value: 'sequential', label: 'One at a time' },
+  { value: 'parallel', label: `In parallel (${PARALLEL_BATCHES} at once)` },
+];
+
+export const BATCH_OUTPUTS: { value: BatchOutput; label: string }[] = [
+  { value: 'merge', label: 'Merge into one PDF' },
+  { value: 'zip', label: 'ZIP of part files' },
+];
+
+export const resolveBatches = (raw?: Partial<BatchSettings> | null): BatchSettings => {
+  const d = DEFAULT_BATCHES;
+  const pages = Math.trunc(Number(raw?.pagesPerBatch));
+  return {
+    enabled: typeof raw?.enabled === 'boolean' ? raw.enabled : d.enabled,
+    pagesPerBatch: Number.isFinite(pages) && pages >= 1 ? Math.min(MAX_PAGES_PER_REQUEST, pages) : d.pagesPerBatch,
+    submit: BATCH_SUBMITS.some((s) => s.value === raw?.submit) ? (raw?.submit as BatchSubmit) : d.submit,
+    output: BATCH_OUTPUTS.some((o) => o.value === raw?.output) ? (raw?.output as BatchOutput) : d.output,
+  };
+};
+
+export const clampTotalPages = (raw: number): number => Math.min(MAX_TOTAL_PAGES, Math.max(1, Math.trunc(Number(raw)) || 1));
+
+export const batchesError = (settings: BatchSettings, totalPages: number): string | null => {
+  if (!settings.enabled && totalPages > MAX_PAGES_PER_REQUEST) {
+    return `Runs over ${MAX_PAGES_PER_REQUEST} pages must be split into batches`;
+  }
+  return null;
+};
+
+export type JobBatch = {
+  index: number;
+  firstSheet: number;
+  sheetCount: number;
+  ticketOffset: number;
+  ticketCount: number;
+};
+
+export const planBatches = (totalSheets: number, ticketsPerSheet: number, pagesPerBatch: number): JobBatch[] => {
+  const sheets = Math.max(0, Math.trunc(totalSheets));
+  const size = Math.max(1, Math.trunc(pagesPerBatch));
+  const perSheet = Math.max(1, Math.trunc(ticketsPerSheet));
+  return Array.from({ length: Math.ceil(sheets / size) }, (_, index) => {
+    const firstSheet = index * size;
+    const sheetCount = Math.min(size, sheets - firstSheet);
+    return { index, firstSheet, sheetCount, ticketOffset: firstSheet * perSheet, ticketCount: sheetCount * perSheet };
+  });
+};
+
+// Series indices per sheet for the whole run, with cut-and-stack applied per batch
+export const batchedTicketIndices = (order: NumberingOrder, grid: { rows: number; columns: number }, batches: JobBatch[]): number[][] =>
+  batches.flatMap((batch) =>
+    sheetTicketIndices(order, { ...grid, sheetCount: batch.sheetCount }).map((cells) => cells.map((i) => i + batch.ticketOffset))
+  );
+
+export const batchJobId = (parentJobId: string, batch: JobBatch) => `${parentJobId}-b${String(batch.index + 1).padStart(3, '0')}`;
+
+// The render payload of one batch of a whole-run payload
+export const batchPayload = (payload: FinalRenderPayload, batch: JobBatch, batchCount: number): FinalRenderPayload => {
+  const { ticketOffset: offset, ticketCount: count } = batch;
+  const records = payload.records?.slice(offset, offset + count);
+  const shift = <T extends { start: string; count: number; step?: number; alphabet?: string; rollover?: FinalRenderPayload['series_list'][number]['rollover']; data_column?: string }>(
+    entry: T
+  ): T => ({
+    ...entry,
+    // Data-driven slots read the sliced records instead
+    start: entry.data_column ? entry.start : seriesValueAt(entry.start, offset, { step: entry.step, alphabet: entry.alphabet, rollover: entry.rollover }),
+    count,
+  });
+  const next: FinalRenderPayload = {
+    ...payload,
+    job_id: batchJobId(payload.job_id, batch),
+    ...(payload.series ? { series: shift(payload.series) } : {}),
+    ...(payload.series_list ? { series_list: payload.series_list.map(shift) } : {}),
+    ...(payload.barcodes ? { barcodes: payload.barcodes.map(shift) } : {}),
+    ...(records ? { records } : {}),
+    batch: { parent_job_id: payload.job_id, index: batch.index, count: batchCount, first_sheet: batch.firstSheet, ticket_offset: offset },
+  };
+  return { ...next, job_summary: summarizeRenderPayload(next) };
+};
+
+export type BatchManifestEntry = {
+  file: string;
+  batch: number;
+  // 1-based sheet numbers of the whole run
+  first_sheet: number;
+  last_sheet: number;
+  tickets: number;
+  series_start: string;
+  series_end: string | null;
+  pdf_s3_key: string;
+};
+
+export type BatchManifest = {
+  job_id: string;
+  output: BatchOutput;
+  files: BatchManifestEntry[];
+};
+
+export const batchFileName = (parentJobId: string, output: BatchOutput, batch: JobBatch): string =>
+  output === 'merge' ? `${parentJobId}.pdf` : `${parentJobId}-part-${String(batch.index + 1).padStart(3, '0')}.pdf`;
+
+export const buildBatchManifest = (
+  parentJobId: string,
+  output: BatchOutput,
+  parts: { batch: JobBatch; payload: FinalRenderPayload; pdfS3Key: string }[]
+): BatchManifest => ({
+  job_id: parentJobId,
+  output,
+  files: parts.map(({ batch, payload, pdfS3Key }) => ({
+    file: batchFileName(parentJobId, output, batch),
+    batch: batch.index + 1,
+    first_sheet: batch.firstSheet + 1,
+    last_sheet: batch.firstSheet + batch.sheetCount,
+    tickets: batch.ticketCount,
+    series_start: payload.job_summary?.series_start ?? '',
+    series_end: payload.job_summary?.series_end ?? null,
+    pdf_s3_key: pdfS3Key,
+  })),
+});
+
+export type BatchOutcome<T> = { ok: true; value: T } | { ok: false; error: string };
+
+// Runs `run` for each index, `concurrency` at a time, without stopping at failures
+export const runBatchQueue = async <T>(
+  indices: number[],
+  concurrency: number,
+  run: (index: number) => Promise<T>,
+  onSettled?: (index: number, outcome: BatchOutcome<T>) => void
+): Promise<Map<number, BatchOutcome<T>>> => {
+  const outcomes = new Map<number, BatchOutcome<T>>();
+  const queue = [...indices];
+  const worker = async () => {
+    for (let index = queue.shift(); index !== undefined; index = queue.shift()) {
+      let outcome: BatchOutcome<T>;
+      try {
+        outcome = { ok: true, value: await run(index) };
+      } catch (e) {
+        outcome = { ok: false, error: e instanceof Error ? e.message : String(e) };
+      }
+      outcomes.set(index, outcome);
+      onSettled?.(index, outcome);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, queue.length)) }, worker));
+  return outcomes;
+};
+
+export type BatchPartStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export type BatchPart = {
+  batch: JobBatch;
+  status: BatchPartStatus;
+  pdfS3Key: string | null;
+  error: string | null;
+};
+
+// A batched run in progress; payload is the whole run's, split per part on submit
+export type BatchRun = {
+  jobId: string;
+  submit: BatchSubmit;
+  output: BatchOutput;
+  payload: FinalRenderPayload;
+  parts: BatchPart[];
+  // The merged PDF or ZIP once every part is done and combined
+  resultS3Key: string | null;
+};
+
+export const startBatchRun = (payload: FinalRenderPayload, batches: JobBatch[], settings: BatchSettings): BatchRun => ({
+  jobId: payload.job_id,
+  submit: settings.submit,
+  output: settings.output,
+  payload,
+  parts: batches.map((batch) => ({ batch, status: 'pending', pdfS3Key: null, error: null })),
+  resultS3Key: null,
+});
+
+export const updateBatchPart = (run: BatchRun, index: number, patch: Partial<Omit<BatchPart, 'batch'>>): BatchRun => ({
+  ...run,
+  parts: run.parts.map((part) => (part.batch.index === index ? { ...part, ...patch } : part)),
+});
+
+export const settleBatchPart = (run: BatchRun, index: number, outcome: BatchOutcome<string>): BatchRun =>
+  updateBatchPart(run, index, 'value' in outcome ? { status: 'done', pdfS3Key: outcome.value, error: null } : { status: 'failed', error: outcome.error });
+
+// Parts still to render: never submitted or failed
+export const unfinishedBatches = (run: BatchRun): number[] => run.parts.filter((p) => p.status !== 'done').map((p) => p.batch.index);
+
+export const batchRunManifest = (run: BatchRun): BatchManifest =>
+  buildBatchManifest(
+    run.jobId,
+    run.output,
+    run.parts.map((part) => ({ batch: part.batch, payload: batchPayload(run.payload, part.batch, run.parts.length), pdfS3Key: part.pdfS3Key ?? '' }))
+  );
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { layerZIndex, moveLayer, pruneLayers, syncLayerOrder, toggleLayerFlag } from '@/utils/layers';
+
+describe('syncLayerOrder', () => {
+  it('keeps the existing stack and puts new items on top', () => {
+    expect(syncLayerOrder(['b', 'a'], ['a', 'b', 'c'])).toEqual(['b', 'a', 'c']);
+    expect(syncLayerOrder(['b', 'gone', 'a'], ['a', 'b'])).toEqual(['b', 'a']);
+  });
+
+  it('returns the same array when nothing changed', () => {
+    const order = ['a', 'b'];
+    expect(syncLayerOrder(order, ['b', 'a'])).toBe(order);
+  });
+});
+
+describe('pruneLayers', () => {
+  it('forgets flags of deleted items', () => {
+    const layers = { order: ['a', 'b'], hidden: ['b'], locked: ['a', 'b'] };
+    expect(pruneLayers(layers, ['a'])).toEqual({ order: ['a'], hidden: [], locked: ['a'] });
+    expect(pruneLayers(layers, ['a', 'b'])).toBe(layers);
+  });
+});
+
+describe('moveLayer', () => {
+  it('moves an item up or down the stack', () => {
+    expect(moveLayer(['a', 'b', 'c'], 'a', 2)).toEqual(['b', 'c', 'a']);
+    expect(moveLayer(['a', 'b', 'c'], 'c', 0)).toEqual(['c', 'a', 'b']);
+    expect(moveLayer(['a', 'b', 'c'], 'b', 9)).toEqual(['a', 'c', 'b']);
+    expect(moveLayer(['a', 'b'], 'x', 0)).toEqual(['a', 'b']);
+  });
+});
+
+describe('layer flags and z-index', () => {
+  it('toggles ids and numbers layers from the bottom', () => {
+    expect(toggleLayerFlag(['a'], 'b')).toEqual(['a', 'b']);
+    expect(toggleLayerFlag(['a', 'b'], 'a')).toEqual(['b']);
+    expect(layerZIndex(['x', 'y']).get('y')).toBe(1);
+  });
+});
@@ -0,0 +1,46 @@
+// Stacking, visibility and locking for everything on the ticket canvas (series
+// slots and image/SVG overlays). Order runs bottom to top; the render payload
+// carries each element's position in it as z_index so the PDF stacks the same
+// way as the editor.
+
+export type LayerState = {
+  order: string[];
+  // Hidden layers are only hidden in the editor; they still print
+  hidden: string[];
+  // Locked layers cannot be selected or moved on the canvas
+  locked: string[];
+};
+
+export const EMPTY_LAYERS: LayerState = { order: [], hidden: [], locked: [] };
+
+// Drops ids that no longer exist and stacks new ones on top, in the order given
+export const syncLayerOrder = (order: string[], ids: string[]): string[] => {
+  const kept = order.filter((id) => ids.includes(id));
+  const added = ids.filter((id) => !kept.includes(id));
+  return kept.length === order.length && !added.length ? order : [...kept, ...added];
+};
+
+export const pruneLayers = (layers: LayerState, ids: string[]): LayerState => {
+  const order = syncLayerOrder(layers.order, ids);
+  const hidden = layers.hidden.filter((id) => ids.includes(id));
+  const locked = layers.locked.filter((id) => ids.includes(id));
+  return order === layers.order && hidden.length === layers.hidden.length && locked.length === layers.locked.length
+    ? layers
+    : { order, hidden, locked };
+};
+
+// Moves `id` to `toIndex` of the bottom-to-top order
+export const moveLayer = (order: string[], id: string, toIndex: number): string[] => {
+  const from = order.indexOf(id);
+  if (from < 0) return order;
+  const to = Math.max(0, Math.min(order.length - 1, Math.round(toIndex)));
+  if (to === from) return order;
+  const next = order.filter((o) => o !== id);
+  next.splice(to, 0, id);
+  return next;
+};
+
+export const toggleLayerFlag = (ids: string[], id: string): string[] => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]);
+
+// z_index per id: 0 is the bottom layer
+export const layerZIndex = (order: string[]): Map<string, number> => new Map(order.map((id, i) => [id, i]));
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { impositionPreset } from '@/utils/imposition';
+import type { SeriesSlotData } from '@/components/editor/SeriesSlot';
+import { LAYOUT_TEMPLATE_VERSION, parseLayoutTemplate, parseLayoutTemplateList, rescaleLayoutTemplate } from '@/utils/layoutTemplate';
+
+const slot = (id: string, x_mm: number, y_mm: number) =>
+  ({ id, x: 0.5, y: 0.5, x_mm, y_mm, width: 25, height: 12, value: 'A001', letterStyles: [{ fontSize: 30, offsetY: 2 }], defaultFontSize: 24 }) as SeriesSlotData;
+
+const stored = {
+  version: 1,
+  objectMm: { widthMm: 200, heightMm: 70 },
+  seriesSlots: [slot('a', 100, 35), slot('b', 20, 10)],
+  startingSeries: 'B100',
+  totalPages: 10,
+  imposition: impositionPreset(3),
+  overlay: { dataUrl: 'data:image/png;base64,AA', mime: 'image/png', xMm: 10, yMm: 7, wMm: 20, hMm: 10, rotationDeg: 0 },
+  svgOverlay: null,
+};
+
+describe('parseLayoutTemplate', () => {
+  it('fills defaults for settings the template predates', () => {
+    const t = parseLayoutTemplate(stored);
+    expect(t.startingSeries).toBe('B100');
+    expect(t.imposition.rows).toBe(3);
+    expect(t.printerMarks.enabled).toBe(false);
+    expect(t.duplex.enabled).toBe(false);
+    expect(t.customFonts).toEqual([]);
+  });
+
+  it('turns the single overlay of a v1 template into an overlay list', () => {
+    const t = parseLayoutTemplate(stored);
+    expect(t.overlays).toEqual([{ ...stored.overlay, id: 'overlay:image' }]);
+    expect(t.svgOverlays).toEqual([]);
+    expect(t.layers).toEqual({ order: [], hidden: [], locked: [] });
+  });
+
+  it('rejects templates without an object size or from a newer editor', () => {
+    expect(() => parseLayoutTemplate({ ...stored, objectMm: null })).toThrow(/object size/);
+    expect(() => parseLayoutTemplate({ ...stored, version: LAYOUT_TEMPLATE_VERSION + 1 })).toThrow(/version/);
+  });
+});
+
+describe('parseLayoutTemplateList', () => {
+  it('accepts snake_case records and skips broken ones', () => {
+    const list = parseLayoutTemplateList({
+      templates: [
+        { id: 't1', name: 'Raffle', scope: 'library', updated_at: '2026-01-01', template: stored },
+        { id: 't2', name: 'Broken', template: { version: 1 } },
+      ],
+    });
+    expect(list).toHaveLength(1);
+    expect(list[0]).toMatchObject({ id: 't1', scope: 'library', updatedAt: '2026-01-01' });
+  });
+});
+
+describe('rescaleLayoutTemplate', () => {
+  it('keeps slots at the same relative position on a different object size', () => {
+    const t = rescaleLayoutTemplate(parseLayoutTemplate(stored), { widthMm: 100, heightMm: 70 });
+    expect(t.seriesSlots.map((s) => [s.x_mm, s.y_mm])).toEqual([
+      [50, 35],
+      [10, 10],
+    ]);
+    expect(t.seriesSlots[0].letterStyles).toEqual([{ fontSize: 30, offsetY: 2 }]);
+    expect(t.overlays[0]).toMatchObject({ xMm: 5, yMm: 7, wMm: 10, hMm: 5 });
+    expect(t.objectMm).toEqual({ widthMm: 100, heightMm: 70 });
+  });
+
+  it('returns the template unchanged for the same size', () => {
+    const t = parseLayoutTemplate(stored);
+    expect(rescaleLayoutTemplate(t, { widthMm: 200, heightMm: 70 })).toBe(t);
+  });
+});
@@ -0,0 +1,172 @@
+// Reusable ticket layouts: everything an admin sets up in the editor except
+// the artwork itself, saved per document or in the shared library.
+//
+// Positions are stored in mm relative to the object they were designed on;
+// applying a template to artwork of a different size scales them by the
+// ratio of the two object sizes (see rescaleLayoutTemplate).
+import type { SeriesSlotData } from '@/components/editor/SeriesSlot';
+import { resolveImposition, type ImpositionSettings } from '@/utils/imposition';
+import { resolvePrinterMarks, type PrinterMarksSettings } from '@/utils/printerMarks';
+import { resolveDuplex, type DuplexSettings } from '@/utils/duplex';
+import { EMPTY_LAYERS, type LayerState } from '@/utils/layers';
+
+// v2: any number of image/SVG overlays plus the layer stack (v1 had one of each)
+export const LAYOUT_TEMPLATE_VERSION = 2;
+
+export type TemplateScope = 'document' | 'library';
+
+export type TemplateImageOverlay = {
+  id: string;
+  dataUrl: string;
+  mime: string;
+  xMm: number;
+  yMm: number;
+  wMm: number;
+  hMm: number;
+  rotationDeg: number;
+};
+
+export type TemplateSvgOverlay = {
+  id: string;
+  type: 'svg';
+  svgS3Key: string;
+  svgMarkup: string;
+  xMm: number;
+  yMm: number;
+  scale: number;
+  rotationDeg: number;
+  intrinsicMmW: number;
+  intrinsicMmH: number;
+};
+
+export type LayoutTemplate = {
+  version: number;
+  objectMm: { widthMm: number; heightMm: number };
+  seriesSlots: SeriesSlotData[];
+  startingSeries: string;
+  totalPages: number;
+  customFonts: { family: string; dataUrl: string; mime: string }[];
+  overlays: TemplateImageOverlay[];
+  svgOverlays: TemplateSvgOverlay[];
+  layers: LayerState;
+  imposition: ImpositionSettings;
+  printerMarks: PrinterMarksSettings;
+  duplex: DuplexSettings;
+};
+
+// A saved template as listed by the backend
+export type LayoutTemplateRecord = {
+  id: string;
+  name: string;
+  scope: TemplateScope;
+  documentId: string | null;
+  updatedAt: string | null;
+  template: LayoutTemplate;
+};
+
+const positive = (raw: unknown): number | null => {
+  const n = Number(raw);
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+// Selection ids the v1 editor used for its single image and SVG overlay
+const LEGACY_IMAGE_OVERLAY_ID = 'overlay:image';
+const LEGACY_SVG_OVERLAY_ID = 'overlay:svg';
+
+const stringList = (raw: unknown): string[] => (Array.isArray(raw) ? raw.filter((v): v is string => typeof v === 'string') : []);
+
+// Throws when the stored JSON is not a usable template
+export const parseLayoutTemplate = (raw: unknown): LayoutTemplate => {
+  const t = (raw && typeof raw === 'object' ? raw : {}) as Partial<LayoutTemplate> & {
+    overlay?: Omit<TemplateImageOverlay, 'id'> | null;
+    svgOverlay?: Omit<TemplateSvgOverlay, 'id'> | null;
+  };
+  const version = Number(t.version);
+  if (!Number.isFinite(version) || version > LAYOUT_TEMPLATE_VERSION) {
+    throw new Error(`Unsupported template version ${t.version ?? '(missing)'}`);
+  }
+  const widthMm = positive(t.objectMm?.widthMm);
+  const heightMm = positive(t.objectMm?.heightMm);
+  if (!widthMm || !heightMm) throw new Error('Template is missing its object size (mm)');
+  if (!Array.isArray(t.seriesSlots)) throw new Error('Template has no series slots');
+
+  const overlays = Array.isArray(t.overlays)
+    ? t.overlays.filter((o) => o?.dataUrl && typeof o.id === 'string')
+    : t.overlay?.dataUrl
+      ? [{ ...t.overlay, id: LEGACY_IMAGE_OVERLAY_ID }]
+      : [];
+  const svgOverlays = Array.isArray(t.svgOverlays)
+    ? t.svgOverlays.filter((o) => o?.svgS3Key && typeof o.id === 'string').map((o) => ({ ...o, type: 'svg' as const }))
+    : t.svgOverlay?.svgS3Key
+      ? [{ ...t.svgOverlay, id: LEGACY_SVG_OVERLAY_ID, type: 'svg' as const }]
+      : [];
+
+  return {
+    version,
+    objectMm: { widthMm, heightMm },
+    seriesSlots: t.seriesSlots.filter((s) => s && typeof s.id === 'string'),
+    startingSeries: typeof t.startingSeries === 'string' && t.startingSeries ? t.startingSeries : 'A001',
+    totalPages: Math.max(1, Math.round(Number(t.totalPages) || 1)),
+    customFonts: Array.isArray(t.customFonts) ? t.customFonts.filter((f) => f?.family && f?.dataUrl) : [],
+    overlays,
+    svgOverlays,
+    layers: t.layers
+      ? { order: stringList(t.layers.order), hidden: stringList(t.layers.hidden), locked: stringList(t.layers.locked) }
+      : EMPTY_LAYERS,
+    imposition: resolveImposition(t.imposition),
+    printerMarks: resolvePrinterMarks(t.printerMarks),
+    duplex: resolveDuplex(t.duplex),
+  };
+};
+
+const optionalString = (...values: unknown[]): string | null => {
+  const v = values.find((x) => typeof x === 'string' && x);
+  return typeof v === 'string' ? v : null;
+};
+
+export const parseLayoutTemplateRecord = (raw: unknown): LayoutTemplateRecord => {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const id = String(r.id ?? r._id ?? '').trim();
+  if (!id) throw new Error('Template record is missing its id');
+  return {
+    id,
+    name: String(r.name || 'Untitled layout'),
+    scope: r.scope === 'library' ? 'library' : 'document',
+    documentId: optionalString(r.documentId, r.document_id),
+    updatedAt: optionalString(r.updatedAt, r.updated_at),
+    template: parseLayoutTemplate(r.template),
+  };
+};
+
+// Skips records that fail to parse instead of failing the whole list
+export const parseLayoutTemplateList = (raw: unknown): LayoutTemplateRecord[] => {
+  const wrapped = (raw as { templates?: unknown } | null)?.templates;
+  const items: unknown[] = Array.isArray(raw) ? raw : Array.isArray(wrapped) ? wrapped : [];
+  return items.flatMap((item: unknown) => {
+    try {
+      return [parseLayoutTemplateRecord(item)];
+    } catch {
+      return [];
+    }
+  });
+};
+
+// Moves every slot and overlay to the same relative spot on an object of a
+// different size; overlays keep their aspect ratio.
+export const rescaleLayoutTemplate = (template: LayoutTemplate, objectMm: { widthMm: number; heightMm: number }): LayoutTemplate => {
+  const sx = objectMm.widthMm / template.objectMm.widthMm;
+  const sy = objectMm.heightMm / template.objectMm.heightMm;
+  if (!(Number.isFinite(sx) && sx > 0 && Number.isFinite(sy) && sy > 0)) throw new Error('Invalid object size for template');
+  if (Math.abs(sx - 1) < 1e-9 && Math.abs(sy - 1) < 1e-9) return template;
+  const s = Math.min(sx, sy);
+
+  const scaleMm = (v: number | null | undefined, k: number) => (typeof v === 'number' && Number.isFinite(v) ? v * k : v);
+
+  return {
+    ...template,
+    objectMm: { widthMm: objectMm.widthMm, heightMm: objectMm.heightMm },
+    seriesSlots: template.seriesSlots.map((slot) => ({ ...slot, x_mm: scaleMm(slot.x_mm, sx), y_mm: scaleMm(slot.y_mm, sy) })),
+    overlays: template.overlays.map((o) => ({ ...o, xMm: o.xMm * sx, yMm: o.yMm * sy, wMm: o.wMm * s, hMm: o.hMm * s })),
+    svgOverlays: template.svgOverlays.map((o) => ({ ...o, xMm: o.xMm * sx, yMm: o.yMm * sy, scale: o.scale * s })),
+  };
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { sheetTicketIndices, ticketIndexAt, ticketPosition, type NumberingOrder } from '@/utils/numberingOrder';
+
+describe('sheetTicketIndices', () => {
+  it('numbers 4-up sheets in reading order', () => {
+    expect(sheetTicketIndices('row-major', { rows: 4, columns: 1, sheetCount: 3 })).toEqual([
+      [0, 1, 2, 3],
+      [4, 5, 6, 7],
+      [8, 9, 10, 11],
+    ]);
+  });
+
+  it('gives each 4-up position a contiguous block for cut and stack', () => {
+    expect(sheetTicketIndices('cut-and-stack', { rows: 4, columns: 1, sheetCount: 3 })).toEqual([
+      [0, 3, 6, 9],
+      [1, 4, 7, 10],
+      [2, 5, 8, 11],
+    ]);
+  });
+
+  it('gives each 3-up position a contiguous block for cut and stack', () => {
+    expect(sheetTicketIndices('cut-and-stack', { rows: 3, columns: 1, sheetCount: 5 })).toEqual([
+      [0, 5, 10],
+      [1, 6, 11],
+      [2, 7, 12],
+      [3, 8, 13],
+      [4, 9, 14],
+    ]);
+  });
+
+  it('numbers a 2 × 2 grid down the columns for column-major', () => {
+    expect(sheetTicketIndices('column-major', { rows: 2, columns: 2, sheetCount: 2 })).toEqual([
+      [0, 2, 1, 3],
+      [4, 6, 5, 7],
+    ]);
+  });
+
+  it.each(['row-major', 'column-major', 'cut-and-stack'] as const)('%s uses every ticket exactly once', (order) => {
+    const grid = { rows: 3, columns: 2, sheetCount: 7 };
+    const all = sheetTicketIndices(order, grid).flat().sort((a, b) => a - b);
+    expect(all).toEqual(Array.from({ length: 42 }, (_, i) => i));
+  });
+});
+
+describe('cut and stack', () => {
+  it('produces a sequential pad when the piles of each position are stacked', () => {
+    const grid = { rows: 4, columns: 1, sheetCount: 25 };
+    const pad: number[] = [];
+    for (let position = 0; position < 4; position += 1) {
+      for (let sheet = 0; sheet < grid.sheetCount; sheet += 1) pad.push(ticketIndexAt('cut-and-stack', grid, sheet, position));
+    }
+    expect(pad).toEqual(Array.from({ length: 100 }, (_, i) => i));
+  });
+});
+
+describe('ticketPosition', () => {
+  it('finds the sheet and cell of every ticket', () => {
+    const grid = { rows: 3, columns: 2, sheetCount: 4 };
+    (['row-major', 'column-major', 'cut-and-stack'] as NumberingOrder[]).forEach((order) => {
+      sheetTicketIndices(order, grid).forEach((cells, sheetIndex) =>
+        cells.forEach((ticket, cellIndex) => expect(ticketPosition(order, grid, ticket)).toEqual({ sheetIndex, cellIndex }))
+      );
+    });
+  });
+});
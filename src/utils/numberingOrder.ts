@@ -0,0 +1,60 @@
+// Which ticket of the series goes into which cell of which sheet.
+//
+// Tickets are numbered 0..(sheetCount * rows * columns - 1) in series order;
+// cells are numbered row-major within a sheet (see imposition.ts).
+//
+// - row-major:     sheet by sheet, left to right then top to bottom
+// - column-major:  sheet by sheet, top to bottom then left to right
+// - cut-and-stack: every cell position owns one contiguous block of
+//                  `sheetCount` tickets, so after guillotining, the pile cut
+//                  from position 1 is tickets 1..S, position 2 is S+1..2S, and
+//                  putting the piles on top of each other gives a sequential pad.
+
+export type NumberingOrder = 'row-major' | 'column-major' | 'cut-and-stack';
+
+export const NUMBERING_ORDERS: { value: NumberingOrder; label: string }[] = [
+  { value: 'row-major', label: 'Row by row (reading order)' },
+  { value: 'column-major', label: 'Column by column' },
+  { value: 'cut-and-stack', label: 'Cut and stack' },
+];
+
+export const DEFAULT_NUMBERING_ORDER: NumberingOrder = 'row-major';
+
+export const resolveNumberingOrder = (raw: unknown): NumberingOrder => {
+  return NUMBERING_ORDERS.some((o) => o.value === raw) ? (raw as NumberingOrder) : DEFAULT_NUMBERING_ORDER;
+};
+
+export type SheetGrid = { rows: number; columns: number; sheetCount: number };
+
+// Series index printed in cell `cellIndex` (row-major) of sheet `sheetIndex`.
+export const ticketIndexAt = (order: NumberingOrder, grid: SheetGrid, sheetIndex: number, cellIndex: number): number => {
+  const perSheet = grid.rows * grid.columns;
+  const row = Math.floor(cellIndex / grid.columns);
+  const column = cellIndex % grid.columns;
+
+  if (order === 'column-major') return sheetIndex * perSheet + column * grid.rows + row;
+  if (order === 'cut-and-stack') return cellIndex * grid.sheetCount + sheetIndex;
+  return sheetIndex * perSheet + cellIndex;
+};
+
+// Series indices for every sheet, one entry per cell in row-major cell order.
+export const sheetTicketIndices = (order: NumberingOrder, grid: SheetGrid): number[][] => {
+  const perSheet = grid.rows * grid.columns;
+  return Array.from({ length: grid.sheetCount }, (_, sheetIndex) =>
+    Array.from({ length: perSheet }, (_, cellIndex) => ticketIndexAt(order, grid, sheetIndex, cellIndex))
+  );
+};
+
+// Sheet and cell (row-major) that print ticket `ticketIndex`; inverse of ticketIndexAt().
+export const ticketPosition = (order: NumberingOrder, grid: SheetGrid, ticketIndex: number): { sheetIndex: number; cellIndex: number } => {
+  const perSheet = grid.rows * grid.columns;
+  if (order === 'cut-and-stack') {
+    return { sheetIndex: ticketIndex % grid.sheetCount, cellIndex: Math.floor(ticketIndex / grid.sheetCount) };
+  }
+  const sheetIndex = Math.floor(ticketIndex / perSheet);
+  const offset = ticketIndex % perSheet;
+  if (order === 'column-major') {
+    return { sheetIndex, cellIndex: (offset % grid.rows) * grid.columns + Math.floor(offset / grid.rows) };
+  }
+  return { sheetIndex, cellIndex: offset };
+};
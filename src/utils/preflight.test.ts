@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import {
+  barcodeIssues,
+  fontIssues,
+  hairlineIssues,
+  placementIssues,
+  preflightReport,
+  rasterDpiIssues,
+  rasterPixelSize,
+  rotatedBounds,
+  seriesRunIssues,
+  svgStrokeWidthsMm,
+  svgUserUnitMm,
+} from '@/utils/preflight';
+
+const ticket = { widthMm: 100, heightMm: 50 };
+
+describe('placementIssues', () => {
+  it('errors past the ticket edge and warns inside the cut margin or on overlap', () => {
+    const issues = placementIssues(
+      [
+        { id: 'a', label: 'A', box: { xMm: 95, yMm: 10, widthMm: 10, heightMm: 5 } },
+        { id: 'b', label: 'B', box: { xMm: 1, yMm: 10, widthMm: 10, heightMm: 5 } },
+        { id: 'c', label: 'C', box: { xMm: 5, yMm: 12, widthMm: 10, heightMm: 5 } },
+        { id: 'd', label: 'D', side: 'back', box: { xMm: 5, yMm: 12, widthMm: 10, heightMm: 5 } },
+      ],
+      ticket,
+      2
+    );
+    expect(issues.map((i) => [i.severity, i.check, i.targetId])).toEqual([
+      ['error', 'placement', 'a'],
+      ['warning', 'placement', 'b'],
+      ['warning', 'overlap', 'b'],
+    ]);
+    expect(issues[0].message).toBe('A extends 5 mm past the ticket edge');
+  });
+
+  it('measures rotated slots by their turned bounds', () => {
+    const box = rotatedBounds({ xMm: 0, yMm: -2, widthMm: 20, heightMm: 2 }, { xMm: 0, yMm: 0 }, 90);
+    expect(box.xMm).toBeCloseTo(0);
+    expect(box.yMm).toBeCloseTo(0);
+    expect(box.widthMm).toBeCloseTo(2);
+    expect(box.heightMm).toBeCloseTo(20);
+  });
+});
+
+describe('hairlines', () => {
+  const svg = `<svg viewBox="0 0 200 100"><style>.rule { stroke-width: 0.05 }</style>
+    <path d="M0 0" stroke="#000" stroke-width="1"/>
+    <path d="M0 0" style="stroke:#000;stroke-width:0.1pt"/>
+    <rect stroke="none" stroke-width="0.01"/></svg>`;
+
+  it('reads stroke widths in mm from attributes, styles and rules', () => {
+    const unit = svgUserUnitMm(svg, 100) as number;
+    expect(unit).toBe(0.5);
+    const widths = svgStrokeWidthsMm(svg, unit);
+    expect(widths).toHaveLength(3);
+    expect(widths[0]).toBeCloseTo(0.025);
+    expect(widths[1]).toBeCloseTo(0.5);
+    expect(widths[2]).toBeCloseTo(0.0667);
+  });
+
+  it('warns once per source with the thinnest stroke', () => {
+    const [issue] = hairlineIssues([{ label: 'Artwork', markup: svg, userUnitMm: 0.5 }]);
+    expect(issue).toMatchObject({ severity: 'warning', check: 'hairline' });
+    expect(issue.message).toContain('2 hairline strokes');
+  });
+});
+
+describe('raster resolution', () => {
+  it('reads PNG and JPEG pixel sizes', () => {
+    const png = new Uint8Array(24);
+    new DataView(png.buffer).setUint32(0, 0x89504e47);
+    new DataView(png.buffer).setUint32(16, 600);
+    new DataView(png.buffer).setUint32(20, 300);
+    expect(rasterPixelSize(png)).toEqual({ width: 600, height: 300 });
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 4, 0, 0, 0xff, 0xc0, 0, 11, 8, 0x01, 0x2c, 0x02, 0x58, 3, 0, 0, 0]);
+    expect(rasterPixelSize(jpeg)).toEqual({ width: 600, height: 300 });
+    expect(rasterPixelSize(new Uint8Array(16))).toBeNull();
+  });
+
+  it('warns below the recommended resolution', () => {
+    const images = [{ id: 'i', label: 'Logo', pixelWidth: 600, pixelHeight: 300, widthMm: 50.8, heightMm: 25.4 }];
+    expect(rasterDpiIssues(images)).toEqual([]);
+    expect(rasterDpiIssues([{ ...images[0], widthMm: 101.6 }])[0].message).toBe('Logo prints at 150 dpi (300 dpi recommended)');
+  });
+});
+
+describe('fontIssues', () => {
+  it('errors on missing and unembeddable fonts', () => {
+    const slots = [
+      { id: 'a', label: 'A', fontFamily: 'Arial' },
+      { id: 'b', label: 'B', fontFamily: 'Gone Sans' },
+      { id: 'c', label: 'C', fontFamily: 'Locked' },
+      { id: 'd', label: 'D', fontFamily: 'Helvetica' },
+    ];
+    expect(fontIssues(slots, { available: ['Arial', 'Locked'], unembeddable: ['Locked'] }).map((i) => i.targetId)).toEqual(['b', 'c']);
+    expect(fontIssues(slots, { available: null, unembeddable: [] })).toEqual([]);
+  });
+});
+
+describe('seriesRunIssues', () => {
+  const run = (id: string, start: string, format = {}) => ({ id, label: id, start, format });
+
+  it('allows repeated sequences and interleaved runs', () => {
+    expect(seriesRunIssues([run('ticket', 'A001'), run('stub', 'A001')], 100)).toEqual([]);
+    expect(seriesRunIssues([run('odd', '001', { step: 2 }), run('even', '002', { step: 2 })], 100)).toEqual([]);
+    expect(seriesRunIssues([run('a', 'A001'), run('b', 'B001')], 100)).toEqual([]);
+  });
+
+  it('errors on overlapping ranges, including a carry into the prefix', () => {
+    expect(seriesRunIssues([run('a', 'A001'), run('b', 'A050')], 100).map((i) => i.targetId)).toEqual(['a']);
+    expect(seriesRunIssues([run('a', 'A990'), run('b', 'B005')], 100)).toHaveLength(1);
+    expect(seriesRunIssues([run('a', 'A001'), run('b', 'A050')], 49)).toEqual([]);
+  });
+
+  it('errors when a start value has no counter', () => {
+    expect(seriesRunIssues([run('a', 'A001', { alphabet: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ' })], 3)[0].message).toMatch(/no counter characters/);
+    expect(seriesRunIssues([run('a', 'VIP')], 1)).toEqual([]);
+  });
+
+  it('errors when a wrapping counter repeats', () => {
+    const [issue] = seriesRunIssues([run('w', 'A95', { rollover: 'wrap', step: 5 })], 21);
+    expect(issue.message).toBe('w wraps after 20 tickets and repeats its numbers');
+  });
+});
+
+describe('barcodeIssues', () => {
+  it('errors on the first value the symbology cannot encode', () => {
+    const values = ['400638133393', '400638133394', '4006381333931', '4006381333932'];
+    const [issue, ...rest] = barcodeIssues([
+      { id: 'e', label: 'EAN', symbology: 'ean13', values },
+      { id: 'c', label: 'Code', symbology: 'code128', values: ['A001', 'A500'] },
+    ]);
+    expect(rest).toEqual([]);
+    expect(issue).toMatchObject({ severity: 'error', check: 'barcode', targetId: 'e' });
+    expect(issue.message).toBe('EAN cannot encode "4006381333932" as EAN-13: Incorrect EAN-13 check digit provided');
+    expect(barcodeIssues([{ id: 'e', label: 'EAN', symbology: 'ean13', values: ['A0001'] }])[0].message).toMatch(/12 or 13 digits/);
+  });
+});
+
+describe('preflightReport', () => {
+  it('groups issues by severity', () => {
+    const report = preflightReport([
+      { severity: 'warning', check: 'overlap', message: 'w' },
+      { severity: 'error', check: 'font', message: 'e' },
+    ]);
+    expect(report.errors.map((i) => i.message)).toEqual(['e']);
+    expect(report.warnings.map((i) => i.message)).toEqual(['w']);
+  });
+});
@@ -0,0 +1,321 @@
+// Preflight: checks run on the layout before output generation. Each check
+// returns issues; errors block generation, warnings are shown but do not. The
+// grouped report goes out with the render payload, so a job records what was
+// wrong with it when it was sent.
+import { BARCODE_SYMBOLOGIES, barcodeValueError, type BarcodeSymbology } from '@/utils/barcodeSvg';
+import type { Box } from '@/utils/snapping';
+import { parseSeries, resolveSeriesAlphabet, resolveSeriesRollover, type SeriesFormat } from '@/utils/seriesEngine';
+
+export type PreflightSeverity = 'error' | 'warning';
+
+export type PreflightCheck = 'placement' | 'overlap' | 'text-size' | 'hairline' | 'raster-dpi' | 'font' | 'color' | 'series' | 'barcode';
+
+export type PreflightIssue = {
+  severity: PreflightSeverity;
+  check: PreflightCheck;
+  message: string;
+  // Slot or overlay the issue is about, so the panel can select it
+  targetId?: string;
+};
+
+export type PreflightReport = {
+  errors: PreflightIssue[];
+  warnings: PreflightIssue[];
+};
+
+// Below these, output is likely to print badly or not at all
+export const MIN_TEXT_SIZE_PT = 5;
+export const MIN_STROKE_PT = 0.25;
+export const MIN_RASTER_DPI = 300;
+
+const MM_PER_PT = 25.4 / 72;
+const EPS_MM = 1e-3;
+
+const fmtMm = (mm: number) => `${Number(mm.toFixed(2))} mm`;
+
+export const preflightReport = (issues: PreflightIssue[]): PreflightReport => ({
+  errors: issues.filter((i) => i.severity === 'error'),
+  warnings: issues.filter((i) => i.severity === 'warning'),
+});
+
+// --- placement ---------------------------------------------------------------
+
+export type PlacedItem = {
+  id: string;
+  label: string;
+  side?: 'front' | 'back';
+  // Bounds in object mm, after rotation
+  box: Box;
+};
+
+// Axis-aligned bounds of `box` turned clockwise by `rotationDeg` about `anchor`
+export const rotatedBounds = (box: Box, anchor: { xMm: number; yMm: number }, rotationDeg: number): Box => {
+  if (!rotationDeg) return box;
+  const rad = (rotationDeg * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const corners = [
+    [box.xMm, box.yMm],
+    [box.xMm + box.widthMm, box.yMm],
+    [box.xMm, box.yMm + box.heightMm],
+    [box.xMm + box.widthMm, box.yMm + box.heightMm],
+  ].map(([x, y]) => {
+    const dx = x - anchor.xMm;
+    const dy = y - anchor.yMm;
+    return [anchor.xMm + dx * cos - dy * sin, anchor.yMm + dx * sin + dy * cos];
+  });
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+  return { xMm: Math.min(...xs), yMm: Math.min(...ys), widthMm: Math.max(...xs) - Math.min(...xs), heightMm: Math.max(...ys) - Math.min(...ys) };
+};
+
+// Slots past the ticket edge are cut off (error); slots reaching into the cut
+// margin may be (warning). Slots on the same side that overlap are warned about.
+export const placementIssues = (items: PlacedItem[], object: { widthMm: number; heightMm: number }, cutMarginMm = 0): PreflightIssue[] => {
+  const issues: PreflightIssue[] = [];
+  items.forEach(({ id, label, box }) => {
+    const overhang = Math.max(-box.xMm, -box.yMm, box.xMm + box.widthMm - object.widthMm, box.yMm + box.heightMm - object.heightMm);
+    if (overhang > EPS_MM) {
+      issues.push({ severity: 'error', check: 'placement', targetId: id, message: `${label} extends ${fmtMm(overhang)} past the ticket edge` });
+    } else if (cutMarginMm > 0 && overhang + cutMarginMm > EPS_MM) {
+      issues.push({ severity: 'warning', check: 'placement', targetId: id, message: `${label} is inside the ${fmtMm(cutMarginMm)} cut margin` });
+    }
+  });
+  items.forEach((a, i) => {
+    items.slice(i + 1).forEach((b) => {
+      if ((a.side ?? 'front') !== (b.side ?? 'front')) return;
+      const w = Math.min(a.box.xMm + a.box.widthMm, b.box.xMm + b.box.widthMm) - Math.max(a.box.xMm, b.box.xMm);
+      const h = Math.min(a.box.yMm + a.box.heightMm, b.box.yMm + b.box.heightMm) - Math.max(a.box.yMm, b.box.yMm);
+      if (w > EPS_MM && h > EPS_MM) issues.push({ severity: 'warning', check: 'overlap', targetId: a.id, message: `${a.label} overlaps ${b.label}` });
+    });
+  });
+  return issues;
+};
+
+// --- text size ---------------------------------------------------------------
+
+export const textSizeIssues = (slots: { id: string; label: string; sizesMm: number[] }[]): PreflightIssue[] =>
+  slots.flatMap(({ id, label, sizesMm }) => {
+    const smallestPt = Math.min(...sizesMm.filter((mm) => mm > 0)) / MM_PER_PT;
+    return smallestPt < MIN_TEXT_SIZE_PT
+      ? [{ severity: 'warning' as const, check: 'text-size' as const, targetId: id, message: `${label} has ${Number(smallestPt.toFixed(1))} pt text; below ${MIN_TEXT_SIZE_PT} pt may not print legibly` }]
+      : [];
+  });
+
+// --- SVG hairlines -----------------------------------------------------------
+
+// SVG lengths in user units: absolute units go through CSS px at 96 dpi
+const USER_UNITS_PER: Record<string, number> = { '': 1, px: 1, mm: 96 / 25.4, cm: 960 / 25.4, in: 96, pt: 96 / 72, pc: 16 };
+
+const parseUserLength = (raw: string): number | null => {
+  const m = raw.trim().match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)\s*(px|mm|cm|in|pt|pc)?$/i);
+  if (!m) return null;
+  const n = Number(m[1]) * USER_UNITS_PER[String(m[2] || '').toLowerCase()];
+  return Number.isFinite(n) ? n : null;
+};
+
+// Size of one user unit in mm for an SVG drawn `widthMm` wide, or null when
+// the root element has neither a viewBox nor a plain width
+export const svgUserUnitMm = (markup: string, widthMm: number): number | null => {
+  const root = markup.match(/<svg\b[^>]*>/i)?.[0] ?? '';
+  const viewBox = root.match(/\bviewBox\s*=\s*(['"])([^'"]+)\1/i)?.[2];
+  const parts = viewBox ? viewBox.trim().split(/[\s,]+/).map(Number) : [];
+  if (parts.length === 4 && parts[2] > 0) return widthMm / parts[2];
+  const width = parseUserLength(root.match(/\bwidth\s*=\s*(['"])([^'"]+)\1/i)?.[2] ?? '');
+  return width && width > 0 ? widthMm / width : null;
+};
+
+// Stroke widths (in mm) declared in the markup: presentation attributes,
+// style attributes and <style> rules. Inheritance and transforms are not
+// followed, and elements with stroke="none" are skipped.
+export const svgStrokeWidthsMm = (markup: string, userUnitMm: number): number[] => {
+  const widths: number[] = [];
+  const push = (raw: string | undefined) => {
+    const w = raw === undefined ? null : parseUserLength(raw);
+    if (w !== null && w > 0) widths.push(w * userUnitMm);
+  };
+  for (const [, css] of Array.from(markup.matchAll(/<style\b[^>]*>([\s\S]*?)<\/style>/gi))) {
+    for (const [, value] of Array.from(css.matchAll(/stroke-width\s*:\s*([^;}]+)/gi))) push(value);
+  }
+  for (const [, attrs] of Array.from(markup.matchAll(/<[a-zA-Z][\w:-]*\b([^>]*)>/g))) {
+    const style = attrs.match(/\bstyle\s*=\s*(['"])([^'"]*)\1/i)?.[2] ?? '';
+    const stroke = style.match(/(?:^|;)\s*stroke\s*:\s*([^;]+)/i)?.[1] ?? attrs.match(/\bstroke\s*=\s*(['"])([^'"]*)\1/i)?.[2];
+    if (stroke?.trim().toLowerCase() === 'none') continue;
+    push(style.match(/stroke-width\s*:\s*([^;]+)/i)?.[1] ?? attrs.match(/\bstroke-width\s*=\s*(['"])([^'"]*)\1/i)?.[2]);
+  }
+  return widths;
+};
+
+export const hairlineIssues = (sources: { id?: string; label: string; markup: string; userUnitMm: number }[]): PreflightIssue[] =>
+  sources.flatMap(({ id, label, markup, userUnitMm }) => {
+    const thin = svgStrokeWidthsMm(markup, userUnitMm).filter((mm) => mm < MIN_STROKE_PT * MM_PER_PT);
+    if (!thin.length) return [];
+    const thinnestPt = Math.min(...thin) / MM_PER_PT;
+    return [
+      {
+        severity: 'warning' as const,
+        check: 'hairline' as const,
+        ...(id ? { targetId: id } : {}),
+        message: `${label} has ${thin.length} hairline stroke${thin.length === 1 ? '' : 's'} (thinnest ${Number(thinnestPt.toFixed(3))} pt; ${MIN_STROKE_PT} pt minimum)`,
+      },
+    ];
+  });
+
+// --- raster resolution -------------------------------------------------------
+
+// Pixel size from a PNG, JPEG or GIF header; null for other formats
+export const rasterPixelSize = (bytes: Uint8Array): { width: number; height: number } | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length >= 24 && view.getUint32(0) === 0x89504e47) return { width: view.getUint32(16), height: view.getUint32(20) };
+  if (bytes.length >= 10 && String.fromCharCode(...Array.from(bytes.subarray(0, 4))) === 'GIF8') {
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+  if (bytes.length >= 4 && view.getUint16(0) === 0xffd8) {
+    let at = 2;
+    while (at + 9 <= bytes.length) {
+      if (bytes[at] !== 0xff) return null;
+      const marker = bytes[at + 1];
+      if (marker === 0xff) {
+        at += 1;
+        continue;
+      }
+      // Start-of-frame markers, leaving out DHT, JPG and DAC
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: view.getUint16(at + 7), height: view.getUint16(at + 5) };
+      }
+      at += 2 + (marker >= 0xd0 && marker <= 0xd9 ? 0 : view.getUint16(at + 2));
+    }
+  }
+  return null;
+};
+
+export const rasterDpiIssues = (images: { id: string; label: string; pixelWidth: number; pixelHeight: number; widthMm: number; heightMm: number }[]): PreflightIssue[] =>
+  images.flatMap(({ id, label, pixelWidth, pixelHeight, widthMm, heightMm }) => {
+    if (!(widthMm > 0 && heightMm > 0)) return [];
+    const dpi = Math.min(pixelWidth / (widthMm / 25.4), pixelHeight / (heightMm / 25.4));
+    return dpi < MIN_RASTER_DPI
+      ? [{ severity: 'warning' as const, check: 'raster-dpi' as const, targetId: id, message: `${label} prints at ${Math.round(dpi)} dpi (${MIN_RASTER_DPI} dpi recommended)` }]
+      : [];
+  });
+
+// --- fonts -------------------------------------------------------------------
+
+// The PDF base fonts, which every render path can draw
+const BASE_FONT = /^(helvetica|times|courier)\b/i;
+
+// `available` is null until the font list has loaded; `unembeddable` lists
+// fonts whose licence forbids embedding them in a PDF
+export const fontIssues = (
+  slots: { id: string; label: string; fontFamily: string }[],
+  fonts: { available: string[] | null; unembeddable: string[] }
+): PreflightIssue[] =>
+  slots.flatMap(({ id, label, fontFamily }): PreflightIssue[] => {
+    const font = fontFamily.trim();
+    if (!font) return [];
+    if (fonts.unembeddable.includes(font)) {
+      return [{ severity: 'error', check: 'font', targetId: id, message: `${label} uses "${font}", whose licence does not allow embedding` }];
+    }
+    if (fonts.available && !fonts.available.includes(font) && !BASE_FONT.test(font)) {
+      return [{ severity: 'error', check: 'font', targetId: id, message: `${label} uses "${font}", which is not in the font library or on the render service` }];
+    }
+    return [];
+  });
+
+// --- color -------------------------------------------------------------------
+
+// Items that only have an RGB colour; for CMYK output they are converted by
+// the render service instead of printing exact ink values
+export const rgbOnlyColorIssues = (items: { id: string; label: string }[]): PreflightIssue[] =>
+  items.map(({ id, label }) => ({ severity: 'warning', check: 'color', targetId: id, message: `${label} is RGB only and will be converted for CMYK output` }));
+
+// --- series ------------------------------------------------------------------
+
+export type SeriesRun = { id: string; label: string; start: string; format: SeriesFormat };
+
+const PREFIX_CLASSES = ['ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz', '0123456789'];
+
+const gcd = (a: number, b: number): number => (b ? gcd(b, a % b) : a);
+
+// Position of a run's first value on a number line shared by every value of
+// the same shape (fixed characters, counter width and alphabet), following
+// the engine's carry into the prefix. Null when the run wraps, since its
+// values are then not one contiguous stretch.
+const runRank = (run: SeriesRun, count: number): { shape: string; first: number; step: number } | null => {
+  const parsed = parseSeries(run.start, run.format);
+  if (!parsed) return null;
+  const alphabet = resolveSeriesAlphabet(run.format.alphabet);
+  const step = run.format.step ?? 1;
+  let shape = '';
+  let rank = 0;
+  Array.from(parsed.prefix).forEach((ch) => {
+    const cls = PREFIX_CLASSES.find((c) => c.includes(ch));
+    shape += cls ? cls[0] : ch;
+    if (cls) rank = rank * cls.length + cls.indexOf(ch);
+  });
+  let counter = 0;
+  Array.from(parsed.counter).forEach((ch) => {
+    counter = counter * alphabet.length + alphabet.indexOf(ch);
+  });
+  const capacity = alphabet.length ** parsed.counter.length;
+  if (resolveSeriesRollover(run.format.rollover) === 'wrap' && counter + (count - 1) * step >= capacity) return null;
+  const first = rank * capacity + counter;
+  if (!Number.isSafeInteger(first + (count - 1) * step)) return null;
+  return { shape: `${shape}|${parsed.template.replace(/\S/g, '#')}|${parsed.suffix}|${alphabet}`, first, step };
+};
+
+// A counter that wraps repeats its numbers (error), as do two counters whose
+// ranges meet at different tickets (error). Slots printing the same sequence,
+// like a ticket and its stub, are fine.
+export const seriesRunIssues = (runs: SeriesRun[], count: number): PreflightIssue[] => {
+  const issues: PreflightIssue[] = [];
+  runs.forEach((run) => {
+    const parsed = parseSeries(run.start, run.format);
+    if (!parsed && count > 1) {
+      issues.push({ severity: 'error', check: 'series', targetId: run.id, message: `${run.label} has no counter characters, so every ticket prints the same number` });
+    }
+    if (!parsed || resolveSeriesRollover(run.format.rollover) !== 'wrap') return;
+    const capacity = resolveSeriesAlphabet(run.format.alphabet).length ** parsed.counter.length;
+    const distinct = capacity / gcd(capacity, run.format.step ?? 1);
+    if (count > distinct) {
+      issues.push({ severity: 'error', check: 'series', targetId: run.id, message: `${run.label} wraps after ${distinct} tickets and repeats its numbers` });
+    }
+  });
+
+  const ranked = runs.map((run) => ({ run, rank: runRank(run, count) }));
+  ranked.forEach(({ run: a, rank: ra }, i) => {
+    ranked.slice(i + 1).forEach(({ run: b, rank: rb }) => {
+      if (!ra || !rb || ra.shape !== rb.shape || (ra.first === rb.first && ra.step === rb.step)) return;
+      // Tickets i of a that land inside b's range, checked for a hit at j != i
+      const lastB = rb.first + (count - 1) * rb.step;
+      const from = Math.max(0, Math.ceil((rb.first - ra.first) / ra.step));
+      const to = Math.min(count - 1, Math.floor((lastB - ra.first) / ra.step));
+      for (let t = from; t <= to; t += 1) {
+        const offset = ra.first + t * ra.step - rb.first;
+        if (offset % rb.step === 0 && offset / rb.step !== t) {
+          issues.push({ severity: 'error', check: 'series', targetId: a.id, message: `${a.label} and ${b.label} print the same numbers on different tickets` });
+          return;
+        }
+      }
+    });
+  });
+  return issues;
+};
+
+// --- barcodes ----------------------------------------------------------------
+
+// Barcode slots printing a value their symbology cannot encode (error), such
+// as EAN-13 with letters or the wrong length. EAN-13 is checked on every value;
+// other symbologies are rendered, which is too slow for a whole run, so only
+// the first, last and longest values are tried.
+export const barcodeIssues = (slots: { id: string; label: string; symbology: BarcodeSymbology; values: string[] }[]): PreflightIssue[] =>
+  slots.flatMap(({ id, label, symbology, values }) => {
+    if (!values.length) return [];
+    const longest = values.reduce((a, b) => (b.length > a.length ? b : a));
+    const sample = symbology === 'ean13' ? values : [...new Set([values[0], values[values.length - 1], longest])];
+    const name = BARCODE_SYMBOLOGIES.find((s) => s.value === symbology)?.label ?? symbology;
+    for (const value of sample) {
+      const error = barcodeValueError(value, symbology);
+      if (error) return [{ severity: 'error' as const, check: 'barcode' as const, targetId: id, message: `${label} cannot encode "${value}" as ${name}: ${error}` }];
+    }
+    return [];
+  });
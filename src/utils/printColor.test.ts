@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { cmykToHex, displayColor, payloadInk, resolveColorOutput, resolveInkColor, rgbToCmyk, softProofHex } from '@/utils/printColor';
+
+const luminance = (hex: string) => {
+  const [r, g, b] = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+describe('resolveInkColor', () => {
+  it('clamps CMYK values and rejects unnamed spots', () => {
+    expect(resolveInkColor({ kind: 'cmyk', cmyk: { c: 120, m: -5, y: '40', k: 12.34 } })).toEqual({
+      kind: 'cmyk',
+      cmyk: { c: 100, m: 0, y: 40, k: 12.3 },
+    });
+    expect(resolveInkColor({ kind: 'spot', name: ' PANTONE 186 C ', cmyk: { m: 100 } })).toMatchObject({ name: 'PANTONE 186 C' });
+    expect(resolveInkColor({ kind: 'spot', name: '  ' })).toBeNull();
+    expect(resolveInkColor('#ff0000')).toBeNull();
+  });
+
+  it('defaults the output to RGB with FOGRA39', () => {
+    expect(resolveColorOutput({ mode: 'cmyk', profile: 'bogus' as never })).toEqual({ mode: 'cmyk', profile: 'FOGRA39' });
+    expect(resolveColorOutput(null).mode).toBe('rgb');
+  });
+});
+
+describe('conversions', () => {
+  it('round-trips device colours', () => {
+    expect(rgbToCmyk('#ff0000')).toEqual({ c: 0, m: 100, y: 100, k: 0 });
+    expect(rgbToCmyk('#000')).toEqual({ c: 0, m: 0, y: 0, k: 100 });
+    expect(cmykToHex({ c: 0, m: 100, y: 100, k: 0 })).toBe('#ff0000');
+    expect(cmykToHex({ c: 0, m: 0, y: 0, k: 50 })).toBe('#808080');
+  });
+
+  it('soft-proofs paper as off-white, flattens solids and fills in tints', () => {
+    expect(softProofHex({ c: 0, m: 0, y: 0, k: 0 }, 'SWOP')).toBe('#f0f0eb');
+    expect(softProofHex({ c: 100, m: 0, y: 0, k: 0 }, 'FOGRA39')).not.toBe('#00ffff');
+    const tint = { c: 0, m: 0, y: 0, k: 50 };
+    expect(luminance(softProofHex(tint, 'SWOP'))).toBeLessThan(luminance(softProofHex(tint, 'FOGRA39')));
+  });
+
+  it('only soft-proofs for CMYK output', () => {
+    const ink = { kind: 'cmyk' as const, cmyk: { c: 100, m: 0, y: 0, k: 0 } };
+    expect(displayColor('#123456', null, { mode: 'rgb', profile: 'FOGRA39' }, true)).toBe('#123456');
+    expect(displayColor('#123456', ink, { mode: 'rgb', profile: 'FOGRA39' }, true)).toBe('#00ffff');
+    expect(displayColor('#123456', ink, { mode: 'cmyk', profile: 'FOGRA39' }, true)).toBe(softProofHex(ink.cmyk, 'FOGRA39'));
+  });
+});
+
+describe('payloadInk', () => {
+  it('sends fractions and the spot name', () => {
+    expect(payloadInk({ kind: 'spot', name: 'Gold', cmyk: { c: 0, m: 25, y: 100, k: 12.5 } })).toEqual({
+      cmyk: [0, 0.25, 1, 0.125],
+      spot_name: 'Gold',
+    });
+    expect(payloadInk(null)).toBeNull();
+  });
+});
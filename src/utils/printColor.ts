@@ -0,0 +1,135 @@
+// Print colours. A slot or SVG overlay can carry an ink: CMYK percentages, or
+// a named spot ink (a Pantone reference or a house colour) with the CMYK
+// alternate used for the preview and by devices that cannot run the spot.
+// Jobs can be output as CMYK for an ICC output profile; the render service
+// does the conversion. The editor only previews colour: the CSS `color` of a
+// slot is kept at the plain conversion of its ink, and the soft proof below
+// approximates the chosen press condition on screen.
+
+export type Cmyk = { c: number; m: number; y: number; k: number };
+
+export type InkColor = { kind: 'cmyk'; cmyk: Cmyk } | { kind: 'spot'; name: string; cmyk: Cmyk };
+
+export type OutputProfileId = 'FOGRA39' | 'GRACoL2013' | 'SWOP';
+
+export type ColorOutputSettings = {
+  mode: 'rgb' | 'cmyk';
+  profile: OutputProfileId;
+};
+
+export const OUTPUT_PROFILES: { value: OutputProfileId; label: string }[] = [
+  { value: 'FOGRA39', label: 'Coated FOGRA39 (ISO 12647-2)' },
+  { value: 'GRACoL2013', label: 'GRACoL 2013 (CRPC6)' },
+  { value: 'SWOP', label: 'U.S. Web Coated (SWOP) v2' },
+];
+
+export const DEFAULT_COLOR_OUTPUT: ColorOutputSettings = { mode: 'rgb', profile: 'FOGRA39' };
+
+export const resolveColorOutput = (raw?: Partial<ColorOutputSettings> | null): ColorOutputSettings => ({
+  mode: raw?.mode === 'cmyk' ? 'cmyk' : 'rgb',
+  profile: OUTPUT_PROFILES.find((p) => p.value === raw?.profile)?.value ?? DEFAULT_COLOR_OUTPUT.profile,
+});
+
+const percent = (raw: unknown): number => {
+  const n = Number(raw);
+  return Number.isFinite(n) ? Math.min(100, Math.max(0, Math.round(n * 10) / 10)) : 0;
+};
+
+export const resolveCmyk = (raw?: Partial<Cmyk> | null): Cmyk => ({ c: percent(raw?.c), m: percent(raw?.m), y: percent(raw?.y), k: percent(raw?.k) });
+
+// Null for anything that is not a usable ink (including a spot without a name)
+export const resolveInkColor = (raw: unknown): InkColor | null => {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as { kind?: unknown; name?: unknown; cmyk?: Partial<Cmyk> };
+  if (r.kind === 'cmyk') return { kind: 'cmyk', cmyk: resolveCmyk(r.cmyk) };
+  const name = String(r.name ?? '').trim();
+  if (r.kind === 'spot' && name) return { kind: 'spot', name, cmyk: resolveCmyk(r.cmyk) };
+  return null;
+};
+
+export const inkLabel = (ink: InkColor): string => {
+  const { c, m, y, k } = ink.cmyk;
+  const values = `C${c} M${m} Y${y} K${k}`;
+  return ink.kind === 'spot' ? `${ink.name} (${values})` : values;
+};
+
+const parseHexRgb = (css: string): [number, number, number] | null => {
+  const m = String(css || '').trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!m) return null;
+  const hex = m[1].length === 3 ? Array.from(m[1]).map((ch) => ch + ch).join('') : m[1];
+  return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+};
+
+const toHex = (rgb: number[]) => `#${rgb.map((v) => Math.round(Math.min(255, Math.max(0, v))).toString(16).padStart(2, '0')).join('')}`;
+
+// Device conversions without a profile: the starting point when a user
+// switches an RGB colour to CMYK, and the CSS colour kept for an ink
+export const rgbToCmyk = (css: string): Cmyk => {
+  const [r, g, b] = (parseHexRgb(css) ?? [0, 0, 0]).map((v) => v / 255);
+  const k = 1 - Math.max(r, g, b);
+  if (k >= 1) return { c: 0, m: 0, y: 0, k: 100 };
+  const part = (v: number) => ((1 - v - k) / (1 - k)) * 100;
+  return resolveCmyk({ c: part(r), m: part(g), y: part(b), k: k * 100 });
+};
+
+export const cmykToHex = (cmyk: Cmyk): string => {
+  const { c, m, y, k } = resolveCmyk(cmyk);
+  const white = 255 * (1 - k / 100);
+  return toHex([white * (1 - c / 100), white * (1 - m / 100), white * (1 - y / 100)]);
+};
+
+// Rough sRGB of the paper and of each solid ink under each press condition,
+// and the tone value increase at 50%. Good enough to show how saturated
+// colours flatten and dark tints fill in; not a substitute for a hard proof.
+const PRESS_CONDITIONS: Record<OutputProfileId, { paper: number[]; c: number[]; m: number[]; y: number[]; k: number[]; tvi: number }> = {
+  FOGRA39: { paper: [250, 250, 247], c: [0, 158, 224], m: [226, 0, 122], y: [255, 237, 0], k: [35, 31, 32], tvi: 0.14 },
+  GRACoL2013: { paper: [249, 248, 245], c: [0, 160, 223], m: [225, 0, 125], y: [255, 238, 0], k: [38, 34, 35], tvi: 0.16 },
+  SWOP: { paper: [240, 240, 235], c: [0, 152, 212], m: [214, 24, 118], y: [250, 230, 20], k: [52, 48, 47], tvi: 0.2 },
+};
+
+const toLinear = (v: number) => {
+  const s = v / 255;
+  return s <= 0.04045 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+};
+
+const fromLinear = (v: number) => 255 * (v <= 0.0031308 ? v * 12.92 : 1.055 * v ** (1 / 2.4) - 0.055);
+
+// Screen colour of `cmyk` printed under `profile`: dot gain on each
+// separation, then the inks multiplied over the paper in linear light
+export const softProofHex = (cmyk: Cmyk, profile: OutputProfileId): string => {
+  const press = PRESS_CONDITIONS[profile];
+  const { c, m, y, k } = resolveCmyk(cmyk);
+  const paper = press.paper.map(toLinear);
+  const inks = (
+    [
+      [c, press.c],
+      [m, press.m],
+      [y, press.y],
+      [k, press.k],
+    ] as const
+  ).map(([value, solid]) => {
+    const a = value / 100;
+    return { coverage: Math.min(1, a + press.tvi * 4 * a * (1 - a)), solid: solid.map(toLinear) };
+  });
+  return toHex(paper.map((p, ch) => fromLinear(inks.reduce((acc, ink) => acc * (1 - ink.coverage * (1 - ink.solid[ch] / p)), p))));
+};
+
+// What a colour looks like on the canvas: as set, or soft-proofed when the
+// job goes out as CMYK (RGB colours are first converted without a profile)
+export const displayColor = (css: string, ink: InkColor | null | undefined, output: ColorOutputSettings, softProof: boolean): string => {
+  if (output.mode !== 'cmyk' || !softProof) return ink ? cmykToHex(ink.cmyk) : css;
+  if (!ink && !parseHexRgb(css)) return css;
+  return softProofHex(ink ? ink.cmyk : rgbToCmyk(css), output.profile);
+};
+
+// Render payload form of an ink: CMYK as 0..1 fractions, spot inks by name
+export type PayloadInk = { cmyk: [number, number, number, number]; spot_name?: string };
+
+export const payloadInk = (ink: InkColor | null | undefined): PayloadInk | null => {
+  const resolved = resolveInkColor(ink);
+  if (!resolved) return null;
+  const { c, m, y, k } = resolved.cmyk;
+  return {
+    cmyk: [c, m, y, k].map((v) => Number((v / 100).toFixed(4))) as [number, number, number, number],
+    ...(resolved.kind === 'spot' ? { spot_name: resolved.name } : {}),
+  };
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { computeImpositionLayout, impositionPreset } from '@/utils/imposition';
+import { cropMarkLines, printerMarksError, registrationTargets, resolvePrinterMarks, slugLineText, trimBoxes } from '@/utils/printerMarks';
+
+const marks = resolvePrinterMarks({ enabled: true, bleedMm: 3, cropMarkLengthMm: 5, cropMarkOffsetMm: 3 });
+
+// A4 portrait, 2 × 2 tickets of 80 × 50mm with room for bleed and marks
+const layout = computeImpositionLayout({
+  ...impositionPreset(4),
+  rows: 2,
+  columns: 2,
+  gutterXMm: 10,
+  gutterYMm: 10,
+  marginTopMm: 20,
+  marginRightMm: 20,
+  marginBottomMm: 20,
+  marginLeftMm: 20,
+});
+const boxes = trimBoxes(layout, { widthMm: 80, heightMm: 50 }, 'center');
+
+describe('cropMarkLines', () => {
+  it('draws two marks per trim corner, offset from the corner', () => {
+    const single = trimBoxes(computeImpositionLayout({ ...impositionPreset(4), rows: 2, gutterYMm: 20 }), { widthMm: 100, heightMm: 40 }, 'center');
+    const lines = cropMarkLines(single.slice(0, 1), marks);
+    expect(lines).toHaveLength(8);
+    const b = single[0];
+    expect(lines).toContainEqual({ x1: b.xMm - 3, y1: b.yMm, x2: b.xMm - 8, y2: b.yMm });
+    expect(lines).toContainEqual({ x1: b.xMm, y1: b.yMm - 3, x2: b.xMm, y2: b.yMm - 8 });
+  });
+
+  it('drops marks that would land on a neighbouring ticket', () => {
+    const butted = computeImpositionLayout(impositionPreset(4));
+    const lines = cropMarkLines(trimBoxes(butted, null, null), { ...marks, bleedMm: 0 });
+    // Tickets cover the sheet, so only marks outside it survive
+    expect(lines.length).toBeGreaterThan(0);
+    for (const l of lines) {
+      const mx = (l.x1 + l.x2) / 2;
+      const my = (l.y1 + l.y2) / 2;
+      expect(mx < 0 || mx > butted.sheetWidthMm || my < 0 || my > butted.sheetHeightMm).toBe(true);
+    }
+  });
+});
+
+describe('registrationTargets', () => {
+  it('centres one target on each sheet edge, inside the margin', () => {
+    const targets = registrationTargets(layout, boxes);
+    expect(targets.map((t) => [t.xMm, t.yMm])).toEqual([
+      [105, expect.any(Number)],
+      [105, expect.any(Number)],
+      [expect.any(Number), 148.5],
+      [expect.any(Number), 148.5],
+    ]);
+    expect(targets[0].yMm).toBeLessThan(boxes[0].yMm);
+  });
+});
+
+describe('printerMarksError', () => {
+  it('accepts bleed that fits between tickets', () => {
+    expect(printerMarksError(layout, boxes, marks)).toBeNull();
+  });
+
+  it('rejects bleed on butted tickets', () => {
+    const butted = computeImpositionLayout(impositionPreset(4));
+    expect(printerMarksError(butted, trimBoxes(butted, null, null), marks)).toMatch(/overlaps/);
+  });
+
+  it('ignores disabled marks', () => {
+    const butted = computeImpositionLayout(impositionPreset(4));
+    expect(printerMarksError(butted, trimBoxes(butted, null, null), { ...marks, enabled: false })).toBeNull();
+  });
+});
+
+describe('slugLineText', () => {
+  it('joins job ID, series range and date', () => {
+    expect(slugLineText({ jobId: 'j1', seriesStart: 'A001', seriesEnd: 'A020', date: new Date('2026-01-02T10:00:00Z') })).toBe(
+      'Job j1  ·  A001 → A020  ·  2026-01-02'
+    );
+  });
+});
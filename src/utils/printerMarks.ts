@@ -0,0 +1,152 @@
+// Printer's marks drawn around every ticket on an imposed sheet: bleed, crop
+// (trim) marks, centre registration targets and a slug line.
+//
+// Geometry is in sheet mm (origin top-left), computed from the imposition
+// layout and the object's trim box in each cell, so the editor preview, the
+// output preview and the render service all draw the same marks.
+import { objectRectInCell, type ImpositionLayout, type ObjectAlignment } from '@/utils/imposition';
+
+export type PrinterMarksSettings = {
+  enabled: boolean;
+  bleedMm: number;
+  cropMarkLengthMm: number;
+  // Gap between the trim corner and the start of each crop mark
+  cropMarkOffsetMm: number;
+  registrationMarks: boolean;
+  slugLine: boolean;
+};
+
+export type MarkLine = { x1: number; y1: number; x2: number; y2: number };
+
+export type RegistrationTarget = { xMm: number; yMm: number; radiusMm: number };
+
+export type TrimBox = { xMm: number; yMm: number; widthMm: number; heightMm: number };
+
+export const DEFAULT_PRINTER_MARKS: PrinterMarksSettings = {
+  enabled: false,
+  bleedMm: 3,
+  cropMarkLengthMm: 5,
+  cropMarkOffsetMm: 3,
+  registrationMarks: true,
+  slugLine: true,
+};
+
+export const REGISTRATION_TARGET_RADIUS_MM = 2.5;
+
+const nonNegative = (raw: unknown, fallback: number): number => {
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+};
+
+export const resolvePrinterMarks = (raw?: Partial<PrinterMarksSettings> | null): PrinterMarksSettings => {
+  const d = DEFAULT_PRINTER_MARKS;
+  return {
+    enabled: typeof raw?.enabled === 'boolean' ? raw.enabled : d.enabled,
+    bleedMm: nonNegative(raw?.bleedMm, d.bleedMm),
+    cropMarkLengthMm: nonNegative(raw?.cropMarkLengthMm, d.cropMarkLengthMm),
+    cropMarkOffsetMm: nonNegative(raw?.cropMarkOffsetMm, d.cropMarkOffsetMm),
+    registrationMarks: typeof raw?.registrationMarks === 'boolean' ? raw.registrationMarks : d.registrationMarks,
+    slugLine: typeof raw?.slugLine === 'boolean' ? raw.slugLine : d.slugLine,
+  };
+};
+
+export const trimBoxes = (
+  layout: ImpositionLayout,
+  objectMm?: { widthMm: number; heightMm: number } | null,
+  alignment?: ObjectAlignment | null
+): TrimBox[] => layout.cells.map((cell) => objectRectInCell(layout, cell, objectMm, alignment));
+
+// Inclusive, so a mark running along a neighbour's trim edge counts as inside
+const insideAnyBox = (x: number, y: number, boxes: TrimBox[], growMm: number): boolean => {
+  const e = 1e-6;
+  return boxes.some(
+    (b) =>
+      x >= b.xMm - growMm - e &&
+      x <= b.xMm + b.widthMm + growMm + e &&
+      y >= b.yMm - growMm - e &&
+      y <= b.yMm + b.heightMm + growMm + e
+  );
+};
+
+// Two marks per trim corner, pointing away from the ticket. Marks that would
+// print over a neighbouring ticket or its bleed are dropped.
+export const cropMarkLines = (boxes: TrimBox[], settings: PrinterMarksSettings): MarkLine[] => {
+  const { cropMarkLengthMm: len, cropMarkOffsetMm: off, bleedMm } = settings;
+  if (!(len > 0)) return [];
+
+  const lines: MarkLine[] = [];
+  for (const b of boxes) {
+    const left = b.xMm;
+    const right = b.xMm + b.widthMm;
+    const top = b.yMm;
+    const bottom = b.yMm + b.heightMm;
+    for (const [cx, cy, sx, sy] of [
+      [left, top, -1, -1],
+      [right, top, 1, -1],
+      [left, bottom, -1, 1],
+      [right, bottom, 1, 1],
+    ] as const) {
+      lines.push({ x1: cx + sx * off, y1: cy, x2: cx + sx * (off + len), y2: cy });
+      lines.push({ x1: cx, y1: cy + sy * off, x2: cx, y2: cy + sy * (off + len) });
+    }
+  }
+
+  const seen = new Set<string>();
+  return lines.filter((l) => {
+    const key = [l.x1, l.y1, l.x2, l.y2].map((v) => v.toFixed(3)).join(',');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    const mx = (l.x1 + l.x2) / 2;
+    const my = (l.y1 + l.y2) / 2;
+    return !insideAnyBox(mx, my, boxes, bleedMm) && !insideAnyBox(l.x2, l.y2, boxes, 0);
+  });
+};
+
+// Targets centred on each sheet edge, in the middle of the margin when there
+// is room for one and against the edge otherwise.
+export const registrationTargets = (layout: ImpositionLayout, boxes: TrimBox[]): RegistrationTarget[] => {
+  const r = REGISTRATION_TARGET_RADIUS_MM;
+  const w = layout.sheetWidthMm;
+  const h = layout.sheetHeightMm;
+  const minX = Math.min(...boxes.map((b) => b.xMm));
+  const minY = Math.min(...boxes.map((b) => b.yMm));
+  const maxX = Math.max(...boxes.map((b) => b.xMm + b.widthMm));
+  const maxY = Math.max(...boxes.map((b) => b.yMm + b.heightMm));
+  // Distance of the target centre from the sheet edge, given the free space there
+  const inset = (space: number) => (space >= 2 * r ? space / 2 : r);
+  return [
+    { xMm: w / 2, yMm: inset(minY), radiusMm: r },
+    { xMm: w / 2, yMm: h - inset(h - maxY), radiusMm: r },
+    { xMm: inset(minX), yMm: h / 2, radiusMm: r },
+    { xMm: w - inset(w - maxX), yMm: h / 2, radiusMm: r },
+  ];
+};
+
+export const slugLineText = (params: { jobId?: string | null; seriesStart?: string; seriesEnd?: string; date?: Date }): string => {
+  const date = (params.date ?? new Date()).toISOString().slice(0, 10);
+  const range = params.seriesStart ? `${params.seriesStart} → ${params.seriesEnd ?? params.seriesStart}` : '';
+  return [params.jobId ? `Job ${params.jobId}` : '', range, date].filter(Boolean).join('  ·  ');
+};
+
+// Bleed of neighbouring tickets must not overlap, otherwise one ticket's bleed
+// would print inside the next one after cutting.
+export const printerMarksError = (layout: ImpositionLayout, boxes: TrimBox[], settings: PrinterMarksSettings): string | null => {
+  if (!settings.enabled) return null;
+  const bleed = settings.bleedMm;
+  for (let i = 0; i < boxes.length; i += 1) {
+    for (let j = i + 1; j < boxes.length; j += 1) {
+      const a = boxes[i];
+      const b = boxes[j];
+      const gapX = Math.max(b.xMm - (a.xMm + a.widthMm), a.xMm - (b.xMm + b.widthMm));
+      const gapY = Math.max(b.yMm - (a.yMm + a.heightMm), a.yMm - (b.yMm + b.heightMm));
+      if (Math.max(gapX, gapY) < 2 * bleed - 1e-6) {
+        return `${bleed}mm bleed overlaps between neighbouring tickets; increase the gutters to at least ${2 * bleed}mm or reduce bleed`;
+      }
+    }
+  }
+  const outside = boxes.some(
+    (b) => b.xMm - bleed < -1e-6 || b.yMm - bleed < -1e-6 || b.xMm + b.widthMm + bleed > layout.sheetWidthMm + 1e-6 || b.yMm + b.heightMm + bleed > layout.sheetHeightMm + 1e-6
+  );
+  if (outside) return `${bleed}mm bleed runs off the sheet; increase the sheet margins`;
+  return null;
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { buildFinalRenderPayload } from '@/utils/buildFinalRenderPayload';
+import { impositionPreset } from '@/utils/imposition';
+import { diffPixels, proofPlan, proofValue, renderProofPdf } from '@/utils/proofRenderer';
+
+const payloadFor = (overrides: Partial<Parameters<typeof buildFinalRenderPayload>[0]> = {}) =>
+  buildFinalRenderPayload({
+    jobId: 'job-1',
+    documentId: 'doc-1',
+    objectWidthMm: 180,
+    objectHeightMm: 60,
+    objectXMm: 0,
+    objectYMm: 0,
+    objectAlignment: 'center',
+    objectRotationDeg: 0,
+    objectKeepProportions: true,
+    objectCutMarginMm: 0,
+    imposition: { ...impositionPreset(4), numberingOrder: 'cut-and-stack' },
+    seriesList: [
+      {
+        start: 'A001',
+        count: 10,
+        fontFamily: 'Helvetica',
+        fontSizeMm: 5,
+        xMm: 10,
+        yMm: 20,
+        letterSpacingMm: 0,
+        rotationDeg: 0,
+        color: '#000000',
+        checkDigit: { scheme: 'luhn' },
+      },
+    ],
+    ...overrides,
+  });
+
+describe('proofPlan', () => {
+  it('places tickets by the numbering order and leaves spare cells empty', () => {
+    const plan = proofPlan(payloadFor(), 2);
+    expect(plan.ticketCount).toBe(10);
+    expect(plan.totalPages).toBe(3);
+    expect(plan.pages).toHaveLength(2);
+    expect(plan.pages[0].cells.map((c) => c.ticketIndex)).toEqual([0, 3, 6, 9]);
+    expect(plan.pages[0].boxes).toHaveLength(4);
+  });
+
+  it('interleaves back pages holding the same tickets', () => {
+    const plan = proofPlan(payloadFor({ duplex: { enabled: true, flip: 'long-edge', offsetXMm: 1, offsetYMm: 0 }, backSvgS3Key: 'back.svg' }));
+    expect(plan.pages.map((p) => p.side)).toEqual(['front', 'back', 'front', 'back']);
+    expect(plan.pages[1].cells.map((c) => c.ticketIndex)).toEqual(plan.pages[0].cells.map((c) => c.ticketIndex));
+    expect(plan.pages[1].cells[0].box.xMm).toBeCloseTo(plan.pages[0].cells[0].box.xMm + 1);
+  });
+});
+
+describe('proofValue', () => {
+  it('prints counters with their check digit and data columns as they are', () => {
+    const [entry] = payloadFor().series_list ?? [];
+    expect(proofValue(entry, 2)).toBe('A0034');
+    expect(proofValue({ ...entry, data_column: 'code' }, 1, [{ code: 'x' }, { code: 'y' }])).toBe('y');
+  });
+});
+
+describe('renderProofPdf', () => {
+  it('renders the first pages at sheet size', async () => {
+    const proof = await renderProofPdf(payloadFor(), { front: null }, { maxPages: 1, rasterize: async () => null });
+    expect(proof).toMatchObject({ pageCount: 1, totalPages: 3 });
+    const pdf = await PDFDocument.load(proof.bytes);
+    const { width, height } = pdf.getPage(0).getSize();
+    expect(Math.round((width * 25.4) / 72)).toBe(210);
+    expect(Math.round((height * 25.4) / 72)).toBe(297);
+  });
+});
+
+describe('diffPixels', () => {
+  it('ignores small differences and marks the rest', () => {
+    const a = new Uint8ClampedArray([0, 0, 0, 255, 0, 0, 0, 255]);
+    const b = new Uint8ClampedArray([20, 20, 20, 255, 255, 255, 255, 255]);
+    const diff = diffPixels(a, b, 2, 1);
+    expect(diff).toMatchObject({ mismatched: 1, total: 2 });
+    expect(Array.from(diff.mask.slice(4, 8))).toEqual([239, 68, 68, 255]);
+  });
+});
@@ -0,0 +1,377 @@
+// Local proof of a render job: the first pages of what /api/vector/generate
+// prints, built in the browser with pdf-lib from the same FinalRenderPayload.
+//
+// The proof follows the payload the way the editor previews it: text slots
+// hang from their baseline anchor, barcodes from their top-left anchor, both
+// rotated clockwise about the anchor; image overlays rotate about their
+// top-left corner and SVG overlays about their centre. Artwork and SVG
+// overlays are rasterised, and text uses the matching standard PDF font, so
+// the proof is for placement and numbering, not for colour or type fidelity.
+import { PDFDocument, StandardFonts, degrees, rgb, type PDFFont, type PDFImage, type PDFPage } from 'pdf-lib';
+import type { FinalRenderPayload } from '@/utils/buildFinalRenderPayload';
+import { renderBarcodeSvg } from '@/utils/barcodeSvg';
+import { withCheckDigit } from '@/utils/checkDigits';
+import { backTrimBox, duplexPageOrder, resolveDuplex, type DuplexSide } from '@/utils/duplex';
+import type { ImpositionLayout } from '@/utils/imposition';
+import { sheetTicketIndices } from '@/utils/numberingOrder';
+import { cropMarkLines, registrationTargets, resolvePrinterMarks, trimBoxes, type TrimBox } from '@/utils/printerMarks';
+import { seriesValueAt } from '@/utils/seriesEngine';
+
+const MM_TO_PT = 72 / 25.4;
+
+export const DEFAULT_PROOF_PAGES = 4;
+
+// Raster resolution for artwork and SVG overlays
+export const PROOF_DPI = 200;
+
+export type ProofSvgOverlay = { markup: string; widthMm: number; heightMm: number };
+
+export type ProofArtwork = {
+  front: string | null;
+  back?: string | null;
+  // SVG overlay markup by svg_s3_key; the payload only carries the key
+  svgOverlays?: Record<string, ProofSvgOverlay>;
+};
+
+// PNG of `markup` at widthMm × heightMm, showing `viewBox` (in the SVG's own
+// units) when given. Resolves null when the markup cannot be drawn.
+export type SvgRasterizer = (markup: string, size: { widthMm: number; heightMm: number; viewBox?: TrimBox }) => Promise<Uint8Array | null>;
+
+export type ProofCell = { ticketIndex: number; box: TrimBox };
+
+export type ProofPage = {
+  sheetIndex: number;
+  side: DuplexSide;
+  cells: ProofCell[];
+  // Every trim box on this side of the sheet, for printer's marks
+  boxes: TrimBox[];
+};
+
+export type ProofPlan = {
+  layout: ImpositionLayout;
+  ticketCount: number;
+  pages: ProofPage[];
+  totalPages: number;
+};
+
+export type ProofResult = {
+  bytes: Uint8Array;
+  pageCount: number;
+  totalPages: number;
+  warnings: string[];
+};
+
+type TextEntry = NonNullable<FinalRenderPayload['series_list']>[number];
+type BarcodeEntry = NonNullable<FinalRenderPayload['barcodes']>[number];
+
+const textEntries = (payload: FinalRenderPayload): TextEntry[] =>
+  payload.series_list?.length
+    ? payload.series_list
+    : payload.series
+      ? [payload.series]
+      : [];
+
+export const proofTicketCount = (payload: FinalRenderPayload): number =>
+  Math.max(0, ...[...textEntries(payload), ...(payload.barcodes ?? [])].map((e) => Math.trunc(Number(e.count)) || 0));
+
+// The press sheet, or a single object-sized cell when the job is not imposed
+const proofLayout = (payload: FinalRenderPayload): ImpositionLayout => {
+  const imp = payload.imposition;
+  if (!imp) {
+    const { w, h } = payload.object_mm;
+    return { sheetWidthMm: w, sheetHeightMm: h, cellWidthMm: w, cellHeightMm: h, perSheet: 1, cells: [{ index: 0, row: 0, column: 0, xMm: 0, yMm: 0 }] };
+  }
+  const cells = Array.from({ length: imp.rows * imp.columns }, (_, index) => {
+    const row = Math.floor(index / imp.columns);
+    const column = index % imp.columns;
+    return {
+      index,
+      row,
+      column,
+      xMm: imp.margin_mm.left + column * (imp.cell_w_mm + imp.gutter_x_mm),
+      yMm: imp.margin_mm.top + row * (imp.cell_h_mm + imp.gutter_y_mm),
+    };
+  });
+  return { sheetWidthMm: imp.sheet_w_mm, sheetHeightMm: imp.sheet_h_mm, cellWidthMm: imp.cell_w_mm, cellHeightMm: imp.cell_h_mm, perSheet: cells.length, cells };
+};
+
+// Which ticket goes where on the first `maxPages` output pages. Back cells
+// hold the ticket whose front is on the other side of the paper.
+export const proofPlan = (payload: FinalRenderPayload, maxPages = DEFAULT_PROOF_PAGES): ProofPlan => {
+  const layout = proofLayout(payload);
+  const ticketCount = proofTicketCount(payload);
+  const rows = payload.imposition?.rows ?? 1;
+  const columns = payload.imposition?.columns ?? 1;
+  const sheetCount = Math.max(1, Math.ceil(ticketCount / layout.perSheet));
+  const indices = sheetTicketIndices(payload.imposition?.numbering_order ?? 'row-major', { rows, columns, sheetCount });
+
+  const fronts = trimBoxes(layout, { widthMm: payload.object_mm.w, heightMm: payload.object_mm.h }, payload.object_mm.alignment);
+  const duplex = payload.duplex
+    ? resolveDuplex({ enabled: true, flip: payload.duplex.flip, offsetXMm: payload.duplex.offset_mm.x, offsetYMm: payload.duplex.offset_mm.y })
+    : null;
+  const backs = duplex ? fronts.map((box) => backTrimBox(layout, duplex, box)) : [];
+
+  const order = duplexPageOrder(sheetCount, Boolean(duplex));
+  const pages = order.slice(0, Math.max(0, maxPages)).map(({ sheetIndex, side }) => {
+    const boxes = side === 'back' ? backs : fronts;
+    const cells = boxes
+      .map((box, cellIndex) => ({ ticketIndex: indices[sheetIndex][cellIndex], box }))
+      .filter((cell) => cell.ticketIndex < ticketCount);
+    return { sheetIndex, side, cells, boxes };
+  });
+  return { layout, ticketCount, pages, totalPages: order.length };
+};
+
+// Printed value of an entry on one ticket, as the output preview shows it
+export const proofValue = (entry: TextEntry | BarcodeEntry, ticketIndex: number, records?: Record<string, string>[]): string => {
+  if (entry.data_column) return records?.[ticketIndex]?.[entry.data_column] ?? '';
+  const value = seriesValueAt(entry.start, ticketIndex, { step: entry.step, alphabet: entry.alphabet, rollover: entry.rollover });
+  return withCheckDigit(value, entry.check_digit);
+};
+
+// Standard PDF font closest to a font family; the editor measures slots with the same one
+export const standardFontFor = (family: string): StandardFonts => {
+  const name = String(family || '').toLowerCase();
+  return name.includes('times') ? StandardFonts.TimesRoman : name.includes('courier') ? StandardFonts.Courier : StandardFonts.Helvetica;
+};
+
+const hexColor = (hex: string | undefined, fallback = '#000000') => {
+  const m = /^#?([0-9a-f]{6})$/i.exec(String(hex || '').trim()) ?? /^#?([0-9a-f]{6})$/i.exec(fallback);
+  const n = parseInt(m ? m[1] : '000000', 16);
+  return rgb(((n >> 16) & 0xff) / 255, ((n >> 8) & 0xff) / 255, (n & 0xff) / 255);
+};
+
+// Offset (dx, dy) in y-down mm, turned clockwise by `deg` and flipped into PDF points
+const turn = (dxMm: number, dyMm: number, deg: number) => {
+  const a = (deg * Math.PI) / 180;
+  return { x: (dxMm * Math.cos(a) - dyMm * Math.sin(a)) * MM_TO_PT, y: -(dxMm * Math.sin(a) + dyMm * Math.cos(a)) * MM_TO_PT };
+};
+
+const svgAttributes = (tag: string): Record<string, string> =>
+  Object.fromEntries(Array.from(tag.matchAll(/([\w-]+)="([^"]*)"/g), (m) => [m[1], m[2]]));
+
+// Browser rasteriser: an <img> of the (re-framed) SVG drawn onto a canvas
+export const rasterizeSvg: SvgRasterizer = async (markup, { widthMm, heightMm, viewBox }) => {
+  const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  const svg = doc.documentElement;
+  if (svg.nodeName.toLowerCase() !== 'svg') return null;
+  const wPx = Math.max(1, Math.round((widthMm / 25.4) * PROOF_DPI));
+  const hPx = Math.max(1, Math.round((heightMm / 25.4) * PROOF_DPI));
+  if (viewBox) {
+    svg.setAttribute('viewBox', `${viewBox.xMm} ${viewBox.yMm} ${viewBox.widthMm} ${viewBox.heightMm}`);
+    svg.setAttribute('preserveAspectRatio', 'none');
+  }
+  svg.setAttribute('width', String(wPx));
+  svg.setAttribute('height', String(hPx));
+
+  const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(svg)], { type: 'image/svg+xml' }));
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = wPx;
+    canvas.height = hPx;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(img, 0, 0, wPx, hPx);
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+    return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const renderProofPdf = async (
+  payload: FinalRenderPayload,
+  artwork: ProofArtwork,
+  opts: { maxPages?: number; rasterize?: SvgRasterizer } = {}
+): Promise<ProofResult> => {
+  const plan = proofPlan(payload, opts.maxPages ?? DEFAULT_PROOF_PAGES);
+  const rasterize = opts.rasterize ?? rasterizeSvg;
+  const warnings = new Set<string>();
+  const pdf = await PDFDocument.create();
+
+  const fonts = new Map<StandardFonts, PDFFont>();
+  const fontFor = async (family: string) => {
+    const key = standardFontFor(family);
+    if (!fonts.has(key)) fonts.set(key, await pdf.embedFont(key));
+    if (payload.custom_fonts?.some((f) => f.family === family)) warnings.add(`"${family}" is drawn with ${key} in the proof`);
+    return fonts.get(key) as PDFFont;
+  };
+
+  const images = new Map<string, PDFImage | null>();
+  const svgImage = async (key: string, markup: string, size: Parameters<SvgRasterizer>[1]) => {
+    if (!images.has(key)) {
+      const png = await rasterize(markup, size).catch(() => null);
+      images.set(key, png ? await pdf.embedPng(png) : null);
+    }
+    return images.get(key) ?? null;
+  };
+  const dataUrlImage = async (dataUrl: string, mime: string) => {
+    if (!images.has(dataUrl)) {
+      const type = mime.toLowerCase();
+      images.set(dataUrl, type === 'image/png' ? await pdf.embedPng(dataUrl) : type === 'image/jpeg' || type === 'image/jpg' ? await pdf.embedJpg(dataUrl) : null);
+      if (!images.get(dataUrl)) warnings.add(`${mime} overlays are not drawn in the proof`);
+    }
+    return images.get(dataUrl) ?? null;
+  };
+
+  const obj = payload.object_mm;
+  const objectBox: TrimBox = { xMm: obj.x_mm ?? 0, yMm: obj.y_mm ?? 0, widthMm: obj.w, heightMm: obj.h };
+  if (obj.rotation_deg) warnings.add('Object rotation is not applied in the proof');
+
+  const drawText = (page: PDFPage, font: PDFFont, entry: TextEntry, value: string, at: { x: number; y: number }) => {
+    let advanceMm = 0;
+    Array.from(value).forEach((ch, i) => {
+      const sizeMm = entry.per_letter_font_size_mm?.[i] ?? entry.font_size_mm;
+      const sizePt = sizeMm * MM_TO_PT;
+      try {
+        font.encodeText(ch);
+      } catch {
+        warnings.add(`The proof font cannot draw "${ch}"`);
+        return;
+      }
+      const o = turn(advanceMm, 0, entry.rotation_deg);
+      page.drawText(ch, { x: at.x + o.x, y: at.y + o.y, size: sizePt, font, color: hexColor(entry.color), rotate: degrees(-entry.rotation_deg) });
+      advanceMm += font.widthOfTextAtSize(ch, sizePt) / MM_TO_PT + entry.letter_spacing_mm;
+    });
+  };
+
+  const drawBarcode = (page: PDFPage, entry: BarcodeEntry, value: string, at: { x: number; y: number }) => {
+    let svg: string;
+    try {
+      svg = renderBarcodeSvg(
+        value,
+        { symbology: entry.symbology, moduleSizeMm: entry.module_mm, heightMm: entry.height_mm, quietZoneModules: entry.quiet_zone_modules, showText: entry.show_text },
+        entry.color
+      ).svg;
+    } catch (e) {
+      warnings.add(`Barcode "${value}": ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+    // One viewBox unit is one module (see barcodeSvg.ts)
+    for (const [tag] of svg.matchAll(/<path\b[^>]*>/g)) {
+      const a = svgAttributes(tag);
+      if (!a.d) continue;
+      page.drawSvgPath(a.d, {
+        x: at.x,
+        y: at.y,
+        scale: entry.module_mm * MM_TO_PT,
+        rotate: degrees(-entry.rotation_deg),
+        ...(a.stroke ? { borderColor: hexColor(a.stroke, entry.color), borderWidth: Number(a['stroke-width']) || 1 } : { color: hexColor(a.fill, entry.color) }),
+      });
+    }
+  };
+
+  const entries = [
+    ...(payload.overlays ?? []).map((overlay) => ({ z: overlay.z_index ?? 0, side: 'front' as DuplexSide, overlay })),
+    ...textEntries(payload).map((text) => ({ z: text.z_index ?? 0, side: (text.side ?? 'front') as DuplexSide, text })),
+    ...(payload.barcodes ?? []).map((barcode) => ({ z: barcode.z_index ?? 0, side: (barcode.side ?? 'front') as DuplexSide, barcode })),
+  ].sort((a, b) => a.z - b.z);
+
+  const marks = payload.marks
+    ? resolvePrinterMarks({
+        enabled: true,
+        bleedMm: payload.marks.bleed_mm,
+        cropMarkLengthMm: payload.marks.crop_marks?.length_mm ?? 0,
+        cropMarkOffsetMm: payload.marks.crop_marks?.offset_mm ?? 0,
+        registrationMarks: payload.marks.registration,
+        slugLine: Boolean(payload.marks.slug_line),
+      })
+    : null;
+
+  for (const proofPage of plan.pages) {
+    const pageHeightMm = plan.layout.sheetHeightMm;
+    const page = pdf.addPage([plan.layout.sheetWidthMm * MM_TO_PT, pageHeightMm * MM_TO_PT]);
+    // PDF point of an object-mm position inside a cell
+    const pointIn = (box: TrimBox, xMm: number, yMm: number) => ({ x: (box.xMm + xMm) * MM_TO_PT, y: (pageHeightMm - box.yMm - yMm) * MM_TO_PT });
+
+    const markup = proofPage.side === 'back' ? artwork.back : artwork.front;
+    const art = markup ? await svgImage(`artwork:${proofPage.side}`, markup, { widthMm: obj.w, heightMm: obj.h, viewBox: objectBox }) : null;
+    if (markup && !art) warnings.add(`The ${proofPage.side} artwork could not be rasterised`);
+
+    for (const cell of proofPage.cells) {
+      const { box } = cell;
+      if (art) page.drawImage(art, { ...pointIn(box, 0, obj.h), width: obj.w * MM_TO_PT, height: obj.h * MM_TO_PT });
+
+      for (const entry of entries) {
+        if (entry.side !== proofPage.side) continue;
+        if ('text' in entry) {
+          const { text } = entry;
+          drawText(page, await fontFor(text.font_family), text, proofValue(text, cell.ticketIndex, payload.records), pointIn(box, text.x_mm, text.y_mm));
+        } else if ('barcode' in entry) {
+          const { barcode } = entry;
+          drawBarcode(page, barcode, proofValue(barcode, cell.ticketIndex, payload.records), pointIn(box, barcode.x_mm, barcode.y_mm));
+        } else if ('type' in entry.overlay) {
+          const o = entry.overlay;
+          const source = artwork.svgOverlays?.[o.svg_s3_key];
+          if (!source) {
+            warnings.add('SVG overlays without their markup are not drawn in the proof');
+            continue;
+          }
+          const img = await svgImage(`overlay:${o.svg_s3_key}`, source.markup, { widthMm: source.widthMm, heightMm: source.heightMm });
+          if (!img) continue;
+          const w = source.widthMm * o.scale;
+          const h = source.heightMm * o.scale;
+          const centre = pointIn(box, o.x_mm + source.widthMm / 2, o.y_mm + source.heightMm / 2);
+          const corner = turn(-w / 2, h / 2, o.rotation_deg);
+          page.drawImage(img, { x: centre.x + corner.x, y: centre.y + corner.y, width: w * MM_TO_PT, height: h * MM_TO_PT, rotate: degrees(-o.rotation_deg) });
+        } else {
+          const o = entry.overlay;
+          const img = await dataUrlImage(o.data_url, o.mime);
+          if (!img) continue;
+          const topLeft = pointIn(box, o.x_mm, o.y_mm);
+          const corner = turn(0, o.h_mm, o.rotation_deg);
+          page.drawImage(img, { x: topLeft.x + corner.x, y: topLeft.y + corner.y, width: o.w_mm * MM_TO_PT, height: o.h_mm * MM_TO_PT, rotate: degrees(-o.rotation_deg) });
+        }
+      }
+    }
+
+    if (marks) {
+      const black = rgb(0, 0, 0);
+      const thickness = 0.25 * MM_TO_PT;
+      const at = (xMm: number, yMm: number) => ({ x: xMm * MM_TO_PT, y: (pageHeightMm - yMm) * MM_TO_PT });
+      cropMarkLines(proofPage.boxes, marks).forEach((l) => page.drawLine({ start: at(l.x1, l.y1), end: at(l.x2, l.y2), thickness, color: black }));
+      if (marks.registrationMarks) {
+        registrationTargets(plan.layout, proofPage.boxes).forEach((t) => {
+          page.drawCircle({ ...at(t.xMm, t.yMm), size: t.radiusMm * 0.6 * MM_TO_PT, borderColor: black, borderWidth: thickness });
+          page.drawLine({ start: at(t.xMm - t.radiusMm, t.yMm), end: at(t.xMm + t.radiusMm, t.yMm), thickness, color: black });
+          page.drawLine({ start: at(t.xMm, t.yMm - t.radiusMm), end: at(t.xMm, t.yMm + t.radiusMm), thickness, color: black });
+        });
+      }
+      if (payload.marks?.slug_line) {
+        page.drawText(payload.marks.slug_line, { ...at(2, pageHeightMm - 1.5), size: 2 * MM_TO_PT, font: await fontFor('Courier'), color: black });
+      }
+    }
+  }
+
+  return { bytes: await pdf.save(), pageCount: plan.pages.length, totalPages: plan.totalPages, warnings: Array.from(warnings) };
+};
+
+export type PixelDiff = {
+  // RGBA overlay: opaque red where the pages differ, transparent elsewhere
+  mask: Uint8ClampedArray;
+  mismatched: number;
+  total: number;
+};
+
+// Compares two RGBA buffers of the same size; a pixel differs when any
+// channel is off by more than `tolerance`, so anti-aliasing does not count
+export const diffPixels = (a: Uint8ClampedArray, b: Uint8ClampedArray, width: number, height: number, tolerance = 64): PixelDiff => {
+  const total = width * height;
+  const mask = new Uint8ClampedArray(total * 4);
+  let mismatched = 0;
+  for (let p = 0; p < total; p += 1) {
+    const i = p * 4;
+    const delta = Math.max(Math.abs(a[i] - b[i]), Math.abs(a[i + 1] - b[i + 1]), Math.abs(a[i + 2] - b[i + 2]), Math.abs(a[i + 3] - b[i + 3]));
+    if (delta > tolerance) {
+      mismatched += 1;
+      mask[i] = 239;
+      mask[i + 1] = 68;
+      mask[i + 2] = 68;
+      mask[i + 3] = 255;
+    }
+  }
+  return { mask, mismatched, total };
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import type { FinalRenderPayload } from '@/utils/buildFinalRenderPayload';
+import {
+  formatDuration,
+  pollDelayMs,
+  POLL_MAX_MS,
+  progressOf,
+  renderErrorLabel,
+  renderJobDurationMs,
+  resolveRenderJob,
+  resolveSecureRenderResponse,
+  summarizeRenderPayload,
+} from '@/utils/renderJobs';
+
+const slot = { count: 40, font_family: 'Helvetica', font_size_mm: 4, anchor_space: 'object_mm' as const, x_mm: 0, y_mm: 0, letter_spacing_mm: 0, rotation_deg: 0, color: '#000' };
+
+describe('summarizeRenderPayload', () => {
+  it('reads the range from the first counter slot and pages from the grid', () => {
+    const payload = {
+      job_id: 'j',
+      svg_s3_key: 'k',
+      render_mode: 'exact_mm_nup',
+      imposition: { rows: 2, columns: 3 },
+      duplex: { flip: 'long-edge' },
+      series_list: [
+        { ...slot, start: 'X', data_column: 'name' },
+        { ...slot, start: 'A001', step: 2 },
+      ],
+    } as unknown as FinalRenderPayload;
+    expect(summarizeRenderPayload(payload)).toEqual({ series_start: 'A001', series_end: 'A079', tickets: 40, pages: 14, render_mode: 'exact_mm_nup' });
+  });
+
+  it('has no range end when every slot prints data records', () => {
+    const payload = {
+      job_id: 'j',
+      svg_s3_key: 'k',
+      render_mode: 'exact_mm_nup',
+      imposition: { rows: 2, columns: 2 },
+      series_list: [
+        { ...slot, start: 'Name', data_column: 'name' },
+        { ...slot, start: 'Seat', data_column: 'seat' },
+      ],
+      barcodes: [{ ...slot, symbology: 'code128', start: 'Seat', data_column: 'seat' }],
+      series: { ...slot, start: 'Name' },
+    } as unknown as FinalRenderPayload;
+    expect(summarizeRenderPayload(payload)).toEqual({ series_start: 'Name', series_end: null, tickets: 40, pages: 10, render_mode: 'exact_mm_nup' });
+  });
+
+  it('falls back to the legacy grid of the render mode', () => {
+    const payload = { job_id: 'j', svg_s3_key: 'k', render_mode: 'exact_mm_3up', series: { ...slot, start: '001', count: 7 } } as unknown as FinalRenderPayload;
+    expect(summarizeRenderPayload(payload)).toMatchObject({ series_end: '007', pages: 3 });
+  });
+});
+
+describe('resolveRenderJob', () => {
+  it('normalises the service JSON', () => {
+    const job = resolveRenderJob({
+      job_id: 'j1',
+      status: 'batch_running',
+      created_at: '2026-01-01T10:00:00Z',
+      progress: 1.5,
+      pdf_s3_key: '',
+      summary: { series_start: 'A1', series_end: 'A9', tickets: '9', pages: 3, render_mode: 'exact_mm' },
+    });
+    expect(job).toMatchObject({ jobId: 'j1', status: 'BATCH_RUNNING', finishedAt: null, progress: 1, pdfS3Key: null });
+    expect(job?.summary?.tickets).toBe(9);
+    expect(resolveRenderJob({ status: 'READY' })).toBeNull();
+    expect(resolveRenderJob({ job_id: 'j2', status: 'weird' })?.status).toBe('CREATED');
+  });
+
+  it('times running jobs up to now and finished jobs to their end', () => {
+    const job = resolveRenderJob({ job_id: 'j', status: 'MERGE_RUNNING', created_at: 1000 })!;
+    expect(renderJobDurationMs(job, 6000)).toBe(5000);
+    expect(renderJobDurationMs({ ...job, status: 'READY', finishedAt: 3000 }, 6000)).toBe(2000);
+    expect(renderJobDurationMs({ ...job, status: 'FAILED' }, 6000)).toBeNull();
+    expect([formatDuration(5000), formatDuration(65_000), formatDuration(3_720_000), formatDuration(null)]).toEqual(['5s', '1m 05s', '1h 02m', '—']);
+  });
+
+  it('labels error codes', () => {
+    expect(renderErrorLabel('timeout')).toBe('Timed out');
+    expect(renderErrorLabel(null)).toBe('Unknown error');
+    expect(renderErrorLabel('DISK_FULL')).toBe('Error: DISK_FULL');
+  });
+});
+
+describe('secure render status', () => {
+  it('reads status updates with optional progress counts', () => {
+    expect(resolveSecureRenderResponse({ status: 'batch_running', retryAfterMs: '1500', batchesDone: 2, batchesTotal: 5, pagesTotal: null })).toEqual({
+      status: 'BATCH_RUNNING',
+      canRetry: false,
+      retryAfterMs: 1500,
+      errorCode: null,
+      batchesDone: 2,
+      batchesTotal: 5,
+    });
+    expect(resolveSecureRenderResponse({ status: 'CANCELLED' })).toBeNull();
+    expect(progressOf(2, 5)).toBe(0.4);
+    expect(progressOf(2, 0)).toBeNull();
+  });
+
+  it('backs off exponentially up to a cap but never before retryAfterMs', () => {
+    expect([0, 1, 2, 3].map((a) => pollDelayMs(a))).toEqual([1000, 2000, 4000, 8000]);
+    expect(pollDelayMs(20)).toBe(POLL_MAX_MS);
+    expect(pollDelayMs(0, 5000)).toBe(5000);
+    expect(pollDelayMs(20, 60_000)).toBe(60_000);
+  });
+});
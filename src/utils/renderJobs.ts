@@ -0,0 +1,232 @@
+// Render jobs as listed by the render service. Jobs share the secure render
+// lifecycle the viewer polls (CREATED → BATCH_RUNNING → MERGE_RUNNING →
+// READY | FAILED) and can also end CANCELLED when stopped from the jobs page.
+import type { FinalRenderPayload } from '@/utils/buildFinalRenderPayload';
+import { calculateEndingSeries, parseSeries } from '@/utils/seriesEngine';
+
+export type SecureRenderStatus = 'CREATED' | 'BATCH_RUNNING' | 'MERGE_RUNNING' | 'READY' | 'FAILED';
+
+export type RenderJobStatus = SecureRenderStatus | 'CANCELLED';
+
+const RENDER_JOB_STATUSES: RenderJobStatus[] = ['CREATED', 'BATCH_RUNNING', 'MERGE_RUNNING', 'READY', 'FAILED', 'CANCELLED'];
+
+export const RENDER_JOB_STATUS_LABELS: Record<RenderJobStatus, string> = {
+  CREATED: 'Queued',
+  BATCH_RUNNING: 'Rendering pages',
+  MERGE_RUNNING: 'Merging PDF',
+  READY: 'Ready',
+  FAILED: 'Failed',
+  CANCELLED: 'Cancelled',
+};
+
+export const isRenderActive = (status?: RenderJobStatus | null): boolean =>
+  status === 'CREATED' || status === 'BATCH_RUNNING' || status === 'MERGE_RUNNING';
+
+// Secure render status as reported to the viewer. Batch and page counts come
+// with BATCH_RUNNING updates; retryAfterMs is the service's hint for when to
+// ask again.
+export type SecureRenderResponse = {
+  status: SecureRenderStatus;
+  canRetry: boolean;
+  retryAfterMs: number;
+  errorCode: string | null;
+  batchesDone?: number;
+  batchesTotal?: number;
+  pagesDone?: number;
+  pagesTotal?: number;
+  lastUpdatedAt?: string | null;
+};
+
+const SECURE_RENDER_STATUSES: SecureRenderStatus[] = ['CREATED', 'BATCH_RUNNING', 'MERGE_RUNNING', 'READY', 'FAILED'];
+
+const countOf = (raw: unknown): number | null => {
+  const n = Number(raw);
+  return raw !== null && raw !== undefined && raw !== '' && Number.isFinite(n) && n >= 0 ? Math.trunc(n) : null;
+};
+
+// A status update from the service (POST body, poll response or SSE event); null if it has no known status
+export const resolveSecureRenderResponse = (raw: unknown): SecureRenderResponse | null => {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const status = String(r.status ?? '').toUpperCase() as SecureRenderStatus;
+  if (!SECURE_RENDER_STATUSES.includes(status)) return null;
+  const counts = (['batchesDone', 'batchesTotal', 'pagesDone', 'pagesTotal'] as const).flatMap((key) => {
+    const value = countOf(r[key]);
+    return value === null ? [] : [[key, value] as const];
+  });
+  return {
+    status,
+    canRetry: Boolean(r.canRetry),
+    retryAfterMs: countOf(r.retryAfterMs) ?? 0,
+    errorCode: String(r.errorCode ?? '').trim() || null,
+    ...Object.fromEntries(counts),
+    ...(r.lastUpdatedAt ? { lastUpdatedAt: String(r.lastUpdatedAt) } : {}),
+  };
+};
+
+// done / total as 0..1, or null when the service did not report a total
+export const progressOf = (done?: number, total?: number): number | null =>
+  total && total > 0 ? Math.min(1, Math.max(0, (done ?? 0) / total)) : null;
+
+export const POLL_BASE_MS = 1000;
+export const POLL_MAX_MS = 30_000;
+
+// Wait before status poll number `attempt` (0 after progress was seen): doubles
+// per unchanged poll up to POLL_MAX_MS, and never sooner than retryAfterMs
+export const pollDelayMs = (attempt: number, retryAfterMs = 0): number =>
+  Math.max(Math.max(0, retryAfterMs), Math.min(POLL_MAX_MS, POLL_BASE_MS * 2 ** Math.max(0, attempt)));
+
+const RENDER_ERROR_LABELS: Record<string, string> = {
+  HMAC_FAILED: 'Security check failed',
+  TIMEOUT: 'Timed out',
+  MERGE_FAIL: 'Failed to merge pages',
+  INKSCAPE_FAIL: 'Vector conversion failed',
+  SVG_TOO_COMPLEX: 'SVG too complex to process',
+  INVALID_INPUT: 'Invalid input',
+  INVALID_OUTPUT: 'Invalid output produced',
+  NORMALIZE_FAILED: 'Normalization failed',
+  JOB_FAILED: 'Job failed',
+  UNKNOWN: 'Unknown error',
+};
+
+export const renderErrorLabel = (errorCode?: string | null): string => {
+  const code = String(errorCode || 'UNKNOWN').trim().toUpperCase() || 'UNKNOWN';
+  return RENDER_ERROR_LABELS[code] || `Error: ${code}`;
+};
+
+// What a job prints, recorded in its payload so job lists need not load it
+export type RenderJobSummary = {
+  series_start: string;
+  // Null when no slot has a counter (every slot prints data records)
+  series_end: string | null;
+  tickets: number;
+  pages: number;
+  render_mode: string;
+};
+
+const LEGACY_CELLS: Record<string, number> = { exact_mm: 4, exact_mm_3up: 3 };
+
+// Tickets per sheet: the N-up grid, or the fixed layout of a legacy render mode
+export const payloadCellsPerSheet = (payload: FinalRenderPayload): number =>
+  payload.imposition ? payload.imposition.rows * payload.imposition.columns : LEGACY_CELLS[String(payload.render_mode ?? '')] ?? 1;
+
+export const summarizeRenderPayload = (payload: FinalRenderPayload): RenderJobSummary => {
+  // The first counter slot numbers the job; data-driven slots have no range
+  const counter = [...(payload.series_list ?? []), ...(payload.barcodes ?? [])].find((s) => !s.data_column);
+  const source = counter ?? payload.series_list?.[0] ?? payload.barcodes?.[0] ?? payload.series ?? null;
+  const tickets = Math.max(0, Math.trunc(Number(source?.count) || 0));
+  const start = String(source?.start ?? '');
+  const format = counter ? { step: counter.step, alphabet: counter.alphabet, rollover: counter.rollover } : { step: payload.series?.step };
+  const numbered = counter ?? (source === payload.series && parseSeries(start, format) ? source : null);
+  const sheets = Math.ceil(tickets / Math.max(1, payloadCellsPerSheet(payload)));
+  return {
+    series_start: start,
+    series_end: numbered ? calculateEndingSeries(start, tickets, format) : null,
+    tickets,
+    pages: payload.duplex ? sheets * 2 : sheets,
+    render_mode: String(payload.render_mode ?? ''),
+  };
+};
+
+// The numbers a job prints, for job lists
+export const summaryRangeLabel = (summary: RenderJobSummary | null): string => {
+  if (!summary) return '—';
+  return summary.series_end === null ? 'Data records' : `${summary.series_start} → ${summary.series_end}`;
+};
+
+// A ticket of the job withdrawn from use, normally because a reprint replaced it
+export type TicketVoid = {
+  ticketIndex: number;
+  seriesValue: string;
+  reprintJobId: string | null;
+  reason: string | null;
+  voidedAt: number | null;
+  voidedBy: string | null;
+};
+
+export type RenderJob = {
+  jobId: string;
+  status: RenderJobStatus;
+  createdAt: number;
+  // Set once the job is READY, FAILED or CANCELLED
+  finishedAt: number | null;
+  // Share of pages rendered (0..1) while running, when the service reports it
+  progress: number | null;
+  pdfS3Key: string | null;
+  errorCode: string | null;
+  summary: RenderJobSummary | null;
+  // Set when the job reprints tickets of another job
+  reprintOf: string | null;
+  voids: TicketVoid[];
+};
+
+const timeOf = (raw: unknown): number | null => {
+  if (raw === null || raw === undefined || raw === '') return null;
+  const t = typeof raw === 'number' ? raw : Date.parse(String(raw));
+  return Number.isFinite(t) ? t : null;
+};
+
+const summaryOf = (value: unknown): RenderJobSummary | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  return {
+    series_start: String(raw.series_start ?? ''),
+    series_end: raw.series_end === null || raw.series_end === undefined ? null : String(raw.series_end),
+    tickets: Math.max(0, Math.trunc(Number(raw.tickets) || 0)),
+    pages: Math.max(0, Math.trunc(Number(raw.pages) || 0)),
+    render_mode: String(raw.render_mode ?? ''),
+  };
+};
+
+const voidsOf = (value: unknown): TicketVoid[] =>
+  (Array.isArray(value) ? value : []).flatMap((item) => {
+    const raw = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const seriesValue = String(raw.series_value ?? '').trim();
+    if (!seriesValue) return [];
+    return [
+      {
+        ticketIndex: Math.max(0, Math.trunc(Number(raw.ticket_index) || 0)),
+        seriesValue,
+        reprintJobId: String(raw.reprint_job_id ?? '').trim() || null,
+        reason: String(raw.reason ?? '').trim() || null,
+        voidedAt: timeOf(raw.voided_at),
+        voidedBy: String(raw.voided_by ?? '').trim() || null,
+      },
+    ];
+  });
+
+// A job from the render service's snake_case JSON; null when it has no id
+export const resolveRenderJob = (raw: unknown): RenderJob | null => {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const jobId = String(r.job_id ?? r.jobId ?? '').trim();
+  if (!jobId) return null;
+  const status = String(r.status ?? '').toUpperCase() as RenderJobStatus;
+  const progress = Number(r.progress);
+  return {
+    jobId,
+    status: RENDER_JOB_STATUSES.includes(status) ? status : 'CREATED',
+    createdAt: timeOf(r.created_at) ?? 0,
+    finishedAt: timeOf(r.finished_at),
+    progress: r.progress !== null && r.progress !== undefined && Number.isFinite(progress) ? Math.min(1, Math.max(0, progress)) : null,
+    pdfS3Key: String(r.pdf_s3_key ?? '').trim() || null,
+    errorCode: String(r.error_code ?? '').trim() || null,
+    summary: summaryOf(r.summary ?? r.job_summary),
+    reprintOf: String(r.reprint_of ?? '').trim() || null,
+    voids: voidsOf(r.voids),
+  };
+};
+
+// Running jobs count up to `now`
+export const renderJobDurationMs = (job: RenderJob, now: number): number | null => {
+  if (!job.createdAt) return null;
+  const end = job.finishedAt ?? (isRenderActive(job.status) ? now : null);
+  return end === null ? null : Math.max(0, end - job.createdAt);
+};
+
+export const formatDuration = (ms: number | null): string => {
+  if (ms === null) return '—';
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { FinalRenderPayload } from '@/utils/buildFinalRenderPayload';
+import { MAX_REPRINT_TICKETS, REPRINT_MARKER_FONT, reprintPayload, reprintVoidRequest, resolveReprintSelection } from '@/utils/reprints';
+
+const slot = { font_family: 'Helvetica', font_size_mm: 5, anchor_space: 'object_mm' as const, x_mm: 10, y_mm: 4, letter_spacing_mm: 0, rotation_deg: 0, color: '#000' };
+
+const job = {
+  job_id: 'orig',
+  svg_s3_key: 'k',
+  render_mode: 'exact_mm_nup',
+  imposition: { rows: 2, columns: 2, numbering_order: 'cut-and-stack' },
+  series_list: [
+    { ...slot, start: 'X', count: 1000, data_column: 'name' },
+    { ...slot, start: 'A0001', count: 1000 },
+  ],
+} as unknown as FinalRenderPayload;
+
+describe('resolveReprintSelection', () => {
+  it('reads lists and ranges of printed values', () => {
+    expect(resolveReprintSelection(job, 'A0413–A0416, A0420\nA0414')).toEqual([412, 413, 414, 415, 419]);
+    expect(resolveReprintSelection(job, 'A0416-A0413')).toEqual([412, 413, 414, 415]);
+  });
+
+  it('rejects values outside the job and oversized selections', () => {
+    expect(() => resolveReprintSelection(job, 'A2000')).toThrow(/not a ticket of this job/);
+    expect(() => resolveReprintSelection(job, ' , ')).toThrow(/Enter the series values/);
+    const big = { ...job, series_list: [{ ...slot, start: '00001', count: MAX_REPRINT_TICKETS + 5 }] } as unknown as FinalRenderPayload;
+    expect(() => resolveReprintSelection(big, `00001–${String(MAX_REPRINT_TICKETS + 5).padStart(5, '0')}`)).toThrow(/at most/);
+  });
+
+  it('matches values with hyphens and check digits', () => {
+    const hyphenated = { ...job, series_list: [{ ...slot, start: 'A-01', count: 20, check_digit: { scheme: 'luhn', separator: '-' } }] } as unknown as FinalRenderPayload;
+    expect(resolveReprintSelection(hyphenated, 'A-03')).toEqual([2]);
+    expect(resolveReprintSelection(hyphenated, 'A-03-A-05')).toEqual([2, 3, 4]);
+  });
+});
+
+describe('reprintPayload', () => {
+  it('sets the marker in a standard font, not the subset counter font', () => {
+    const branded = {
+      ...job,
+      series_list: [{ ...slot, font_family: 'Brand Sans', start: 'A0001', count: 10 }],
+      custom_fonts: [{ family: 'Brand Sans', font_id: 'f1', data_url: 'data:font/ttf;base64,AA', mime: 'font/ttf', subset_hash: 'h' }],
+    } as unknown as FinalRenderPayload;
+    const reprint = reprintPayload(branded, [3], 'new');
+    expect(reprint.reprint?.marker.font_family).toBe(REPRINT_MARKER_FONT);
+    expect(reprint.custom_fonts).toEqual(branded.custom_fonts);
+  });
+
+  it('places each ticket at its original sheet and cell', () => {
+    const reprint = reprintPayload(job, [412, 413, 999], 'new');
+    expect(reprint.job_id).toBe('new');
+    expect(reprint.series_list).toEqual(job.series_list);
+    // 250 sheets, cut and stack: ticket i is on sheet i % 250, cell i / 250
+    expect(reprint.reprint?.tickets).toEqual([
+      { ticket_index: 412, sheet_index: 162, cell_index: 1, series_value: 'A0413' },
+      { ticket_index: 413, sheet_index: 163, cell_index: 1, series_value: 'A0414' },
+      { ticket_index: 999, sheet_index: 249, cell_index: 3, series_value: 'A1000' },
+    ]);
+    expect(reprint.reprint).toMatchObject({ original_job_id: 'orig', marker: { text: 'REPRINT', x_mm: 10, y_mm: 10, font_size_mm: 3 } });
+    expect(reprint.job_summary).toMatchObject({ series_start: 'A0413', series_end: 'A1000', tickets: 3, pages: 3 });
+    expect(reprintVoidRequest(reprint, '  ')).toEqual({
+      reprint_job_id: 'new',
+      reason: null,
+      tickets: [
+        { ticket_index: 412, series_value: 'A0413' },
+        { ticket_index: 413, series_value: 'A0414' },
+        { ticket_index: 999, series_value: 'A1000' },
+      ],
+    });
+  });
+
+  it('only reprints tickets a reprint job printed', () => {
+    const reprint = reprintPayload(job, [412, 413], 'r1');
+    expect(resolveReprintSelection(reprint, 'A0414')).toEqual([413]);
+    expect(() => resolveReprintSelection(reprint, 'A0413-A0415')).toThrow(/did not print/);
+  });
+});
@@ -0,0 +1,141 @@
+// Reprinting damaged tickets of a finished job. A reprint is a new job built
+// from the original payload: counters and records are unchanged, so every
+// ticket keeps its number, and reprint.tickets lists the tickets to print at
+// their original sheet and cell. The service leaves every other cell blank and
+// prints the marker on each reprinted ticket. The original tickets are then
+// recorded as voided in the history of the job they came from.
+//
+// Reprints are not reserved in the series register: they print numbers the
+// original job already holds.
+import type { FinalRenderPayload } from '@/utils/buildFinalRenderPayload';
+import { withCheckDigit } from '@/utils/checkDigits';
+import { ticketPosition } from '@/utils/numberingOrder';
+import { payloadCellsPerSheet, summarizeRenderPayload } from '@/utils/renderJobs';
+import { seriesValueAt } from '@/utils/seriesEngine';
+
+export const REPRINT_MARKER = 'REPRINT';
+// The job's custom fonts are subset to the glyphs its slots print, which the
+// marker text need not be in, so the marker is set in a standard PDF font
+export const REPRINT_MARKER_FONT = 'Helvetica';
+export const MAX_REPRINT_TICKETS = 5000;
+
+export type ReprintTicket = {
+  ticket_index: number;
+  sheet_index: number;
+  cell_index: number;
+  series_value: string;
+};
+
+type CounterSlot = NonNullable<FinalRenderPayload['series_list']>[number];
+
+// The slot whose values identify tickets: the first front counter, as on the jobs page
+const counterOf = (payload: FinalRenderPayload): CounterSlot | null => {
+  const counters = (payload.series_list ?? []).filter((s) => !s.data_column);
+  return counters.find((s) => !s.side) ?? counters[0] ?? (payload.series ? (payload.series as CounterSlot) : null);
+};
+
+// Printed value of every ticket of the job, with and without check digit
+const ticketLookup = (counter: CounterSlot) => {
+  const format = { step: counter.step, alphabet: counter.alphabet, rollover: counter.rollover };
+  const values: string[] = [];
+  const indexOf = new Map<string, number>();
+  for (let i = 0; i < counter.count; i += 1) {
+    const plain = seriesValueAt(counter.start, i, format);
+    const printed = withCheckDigit(plain, counter.check_digit);
+    values.push(printed);
+    indexOf.set(plain, i);
+    indexOf.set(printed, i);
+  }
+  return { values, indexOf };
+};
+
+const RANGE_SEPARATOR = /–|—|\.\.|-/g;
+
+// Ticket indices for a list of values and ranges ("A0413–A0416, A0420"). A
+// hyphen is only read as a range when the text around it is two ticket
+// values, so values that contain hyphens can still be listed.
+export const resolveReprintSelection = (payload: FinalRenderPayload, text: string): number[] => {
+  const counter = counterOf(payload);
+  if (!counter) throw new Error('This job has no counter to select tickets by');
+  const { indexOf } = ticketLookup(counter);
+  const allowed = payload.reprint ? new Set(payload.reprint.tickets.map((t) => t.ticket_index)) : null;
+
+  const selected = new Set<number>();
+  const tokens = String(text ?? '')
+    .split(/[,;\n]+/)
+    .map((t) => t.trim())
+    .filter(Boolean);
+  if (!tokens.length) throw new Error('Enter the series values to reprint');
+
+  tokens.forEach((token) => {
+    let range: [number, number] | null = indexOf.has(token) ? [indexOf.get(token) as number, indexOf.get(token) as number] : null;
+    for (const match of token.matchAll(RANGE_SEPARATOR)) {
+      if (range) break;
+      const from = indexOf.get(token.slice(0, match.index).trim());
+      const to = indexOf.get(token.slice((match.index ?? 0) + match[0].length).trim());
+      if (from !== undefined && to !== undefined) range = [Math.min(from, to), Math.max(from, to)];
+    }
+    if (!range) throw new Error(`"${token}" is not a ticket of this job`);
+    if (range[1] - range[0] + 1 + selected.size > MAX_REPRINT_TICKETS) {
+      throw new Error(`Reprint at most ${MAX_REPRINT_TICKETS} tickets at a time`);
+    }
+    for (let i = range[0]; i <= range[1]; i += 1) {
+      if (allowed && !allowed.has(i)) throw new Error(`"${token}" includes tickets this reprint did not print`);
+      selected.add(i);
+    }
+  });
+  return [...selected].sort((a, b) => a - b);
+};
+
+// Payload of a job that prints only `ticketIndices` of `payload`, in place
+export const reprintPayload = (payload: FinalRenderPayload, ticketIndices: number[], jobId: string, marker = REPRINT_MARKER): FinalRenderPayload => {
+  const counter = counterOf(payload);
+  if (!counter) throw new Error('This job has no counter to select tickets by');
+  const { values } = ticketLookup(counter);
+  const cells = payloadCellsPerSheet(payload);
+  const grid = {
+    rows: payload.imposition?.rows ?? cells,
+    columns: payload.imposition?.columns ?? 1,
+    sheetCount: Math.max(1, Math.ceil(counter.count / Math.max(1, cells))),
+  };
+  const order = payload.imposition?.numbering_order ?? 'row-major';
+  const tickets: ReprintTicket[] = ticketIndices.map((ticket_index) => {
+    const { sheetIndex, cellIndex } = ticketPosition(order, grid, ticket_index);
+    return { ticket_index, sheet_index: sheetIndex, cell_index: cellIndex, series_value: values[ticket_index] ?? '' };
+  });
+  if (!tickets.length) throw new Error('Select at least one ticket to reprint');
+  const sheets = new Set(tickets.map((t) => t.sheet_index)).size;
+
+  return {
+    ...payload,
+    job_id: jobId,
+    batch: undefined,
+    reprint: {
+      original_job_id: payload.job_id,
+      tickets,
+      // Set under the counter, smaller than it
+      marker: {
+        text: marker,
+        x_mm: counter.x_mm,
+        y_mm: counter.y_mm + counter.font_size_mm * 1.2,
+        font_family: REPRINT_MARKER_FONT,
+        font_size_mm: Number((counter.font_size_mm * 0.6).toFixed(2)),
+        color: counter.color,
+      },
+    },
+    job_summary: {
+      ...summarizeRenderPayload(payload),
+      series_start: tickets[0].series_value,
+      series_end: tickets[tickets.length - 1].series_value,
+      tickets: tickets.length,
+      pages: payload.duplex ? sheets * 2 : sheets,
+    },
+  };
+};
+
+// Body of POST /api/vector/jobs/:jobId/voids for the tickets a reprint replaces
+export const reprintVoidRequest = (reprint: FinalRenderPayload, reason: string) => ({
+  reprint_job_id: reprint.job_id,
+  reason: reason.trim() || null,
+  tickets: (reprint.reprint?.tickets ?? []).map((t) => ({ ticket_index: t.ticket_index, series_value: t.series_value })),
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+  alignUnits,
+  arrangeUnits,
+  distributeUnits,
+  expandToGroups,
+  groupItems,
+  marqueeSelect,
+  pruneGroups,
+  toggleSelection,
+  ungroupItems,
+  type ItemBox,
+} from '@/utils/selection';
+
+const item = (id: string, xMm: number, yMm: number, widthMm = 10, heightMm = 5): ItemBox => ({ id, box: { xMm, yMm, widthMm, heightMm } });
+
+describe('groups', () => {
+  it('selects whole groups and regroups without duplicates', () => {
+    let groups = groupItems([], ['a', 'b'], 'g1');
+    expect(expandToGroups(['b', 'c'], groups)).toEqual(['a', 'b', 'c']);
+
+    // Moving b into a new group leaves g1 with a single member, which is dropped
+    groups = groupItems(groups, ['b', 'c'], 'g2');
+    expect(groups).toEqual([{ id: 'g2', memberIds: ['b', 'c'] }]);
+    expect(ungroupItems(groups, ['c'])).toEqual([]);
+  });
+
+  it('prunes deleted members', () => {
+    const groups = [{ id: 'g', memberIds: ['a', 'b', 'c'] }];
+    expect(pruneGroups(groups, ['a', 'b', 'c'])).toBe(groups);
+    expect(pruneGroups(groups, ['a', 'c'])).toEqual([{ id: 'g', memberIds: ['a', 'c'] }]);
+    expect(pruneGroups(groups, ['a'])).toEqual([]);
+  });
+});
+
+describe('selection', () => {
+  it('toggles with shift-click and picks items under a marquee', () => {
+    expect(toggleSelection(['a'], ['b'])).toEqual(['a', 'b']);
+    expect(toggleSelection(['a', 'b'], ['b'])).toEqual(['a']);
+    const items = [item('a', 0, 0), item('b', 30, 0), item('c', 0, 30)];
+    expect(marqueeSelect({ xMm: 5, yMm: -5, widthMm: 30, heightMm: 10 }, items)).toEqual(['a', 'b']);
+  });
+});
+
+describe('align and distribute', () => {
+  const items = [item('a', 10, 0, 10), item('b', 50, 20, 20), item('c', 25, 40, 6)];
+
+  it('aligns to the selection bounds', () => {
+    const left = alignUnits(arrangeUnits(items, []), 'left');
+    expect(left.get('a')).toBeUndefined();
+    expect(left.get('b')).toEqual({ dxMm: -40, dyMm: 0 });
+    expect(alignUnits(arrangeUnits(items, []), 'right').get('a')).toEqual({ dxMm: 50, dyMm: 0 });
+  });
+
+  it('moves a group as one unit', () => {
+    const units = arrangeUnits(items, [{ id: 'g', memberIds: ['a', 'c'] }]);
+    expect(units.map((u) => u.ids)).toEqual([['a', 'c'], ['b']]);
+    // The group spans x 10..31, so both members shift by the same amount
+    const right = alignUnits(units, 'right');
+    expect(right.get('a')).toEqual({ dxMm: 39, dyMm: 0 });
+    expect(right.get('c')).toEqual({ dxMm: 39, dyMm: 0 });
+  });
+
+  it('aligns a single unit to the given bounds', () => {
+    const d = alignUnits(arrangeUnits([item('a', 10, 3, 20, 4)], []), 'middle', { xMm: 0, yMm: 0, widthMm: 200, heightMm: 70 });
+    expect(d.get('a')).toEqual({ dxMm: 0, dyMm: 30 });
+  });
+
+  it('spaces units evenly between the outermost ones', () => {
+    const d = distributeUnits(arrangeUnits([item('a', 0, 0), item('b', 12, 0), item('c', 40, 0)], []), 'x');
+    expect(d.get('b')).toEqual({ dxMm: 8, dyMm: 0 });
+    expect(d.has('a')).toBe(false);
+    expect(d.has('c')).toBe(false);
+    expect(distributeUnits(arrangeUnits([item('a', 0, 0), item('b', 12, 0)], []), 'x').size).toBe(0);
+  });
+});
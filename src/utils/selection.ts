@@ -0,0 +1,141 @@
+// Multi-selection, locked groups and align/distribute for canvas items
+// (series slots and the image/SVG overlays), all in object mm.
+//
+// A group is locked: selecting any member selects all of them, and align and
+// distribute move the group as one unit using the bounds of its members.
+import type { Box } from '@/utils/snapping';
+
+export type SelectionGroup = { id: string; memberIds: string[] };
+
+export type ItemBox = { id: string; box: Box };
+
+// One thing to arrange: a lone item or a whole group
+export type ArrangeUnit = { ids: string[]; box: Box };
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+export type MoveDelta = { dxMm: number; dyMm: number };
+
+export const unionBox = (boxes: Box[]): Box | null => {
+  if (!boxes.length) return null;
+  const left = Math.min(...boxes.map((b) => b.xMm));
+  const top = Math.min(...boxes.map((b) => b.yMm));
+  const right = Math.max(...boxes.map((b) => b.xMm + b.widthMm));
+  const bottom = Math.max(...boxes.map((b) => b.yMm + b.heightMm));
+  return { xMm: left, yMm: top, widthMm: right - left, heightMm: bottom - top };
+};
+
+const intersects = (a: Box, b: Box) =>
+  a.xMm <= b.xMm + b.widthMm && b.xMm <= a.xMm + a.widthMm && a.yMm <= b.yMm + b.heightMm && b.yMm <= a.yMm + a.heightMm;
+
+// Items touched by a marquee rectangle (any overlap counts)
+export const marqueeSelect = (rect: Box, items: ItemBox[]): string[] => items.filter((item) => intersects(rect, item.box)).map((item) => item.id);
+
+// Adds the other members of any group an id belongs to
+export const expandToGroups = (ids: string[], groups: SelectionGroup[]): string[] => {
+  const out: string[] = [];
+  for (const id of ids) {
+    const group = groups.find((g) => g.memberIds.includes(id));
+    for (const member of group ? group.memberIds : [id]) if (!out.includes(member)) out.push(member);
+  }
+  return out;
+};
+
+// Shift-click: removes the ids when all of them are already selected, adds them otherwise
+export const toggleSelection = (selected: string[], ids: string[]): string[] =>
+  ids.every((id) => selected.includes(id)) ? selected.filter((id) => !ids.includes(id)) : [...selected, ...ids.filter((id) => !selected.includes(id))];
+
+// Drops members that no longer exist and groups left with fewer than two members
+export const pruneGroups = (groups: SelectionGroup[], existingIds: string[]): SelectionGroup[] => {
+  let changed = false;
+  const next = groups.flatMap((g) => {
+    const memberIds = g.memberIds.filter((id) => existingIds.includes(id));
+    if (memberIds.length !== g.memberIds.length) changed = true;
+    if (memberIds.length < 2) {
+      changed = true;
+      return [];
+    }
+    return [memberIds.length === g.memberIds.length ? g : { ...g, memberIds }];
+  });
+  return changed ? next : groups;
+};
+
+// Groups the ids into a new group, taking them out of any group they were in
+export const groupItems = (groups: SelectionGroup[], ids: string[], groupId: string): SelectionGroup[] => {
+  if (ids.length < 2) return groups;
+  const rest = groups.map((g) => ({ ...g, memberIds: g.memberIds.filter((id) => !ids.includes(id)) })).filter((g) => g.memberIds.length >= 2);
+  return [...rest, { id: groupId, memberIds: [...ids] }];
+};
+
+// Dissolves every group that contains one of the ids
+export const ungroupItems = (groups: SelectionGroup[], ids: string[]): SelectionGroup[] =>
+  groups.filter((g) => !g.memberIds.some((id) => ids.includes(id)));
+
+export const arrangeUnits = (items: ItemBox[], groups: SelectionGroup[]): ArrangeUnit[] => {
+  const units: ArrangeUnit[] = [];
+  const seen = new Set<string>();
+  for (const item of items) {
+    if (seen.has(item.id)) continue;
+    const group = groups.find((g) => g.memberIds.includes(item.id));
+    const members = group ? items.filter((i) => group.memberIds.includes(i.id)) : [item];
+    members.forEach((m) => seen.add(m.id));
+    const box = unionBox(members.map((m) => m.box));
+    if (box) units.push({ ids: members.map((m) => m.id), box });
+  }
+  return units;
+};
+
+const deltasFor = (units: ArrangeUnit[], delta: (u: ArrangeUnit) => MoveDelta): Map<string, MoveDelta> => {
+  const out = new Map<string, MoveDelta>();
+  for (const unit of units) {
+    const d = delta(unit);
+    if (Math.abs(d.dxMm) < 1e-9 && Math.abs(d.dyMm) < 1e-9) continue;
+    unit.ids.forEach((id) => out.set(id, d));
+  }
+  return out;
+};
+
+// Aligns units to the edge or centre of `bounds` (the selection's own bounds by default)
+export const alignUnits = (units: ArrangeUnit[], mode: AlignMode, bounds?: Box | null): Map<string, MoveDelta> => {
+  const b = bounds ?? unionBox(units.map((u) => u.box));
+  if (!b) return new Map();
+  return deltasFor(units, ({ box }) => {
+    switch (mode) {
+      case 'left':
+        return { dxMm: b.xMm - box.xMm, dyMm: 0 };
+      case 'center':
+        return { dxMm: b.xMm + b.widthMm / 2 - (box.xMm + box.widthMm / 2), dyMm: 0 };
+      case 'right':
+        return { dxMm: b.xMm + b.widthMm - (box.xMm + box.widthMm), dyMm: 0 };
+      case 'top':
+        return { dxMm: 0, dyMm: b.yMm - box.yMm };
+      case 'middle':
+        return { dxMm: 0, dyMm: b.yMm + b.heightMm / 2 - (box.yMm + box.heightMm / 2) };
+      case 'bottom':
+        return { dxMm: 0, dyMm: b.yMm + b.heightMm - (box.yMm + box.heightMm) };
+    }
+  });
+};
+
+// Equal gaps between units along an axis; the outermost two stay put. Needs three or more.
+export const distributeUnits = (units: ArrangeUnit[], axis: 'x' | 'y'): Map<string, MoveDelta> => {
+  if (units.length < 3) return new Map();
+  const start = (b: Box) => (axis === 'x' ? b.xMm : b.yMm);
+  const size = (b: Box) => (axis === 'x' ? b.widthMm : b.heightMm);
+  const sorted = [...units].sort((a, b) => start(a.box) - start(b.box));
+  const first = sorted[0].box;
+  const last = sorted[sorted.length - 1].box;
+  const span = start(last) + size(last) - start(first);
+  const gap = (span - sorted.reduce((sum, u) => sum + size(u.box), 0)) / (sorted.length - 1);
+
+  const targets = new Map<ArrangeUnit, number>();
+  let cursor = start(first);
+  for (const unit of sorted) {
+    targets.set(unit, cursor);
+    cursor += size(unit.box) + gap;
+  }
+  return deltasFor(units, (u) => {
+    const d = (targets.get(u) ?? start(u.box)) - start(u.box);
+    return axis === 'x' ? { dxMm: d, dyMm: 0 } : { dxMm: 0, dyMm: d };
+  });
+};
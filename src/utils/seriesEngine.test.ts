@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SERIES_ALPHABETS,
+  calculateEndingSeries,
+  generateSeries,
+  incrementSeries,
+  parseSeries,
+  seriesCounterValue,
+  seriesPrefixGlyphs,
+  seriesValueAt,
+  type SeriesFormat,
+} from '@/utils/seriesEngine';
+
+describe('parseSeries', () => {
+  it.each([
+    ['A001', {}, { prefix: 'A', counter: '001', template: '001', suffix: '' }],
+    ['A 001', {}, { prefix: 'A ', counter: '001', template: '001', suffix: '' }],
+    ['A0 01', {}, { prefix: 'A', counter: '001', template: '0 01', suffix: '' }],
+    ['v08  ', {}, { prefix: 'v', counter: '08', template: '08', suffix: '  ' }],
+    ['2024-0001', {}, { prefix: '2024-', counter: '0001', template: '0001', suffix: '' }],
+    ['TKT-AB', { alphabet: SERIES_ALPHABETS.alpha }, { prefix: 'TKT-', counter: 'AB', template: 'AB', suffix: '' }],
+    ['AB123', { alphabet: SERIES_ALPHABETS.alphanumeric, counterWidth: 3 }, { prefix: 'AB', counter: '123', template: '123', suffix: '' }],
+  ] as [string, SeriesFormat, ReturnType<typeof parseSeries>][])('parses %s', (value, format, expected) => {
+    expect(parseSeries(value, format)).toEqual(expected);
+  });
+
+  it('returns null when there is no counter', () => {
+    expect(parseSeries('ABC')).toBeNull();
+    expect(parseSeries('   ')).toBeNull();
+  });
+
+  it('rejects invalid alphabets', () => {
+    expect(() => parseSeries('A1', { alphabet: 'A' })).toThrow();
+    expect(() => parseSeries('A1', { alphabet: 'AAB' })).toThrow();
+    expect(() => parseSeries('A1', { alphabet: 'A B' })).toThrow();
+  });
+});
+
+describe('incrementSeries', () => {
+  const table: { name: string; value: string; increment: number; format: SeriesFormat; expected: string }[] = [
+    { name: 'numeric', value: 'A001', increment: 1, format: {}, expected: 'A002' },
+    { name: 'numeric keeps width', value: 'A009', increment: 1, format: {}, expected: 'A010' },
+    { name: 'spaced template', value: 'A 0 09', increment: 1, format: {}, expected: 'A 0 10' },
+    { name: 'carry into prefix', value: 'A999', increment: 1, format: { rollover: 'carry' }, expected: 'B000' },
+    { name: 'carry by more than one', value: 'A999', increment: 2001, format: { rollover: 'carry' }, expected: 'D000' },
+    { name: 'carry skips separators', value: 'AZ-99', increment: 1, format: { rollover: 'carry' }, expected: 'BA-00' },
+    { name: 'carry keeps case', value: 'az9', increment: 1, format: { rollover: 'carry' }, expected: 'ba0' },
+    { name: 'wrap', value: 'A999', increment: 1, format: { rollover: 'wrap' }, expected: 'A000' },
+    { name: 'wrap by more than one', value: 'A998', increment: 5, format: { rollover: 'wrap' }, expected: 'A003' },
+    { name: 'alpha counter', value: 'AA', increment: 1, format: { alphabet: SERIES_ALPHABETS.alpha }, expected: 'AB' },
+    { name: 'alpha counter rolls', value: 'AZ', increment: 1, format: { alphabet: SERIES_ALPHABETS.alpha }, expected: 'BA' },
+    {
+      name: 'unambiguous skips O/0/I/1',
+      value: 'N9',
+      increment: 1,
+      format: { alphabet: SERIES_ALPHABETS.unambiguous },
+      expected: 'NA',
+    },
+    {
+      name: 'unambiguous skips I',
+      value: 'TKT-H',
+      increment: 1,
+      format: { alphabet: SERIES_ALPHABETS.unambiguous },
+      expected: 'TKT-J',
+    },
+    { name: 'non-series value is its own first ticket', value: 'VIP', increment: 0, format: {}, expected: 'VIP' },
+  ];
+
+  it.each(table)('$name: $value + $increment -> $expected', ({ value, increment, format, expected }) => {
+    expect(incrementSeries(value, increment, format)).toBe(expected);
+  });
+
+  it.each([
+    ['stop', 'A999', { rollover: 'stop' } as SeriesFormat],
+    ['carry with no prefix left', 'Z999', { rollover: 'carry' } as SeriesFormat],
+    ['carry with an empty prefix', '999', { rollover: 'carry' } as SeriesFormat],
+  ])('throws on overflow (%s)', (_name, value, format) => {
+    expect(() => incrementSeries(value, 1, format)).toThrow(/Series overflow/);
+  });
+
+  it('throws when the value has no counter to advance', () => {
+    expect(() => incrementSeries('VIP', 3)).toThrow(/has no counter/);
+    expect(() => generateSeries('A001', 3, { alphabet: SERIES_ALPHABETS.alpha })).toThrow(/has no counter/);
+    expect(generateSeries('A001', 1, { alphabet: SERIES_ALPHABETS.alpha })).toEqual(['A001']);
+  });
+
+  it('lists the prefix characters a carrying run passes through', () => {
+    const end = calculateEndingSeries('A999', 2001);
+    expect(end).toBe('C999');
+    expect(seriesPrefixGlyphs('A999', end)).toContain('B');
+    expect(seriesPrefixGlyphs('AZ9', 'BB9')).toBe('AZAB' + SERIES_ALPHABETS.alpha);
+    expect(seriesPrefixGlyphs('A001', 'A500')).toBe('AA');
+  });
+
+  it('reads the counter as a number in its alphabet', () => {
+    expect(seriesCounterValue('A 0 42')).toBe(42);
+    expect(seriesCounterValue('AB', { alphabet: SERIES_ALPHABETS.alpha })).toBe(1);
+    expect(seriesCounterValue('A001', { alphabet: SERIES_ALPHABETS.alpha })).toBeNull();
+  });
+
+  it('rejects negative or fractional increments', () => {
+    expect(() => incrementSeries('A001', -1)).toThrow();
+    expect(() => incrementSeries('A001', 1.5)).toThrow();
+  });
+});
+
+describe('series runs', () => {
+  it.each([
+    { start: 'A001', count: 20, format: {}, expected: 'A020' },
+    { start: 'A001', count: 5, format: { step: 10 }, expected: 'A041' },
+    { start: 'A990', count: 20, format: { rollover: 'carry' }, expected: 'B009' },
+    { start: 'A990', count: 20, format: { rollover: 'wrap' }, expected: 'A009' },
+    { start: 'AA', count: 27, format: { alphabet: SERIES_ALPHABETS.alpha }, expected: 'BA' },
+  ] as { start: string; count: number; format: SeriesFormat; expected: string }[])(
+    'calculateEndingSeries($start, $count) -> $expected',
+    ({ start, count, format, expected }) => {
+      expect(calculateEndingSeries(start, count, format)).toBe(expected);
+    }
+  );
+
+  it('generates consecutive values with a step', () => {
+    expect(generateSeries('A001', 4, { step: 2 })).toEqual(['A001', 'A003', 'A005', 'A007']);
+    expect(seriesValueAt('A001', 3, { step: 2 })).toBe('A007');
+  });
+
+  it('throws in stop mode when the run does not fit', () => {
+    expect(() => calculateEndingSeries('A990', 20, { rollover: 'stop' })).toThrow(/Series overflow/);
+    expect(calculateEndingSeries('A990', 10, { rollover: 'stop' })).toBe('A999');
+  });
+
+  it('rejects invalid steps', () => {
+    expect(() => seriesValueAt('A001', 1, { step: 0 })).toThrow();
+  });
+});
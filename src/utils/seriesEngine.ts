@@ -0,0 +1,209 @@
+// Series numbering engine - shared by the ticket editor, the payload builder and
+// scripts/checkSeriesOrder.ts.
+//
+// A series value is split into three parts:
+//   prefix  - fixed text in front of the counter ("A" in "A001")
+//   counter - trailing run of alphabet characters ("001"); single spaces between
+//             counter characters are kept as a template ("0 01")
+//   suffix  - trailing whitespace, preserved as-is
+//
+// The counter is a base-N number over `alphabet`. When it overflows, `rollover`
+// decides what happens:
+//   carry - carry into the prefix (A999 -> B000); prefix characters carry within
+//           their own class (A-Z, a-z, 0-9), non-alphanumerics are skipped
+//   stop  - throw, so a job never prints a truncated or repeated number
+//   wrap  - wrap the counter back to zero and keep the prefix (A999 -> A000)
+
+export type SeriesRollover = 'carry' | 'stop' | 'wrap';
+
+export type SeriesFormat = {
+  alphabet?: string;
+  rollover?: SeriesRollover;
+  // Fixed counter width; when unset the counter is the whole trailing run.
+  counterWidth?: number;
+  step?: number;
+};
+
+export type ParsedSeries = {
+  prefix: string;
+  counter: string;
+  template: string;
+  suffix: string;
+};
+
+export const SERIES_ALPHABETS = {
+  numeric: '0123456789',
+  alpha: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  alphanumeric: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  // No O/0 or I/1, for codes that are read back or typed by hand.
+  unambiguous: '23456789ABCDEFGHJKLMNPQRSTUVWXYZ',
+} as const;
+
+export const DEFAULT_SERIES_ALPHABET = SERIES_ALPHABETS.numeric;
+export const DEFAULT_SERIES_ROLLOVER: SeriesRollover = 'carry';
+
+const PREFIX_CLASSES = ['ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz', '0123456789'];
+
+export const resolveSeriesAlphabet = (alphabet?: string | null): string => {
+  const a = typeof alphabet === 'string' && alphabet ? alphabet : DEFAULT_SERIES_ALPHABET;
+  if (a.length < 2) throw new Error('Series alphabet needs at least 2 characters');
+  if (/\s/.test(a)) throw new Error('Series alphabet cannot contain whitespace');
+  if (new Set(a.split('')).size !== a.length) throw new Error('Series alphabet has duplicate characters');
+  return a;
+};
+
+export const resolveSeriesRollover = (rollover?: string | null): SeriesRollover => {
+  return rollover === 'stop' || rollover === 'wrap' || rollover === 'carry' ? rollover : DEFAULT_SERIES_ROLLOVER;
+};
+
+const resolveStep = (step?: number | null): number => {
+  const n = Number(step ?? 1);
+  if (!(Number.isInteger(n) && n >= 1)) throw new Error(`Series step must be a whole number >= 1 (got ${step})`);
+  return n;
+};
+
+export const parseSeries = (value: string, format: SeriesFormat = {}): ParsedSeries | null => {
+  const alphabet = resolveSeriesAlphabet(format.alphabet);
+  const width = Number.isInteger(format.counterWidth) && Number(format.counterWidth) > 0 ? Number(format.counterWidth) : Infinity;
+  const str = String(value ?? '');
+
+  let end = str.length - 1;
+  while (end >= 0 && /\s/.test(str[end])) end -= 1;
+  if (end < 0) return null;
+
+  let i = end;
+  let taken = 0;
+  while (i >= 0 && taken < width) {
+    const ch = str[i];
+    if (alphabet.includes(ch)) {
+      taken += 1;
+      i -= 1;
+      continue;
+    }
+    if (ch === ' ' && taken > 0 && i > 0 && alphabet.includes(str[i - 1])) {
+      i -= 1;
+      continue;
+    }
+    break;
+  }
+
+  if (!taken) return null;
+  const template = str.slice(i + 1, end + 1);
+  return {
+    prefix: str.slice(0, i + 1),
+    counter: template.replace(/ /g, ''),
+    template,
+    suffix: str.slice(end + 1),
+  };
+};
+
+// Adds `amount` to the alphanumeric characters of the prefix, right to left.
+// Returns null when the carry runs off the front of the prefix.
+const carryIntoPrefix = (prefix: string, amount: number): string | null => {
+  const chars = prefix.split('');
+  let carry = amount;
+  for (let i = chars.length - 1; i >= 0 && carry > 0; i -= 1) {
+    const cls = PREFIX_CLASSES.find((c) => c.includes(chars[i]));
+    if (!cls) continue;
+    const sum = cls.indexOf(chars[i]) + carry;
+    chars[i] = cls[sum % cls.length];
+    carry = Math.floor(sum / cls.length);
+  }
+  return carry > 0 ? null : chars.join('');
+};
+
+export const incrementSeries = (value: string, increment: number, format: SeriesFormat = {}): string => {
+  if (!(Number.isInteger(increment) && increment >= 0)) {
+    throw new Error(`Series increment must be a whole number >= 0 (got ${increment})`);
+  }
+
+  const parsed = parseSeries(value, format);
+  if (!parsed) {
+    // Without a counter every ticket would print the same number
+    if (increment === 0) return value;
+    throw new Error(`Series "${value.trim()}" has no counter: it must end in characters of the alphabet ${resolveSeriesAlphabet(format.alphabet)}`);
+  }
+
+  const alphabet = resolveSeriesAlphabet(format.alphabet);
+  const rollover = resolveSeriesRollover(format.rollover);
+  const base = alphabet.length;
+
+  const digits = parsed.counter.split('').map((ch) => alphabet.indexOf(ch));
+  let carry = increment;
+  for (let i = digits.length - 1; i >= 0 && carry > 0; i -= 1) {
+    const sum = digits[i] + carry;
+    digits[i] = sum % base;
+    carry = Math.floor(sum / base);
+  }
+
+  let prefix = parsed.prefix;
+  if (carry > 0) {
+    if (rollover === 'stop') {
+      throw new Error(`Series overflow: ${value.trim()} + ${increment} does not fit in ${parsed.counter.length} counter characters`);
+    }
+    if (rollover === 'carry') {
+      const next = carryIntoPrefix(prefix, carry);
+      if (next === null) {
+        throw new Error(`Series overflow: ${value.trim()} + ${increment} cannot carry past the prefix "${prefix}"`);
+      }
+      prefix = next;
+    }
+  }
+
+  let j = 0;
+  const counter = parsed.template
+    .split('')
+    .map((ch) => (ch === ' ' ? ch : alphabet[digits[j++]]))
+    .join('');
+
+  return `${prefix}${counter}${parsed.suffix}`;
+};
+
+// The counter of `value` as a number in its alphabet's base (A001 -> 1, with
+// alphabet A-Z: AB -> 1); null when the value has no counter.
+export const seriesCounterValue = (value: string, format: SeriesFormat = {}): number | null => {
+  const parsed = parseSeries(value, format);
+  if (!parsed) return null;
+  const alphabet = resolveSeriesAlphabet(format.alphabet);
+  return parsed.counter.split('').reduce((n, ch) => n * alphabet.length + alphabet.indexOf(ch), 0);
+};
+
+// Every prefix character a carrying run from `start` to `end` prints. Ticket
+// values in between can show characters neither end has (A999 -> C999 passes
+// B000-B999): the first prefix character that changes steps through its class
+// from start to end, and every character after it can take any of its class.
+export const seriesPrefixGlyphs = (start: string, end: string, format: SeriesFormat = {}): string => {
+  const from = parseSeries(start, format)?.prefix ?? '';
+  const to = parseSeries(end, format)?.prefix ?? '';
+  const first = Array.from(from).findIndex((ch, i) => ch !== to[i]);
+  if (first < 0 || from.length !== to.length) return `${from}${to}`;
+  const classOf = (ch: string) => PREFIX_CLASSES.find((c) => c.includes(ch)) ?? ch;
+  const cls = classOf(from[first]);
+  const stepped = cls.slice(cls.indexOf(from[first]), cls.indexOf(to[first]) + 1);
+  return `${from}${stepped}${Array.from(from.slice(first + 1)).map(classOf).join('')}`;
+};
+
+// Value of the ticket at zero-based position `index` in a run starting at `start`.
+export const seriesValueAt = (start: string, index: number, format: SeriesFormat = {}): string => {
+  return incrementSeries(start, index * resolveStep(format.step), format);
+};
+
+export const calculateEndingSeries = (start: string, totalTickets: number, format: SeriesFormat = {}): string => {
+  return seriesValueAt(start, Math.max(0, Math.trunc(totalTickets) - 1), format);
+};
+
+export const generateSeries = (start: string, count: number, format: SeriesFormat = {}): string[] => {
+  return Array.from({ length: Math.max(0, Math.trunc(count)) }, (_, idx) => seriesValueAt(start, idx, format));
+};
+
+// Format of a series slot; the slot shape is kept structural so the engine does
+// not depend on editor components.
+export const seriesFormatOf = (slot: {
+  seriesIncrement?: number | null;
+  seriesAlphabet?: string | null;
+  seriesRollover?: SeriesRollover | null;
+}): SeriesFormat => ({
+  step: Number.isFinite(Number(slot?.seriesIncrement)) && Number(slot?.seriesIncrement) >= 1 ? Math.trunc(Number(slot.seriesIncrement)) : 1,
+  alphabet: slot?.seriesAlphabet || undefined,
+  rollover: resolveSeriesRollover(slot?.seriesRollover),
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import type { FinalRenderPayload } from '@/utils/buildFinalRenderPayload';
+import {
+  payloadSeriesRanges,
+  reserveRerun,
+  resolveSeriesReservation,
+  resolveSeriesScope,
+  seriesConflictMessage,
+  seriesReservationError,
+  seriesScopeError,
+  type SeriesRegisterClient,
+} from '@/utils/seriesRegister';
+
+const slot = { font_family: 'Helvetica', font_size_mm: 4, anchor_space: 'object_mm' as const, x_mm: 0, y_mm: 0, letter_spacing_mm: 0, rotation_deg: 0, color: '#000' };
+
+describe('series scope', () => {
+  it('trims and requires client and event', () => {
+    expect(resolveSeriesScope({ client: '  City Lottery ', event: 'Draw 7' })).toEqual({ client: 'City Lottery', event: 'Draw 7' });
+    expect(seriesScopeError(resolveSeriesScope({ client: 'City Lottery', event: '   ' }))).toMatch(/client and event/);
+    expect(seriesScopeError({ client: 'a', event: 'b' })).toBeNull();
+  });
+});
+
+describe('payloadSeriesRanges', () => {
+  it('lists every counter slot of series_list and skips data-driven slots', () => {
+    const payload = {
+      job_id: 'j',
+      series_list: [
+        { ...slot, start: 'A001', count: 500 },
+        { ...slot, start: 'X', count: 500, data_column: 'name' },
+        { ...slot, start: 'B10', count: 3, step: 5 },
+      ],
+      series: { ...slot, start: 'A001', count: 500 },
+    } as unknown as FinalRenderPayload;
+    expect(payloadSeriesRanges(payload)).toEqual([
+      { slot_index: 0, start: 'A001', end: 'A500', count: 500 },
+      { slot_index: 2, start: 'B10', end: 'B20', count: 3, step: 5 },
+    ]);
+  });
+
+  it('falls back to the legacy series', () => {
+    const payload = { job_id: 'j', series: { ...slot, start: '0001', count: 10 } } as unknown as FinalRenderPayload;
+    expect(payloadSeriesRanges(payload)).toEqual([{ slot_index: 0, start: '0001', end: '0010', count: 10 }]);
+  });
+});
+
+describe('reservations', () => {
+  const conflict = {
+    id: 'r1',
+    client: 'City Lottery',
+    event: 'Draw 7',
+    job_id: 'abcdef123456',
+    slot_index: 0,
+    start: 'A001',
+    end: 'A500',
+    count: 500,
+    created_at: '2026-03-02T09:30:00Z',
+    created_by: 'ops@example.com',
+  };
+
+  it('reads reservations from the service JSON', () => {
+    expect(resolveSeriesReservation(conflict)).toMatchObject({ jobId: 'abcdef123456', start: 'A001', end: 'A500', createdBy: 'ops@example.com' });
+    expect(resolveSeriesReservation({ job_id: 'x' })).toBeNull();
+  });
+
+  it('explains which job already printed an overlapping range', () => {
+    expect(seriesConflictMessage({ conflicts: [conflict] })).toBe(
+      'Series overlap: A001–A500 was already printed for City Lottery / Draw 7 by job abcdef12 (ops@example.com, 2026-03-02).'
+    );
+    expect(seriesConflictMessage({ conflicts: [conflict, conflict, conflict] })).toMatch(/and 2 more ranges\.$/);
+    expect(seriesReservationError({ response: { status: 409, data: {} } })).toMatch(/overlap a range/);
+    expect(seriesReservationError({ response: { status: 500, data: { message: 'Register offline' } } })).toBe('Register offline');
+  });
+});
+
+describe('reserveRerun', () => {
+  const payload = {
+    job_id: 'old',
+    series: { ...slot, start: 'A001', count: 100 },
+    series_register: { client: 'City Lottery', event: 'Draw 7' },
+  } as unknown as FinalRenderPayload;
+
+  // One range in the register: who holds it, and whether it was ever free
+  const fakeRegister = (holder: string | null) => {
+    const state = { holder, wasFree: holder === null };
+    const register: SeriesRegisterClient = {
+      reserve: async (request) => {
+        if (state.holder !== null && state.holder !== request.replaces) throw { response: { status: 409, data: {} } };
+        state.holder = request.job_id;
+      },
+      release: async (jobId) => {
+        if (state.holder === jobId) state.holder = null;
+        state.wasFree = true;
+      },
+    };
+    return { state, register };
+  };
+
+  it('hands a failed job\'s range back when the re-run fails', async () => {
+    const { state, register } = fakeRegister('old');
+    const giveBack = await reserveRerun({ payload, jobId: 'old', rerunId: 'new', handOver: true, register });
+    expect(state.holder).toBe('new');
+    await Promise.reject(new Error('Renderer offline')).catch(giveBack);
+    expect(state).toEqual({ holder: 'old', wasFree: false });
+  });
+
+  it('keeps the old reservation when the hand-over is rejected', async () => {
+    const { state, register } = fakeRegister('someone-else');
+    await expect(reserveRerun({ payload, jobId: 'old', rerunId: 'new', handOver: true, register })).rejects.toThrow(/overlap a range/);
+    expect(state).toEqual({ holder: 'someone-else', wasFree: false });
+  });
+
+  it('releases a fresh reservation when the re-run fails', async () => {
+    const { state, register } = fakeRegister(null);
+    const giveBack = await reserveRerun({ payload, jobId: 'old', rerunId: 'new', handOver: false, register });
+    expect(state.holder).toBe('new');
+    await giveBack();
+    expect(state.holder).toBeNull();
+  });
+
+  it('reserves nothing for reprints', async () => {
+    const { state, register } = fakeRegister('old');
+    const reprint = { ...payload, reprint: { original_job_id: 'old' } } as unknown as FinalRenderPayload;
+    await (await reserveRerun({ payload: reprint, jobId: 'old', rerunId: 'new', handOver: true, register }))();
+    expect(state).toEqual({ holder: 'old', wasFree: false });
+  });
+});
@@ -0,0 +1,154 @@
+// The series register records every range a job prints, per client and
+// event, so a number is never printed by two jobs. The editor reserves a
+// job's ranges before submitting it; the service rejects (409) a reservation
+// that overlaps one already in the register for the same client and event
+// and returns the conflicting reservations. A reservation request may name a
+// job whose reservation it `replaces`: the service moves the ranges to the new
+// job in one step, so the numbers are never free in between.
+import type { FinalRenderPayload } from '@/utils/buildFinalRenderPayload';
+import { calculateEndingSeries, type SeriesRollover } from '@/utils/seriesEngine';
+
+export type SeriesScope = {
+  client: string;
+  event: string;
+};
+
+export const DEFAULT_SERIES_SCOPE: SeriesScope = { client: '', event: '' };
+
+const SCOPE_MAX_LENGTH = 120;
+
+export const resolveSeriesScope = (raw?: Partial<SeriesScope> | null): SeriesScope => ({
+  client: String(raw?.client ?? '').trim().slice(0, SCOPE_MAX_LENGTH),
+  event: String(raw?.event ?? '').trim().slice(0, SCOPE_MAX_LENGTH),
+});
+
+export const seriesScopeError = (scope: SeriesScope): string | null =>
+  scope.client && scope.event ? null : 'Enter the client and event for the series register before generating.';
+
+// One counter slot's range as sent to POST /api/series-register/reservations
+export type SeriesRangeRequest = {
+  slot_index: number;
+  start: string;
+  end: string;
+  count: number;
+  step?: number;
+  alphabet?: string;
+  rollover?: SeriesRollover;
+};
+
+// Every counter range the job prints; data-driven slots print records, not a range
+export const payloadSeriesRanges = (payload: FinalRenderPayload): SeriesRangeRequest[] => {
+  const slots = payload.series_list?.length ? payload.series_list : payload.series ? [payload.series] : [];
+  return slots.flatMap((slot, slot_index) => {
+    const { step, alphabet, rollover, data_column } = slot as { step?: number; alphabet?: string; rollover?: SeriesRollover; data_column?: string };
+    const count = Math.max(0, Math.trunc(Number(slot.count) || 0));
+    if (data_column || !count) return [];
+    return [
+      {
+        slot_index,
+        start: slot.start,
+        end: calculateEndingSeries(slot.start, count, { step, alphabet, rollover }),
+        count,
+        ...(step ? { step } : {}),
+        ...(alphabet ? { alphabet } : {}),
+        ...(rollover ? { rollover } : {}),
+      },
+    ];
+  });
+};
+
+export type SeriesReservation = {
+  id: string;
+  client: string;
+  event: string;
+  jobId: string;
+  slotIndex: number;
+  start: string;
+  end: string;
+  count: number;
+  createdAt: number | null;
+  createdBy: string | null;
+};
+
+// A reservation from the service's snake_case JSON; null when it has no range
+export const resolveSeriesReservation = (raw: unknown): SeriesReservation | null => {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const start = String(r.start ?? '').trim();
+  if (!start) return null;
+  const createdAt = typeof r.created_at === 'number' ? r.created_at : Date.parse(String(r.created_at ?? ''));
+  return {
+    id: String(r.id ?? ''),
+    client: String(r.client ?? ''),
+    event: String(r.event ?? ''),
+    jobId: String(r.job_id ?? ''),
+    slotIndex: Math.max(0, Math.trunc(Number(r.slot_index) || 0)),
+    start,
+    end: String(r.end ?? start),
+    count: Math.max(0, Math.trunc(Number(r.count) || 0)),
+    createdAt: Number.isFinite(createdAt) ? createdAt : null,
+    createdBy: String(r.created_by ?? '').trim() || null,
+  };
+};
+
+export const resolveSeriesReservations = (raw: unknown): SeriesReservation[] => {
+  const list = Array.isArray(raw) ? raw : Array.isArray((raw as { reservations?: unknown })?.reservations) ? (raw as { reservations: unknown[] }).reservations : [];
+  return list.map(resolveSeriesReservation).filter((r): r is SeriesReservation => r !== null);
+};
+
+export const formatSeriesRange = (r: { start: string; end: string }) => (r.start === r.end ? r.start : `${r.start}–${r.end}`);
+
+const describeReservation = (r: SeriesReservation) => {
+  const by = [r.createdBy, r.createdAt !== null ? new Date(r.createdAt).toISOString().slice(0, 10) : null].filter(Boolean).join(', ');
+  return `${formatSeriesRange(r)} was already printed for ${r.client} / ${r.event} by job ${r.jobId.slice(0, 8) || '?'}${by ? ` (${by})` : ''}`;
+};
+
+// Message for a rejected reservation (the body of the service's 409)
+export const seriesConflictMessage = (raw: unknown): string => {
+  const conflicts = resolveSeriesReservations((raw as { conflicts?: unknown } | null)?.conflicts ?? raw);
+  if (!conflicts.length) return 'These series numbers overlap a range already in the series register.';
+  const more = conflicts.length > 1 ? ` and ${conflicts.length - 1} more range${conflicts.length === 2 ? '' : 's'}` : '';
+  return `Series overlap: ${describeReservation(conflicts[0])}${more}.`;
+};
+
+// Message for a failed reservation request: the overlap for a 409, else the service's message
+export const seriesReservationError = (e: unknown): string => {
+  const err = e as { message?: string; response?: { status?: number; data?: { message?: string } } } | null;
+  if (err?.response?.status === 409) return seriesConflictMessage(err.response.data);
+  return String(err?.response?.data?.message || err?.message || '').trim() || 'Could not reserve the series range';
+};
+
+export type SeriesReservationRequest = SeriesScope & {
+  job_id: string;
+  ranges: SeriesRangeRequest[];
+  replaces?: string;
+};
+
+export type SeriesRegisterClient = {
+  reserve: (request: SeriesReservationRequest) => Promise<unknown>;
+  release: (jobId: string) => Promise<unknown>;
+};
+
+// Reserves the ranges a re-run prints under its new job id and returns how to
+// give them back if the re-run fails. Reprints reuse the numbers their original
+// job holds, so they reserve nothing. A failed job printed nothing, so its
+// reservation is handed over to the re-run and handed back on failure; any
+// other job keeps its numbers and the register rejects printing them twice.
+export const reserveRerun = async (params: {
+  payload: FinalRenderPayload;
+  jobId: string;
+  rerunId: string;
+  handOver: boolean;
+  register: SeriesRegisterClient;
+}): Promise<() => Promise<unknown>> => {
+  const { payload, jobId, rerunId, handOver, register } = params;
+  const ranges = payloadSeriesRanges(payload);
+  if (!payload.series_register || payload.reprint || !ranges.length) return async () => undefined;
+  await register
+    .reserve({ ...payload.series_register, job_id: rerunId, ranges, ...(handOver ? { replaces: jobId } : {}) })
+    .catch((e) => {
+      throw new Error(seriesReservationError(e));
+    });
+  return handOver
+    ? () => register.reserve({ ...payload.series_register, job_id: jobId, ranges, replaces: rerunId })
+    : () => register.release(rerunId);
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { boxDistances, buildSnapTargets, resolveSnapSettings, snapBox } from '@/utils/snapping';
+
+const objectMm = { widthMm: 200, heightMm: 70 };
+const smart = resolveSnapSettings({ smartGuides: true, thresholdMm: 1, gridEnabled: false });
+
+describe('snapBox', () => {
+  it('snaps centres to the crop box centre lines', () => {
+    const targets = buildSnapTargets({ objectMm });
+    const r = snapBox({ xMm: 89.4, yMm: 29.6, widthMm: 20, heightMm: 10 }, targets, smart);
+    expect(r.xMm).toBeCloseTo(90);
+    expect(r.yMm).toBeCloseTo(30);
+    expect(r.lines).toEqual(
+      expect.arrayContaining([
+        { axis: 'x', mm: 100, source: 'object' },
+        { axis: 'y', mm: 35, source: 'object' },
+      ])
+    );
+  });
+
+  it('aligns edges to other slots, guides and artwork', () => {
+    const targets = buildSnapTargets({
+      objectMm,
+      guides: [{ id: 'g', axis: 'y', mm: 12 }],
+      slotBoxes: [{ xMm: 40, yMm: 50, widthMm: 30, heightMm: 8 }],
+      artworkBoxes: [{ xMm: 150, yMm: 5, widthMm: 40, heightMm: 20 }],
+    });
+    // Right edge to the slot's right edge, top edge to the guide
+    const r = snapBox({ xMm: 50.6, yMm: 11.3, widthMm: 20, heightMm: 5 }, targets, smart);
+    expect(r.xMm).toBeCloseTo(50);
+    expect(r.yMm).toBeCloseTo(12);
+    // Left edge to the artwork box
+    expect(snapBox({ xMm: 150.8, yMm: 40, widthMm: 10, heightMm: 5 }, targets, smart).xMm).toBeCloseTo(150);
+  });
+
+  it('falls back to the grid when nothing is close', () => {
+    const targets = buildSnapTargets({ objectMm });
+    const r = snapBox({ xMm: 23.3, yMm: 47.8, widthMm: 10, heightMm: 4 }, targets, resolveSnapSettings({ gridEnabled: true, gridMm: 0.5 }));
+    expect(r).toMatchObject({ xMm: 23.5, yMm: 48, lines: [] });
+  });
+
+  it('leaves the box alone with snapping off', () => {
+    const targets = buildSnapTargets({ objectMm });
+    const r = snapBox({ xMm: 0.3, yMm: 0.2, widthMm: 10, heightMm: 4 }, targets, resolveSnapSettings({ smartGuides: false }));
+    expect(r).toMatchObject({ xMm: 0.3, yMm: 0.2 });
+  });
+});
+
+describe('boxDistances', () => {
+  it('measures to the nearest facing slot or the crop edge', () => {
+    const d = boxDistances(
+      { xMm: 50, yMm: 20, widthMm: 20, heightMm: 10 },
+      [
+        { xMm: 10, yMm: 22, widthMm: 30, heightMm: 5 },
+        { xMm: 55, yMm: 40, widthMm: 10, heightMm: 5 },
+      ],
+      objectMm
+    );
+    expect(d.left).toEqual({ mm: 10, toMm: 40 });
+    expect(d.right).toEqual({ mm: 130, toMm: 200 });
+    expect(d.top).toEqual({ mm: 20, toMm: 0 });
+    expect(d.bottom).toEqual({ mm: 10, toMm: 40 });
+  });
+});
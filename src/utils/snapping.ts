@@ -0,0 +1,143 @@
+// Snapping for slot placement, all in object mm (origin at the crop box's
+// top-left corner, same space as slot x_mm/y_mm).
+//
+// A dragged box snaps its left/centre/right edges to vertical snap lines and
+// its top/middle/bottom edges to horizontal ones: the crop box edges and
+// centre, user guides, other slots and artwork element bounds. When nothing
+// is within the threshold the box's top-left corner falls back to the grid.
+
+export type Box = { xMm: number; yMm: number; widthMm: number; heightMm: number };
+
+export type SnapSource = 'object' | 'guide' | 'slot' | 'artwork';
+
+export type SnapLine = { mm: number; source: SnapSource };
+
+export type SnapTargets = { x: SnapLine[]; y: SnapLine[] };
+
+// 'x' guides are vertical lines at x = mm, 'y' guides horizontal lines at y = mm
+export type Guide = { id: string; axis: 'x' | 'y'; mm: number };
+
+export type SnapSettings = {
+  gridEnabled: boolean;
+  gridMm: number;
+  smartGuides: boolean;
+  thresholdMm: number;
+};
+
+export type SnapResult = {
+  xMm: number;
+  yMm: number;
+  // Lines the box ended up aligned to, for drawing smart guides
+  lines: { axis: 'x' | 'y'; mm: number; source: SnapSource }[];
+};
+
+export type BoxDistances = {
+  left: { mm: number; toMm: number } | null;
+  right: { mm: number; toMm: number } | null;
+  top: { mm: number; toMm: number } | null;
+  bottom: { mm: number; toMm: number } | null;
+};
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  gridEnabled: false,
+  gridMm: 1,
+  smartGuides: true,
+  thresholdMm: 1,
+};
+
+const finiteAtLeast = (raw: unknown, min: number, fallback: number): number => {
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= min ? n : fallback;
+};
+
+export const resolveSnapSettings = (raw?: Partial<SnapSettings> | null): SnapSettings => {
+  const d = DEFAULT_SNAP_SETTINGS;
+  return {
+    gridEnabled: typeof raw?.gridEnabled === 'boolean' ? raw.gridEnabled : d.gridEnabled,
+    gridMm: finiteAtLeast(raw?.gridMm, 0.1, d.gridMm),
+    smartGuides: typeof raw?.smartGuides === 'boolean' ? raw.smartGuides : d.smartGuides,
+    thresholdMm: finiteAtLeast(raw?.thresholdMm, 0, d.thresholdMm),
+  };
+};
+
+const edgesX = (b: Box) => [b.xMm, b.xMm + b.widthMm / 2, b.xMm + b.widthMm];
+const edgesY = (b: Box) => [b.yMm, b.yMm + b.heightMm / 2, b.yMm + b.heightMm];
+
+export const buildSnapTargets = (params: {
+  objectMm: { widthMm: number; heightMm: number };
+  guides?: Guide[];
+  slotBoxes?: Box[];
+  artworkBoxes?: Box[];
+}): SnapTargets => {
+  const object: Box = { xMm: 0, yMm: 0, widthMm: params.objectMm.widthMm, heightMm: params.objectMm.heightMm };
+  const x: SnapLine[] = edgesX(object).map((mm) => ({ mm, source: 'object' }));
+  const y: SnapLine[] = edgesY(object).map((mm) => ({ mm, source: 'object' }));
+  for (const g of params.guides ?? []) (g.axis === 'x' ? x : y).push({ mm: g.mm, source: 'guide' });
+  for (const [boxes, source] of [
+    [params.slotBoxes ?? [], 'slot'],
+    [params.artworkBoxes ?? [], 'artwork'],
+  ] as const) {
+    for (const b of boxes) {
+      x.push(...edgesX(b).map((mm) => ({ mm, source })));
+      y.push(...edgesY(b).map((mm) => ({ mm, source })));
+    }
+  }
+  return { x, y };
+};
+
+// Smallest move that aligns one of the box edges with a line, within the threshold
+const bestSnap = (edges: number[], lines: SnapLine[], thresholdMm: number): { delta: number; line: SnapLine } | null => {
+  let best: { delta: number; line: SnapLine } | null = null;
+  for (const line of lines) {
+    for (const edge of edges) {
+      const delta = line.mm - edge;
+      if (Math.abs(delta) <= thresholdMm + 1e-9 && (!best || Math.abs(delta) < Math.abs(best.delta))) best = { delta, line };
+    }
+  }
+  return best;
+};
+
+const toGrid = (mm: number, gridMm: number) => Math.round(mm / gridMm) * gridMm;
+
+export const snapBox = (box: Box, targets: SnapTargets, settings: SnapSettings): SnapResult => {
+  const sx = settings.smartGuides ? bestSnap(edgesX(box), targets.x, settings.thresholdMm) : null;
+  const sy = settings.smartGuides ? bestSnap(edgesY(box), targets.y, settings.thresholdMm) : null;
+
+  const xMm = sx ? box.xMm + sx.delta : settings.gridEnabled ? toGrid(box.xMm, settings.gridMm) : box.xMm;
+  const yMm = sy ? box.yMm + sy.delta : settings.gridEnabled ? toGrid(box.yMm, settings.gridMm) : box.yMm;
+
+  const snapped = { ...box, xMm, yMm };
+  const eq = (a: number, b: number) => Math.abs(a - b) < 1e-6;
+  // Every line the final box touches, not only the one that caused the snap
+  const lines = [
+    ...(sx ? targets.x.filter((l) => edgesX(snapped).some((e) => eq(e, l.mm))).map((l) => ({ axis: 'x' as const, ...l })) : []),
+    ...(sy ? targets.y.filter((l) => edgesY(snapped).some((e) => eq(e, l.mm))).map((l) => ({ axis: 'y' as const, ...l })) : []),
+  ];
+  return { xMm, yMm, lines };
+};
+
+const overlaps = (a0: number, a1: number, b0: number, b1: number) => a0 < b1 && b0 < a1;
+
+// Gap from each side of the box to the nearest slot facing it, or to the crop box edge
+export const boxDistances = (box: Box, others: Box[], objectMm: { widthMm: number; heightMm: number }): BoxDistances => {
+  const right = box.xMm + box.widthMm;
+  const bottom = box.yMm + box.heightMm;
+  const sameRow = others.filter((o) => overlaps(box.yMm, bottom, o.yMm, o.yMm + o.heightMm));
+  const sameColumn = others.filter((o) => overlaps(box.xMm, right, o.xMm, o.xMm + o.widthMm));
+
+  const nearest = (gaps: { mm: number; toMm: number }[]) =>
+    gaps.filter((g) => g.mm >= -1e-9).reduce<{ mm: number; toMm: number } | null>((best, g) => (!best || g.mm < best.mm ? g : best), null);
+
+  return {
+    left: nearest([{ mm: box.xMm, toMm: 0 }, ...sameRow.map((o) => ({ mm: box.xMm - (o.xMm + o.widthMm), toMm: o.xMm + o.widthMm }))]),
+    right: nearest([
+      { mm: objectMm.widthMm - right, toMm: objectMm.widthMm },
+      ...sameRow.map((o) => ({ mm: o.xMm - right, toMm: o.xMm })),
+    ]),
+    top: nearest([{ mm: box.yMm, toMm: 0 }, ...sameColumn.map((o) => ({ mm: box.yMm - (o.yMm + o.heightMm), toMm: o.yMm + o.heightMm }))]),
+    bottom: nearest([
+      { mm: objectMm.heightMm - bottom, toMm: objectMm.heightMm },
+      ...sameColumn.map((o) => ({ mm: o.yMm - bottom, toMm: o.yMm })),
+    ]),
+  };
+};
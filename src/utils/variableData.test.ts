@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { columnValues, parseCsv, toVariableDataTable, variableDataRowCountError } from '@/utils/variableData';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('name,seat\nAda,A1\r\nBob,A2\n')).toEqual([
+      ['name', 'seat'],
+      ['Ada', 'A1'],
+      ['Bob', 'A2'],
+    ]);
+  });
+
+  it('keeps delimiters, newlines and escaped quotes inside quoted fields', () => {
+    expect(parseCsv('name,note\n"Lovelace, Ada","line 1\nline ""2"""')).toEqual([
+      ['name', 'note'],
+      ['Lovelace, Ada', 'line 1\nline "2"'],
+    ]);
+  });
+
+  it('detects semicolon and tab delimiters from the header', () => {
+    expect(parseCsv('a;b\n1,5;2')).toEqual([
+      ['a', 'b'],
+      ['1,5', '2'],
+    ]);
+    expect(parseCsv('a\tb\n1\t2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('strips a UTF-8 byte order mark', () => {
+    expect(parseCsv('\uFEFFcode\nX1')[0]).toEqual(['code']);
+  });
+
+  it('rejects an unterminated quote', () => {
+    expect(() => parseCsv('a\n"open')).toThrow(/unterminated/);
+  });
+});
+
+describe('toVariableDataTable', () => {
+  it('uses the first row as headers and pads short rows', () => {
+    const table = toVariableDataTable('seats.csv', [
+      ['name', 'seat', ''],
+      ['Ada', 'A1'],
+      [' ', ''],
+      ['Bob', 'A2', 'VIP'],
+    ]);
+    expect(table.columns).toEqual(['name', 'seat', 'Column 3']);
+    expect(table.rows).toEqual([
+      ['Ada', 'A1', ''],
+      ['Bob', 'A2', 'VIP'],
+    ]);
+  });
+
+  it('renames duplicate headers', () => {
+    expect(toVariableDataTable('x.csv', [['code', 'code'], ['1', '2']]).columns).toEqual(['code', 'code (2)']);
+  });
+
+  it('requires at least one data row', () => {
+    expect(() => toVariableDataTable('x.csv', [['code']])).toThrow(/no data rows/);
+  });
+});
+
+describe('row count check', () => {
+  const table = toVariableDataTable('codes.csv', [['code'], ['C1'], ['C2'], ['C3']]);
+
+  it('reports a sheet shorter than the job', () => {
+    expect(variableDataRowCountError(table, 4)).toMatch(/3 rows but the job needs 4 tickets/);
+  });
+
+  it('accepts extra rows and reads only the tickets needed', () => {
+    expect(variableDataRowCountError(table, 2)).toBeNull();
+    expect(columnValues(table, 'code', 2)).toEqual(['C1', 'C2']);
+  });
+});
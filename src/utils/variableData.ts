@@ -0,0 +1,145 @@
+// Variable-data tables imported from a client spreadsheet (CSV or XLSX).
+//
+// The first row holds the column headers; every following row is one ticket's
+// record. Slots bound to a column print that column's cell for their ticket
+// instead of a counter value.
+import { readSheet } from 'read-excel-file/browser';
+
+export type VariableDataTable = {
+  fileName: string;
+  columns: string[];
+  rows: string[][];
+};
+
+export const VARIABLE_DATA_ACCEPT = '.csv,.tsv,.txt,.xlsx';
+
+const cellToString = (cell: unknown): string => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+  return String(cell).trim();
+};
+
+// Picks the delimiter that occurs most often outside quotes on the header line.
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', ';', '\t'];
+  let best = ',';
+  let bestCount = 0;
+  for (const d of candidates) {
+    let count = 0;
+    let quoted = false;
+    for (const ch of firstLine) {
+      if (ch === '"') quoted = !quoted;
+      else if (ch === d && !quoted) count += 1;
+    }
+    if (count > bestCount) {
+      best = d;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+// RFC 4180 parsing: quoted fields may contain delimiters, newlines and "" escapes.
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const src = String(text ?? '').replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i += 1) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i += 1;
+        } else {
+          quoted = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && !field) {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (quoted) throw new Error('CSV has an unterminated quoted field');
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Turns raw sheet rows into a table: trims cells, drops blank rows and names
+// unnamed or duplicate header cells so every column can be bound.
+export const toVariableDataTable = (fileName: string, rawRows: unknown[][]): VariableDataTable => {
+  const rows = rawRows
+    .map((r) => (Array.isArray(r) ? r.map(cellToString) : []))
+    .filter((r) => r.some((c) => c !== ''));
+  if (!rows.length) throw new Error(`${fileName} has no rows`);
+
+  const [header, ...body] = rows;
+  const width = Math.max(header.length, ...body.map((r) => r.length));
+  const seen = new Map<string, number>();
+  const columns = Array.from({ length: width }, (_, idx) => {
+    const base = header[idx] || `Column ${idx + 1}`;
+    const n = (seen.get(base) ?? 0) + 1;
+    seen.set(base, n);
+    return n > 1 ? `${base} (${n})` : base;
+  });
+
+  if (!body.length) throw new Error(`${fileName} has a header row but no data rows`);
+
+  return {
+    fileName,
+    columns,
+    rows: body.map((r) => columns.map((_, idx) => r[idx] ?? '')),
+  };
+};
+
+export const parseVariableDataFile = async (file: File): Promise<VariableDataTable> => {
+  const name = file.name || 'data';
+  if (/\.xlsx$/i.test(name)) {
+    const sheet = await readSheet(file);
+    return toVariableDataTable(name, sheet as unknown[][]);
+  }
+  if (/\.xls$/i.test(name)) {
+    throw new Error('Legacy .xls files are not supported; save the sheet as .xlsx or .csv');
+  }
+  return toVariableDataTable(name, parseCsv(await file.text()));
+};
+
+// Values of one column for the first `count` tickets.
+export const columnValues = (table: VariableDataTable, column: string, count: number): string[] => {
+  const idx = table.columns.indexOf(column);
+  if (idx < 0) throw new Error(`Column "${column}" is not in ${table.fileName}`);
+  return table.rows.slice(0, count).map((r) => r[idx] ?? '');
+};
+
+// Returns an error when the table cannot cover every ticket, otherwise null.
+// Extra rows are allowed and ignored.
+export const variableDataRowCountError = (table: VariableDataTable | null, ticketsRequired: number): string | null => {
+  if (!table) return null;
+  if (table.rows.length < ticketsRequired) {
+    return `${table.fileName} has ${table.rows.length} rows but the job needs ${ticketsRequired} tickets. Add rows or reduce Total Pages.`;
+  }
+  return null;
+};